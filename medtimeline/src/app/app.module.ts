@@ -6,7 +6,7 @@
 import 'fhirclient';
 
 import {HttpClientModule} from '@angular/common/http';
-import {NgModule} from '@angular/core';
+import {APP_INITIALIZER, NgModule} from '@angular/core';
 import {FlexLayoutModule} from '@angular/flex-layout';
 import {FormsModule, ReactiveFormsModule} from '@angular/forms';
 // tslint:disable-next-line:max-line-length
@@ -24,6 +24,7 @@ import {environment} from '../environments/environment';
 
 import {AppRoutingModule} from './app-routing.module';
 import {AppComponent} from './app.component';
+import {CardBuilderDialogComponent} from './card-builder-dialog/card-builder-dialog.component';
 import {CardcontainerComponent} from './cardcontainer/cardcontainer.component';
 import {CardComponent} from './cardtypes/card/card.component';
 // tslint:disable-next-line:max-line-length
@@ -32,6 +33,8 @@ import {CustomizableTimelineComponent} from './cardtypes/customizable-timeline/c
 import {MultiGraphCardComponent} from './cardtypes/multigraphcard/multigraphcard.component';
 import {TextboxcardComponent} from './cardtypes/textboxcard/textboxcard.component';
 import {ResourceCodeManager} from './clinicalconcepts/resource-code-manager';
+import {ConceptConfigService, loadConceptConfig} from './concept-config.service';
+import {ConceptMapService, loadConceptMaps} from './concept-map.service';
 import {DataSelectorElementComponent} from './data-selector-element/data-selector-element.component';
 import {DataSelectorMenuComponent} from './data-selector-menu/data-selector-menu.component';
 import {DebuggerComponent} from './debugger/debugger.component';
@@ -39,15 +42,20 @@ import {DeleteDialogComponent} from './delete-dialog/delete-dialog.component';
 import {FhirHttpService} from './fhir-http.service';
 import {FhirLaunchComponent} from './fhir-launch/fhir-launch.component';
 import {FhirService} from './fhir.service';
+import {FileFhirService} from './file-fhir.service';
 import {CustomizableGraphComponent} from './graphtypes/customizable-graph/customizable-graph.component';
 import {LineGraphComponent} from './graphtypes/linegraph/linegraph.component';
 import {MicrobioGraphComponent} from './graphtypes/microbio-graph/microbio-graph.component';
 import {ScatterplotComponent} from './graphtypes/scatterplot/scatterplot.component';
 import {StepGraphComponent} from './graphtypes/stepgraph/stepgraph.component';
 import {HelpDialogComponent} from './help-dialog/help-dialog.component';
+import {loadMedicationClasses, MedicationClassService} from './medication-class.service';
 import {MockFhirService} from './mock-fhir.service';
+import {PatientHeaderComponent} from './patient-header/patient-header.component';
+import {loadRxNormIngredients, RxNormIngredientService} from './rx-norm-ingredient.service';
 import {SetupComponent} from './setup/setup.component';
 import {SMART_ON_FHIR_CLIENT} from './smart-on-fhir-client';
+import {DEFAULT_FHIR_SERVICE, SwitchableFhirService} from './switchable-fhir.service';
 import {TimelineControllerComponent} from './timeline-controller/timeline-controller.component';
 import {TimelineToolbarComponent} from './timeline-toolbar/timeline-toolbar.component';
 
@@ -74,6 +82,8 @@ import {TimelineToolbarComponent} from './timeline-toolbar/timeline-toolbar.comp
     DeleteDialogComponent,
     DebuggerComponent,
     SetupComponent,
+    PatientHeaderComponent,
+    CardBuilderDialogComponent,
   ],
   imports: [
     BrowserModule,
@@ -109,15 +119,50 @@ import {TimelineToolbarComponent} from './timeline-toolbar/timeline-toolbar.comp
     // assets/fhir-client.min.js (defined as symbol `FHIR`) so that it can be
     // injected into the service that uses it to allow for easier testing.
     {provide: SMART_ON_FHIR_CLIENT, useValue: FHIR}, {
-      provide: FhirService,
+      provide: DEFAULT_FHIR_SERVICE,
       useClass: environment.useMockServer ? MockFhirService : FhirHttpService
     },
-    {provide: ResourceCodeManager, useClass: ResourceCodeManager}
+    // The rest of the app uses whichever data source is picked on the setup
+    // screen.
+    FileFhirService, SwitchableFhirService,
+    {provide: FhirService, useExisting: SwitchableFhirService},
+    {provide: ResourceCodeManager, useClass: ResourceCodeManager},
+    // The catalogue of cards is loaded before the app starts, since the
+    // ResourceCodeManager builds its cards from it.
+    {
+      provide: APP_INITIALIZER,
+      useFactory: loadConceptConfig,
+      deps: [ConceptConfigService],
+      multi: true
+    },
+    // So are the site's ConceptMaps, since Observations are read with them.
+    {
+      provide: APP_INITIALIZER,
+      useFactory: loadConceptMaps,
+      deps: [ConceptMapService],
+      multi: true
+    },
+    // And the site's RxNorm ingredient table, since medications are read with
+    // it.
+    {
+      provide: APP_INITIALIZER,
+      useFactory: loadRxNormIngredients,
+      deps: [RxNormIngredientService],
+      multi: true
+    },
+    // And the site's medication classes, since the ResourceCodeManager makes
+    // a medication summary card for each of them.
+    {
+      provide: APP_INITIALIZER,
+      useFactory: loadMedicationClasses,
+      deps: [MedicationClassService],
+      multi: true
+    }
   ],
   bootstrap: [AppComponent],
   entryComponents: [
     CustomizableTimelineDialogComponent, HelpDialogComponent,
-    DeleteDialogComponent
+    DeleteDialogComponent, CardBuilderDialogComponent
   ]
 })
 export class AppModule {
@@ -0,0 +1,92 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {FormsModule} from '@angular/forms';
+// tslint:disable-next-line:max-line-length
+import {MatAutocompleteModule, MatButtonToggleModule, MatCheckboxModule, MatDialogRef, MatIconModule, MatInputModule, MatTooltipModule} from '@angular/material';
+import {NoopAnimationsModule} from '@angular/platform-browser/animations';
+
+import {LOINCCode} from '../clinicalconcepts/loinc-code';
+import {ResourceCodeManager} from '../clinicalconcepts/resource-code-manager';
+import {StubFhirService} from '../test_utils';
+
+import {CardBuilderDialogComponent} from './card-builder-dialog.component';
+
+describe('CardBuilderDialogComponent', () => {
+  let component: CardBuilderDialogComponent;
+  let fixture: ComponentFixture<CardBuilderDialogComponent>;
+  let resourceCodeManagerStub: ResourceCodeManager;
+
+  beforeEach(async(() => {
+    resourceCodeManagerStub = new ResourceCodeManager(new StubFhirService());
+    TestBed
+        .configureTestingModule({
+          declarations: [CardBuilderDialogComponent],
+          imports: [
+            FormsModule, MatAutocompleteModule, MatButtonToggleModule,
+            MatCheckboxModule, MatIconModule, MatInputModule, MatTooltipModule,
+            NoopAnimationsModule
+          ],
+          providers: [
+            {provide: MatDialogRef, useValue: {}},
+            {provide: ResourceCodeManager, useValue: resourceCodeManagerStub}
+          ]
+        })
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(CardBuilderDialogComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should make the configuration of the card built', () => {
+    component.label = 'Lactate and pH ';
+    component.axes[0].label = 'Lactate';
+    component.axes[0].codes[0] = {code: '2524-7', label: 'Lactate'};
+    component.addAxis();
+    component.axes[1].label = 'pH';
+    component.axes[1].chartType = 'SCATTER';
+    component.axes[1].codes[0] = {code: '2744-1', label: 'pH'};
+    component.axes[1].lowerBound = 6.8;
+    component.axes[1].upperBound = 7.8;
+    component.axes[1].forceDisplayBounds = true;
+
+    expect(component.findProblem()).toBeUndefined();
+    const card = component.toCardConfig();
+    expect(card.label).toEqual('Lactate and pH');
+    expect(card.displayGrouping).toEqual('Custom Cards');
+    expect(card.axes.map(axis => axis.chartType)).toEqual(['LINE', 'SCATTER']);
+    expect(card.axes[0].displayBounds).toBeUndefined();
+    expect(card.axes[1].displayBounds).toEqual([6.8, 7.8]);
+    expect(card.axes[1].forceDisplayBounds).toBe(true);
+  });
+
+  it('should not save cards with missing fields or taken labels', () => {
+    expect(component.findProblem()).toEqual('Give the card a label.');
+    component.label = 'Complete Blood Count';
+    component.axes[0].label = 'Hemoglobin';
+    expect(component.findProblem())
+        .toEqual('Fill in the code and label of each code.');
+    component.axes[0].codes[0] = {code: '718-7', label: 'Hemoglobin'};
+    expect(component.findProblem()).toContain('already a card');
+  });
+
+  it('should suggest known codes of the axis\'s code system', () => {
+    const suggestions = component.suggestions(component.axes[0], 'hemoglobin');
+    expect(suggestions.map(code => code.codeString)).toContain('718-7');
+    expect(suggestions.every(code => code instanceof LOINCCode)).toBe(true);
+
+    component.axes[0].codes[0].code = '718-7';
+    component.selectSuggestion(component.axes[0].codes[0]);
+    expect(component.axes[0].codes[0].label).toEqual('Hemoglobin');
+  });
+});
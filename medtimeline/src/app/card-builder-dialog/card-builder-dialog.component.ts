@@ -0,0 +1,205 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Component} from '@angular/core';
+import {MatDialogRef} from '@angular/material';
+
+import {CardConfig, CodeConfig} from '../clinicalconcepts/concept-config';
+import {customCard} from '../clinicalconcepts/display-grouping';
+import {LOINCCode} from '../clinicalconcepts/loinc-code';
+import {ResourceCode} from '../clinicalconcepts/resource-code-group';
+import {ResourceCodeManager} from '../clinicalconcepts/resource-code-manager';
+import {RxNormCode} from '../clinicalconcepts/rx-norm';
+
+/**
+ * An axis of the card being built, as the user has filled it in so far.
+ */
+interface AxisDraft {
+  label: string;
+  system: string;
+  chartType: string;
+  lowerBound?: number;
+  upperBound?: number;
+  forceDisplayBounds: boolean;
+  codes: CodeConfig[];
+}
+
+// The most codes to suggest at once.
+const MAX_SUGGESTIONS = 10;
+
+@Component({
+  selector: 'app-card-builder-dialog',
+  templateUrl: './card-builder-dialog.component.html',
+  styleUrls: ['./card-builder-dialog.component.css']
+})
+
+/**
+ * A dialog for building a card out of LOINC or RxNorm codes the app was not
+ * configured with, such as lactate plus pH. Codes on the same axis are drawn
+ * on the same graph.
+ */
+export class CardBuilderDialogComponent {
+  // The code systems the user can pick codes from.
+  readonly systems = [
+    {label: 'LOINC', system: LOINCCode.CODING_STRING},
+    {label: 'RxNorm', system: RxNormCode.CODING_STRING}
+  ];
+
+  // The chart types the user can pick for an axis.
+  readonly chartTypes = [
+    {label: 'Line', chartType: 'LINE'},
+    {label: 'Scatter', chartType: 'SCATTER'}, {label: 'Step', chartType: 'STEP'}
+  ];
+
+  // The label of the card.
+  label = '';
+
+  // The axes of the card.
+  readonly axes: AxisDraft[] = [makeAxis()];
+
+  // The codes of the cards already listed, to suggest as the user types.
+  private readonly knownCodes: ResourceCode[];
+
+  constructor(
+      public dialogRef: MatDialogRef<CardBuilderDialogComponent>,
+      private resourceCodeManager: ResourceCodeManager) {
+    const codes = new Map<string, ResourceCode>();
+    for (const card of resourceCodeManager.getResourceCodeGroups()) {
+      for (const group of card.resourceCodeGroups) {
+        for (const code of group.resourceCodes) {
+          codes.set(code.codeString, code);
+        }
+      }
+    }
+    this.knownCodes = Array.from(codes.values());
+  }
+
+  addAxis() {
+    this.axes.push(makeAxis());
+  }
+
+  removeAxis(axis: AxisDraft) {
+    this.axes.splice(this.axes.indexOf(axis), 1);
+  }
+
+  addCode(axis: AxisDraft) {
+    axis.codes.push({code: '', label: ''});
+  }
+
+  removeCode(axis: AxisDraft, code: CodeConfig) {
+    axis.codes.splice(axis.codes.indexOf(code), 1);
+  }
+
+  /**
+   * Finds the known codes of an axis's code system whose code or label
+   * contains the text typed in.
+   * @param axis The axis the code is for.
+   * @param text The text typed in.
+   */
+  suggestions(axis: AxisDraft, text: string): ResourceCode[] {
+    const lowerCaseText = (text || '').toLowerCase();
+    return this.knownCodes
+        .filter(
+            code => systemOf(code) === axis.system &&
+                (code.codeString.toLowerCase().includes(lowerCaseText) ||
+                 code.label.toLowerCase().includes(lowerCaseText)))
+        .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Fills in the label of a code picked from the suggestions.
+   * @param code The code picked.
+   */
+  selectSuggestion(code: CodeConfig) {
+    const known = this.knownCodes.find(c => c.codeString === code.code);
+    if (known) {
+      code.label = known.label;
+    }
+  }
+
+  /**
+   * Makes the configuration of the card built so far.
+   */
+  toCardConfig(): CardConfig {
+    return {
+      label: this.label.trim(),
+      displayGrouping: customCard.label,
+      axes: this.axes.map(axis => {
+        const hasBounds = typeof axis.lowerBound === 'number' &&
+            typeof axis.upperBound === 'number';
+        return {
+          label: axis.label.trim(),
+          system: axis.system,
+          chartType: axis.chartType,
+          codes: axis.codes.map(
+              code => ({code: code.code.trim(), label: code.label.trim()})),
+          displayBounds: hasBounds ?
+              [axis.lowerBound, axis.upperBound] as [number, number] :
+              undefined,
+          forceDisplayBounds: hasBounds ? axis.forceDisplayBounds : undefined
+        };
+      })
+    };
+  }
+
+  /**
+   * Says why the card built so far cannot be saved, or returns undefined if it
+   * can be.
+   */
+  findProblem(): string {
+    const card = this.toCardConfig();
+    if (!card.label) {
+      return 'Give the card a label.';
+    }
+    if (card.axes.some(axis => !axis.label)) {
+      return 'Give each axis a label.';
+    }
+    if (card.axes.some(axis => axis.codes.some(c => !c.code || !c.label))) {
+      return 'Fill in the code and label of each code.';
+    }
+    if (this.axes.some(
+            axis => typeof axis.lowerBound === 'number' &&
+                typeof axis.upperBound === 'number' &&
+                axis.lowerBound >= axis.upperBound)) {
+      return 'Each lower bound must be below its upper bound.';
+    }
+    try {
+      this.resourceCodeManager.validateCard(card);
+      return undefined;
+    } catch (error) {
+      return error.message;
+    }
+  }
+
+  // Closes the dialog without building the card.
+  onCancel() {
+    this.dialogRef.close();
+  }
+
+  // Closes the dialog with the configuration of the card built.
+  onSave() {
+    this.dialogRef.close(this.toCardConfig());
+  }
+}
+
+/**
+ * Makes an axis holding one empty LOINC code, for the user to fill in.
+ */
+function makeAxis(): AxisDraft {
+  return {
+    label: '',
+    system: LOINCCode.CODING_STRING,
+    chartType: 'LINE',
+    forceDisplayBounds: false,
+    codes: [{code: '', label: ''}]
+  };
+}
+
+/**
+ * Gets the code system of a code, such as "http://loinc.org".
+ */
+function systemOf(code: ResourceCode): string {
+  return (code.constructor as typeof ResourceCode).CODING_STRING;
+}
@@ -6,12 +6,11 @@
 import {async, ComponentFixture, TestBed} from '@angular/core/testing';
 import {FormsModule, ReactiveFormsModule} from '@angular/forms';
 // tslint:disable-next-line:max-line-length
-import {MAT_DIALOG_DATA, MatAutocompleteModule, MatCheckboxModule, MatDatepickerModule, MatDialog, MatDividerModule, MatListModule, MatMenuModule, MatNativeDateModule, MatProgressSpinnerModule, MatSnackBar, MatSnackBarModule, MatToolbarModule} from '@angular/material';
+import {MAT_DIALOG_DATA, MatAutocompleteModule, MatCheckboxModule, MatDatepickerModule, MatDialog, MatDividerModule, MatListModule, MatMenuModule, MatNativeDateModule, MatProgressSpinnerModule, MatSnackBar, MatSnackBarModule, MatToolbarModule, MatTooltipModule} from '@angular/material';
 import {MatCardModule} from '@angular/material/card';
 import {MatIconModule} from '@angular/material/icon';
 import {MatInputModule} from '@angular/material/input';
-import {By} from '@angular/platform-browser';
-import {BrowserModule} from '@angular/platform-browser';
+import {BrowserModule, By} from '@angular/platform-browser';
 import {BrowserAnimationsModule} from '@angular/platform-browser/animations';
 import {DateTime} from 'luxon';
 import {DragulaService} from 'ng2-dragula';
@@ -35,6 +34,7 @@ import {LineGraphComponent} from '../graphtypes/linegraph/linegraph.component';
 import {MicrobioGraphComponent} from '../graphtypes/microbio-graph/microbio-graph.component';
 import {ScatterplotComponent} from '../graphtypes/scatterplot/scatterplot.component';
 import {StepGraphComponent} from '../graphtypes/stepgraph/stepgraph.component';
+import {PatientHeaderComponent} from '../patient-header/patient-header.component';
 import {SetupDataService} from '../setup-data.service';
 import {StubFhirService} from '../test_utils';
 import {TimelineControllerComponent} from '../timeline-controller/timeline-controller.component';
@@ -79,6 +79,7 @@ describe('CardcontainerComponent', () => {
             MatToolbarModule,
             MatSnackBarModule,
             MatCheckboxModule,
+            MatTooltipModule,
           ],
           declarations: [
             CardcontainerComponent, TextboxcardComponent,
@@ -87,7 +88,8 @@ describe('CardcontainerComponent', () => {
             ScatterplotComponent, MicrobioGraphComponent,
             CustomizableTimelineComponent, TimelineToolbarComponent,
             DataSelectorElementComponent, DataSelectorMenuComponent,
-            CardComponent, DebuggerComponent, DeleteDialogComponent
+            CardComponent, DebuggerComponent, DeleteDialogComponent,
+            PatientHeaderComponent
           ],
           providers: [
             {provide: FhirService, useValue: new StubFhirService()},
@@ -49,9 +49,6 @@ export class CardcontainerComponent {
       Array<{[key: string]: ResourceCodesForCard | string | CustomizableData}> =
           [];
 
-  // The original concepts to duplicate, if necessary.
-  readonly originalConcepts: ResourceCodesForCard[];
-
   // Hold an instance of this enum so that the HTML template can access it.
   readonly chartType = ChartType;
 
@@ -80,14 +77,9 @@ export class CardcontainerComponent {
   // the ts files and html files.
   constructor(
       dragulaService: DragulaService, private fhirService: FhirService,
-      resourceCodeManager: ResourceCodeManager, private snackBar: MatSnackBar,
-      private deleteDialog: MatDialog,
+      private resourceCodeManager: ResourceCodeManager,
+      private snackBar: MatSnackBar, private deleteDialog: MatDialog,
       private setupDataService: SetupDataService) {
-    const displayGroups = resourceCodeManager.getDisplayGroupMapping();
-    /* Load in the concepts to display, flattening them all into a
-     * single-depth array. */
-    this.originalConcepts = Array.from(displayGroups.values())
-                                .reduce((acc, val) => acc.concat(val), []);
     this.setUpCards();
     this.setUpDrag(dragulaService);
     console.log(String.prototype.padStart);
@@ -251,8 +243,11 @@ export class CardcontainerComponent {
    */
 
   addConceptCard(label: string, id?: string) {
+    // Cards are looked up in the listing each time, since custom cards can be
+    // added to it while the page is shown.
     const graphCardValue =
-        this.originalConcepts.find(obj => (obj.label === label));
+        this.resourceCodeManager.getResourceCodeGroups().find(
+            obj => (obj.label === label));
     // Insert the card at the top of the page
     // Insert after the closest card rather than before the card.
     const index =
@@ -5,7 +5,7 @@
 
 import {SimpleChange} from '@angular/core';
 import {async, ComponentFixture, TestBed} from '@angular/core/testing';
-import {MatProgressSpinnerModule} from '@angular/material';
+import {MatProgressSpinnerModule, MatTooltipModule} from '@angular/material';
 import {MatCardModule} from '@angular/material/card';
 import {MatIconModule} from '@angular/material/icon';
 import {BrowserAnimationsModule} from '@angular/platform-browser/animations';
@@ -13,6 +13,7 @@ import {DateTime, Interval} from 'luxon';
 import {labResult} from 'src/app/clinicalconcepts/display-grouping';
 import {LOINCCode, LOINCCodeGroup} from 'src/app/clinicalconcepts/loinc-code';
 import {ResourceCodesForCard} from 'src/app/clinicalconcepts/resource-code-manager';
+import {DataQualityService} from 'src/app/data-quality.service';
 import {FhirService} from 'src/app/fhir.service';
 import {LabeledSeries} from 'src/app/graphdatatypes/labeled-series';
 import {ChartType, GraphComponent} from 'src/app/graphtypes/graph/graph.component';
@@ -42,6 +43,7 @@ describe('MultiGraphCardComponent', () => {
             MatCardModule,
             MatIconModule,
             MatProgressSpinnerModule,
+            MatTooltipModule,
           ],
           declarations: [
             MultiGraphCardComponent, LineGraphComponent, StepGraphComponent,
@@ -106,4 +108,15 @@ describe('MultiGraphCardComponent', () => {
          });
        });
      }));
+
+  it('should say how many results could not be displayed', () => {
+    const dataQuality: DataQualityService = TestBed.get(DataQualityService);
+    dataQuality.record(
+        {id: 'hemoglobin-1', code: '718-7', reason: 'No value or result'});
+    dataQuality.record(
+        {id: 'hemoglobin-2', code: '718-7', reason: 'No value or result'});
+    fixture.detectChanges();
+    expect(fixture.nativeElement.textContent)
+        .toContain('2 results could not be displayed');
+  });
 });
@@ -12,6 +12,7 @@ import {ResourceCodesForCard} from 'src/app/clinicalconcepts/resource-code-manag
 import {GraphData} from 'src/app/graphdatatypes/graphdata';
 import {LabeledSeries} from 'src/app/graphdatatypes/labeled-series';
 
+import {DataQualityService, DroppedResource} from '../../data-quality.service';
 import {FhirService} from '../../fhir.service';
 import {ChartType, GraphComponent} from '../../graphtypes/graph/graph.component';
 import * as Colors from '../../theme/bch_colors';
@@ -74,7 +75,30 @@ export class MultiGraphCardComponent implements OnInit, OnChanges {
   readonly userEditable = false;
 
   constructor(
-      private fhirService: FhirService, private sanitizer: DomSanitizer) {}
+      private fhirService: FhirService, private sanitizer: DomSanitizer,
+      private dataQuality: DataQualityService) {}
+
+  /**
+   * The resources for this card's codes that could not be displayed because
+   * they could not be parsed.
+   */
+  get droppedResources(): DroppedResource[] {
+    if (!this.resourceCodeGroups) {
+      return [];
+    }
+    return this.dataQuality.droppedWithCodes(
+        [].concat(...this.resourceCodeGroups.resourceCodeGroups.map(
+            group => group.resourceCodes)));
+  }
+
+  /**
+   * Summarizes why this card's resources could not be displayed, for the
+   * tooltip of the notice saying they are missing.
+   */
+  get droppedReasons(): string {
+    return Array.from(new Set(this.droppedResources.map(d => d.reason)))
+        .join('; ');
+  }
 
   ngOnInit() {
     this.initializeData();
@@ -6,7 +6,7 @@
 import {Interval} from 'luxon';
 import {APP_TIMESPAN} from 'src/constants';
 
-import {DiagnosticReport} from '../fhir-data-classes/diagnostic-report';
+import {AnnotatedDiagnosticReport, DiagnosticReport} from '../fhir-data-classes/diagnostic-report';
 
 import {CachedResourceCodeGroup, ResourceCode} from './resource-code-group';
 
@@ -43,6 +43,35 @@ export class BCHMicrobioCodeGroup extends
         });
   }
 
+  /**
+   * Restricts the DiagnosticReports to those whose specimen for this group
+   * was collected within the time interval.
+   * @param data The DiagnosticReports to restrict.
+   * @param dateRange The time interval to restrict the DiagnosticReports to.
+   */
+  protected sliceToRange(data: DiagnosticReport[], dateRange: Interval):
+      DiagnosticReport[] {
+    return data.filter(report => {
+      const timestamp =
+          new AnnotatedDiagnosticReport(report, this.label).timestamp;
+      return timestamp && dateRange.contains(timestamp);
+    });
+  }
+
+  /**
+   * Adds the newly retrieved DiagnosticReports that are not already cached,
+   * identifying reports by their IDs.
+   * @param cached The DiagnosticReports already in the cache.
+   * @param retrieved The newly retrieved DiagnosticReports.
+   */
+  protected mergeResources(
+      cached: DiagnosticReport[],
+      retrieved: DiagnosticReport[]): DiagnosticReport[] {
+    const cachedIds = new Set(cached.map(report => report.id));
+    return cached.concat(
+        retrieved.filter(report => !report.id || !cachedIds.has(report.id)));
+  }
+
   /**
    * Returns whether there is any data available for this ResourceCode within
    * the fixed timescope of this app.
@@ -0,0 +1,99 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {CodeRegistry} from './code-registry';
+import {CONCEPT_CONFIG_VERSION, DEFAULT_CONCEPT_CONFIG} from './concept-config';
+import {DisplayGrouping} from './display-grouping';
+import {LOINCCode} from './loinc-code';
+import {makeCodeRegistry} from './resource-code-manager';
+import {RxNormCode} from './rx-norm';
+
+describe('CodeRegistry', () => {
+  const grouping = new DisplayGrouping('concept', 'red');
+
+  it('should keep codes of different systems with the same code string', () => {
+    const registry = new CodeRegistry();
+    const loinc = registry.register(new LOINCCode('1234', grouping, 'Lab'));
+    const rxNorm =
+        registry.register(new RxNormCode('1234', grouping, 'Medication'));
+    expect(registry.get(LOINCCode.CODING_STRING, '1234')).toBe(loinc);
+    expect(registry.get(RxNormCode.CODING_STRING, '1234')).toBe(rxNorm);
+  });
+
+  it('should reuse a code registered again with the same definition', () => {
+    const registry = new CodeRegistry();
+    const first = registry.register(new LOINCCode('1234', grouping, 'Lab'));
+    const second = registry.register(new LOINCCode('1234', grouping, 'Lab'));
+    expect(second).toBe(first);
+  });
+
+  it('should not register a code again with a different definition', () => {
+    const registry = new CodeRegistry();
+    const first = registry.register(new LOINCCode('1234', grouping, 'Lab'));
+    expect(() => registry.register(new LOINCCode('1234', grouping, 'Other')))
+        .toThrowError(/already registered as "Lab", with a different definition/);
+    expect(registry.get(LOINCCode.CODING_STRING, '1234')).toBe(first);
+  });
+
+  it('should look up codes in its parent, but keep its own first', () => {
+    const parent = new CodeRegistry();
+    const inherited = parent.register(new LOINCCode('1', grouping, 'One'));
+    parent.register(new LOINCCode('2', grouping, 'Two'));
+    const registry = new CodeRegistry(parent);
+    const redefined = registry.register(new LOINCCode('2', grouping, 'Deux'));
+    expect(registry.get(LOINCCode.CODING_STRING, '1')).toBe(inherited);
+    expect(registry.get(LOINCCode.CODING_STRING, '2')).toBe(redefined);
+    expect(parent.get(LOINCCode.CODING_STRING, '2').label).toEqual('Two');
+  });
+
+  it('should read resources with the active registry', () => {
+    const registry = new CodeRegistry();
+    const code = registry.register(new LOINCCode('1234', grouping, 'Lab'));
+    const previous = CodeRegistry.activate(registry);
+    try {
+      expect(LOINCCode.fromCodeString('1234')).toBe(code);
+      expect(RxNormCode.fromCodeString('1234')).toBeUndefined();
+    } finally {
+      CodeRegistry.activate(previous);
+    }
+    expect(LOINCCode.fromCodeString('1234')).toBeUndefined();
+  });
+});
+
+describe('makeCodeRegistry', () => {
+  it('should register the codes of the default configuration', () => {
+    const registry = makeCodeRegistry(DEFAULT_CONCEPT_CONFIG);
+    expect(registry.get(LOINCCode.CODING_STRING, '718-7').label)
+        .toEqual('Hemoglobin');
+    expect(registry.get(RxNormCode.CODING_STRING, '11124').label)
+        .toEqual('Vancomycin');
+  });
+
+  it('should know the codes of blood pressure components', () => {
+    const registry = makeCodeRegistry(DEFAULT_CONCEPT_CONFIG);
+    expect(registry.get(LOINCCode.CODING_STRING, '8480-6').label)
+        .toEqual('Systolic Blood Pressure');
+    expect(registry.get(LOINCCode.CODING_STRING, '8462-4').label)
+        .toEqual('Diastolic Blood Pressure');
+  });
+
+  it('should not register a configuration that defines a code twice', () => {
+    const card = (label: string, codeLabel: string) => ({
+      label: label,
+      displayGrouping: 'Lab Results',
+      axes: [{
+        label: label,
+        system: LOINCCode.CODING_STRING,
+        chartType: 'LINE',
+        codes: [{code: '718-7', label: codeLabel}]
+      }]
+    });
+    expect(() => makeCodeRegistry({
+             version: CONCEPT_CONFIG_VERSION,
+             cards: [card('Hemoglobin', 'Hemoglobin'), card('Hgb', 'Hgb')]
+           }))
+        .toThrowError(/718-7/);
+  });
+});
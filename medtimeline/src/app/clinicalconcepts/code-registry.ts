@@ -0,0 +1,110 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {ResourceCode} from './resource-code-group';
+
+/**
+ * Holds the codes the app knows about, keyed by their code system and code
+ * string, so that the resources read from FHIR can be matched to them. Codes
+ * from different systems may share a code string without clashing.
+ *
+ * Each configuration of cards registers its codes in a registry of its own,
+ * whose parent holds the codes built into the app. A registry's codes take
+ * precedence over its parent's, so a configuration can redefine a built-in
+ * code, and registries made for tests do not leak into each other.
+ */
+export class CodeRegistry {
+  /**
+   * The codes built into the app rather than configured, such as the codes
+   * of the patient header.
+   */
+  static readonly BUILT_IN = new CodeRegistry();
+
+  // The registry resources are read with.
+  private static activeRegistry: CodeRegistry = CodeRegistry.BUILT_IN;
+
+  // The registered codes, keyed by "system|code".
+  private readonly codes = new Map<string, ResourceCode>();
+
+  constructor(readonly parent?: CodeRegistry) {}
+
+  /**
+   * The registry resources are read with.
+   */
+  static get active(): CodeRegistry {
+    return CodeRegistry.activeRegistry;
+  }
+
+  /**
+   * Makes a registry the one resources are read with.
+   * @param registry The registry to read resources with.
+   * @returns The registry that was active before, so that it can be made
+   *     active again.
+   */
+  static activate(registry: CodeRegistry): CodeRegistry {
+    const previous = CodeRegistry.activeRegistry;
+    CodeRegistry.activeRegistry = registry;
+    return previous;
+  }
+
+  /**
+   * Registers a code. A code that is defined just like one already known,
+   * such as a medication listed on several cards, is not registered again.
+   * @param code The code to register.
+   * @returns The code known by its system and code string from now on.
+   * @throws An Error if this registry already has a different definition of
+   *     the code.
+   */
+  register<T extends ResourceCode>(code: T): T {
+    const system = systemOf(code);
+    const existing = this.get(system, code.codeString);
+    if (existing && isSameDefinition(existing, code)) {
+      return existing as T;
+    }
+    if (this.codes.has(key(system, code.codeString))) {
+      throw Error(
+          'The code ' + code.codeString + ' of ' + system + ' is already ' +
+          'registered as "' + existing.label + '", with a different ' +
+          'definition.');
+    }
+    this.codes.set(key(system, code.codeString), code);
+    return code;
+  }
+
+  /**
+   * Looks up a code in this registry, then in its parents.
+   * @param system The code system, such as "http://loinc.org".
+   * @param code The code string.
+   * @returns The code, or undefined if it is not registered.
+   */
+  get(system: string, code: string): ResourceCode {
+    return this.codes.get(key(system, code)) ||
+        (this.parent ? this.parent.get(system, code) : undefined);
+  }
+}
+
+/**
+ * Gets the code system of a code, such as "http://loinc.org".
+ */
+function systemOf(code: ResourceCode): string {
+  return (code.constructor as typeof ResourceCode).CODING_STRING;
+}
+
+function key(system: string, code: string): string {
+  return system + '|' + code;
+}
+
+/**
+ * Whether two codes are of the same class and would be displayed the same.
+ */
+function isSameDefinition(a: ResourceCode, b: ResourceCode): boolean {
+  const sameBounds = (x: [number, number], y: [number, number]) =>
+      x === y || (!!x && !!y && x[0] === y[0] && x[1] === y[1]);
+  return a.constructor === b.constructor && a.label === b.label &&
+      a.displayGrouping === b.displayGrouping &&
+      a.showByDefault === b.showByDefault &&
+      sameBounds(a.displayBounds, b.displayBounds) &&
+      a.forceDisplayBounds === b.forceDisplayBounds;
+}
@@ -0,0 +1,133 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {AnnotationType, DEFAULT_CONCEPT_CONFIG, validateConceptConfig} from './concept-config';
+
+function makeConfig(axes: any[]): any {
+  return {
+    version: 1,
+    cards: [{label: 'Card', displayGrouping: 'Lab Results', axes: axes}]
+  };
+}
+
+describe('validateConceptConfig', () => {
+  it('should accept the configuration shipped with the app', () => {
+    const labels = DEFAULT_CONCEPT_CONFIG.cards.map(card => card.label);
+    expect(labels).toContain('Blood Pressure');
+    expect(labels).toContain('Vancomycin');
+    expect(labels).toContain('Complete Blood Count');
+    expect(labels.length).toEqual(25);
+  });
+
+  it('should accept a card with one axis of LOINC codes', () => {
+    const config = makeConfig([{
+      label: 'Platelets',
+      system: 'http://loinc.org',
+      chartType: 'LINE',
+      codes: [{code: '777-3', label: 'Platelets', displayBounds: [0, 1000]}]
+    }]);
+    expect(validateConceptConfig(config)).toBe(config);
+  });
+
+  it('should reject configurations of other versions', () => {
+    const config = DEFAULT_CONCEPT_CONFIG;
+    expect(() => validateConceptConfig({version: 2, cards: config.cards}))
+        .toThrowError(/version must be 1/);
+  });
+
+  it('should list every problem found', () => {
+    expect(() => validateConceptConfig(makeConfig([{
+             label: 'Platelets',
+             system: 'http://snomed.info/sct',
+             chartType: 'PIE',
+             codes: [{code: '777-3', displayBounds: [10, 0]}]
+           }])))
+        .toThrowError(new RegExp(
+            'system must be one of.*chartType must be one of.*' +
+            'codes\\[0\\]\\.label must be a non-empty string.*' +
+            'codes\\[0\\]\\.displayBounds must be a \\[lower, upper\\] pair'));
+  });
+
+  it('should reject unknown display groupings', () => {
+    const config = makeConfig([]);
+    config.cards[0].displayGrouping = 'Imaging';
+    expect(() => validateConceptConfig(config))
+        .toThrowError(
+            /displayGrouping must be the label of a display grouping/);
+  });
+
+  it('should reject medication monitoring without an RxNorm axis', () => {
+    expect(() => validateConceptConfig(makeConfig([{
+             label: 'Monitoring',
+             system: 'http://loinc.org',
+             chartType: 'SCATTER',
+             codes: [{code: '20578-1', label: 'Vanc Level'}],
+             annotation: {
+               type: AnnotationType.MedicationMonitoring,
+               medicationAxis: 'Vancomycin'
+             }
+           }])))
+        .toThrowError(/medicationAxis must be the label of an RxNorm axis/);
+  });
+
+  it('should accept derived codes computed from LOINC codes', () => {
+    const config = makeConfig([{
+      label: 'BMI',
+      system: 'http://loinc.org',
+      chartType: 'LINE',
+      codes: [{
+        code: 'calculated-bmi',
+        label: 'BMI',
+        derived: {
+          formula: 'bodyMassIndex',
+          inputs: {
+            weight: [{code: '29463-7', label: 'Body Weight'}],
+            height: [{code: '8302-2', label: 'Body Height'}]
+          },
+          tolerance: 'P30D'
+        }
+      }]
+    }]);
+    expect(validateConceptConfig(config)).toBe(config);
+  });
+
+  it('should list the problems of derived codes', () => {
+    expect(() => validateConceptConfig(makeConfig([{
+             label: 'BMI',
+             system: 'http://loinc.org',
+             chartType: 'LINE',
+             codes: [{
+               code: 'calculated-bmi',
+               label: 'BMI',
+               derived: {
+                 formula: 'bodyMassIndex',
+                 inputs: {
+                   weight: [{code: '29463-7', label: 'Body Weight'}],
+                   length: [{code: '8302-2', label: 'Body Height'}]
+                 },
+                 tolerance: '30 days'
+               }
+             }]
+           }])))
+        .toThrowError(new RegExp(
+            'derived\.inputs\.height must be a non-empty array.*' +
+            'derived\.inputs\.length is not an input of bodyMassIndex.*' +
+            'derived\.tolerance must be an ISO 8601 duration'));
+  });
+
+  it('should reject derived codes with unknown formulas', () => {
+    expect(() => validateConceptConfig(makeConfig([{
+             label: 'Score',
+             system: 'http://loinc.org',
+             chartType: 'LINE',
+             codes: [{
+               code: 'calculated-score',
+               label: 'Score',
+               derived: {formula: 'apgar', inputs: {}}
+             }]
+           }])))
+        .toThrowError(/derived\.formula must be one of meanArterialPressure/);
+  });
+});
@@ -0,0 +1,407 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Duration} from 'luxon';
+
+import * as defaultConfigJson from '../../assets/clinical-concepts.json';
+import {ChartType} from '../graphtypes/graph/graph.component';
+
+import {BCHMicrobioCode} from './bch-microbio-code';
+import {FORMULAS} from './derived-code';
+import {ALL_DISPLAY_GROUPS_MAP} from './display-grouping';
+import {LOINCCode} from './loinc-code';
+import {RxNormCode} from './rx-norm';
+
+/**
+ * The version of the clinical concept configuration this app understands.
+ * Configurations with any other version are rejected, so that a configuration
+ * written for a newer app is not misread.
+ */
+export const CONCEPT_CONFIG_VERSION = 1;
+
+/**
+ * The code systems a configured axis can hold codes from.
+ */
+export const CONFIGURABLE_SYSTEMS = [
+  LOINCCode.CODING_STRING, RxNormCode.CODING_STRING,
+  BCHMicrobioCode.CODING_STRING
+];
+
+/**
+ * The ways an axis's observations can be annotated with other data, so that
+ * their tooltips can show it.
+ */
+export enum AnnotationType {
+  /** Shows where each blood pressure was taken. */
+  BloodPressureLocation = 'bloodPressureLocation',
+  /** Shows the medication order each drug level was monitoring. */
+  MedicationMonitoring = 'medicationMonitoring'
+}
+
+/**
+ * A code to display, such as a LOINC code.
+ */
+export interface CodeConfig {
+  code: string;
+  label: string;
+  showByDefault?: boolean;
+  /** Absolute axis bounds for the graph displaying this code. */
+  displayBounds?: [number, number];
+  /** Whether to force the axis bounds. */
+  forceDisplayBounds?: boolean;
+  /**
+   * The label of the display grouping of the code, if it is not the display
+   * grouping of its card.
+   */
+  displayGrouping?: string;
+  /**
+   * How the code's values are computed from the values of other codes, if
+   * they are computed rather than read from Observations. Only codes on axes
+   * of LOINC codes can be computed.
+   */
+  derived?: DerivedConfig;
+}
+
+/**
+ * How a code's values are computed with a formula. A value is computed at
+ * the time of each value of the formula's first input, from the values of the
+ * other inputs measured closest to that time.
+ */
+export interface DerivedConfig {
+  /** The name of the formula, such as "meanArterialPressure". */
+  formula: string;
+  /** The LOINC codes holding the values of each input, by input name. */
+  inputs: {[input: string]: CodeConfig[]};
+  /**
+   * The LOINC codes of panels, such as blood pressure, whose components hold
+   * the values of inputs.
+   */
+  panels?: CodeConfig[];
+  /**
+   * How far apart in time the inputs may be measured, as an ISO 8601
+   * duration such as "PT15M". If unset, they must be measured at the same
+   * time.
+   */
+  tolerance?: string;
+  /**
+   * The LOINC codes recording the value itself, such as a measured mean
+   * arterial pressure. No value is computed within the tolerance of one.
+   */
+  unlessRecorded?: CodeConfig[];
+}
+
+/**
+ * How the observations of an axis are annotated.
+ */
+export interface AnnotationConfig {
+  type: AnnotationType;
+  /**
+   * For blood pressure locations, the label of the group of codes holding the
+   * locations.
+   */
+  label?: string;
+  /** For blood pressure locations, the codes holding the locations. */
+  codes?: CodeConfig[];
+  /**
+   * For medication monitoring, the label of the RxNorm axis holding the
+   * monitored medication, listed before this axis on the same card.
+   */
+  medicationAxis?: string;
+}
+
+/**
+ * A group of codes displayed on the same axis.
+ */
+export interface AxisConfig {
+  label: string;
+  /** The code system of the codes, such as "http://loinc.org". */
+  system: string;
+  /** The name of the ChartType of the axis, such as "LINE". */
+  chartType: string;
+  codes: CodeConfig[];
+  /**
+   * Absolute bounds for the axis. If unset and the axis has only one code,
+   * the bounds of that code are used.
+   */
+  displayBounds?: [number, number];
+  /**
+   * Whether to force the axis bounds. If unset and the axis has only one code,
+   * whether to force the bounds of that code is used.
+   */
+  forceDisplayBounds?: boolean;
+  annotation?: AnnotationConfig;
+}
+
+/**
+ * A card in the catalogue of cards the user can add.
+ */
+export interface CardConfig {
+  label: string;
+  /** The label of the display grouping of the card, such as "Lab Results". */
+  displayGrouping: string;
+  axes: AxisConfig[];
+}
+
+/**
+ * The catalogue of cards the app can display.
+ */
+export interface ConceptConfig {
+  version: number;
+  cards: CardConfig[];
+}
+
+/**
+ * Checks that a clinical concept configuration has the expected form, and
+ * that the display groupings, code systems, chart types and axes it refers to
+ * exist.
+ * @param json The configuration, as parsed from JSON.
+ * @returns The configuration.
+ * @throws An Error listing every problem found, if there are any.
+ */
+export function validateConceptConfig(json: any): ConceptConfig {
+  const problems = new Array<string>();
+  if (!isObject(json)) {
+    problems.push('The configuration must be an object.');
+  } else {
+    if (json.version !== CONCEPT_CONFIG_VERSION) {
+      problems.push(
+          'version must be ' + CONCEPT_CONFIG_VERSION + ', but is ' +
+          json.version + '.');
+    }
+    if (!nonEmptyArray(json.cards)) {
+      problems.push('cards must be a non-empty array.');
+    } else {
+      const labels = new Set<string>();
+      json.cards.forEach((card, i) => {
+        const path = 'cards[' + i + ']';
+        validateCard(card, path, problems);
+        if (isObject(card) && labels.has(card.label)) {
+          problems.push(path + '.label "' + card.label + '" is not unique.');
+        }
+        labels.add(isObject(card) ? card.label : undefined);
+      });
+    }
+  }
+  if (problems.length > 0) {
+    throw Error(
+        'Invalid clinical concept configuration: ' + problems.join(' '));
+  }
+  return json;
+}
+
+/**
+ * The catalogue of cards shipped with the app, used when no other
+ * configuration is loaded.
+ */
+export const DEFAULT_CONCEPT_CONFIG = validateConceptConfig(defaultConfigJson);
+
+function validateCard(card: any, path: string, problems: string[]) {
+  if (!isObject(card)) {
+    problems.push(path + ' must be an object.');
+    return;
+  }
+  checkString(card.label, path + '.label', problems);
+  checkDisplayGrouping(
+      card.displayGrouping, path + '.displayGrouping', problems);
+  if (!nonEmptyArray(card.axes)) {
+    problems.push(path + '.axes must be a non-empty array.');
+    return;
+  }
+  card.axes.forEach(
+      (axis, i) => validateAxis(
+          axis, path + '.axes[' + i + ']', card.axes.slice(0, i), problems));
+}
+
+function validateAxis(
+    axis: any, path: string, earlierAxes: any[], problems: string[]) {
+  if (!isObject(axis)) {
+    problems.push(path + ' must be an object.');
+    return;
+  }
+  checkString(axis.label, path + '.label', problems);
+  if (!CONFIGURABLE_SYSTEMS.includes(axis.system)) {
+    problems.push(
+        path + '.system must be one of ' + CONFIGURABLE_SYSTEMS.join(', ') +
+        '.');
+  }
+  if (typeof axis.chartType !== 'string' ||
+      typeof ChartType[axis.chartType] !== 'number') {
+    problems.push(
+        path + '.chartType must be one of ' +
+        Object.keys(ChartType).filter(key => isNaN(Number(key))).join(', ') +
+        '.');
+  }
+  checkCodes(axis.codes, path + '.codes', problems);
+  if (Array.isArray(axis.codes)) {
+    axis.codes.forEach((code, i) => {
+      if (isObject(code) && code.derived !== undefined) {
+        validateDerived(
+            code.derived, path + '.codes[' + i + '].derived', axis, problems);
+      }
+    });
+  }
+  checkBounds(axis.displayBounds, path + '.displayBounds', problems);
+  checkOptionalBoolean(
+      axis.forceDisplayBounds, path + '.forceDisplayBounds', problems);
+  if (axis.annotation !== undefined) {
+    validateAnnotation(
+        axis.annotation, path + '.annotation', axis, earlierAxes, problems);
+  }
+}
+
+function validateAnnotation(
+    annotation: any, path: string, axis: any, earlierAxes: any[],
+    problems: string[]) {
+  if (!isObject(annotation)) {
+    problems.push(path + ' must be an object.');
+    return;
+  }
+  if (axis.system !== LOINCCode.CODING_STRING) {
+    problems.push(path + ' can only annotate axes of LOINC codes.');
+  }
+  switch (annotation.type) {
+    case AnnotationType.BloodPressureLocation:
+      checkString(annotation.label, path + '.label', problems);
+      checkCodes(annotation.codes, path + '.codes', problems);
+      break;
+    case AnnotationType.MedicationMonitoring:
+      if (!earlierAxes.some(
+              other => isObject(other) &&
+                  other.label === annotation.medicationAxis &&
+                  other.system === RxNormCode.CODING_STRING)) {
+        problems.push(
+            path + '.medicationAxis must be the label of an RxNorm axis ' +
+            'listed before it on the same card.');
+      }
+      break;
+    default:
+      problems.push(
+          path + '.type must be one of ' +
+          Object.keys(AnnotationType)
+              .map(key => AnnotationType[key])
+              .join(', ') +
+          '.');
+  }
+}
+
+function validateDerived(
+    derived: any, path: string, axis: any, problems: string[]) {
+  if (!isObject(derived)) {
+    problems.push(path + ' must be an object.');
+    return;
+  }
+  if (axis.system !== LOINCCode.CODING_STRING) {
+    problems.push(
+        path + ' can only be given for codes on axes of LOINC codes.');
+  }
+  const formula = FORMULAS.get(derived.formula);
+  if (!formula) {
+    problems.push(
+        path + '.formula must be one of ' +
+        Array.from(FORMULAS.keys()).join(', ') + '.');
+  } else if (!isObject(derived.inputs)) {
+    problems.push(path + '.inputs must be an object.');
+  } else {
+    const names = formula.inputs.map(input => input.name);
+    for (const name of names) {
+      checkSourceCodes(
+          derived.inputs[name], path + '.inputs.' + name, problems);
+    }
+    for (const name of Object.keys(derived.inputs)) {
+      if (!names.includes(name)) {
+        problems.push(
+            path + '.inputs.' + name + ' is not an input of ' +
+            derived.formula + '.');
+      }
+    }
+  }
+  for (const key of ['panels', 'unlessRecorded']) {
+    if (derived[key] !== undefined) {
+      checkSourceCodes(derived[key], path + '.' + key, problems);
+    }
+  }
+  if (derived.tolerance !== undefined &&
+      (typeof derived.tolerance !== 'string' ||
+       !Duration.fromISO(derived.tolerance).isValid)) {
+    problems.push(
+        path + '.tolerance must be an ISO 8601 duration, such as "PT15M".');
+  }
+}
+
+/**
+ * Checks the codes a derived code is computed from, which are read from FHIR
+ * rather than derived themselves.
+ */
+function checkSourceCodes(codes: any, path: string, problems: string[]) {
+  checkCodes(codes, path, problems);
+  if (Array.isArray(codes) &&
+      codes.some(code => isObject(code) && code.derived !== undefined)) {
+    problems.push(path + ' cannot be derived codes themselves.');
+  }
+}
+
+function checkCodes(codes: any, path: string, problems: string[]) {
+  if (!nonEmptyArray(codes)) {
+    problems.push(path + ' must be a non-empty array.');
+    return;
+  }
+  codes.forEach((code, i) => {
+    const codePath = path + '[' + i + ']';
+    if (!isObject(code)) {
+      problems.push(codePath + ' must be an object.');
+      return;
+    }
+    checkString(code.code, codePath + '.code', problems);
+    checkString(code.label, codePath + '.label', problems);
+    checkOptionalBoolean(
+        code.showByDefault, codePath + '.showByDefault', problems);
+    checkBounds(code.displayBounds, codePath + '.displayBounds', problems);
+    checkOptionalBoolean(
+        code.forceDisplayBounds, codePath + '.forceDisplayBounds', problems);
+    if (code.displayGrouping !== undefined) {
+      checkDisplayGrouping(
+          code.displayGrouping, codePath + '.displayGrouping', problems);
+    }
+  });
+}
+
+function checkDisplayGrouping(label: any, path: string, problems: string[]) {
+  if (!ALL_DISPLAY_GROUPS_MAP.has(label)) {
+    problems.push(
+        path + ' must be the label of a display grouping, but is "' + label +
+        '".');
+  }
+}
+
+function checkBounds(bounds: any, path: string, problems: string[]) {
+  if (bounds === undefined) {
+    return;
+  }
+  if (!Array.isArray(bounds) || bounds.length !== 2 ||
+      !bounds.every(bound => typeof bound === 'number') ||
+      bounds[0] >= bounds[1]) {
+    problems.push(path + ' must be a [lower, upper] pair of numbers.');
+  }
+}
+
+function checkString(value: any, path: string, problems: string[]) {
+  if (typeof value !== 'string' || value.length === 0) {
+    problems.push(path + ' must be a non-empty string.');
+  }
+}
+
+function checkOptionalBoolean(value: any, path: string, problems: string[]) {
+  if (value !== undefined && typeof value !== 'boolean') {
+    problems.push(path + ' must be true or false.');
+  }
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function nonEmptyArray(value: any): boolean {
+  return Array.isArray(value) && value.length > 0;
+}
@@ -0,0 +1,91 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {conceptMapper, ConceptMapper} from './concept-map';
+import {LOINCCode} from './loinc-code';
+
+const localSystem = 'http://example.org/local-lab-codes';
+
+describe('ConceptMapper', () => {
+  it('should map the codes of a ConceptMap grouped by code system', () => {
+    const mapper = new ConceptMapper();
+    mapper.addConceptMap({
+      resourceType: 'ConceptMap',
+      group: [{
+        source: localSystem,
+        target: LOINCCode.CODING_STRING,
+        element: [
+          {
+            code: 'HGB',
+            display: 'Hgb',
+            target: [{code: '718-7', equivalence: 'equivalent'}]
+          },
+          {code: 'HGBV', target: [{code: '718-7', equivalence: 'equal'}]}
+        ]
+      }]
+    });
+    expect(mapper.targetOf(localSystem, 'HGB')).toEqual('718-7');
+    expect(mapper.sourcesOf('718-7')).toEqual([
+      {system: localSystem, code: 'HGB', display: 'Hgb'},
+      {system: localSystem, code: 'HGBV', display: undefined}
+    ]);
+  });
+
+  it('should map the codes of a DSTU2 ConceptMap', () => {
+    const mapper = new ConceptMapper();
+    mapper.addConceptMap({
+      resourceType: 'ConceptMap',
+      element: [{
+        codeSystem: localSystem,
+        code: 'K',
+        target: [{
+          codeSystem: LOINCCode.CODING_STRING,
+          code: '2823-3',
+          equivalence: 'equivalent'
+        }]
+      }]
+    });
+    expect(mapper.targetOf(localSystem, 'K')).toEqual('2823-3');
+  });
+
+  it('should leave out inexact mappings and mappings to other systems', () => {
+    const mapper = new ConceptMapper();
+    mapper.addConceptMap({
+      resourceType: 'Bundle',
+      entry: [{
+        resource: {
+          resourceType: 'ConceptMap',
+          group: [
+            {
+              source: localSystem,
+              target: LOINCCode.CODING_STRING,
+              element: [
+                {code: 'GLU', target: [{code: '2345-7', equivalence: 'wider'}]}
+              ]
+            },
+            {
+              source: localSystem,
+              target: 'http://snomed.info/sct',
+              element: [{code: 'NA', target: [{code: '39972003'}]}]
+            }
+          ]
+        }
+      }]
+    });
+    expect(mapper.targetOf(localSystem, 'GLU')).toBeUndefined();
+    expect(mapper.targetOf(localSystem, 'NA')).toBeUndefined();
+  });
+
+  it('should reject resources that are not ConceptMaps', () => {
+    expect(() => new ConceptMapper().addConceptMap({
+      resourceType: 'Patient'
+    })).toThrowError(/ConceptMap/);
+  });
+
+  it('should map sibling hemoglobin codes by default', () => {
+    expect(conceptMapper.targetOf(LOINCCode.CODING_STRING, '30350-3'))
+        .toEqual('718-7');
+  });
+});
@@ -0,0 +1,123 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import * as defaultConceptMapJson from '../../assets/concept-map.json';
+import {FhirResourceType} from '../../constants';
+
+import {LOINCCode} from './loinc-code';
+
+/**
+ * A code an Observation was reported with, such as a local lab code, that
+ * stands for one of the LOINC codes the app displays.
+ */
+export interface SourceCode {
+  /** The code system, such as "http://loinc.org" or a local system. */
+  system: string;
+  code: string;
+  display?: string;
+}
+
+/**
+ * The equivalences of a ConceptMap under which a source code is displayed as
+ * its target. Narrower, wider and inexact mappings are left out, since their
+ * results could not be graphed against the target's.
+ * http://hl7.org/fhir/R4/valueset-concept-map-equivalence.html
+ */
+const DISPLAYABLE_EQUIVALENCES = ['equal', 'equivalent'];
+
+/**
+ * Maps the codes Observations are reported with onto the LOINC codes the app
+ * displays, as described by FHIR ConceptMaps. This lets several source codes,
+ * such as local codes and sibling LOINC codes, be gathered into one series.
+ * Only mappings to LOINC codes are kept.
+ */
+export class ConceptMapper {
+  // The target LOINC code of each source code, keyed by "system|code".
+  private readonly targets = new Map<string, string>();
+  // The source codes of each target LOINC code.
+  private readonly sources = new Map<string, SourceCode[]>();
+
+  /**
+   * Adds the mappings of a ConceptMap, in the form of any version of the FHIR
+   * standard, or of every ConceptMap in a Bundle.
+   * @param json The JSON of the ConceptMap or Bundle.
+   * @throws An Error if the JSON is not a ConceptMap or a Bundle.
+   */
+  addConceptMap(json: any) {
+    if (json && json.resourceType === FhirResourceType.Bundle) {
+      for (const entry of (json.entry || [])) {
+        this.addConceptMap(entry.resource);
+      }
+      return;
+    }
+    if (!json || json.resourceType !== FhirResourceType.ConceptMap) {
+      throw Error(
+          'Expected a ConceptMap or a Bundle of ConceptMaps, but got ' +
+          (json ? json.resourceType : json) + '.');
+    }
+    // DSTU2 ConceptMaps give the code system of each element and target,
+    // while later versions group the elements by code system.
+    if (json.group) {
+      for (const group of json.group) {
+        for (const element of (group.element || [])) {
+          this.addElement(group.source, group.target, element);
+        }
+      }
+    } else {
+      for (const element of (json.element || [])) {
+        this.addElement(element.codeSystem, undefined, element);
+      }
+    }
+  }
+
+  /**
+   * Finds the LOINC code a source code is displayed as.
+   * @param system The code system of the source code.
+   * @param code The source code.
+   * @returns The LOINC code, or undefined if the source code is not mapped.
+   */
+  targetOf(system: string, code: string): string {
+    return this.targets.get(system + '|' + code);
+  }
+
+  /**
+   * Finds the source codes that are displayed as a LOINC code, so that they
+   * can be searched for along with it.
+   * @param code The LOINC code.
+   */
+  sourcesOf(code: string): SourceCode[] {
+    return this.sources.get(code) || [];
+  }
+
+  private addElement(sourceSystem: string, targetSystem: string, element: any) {
+    for (const target of (element.target || [])) {
+      const system = target.codeSystem || targetSystem;
+      const equivalence = target.equivalence || 'equivalent';
+      if (system !== LOINCCode.CODING_STRING || !target.code ||
+          !DISPLAYABLE_EQUIVALENCES.includes(equivalence) || !sourceSystem ||
+          !element.code) {
+        continue;
+      }
+      // A source code can only be displayed as one target, so the first
+      // mapping of each source code is kept.
+      const key = sourceSystem + '|' + element.code;
+      if (this.targets.has(key)) {
+        continue;
+      }
+      this.targets.set(key, target.code);
+      const sources = this.sources.get(target.code) || [];
+      sources.push(
+          {system: sourceSystem, code: element.code, display: element.display});
+      this.sources.set(target.code, sources);
+    }
+  }
+}
+
+/**
+ * The mappings used to read Observations, starting with the ConceptMaps
+ * shipped with the app. Sites add their own when the app starts.
+ */
+export const conceptMapper = new ConceptMapper();
+conceptMapper.addConceptMap(defaultConceptMapJson);
@@ -0,0 +1,194 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+// Disable this check because it's for IE 11 compatibility and we're not worried
+// about that in our testing code.
+/* tslint:disable:object-literal-shorthand*/
+
+import {DateTime, Interval} from 'luxon';
+import {Subject} from 'rxjs';
+
+import {Observation} from '../fhir-data-classes/observation';
+import {SearchProgress} from '../fhir-paging';
+import {restoreCodes, useCodes} from '../test_utils';
+import {UCUM_SYSTEM} from '../ucum';
+
+import {DerivedCode} from './derived-code';
+import {DerivedCodeGroup} from './derived-code-group';
+import {vitalSign} from './display-grouping';
+import {LOINCCode, LOINCCodeGroup} from './loinc-code';
+
+const time = DateTime.fromISO('2018-09-10T12:00:00.000Z');
+const dateRange =
+    Interval.fromDateTimes(time.minus({days: 1}), time.plus({days: 1}));
+
+function makeObservation(
+    code: string, text: string, timestamp: DateTime, value?: number,
+    unit?: string, components?: any[]): Observation {
+  return new Observation({
+    code: {coding: [{system: LOINCCode.CODING_STRING, code: code}], text: text},
+    effectiveDateTime: timestamp.toISO(),
+    valueQuantity: value === undefined ?
+        undefined :
+        {value: value, unit: unit, system: UCUM_SYSTEM, code: unit},
+    component: components
+  });
+}
+
+function makeBloodPressure(
+    timestamp: DateTime, systolic: number, diastolic: number): Observation {
+  return makeObservation(
+      '55284-4', 'Blood Pressure', timestamp, undefined, undefined, [
+        {
+          code: {
+            coding: [{system: LOINCCode.CODING_STRING, code: '8480-6'}],
+            text: 'Systolic BP'
+          },
+          valueQuantity: {
+            value: systolic,
+            unit: 'mmHg',
+            system: UCUM_SYSTEM,
+            code: 'mm[Hg]'
+          }
+        },
+        {
+          code: {
+            coding: [{system: LOINCCode.CODING_STRING, code: '8462-4'}],
+            text: 'Diastolic BP'
+          },
+          valueQuantity: {
+            value: diastolic,
+            unit: 'mmHg',
+            system: UCUM_SYSTEM,
+            code: 'mm[Hg]'
+          }
+        }
+      ]);
+}
+
+function makeGroup(
+    code: string, observations: Observation[]): DerivedCodeGroup {
+  const fhirServiceStub: any = {
+    searchProgress: new Subject<SearchProgress>(),
+    getObservationsForCodeGroup() {
+      return Promise.resolve([observations]);
+    }
+  };
+  return new DerivedCodeGroup(
+      fhirServiceStub, DerivedCode.fromCodeString(code) as DerivedCode,
+      vitalSign);
+}
+
+describe('DerivedCodeGroup', () => {
+  beforeEach(() => {
+    useCodes();
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
+  it('should compute values from the components of panels', (done: DoneFn) => {
+    makeGroup('calculated-map', [makeBloodPressure(time, 120, 60)])
+        .getResourceFromFhir(dateRange)
+        .then(result => {
+          expect(result.length).toEqual(1);
+          expect(result[0].label).toEqual('Calculated MAP');
+          const annotated = result[0].resourceList[0];
+          expect(annotated.observation.value.value).toEqual(80);
+          expect(annotated.observation.timestamp.toMillis())
+              .toEqual(time.toMillis());
+          expect(annotated.annotationValues).toEqual([
+            ['Formula', 'MAP = (SBP + 2 × DBP) / 3'],
+            ['Systolic BP', '120 mmHg'], ['Diastolic BP', '60 mmHg']
+          ]);
+          done();
+        });
+  });
+
+  it('should retrieve the inputs again if their search left out results',
+     (done: DoneFn) => {
+       let truncated = true;
+       const fhirServiceStub: any = {
+         searchProgress: new Subject<SearchProgress>(),
+         getObservationsForCodeGroup(group: LOINCCodeGroup) {
+           fhirServiceStub.searchProgress.next(new SearchProgress(
+               0, group.resourceCodes, 10, 10, 20, true, truncated));
+           truncated = false;
+           return Promise.resolve([[makeBloodPressure(time, 120, 60)]]);
+         }
+       };
+       const fhirSpy = spyOn(fhirServiceStub, 'getObservationsForCodeGroup')
+                           .and.callThrough();
+       const derivedGroup = new DerivedCodeGroup(
+           fhirServiceStub,
+           DerivedCode.fromCodeString('calculated-map') as DerivedCode,
+           vitalSign);
+
+       derivedGroup.getResourceSet(dateRange)
+           .then(x => derivedGroup.getResourceSet(dateRange))
+           .then(x => derivedGroup.getResourceSet(dateRange))
+           .then(result => {
+             expect(result[0].resourceList.length).toEqual(1);
+             expect(fhirSpy).toHaveBeenCalledTimes(2);
+             done();
+           });
+     });
+
+  it('should not compute values where the value is recorded',
+     (done: DoneFn) => {
+       const later = time.plus({hours: 1});
+       makeGroup(
+           'calculated-map',
+           [
+             makeBloodPressure(time, 120, 60),
+             makeBloodPressure(later, 110, 50),
+             makeObservation('76214-6', 'Mean Arterial Pressure', later, 72)
+           ])
+           .getResourceFromFhir(dateRange)
+           .then(result => {
+             expect(result[0].resourceList.length).toEqual(1);
+             expect(result[0].resourceList[0].observation.value.value)
+                 .toEqual(80);
+             done();
+           });
+     });
+
+  it('should use the closest inputs within the tolerance, in the units of ' +
+         'the formula',
+     (done: DoneFn) => {
+       makeGroup(
+           'calculated-bmi',
+           [
+             makeObservation('29463-7', 'Body Weight', time, 20, 'kg'),
+             makeObservation(
+                 '8302-2', 'Body Height', time.minus({days: 20}), 90, 'cm'),
+             makeObservation(
+                 '8302-2', 'Body Height', time.minus({days: 10}), 100, 'cm')
+           ])
+           .getResourceFromFhir(dateRange)
+           .then(result => {
+             const annotated = result[0].resourceList[0];
+             expect(annotated.observation.value.value).toEqual(20);
+             expect(annotated.annotationValues[2][1]).toContain('100 cm (');
+             done();
+           });
+     });
+
+  it('should not compute values without every input within the tolerance',
+     (done: DoneFn) => {
+       makeGroup(
+           'calculated-bmi',
+           [
+             makeObservation('29463-7', 'Body Weight', time, 20, 'kg'),
+             makeObservation(
+                 '8302-2', 'Body Height', time.minus({days: 40}), 100, 'cm')
+           ])
+           .getResourceFromFhir(dateRange)
+           .then(result => {
+             expect(result).toEqual([]);
+             done();
+           });
+     });
+});
@@ -0,0 +1,229 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime, Interval} from 'luxon';
+
+import {AnnotatedObservation} from '../fhir-data-classes/annotated-observation';
+import {Observation} from '../fhir-data-classes/observation';
+import {ObservationSet} from '../fhir-data-classes/observation-set';
+import {FhirService} from '../fhir.service';
+import {ChartType} from '../graphtypes/graph/graph.component';
+import {convertUnit, displayUnit, UCUM_SYSTEM} from '../ucum';
+
+import {DerivedCode} from './derived-code';
+import {DisplayGrouping} from './display-grouping';
+import {LOINCCode, LOINCCodeGroup} from './loinc-code';
+import {PREFERRED_UNITS} from './preferred-units';
+import {ResourceCode} from './resource-code-group';
+
+/**
+ * The value of an input of a formula, in the unit the formula takes it in.
+ */
+interface InputValue {
+  observation: Observation;
+  value: number;
+}
+
+/**
+ * Computes the values of a DerivedCode over time from the Observations of its
+ * inputs. Each value is annotated with the formula and the values it was
+ * computed from, so that its tooltip can show them.
+ */
+export class DerivedCodeGroup extends LOINCCodeGroup {
+  // The Observations the values are computed from, along with the recorded
+  // values at whose times no value is computed.
+  private readonly sources: LOINCCodeGroup;
+
+  constructor(
+      fhirService: FhirService,
+      /** The code whose values are computed. */
+      readonly derivedCode: DerivedCode, displayGrouping: DisplayGrouping) {
+    super(
+        fhirService, derivedCode.label, [derivedCode], displayGrouping,
+        ChartType.LINE);
+    const inputCodes = [].concat(...derivedCode.formula.inputs.map(
+        input => derivedCode.inputCodes(input.name)));
+    this.sources = new LOINCCodeGroup(
+        fhirService, derivedCode.label,
+        Array.from(new Set(inputCodes.concat(
+            derivedCode.panelCodes, derivedCode.recordedCodes))),
+        displayGrouping, ChartType.LINE);
+    this.precision = derivedCode.formula.precision;
+  }
+
+  /**
+   * Computes the values within the time interval. The Observations of the
+   * inputs are retrieved for the interval widened by the tolerance, so that
+   * values near its ends can use inputs measured just outside it.
+   */
+  getResourceFromFhir(dateRange: Interval): Promise<ObservationSet[]> {
+    const tolerance = this.derivedCode.tolerance;
+    const widened = Interval.fromDateTimes(
+        dateRange.start.minus(tolerance), dateRange.end.plus(tolerance));
+    return this.sources.getResourceSet(widened).then(obsSets => {
+      const observations = [].concat(...obsSets.map(
+          obsSet =>
+              obsSet.resourceList.map(annotated => annotated.observation)));
+      const values = computeValues(this.derivedCode, observations, dateRange);
+      return values.length > 0 ? [new ObservationSet(values)] : [];
+    });
+  }
+
+  /**
+   * The values are computed from the Observations of the inputs, so their
+   * searches are the ones that can leave out data.
+   * @override
+   */
+  protected searchedCodes(): ResourceCode[] {
+    return this.sources.resourceCodes;
+  }
+
+  /**
+   * Empties the cache, along with the cache of the Observations the values
+   * are computed from.
+   * @override
+   */
+  clearCache() {
+    super.clearCache();
+    this.sources.clearCache();
+  }
+}
+
+/**
+ * Computes a value at the time of each value of the formula's first input
+ * within the time interval, unless a value is recorded within the tolerance
+ * of that time. The other inputs take the values measured closest to that
+ * time, within the tolerance.
+ * @param code The code whose values are computed.
+ * @param observations The Observations of the inputs and recorded values.
+ * @param dateRange The time interval to compute values in.
+ */
+function computeValues(
+    code: DerivedCode, observations: Observation[],
+    dateRange: Interval): AnnotatedObservation[] {
+  const formula = code.formula;
+  const tolerance = code.tolerance.as('milliseconds');
+  const withinTolerance = (observation: Observation, time: DateTime) =>
+      Math.abs(observation.timestamp.diff(time).as('milliseconds')) <=
+      tolerance;
+  const withCodes = (codes: LOINCCode[]) => observations.filter(
+      observation => !!observation.timestamp &&
+          observation.codes.some(c => codes.includes(c as LOINCCode)));
+
+  const inputs = formula.inputs.map(
+      input => withCodes(code.inputCodes(input.name))
+                   .map(observation => ({
+                          observation: observation,
+                          value: valueIn(observation, input.unit)
+                        }))
+                   .filter(inputValue => inputValue.value !== undefined));
+  const recorded = withCodes(code.recordedCodes);
+
+  const values = new Array<AnnotatedObservation>();
+  const times = new Set<number>();
+  for (const first of inputs[0]) {
+    const time = first.observation.timestamp;
+    if (!dateRange.contains(time) || times.has(time.toMillis()) ||
+        recorded.some(observation => withinTolerance(observation, time))) {
+      continue;
+    }
+    const inputValues = [first].concat(inputs.slice(1).map(
+        candidates => closest(
+            candidates.filter(
+                candidate => withinTolerance(candidate.observation, time)),
+            time)));
+    if (inputValues.some(input => !input)) {
+      continue;
+    }
+    const value = formula.compute(inputValues.map(input => input.value));
+    if (!isFinite(value)) {
+      continue;
+    }
+    times.add(time.toMillis());
+    const annotations: Array<[string, string]> =
+        [['Formula', formula.description]];
+    for (const input of inputValues) {
+      annotations.push([input.observation.label, describeInput(input, time)]);
+    }
+    values.push(new AnnotatedObservation(
+        makeObservation(code, time, Number(value.toFixed(formula.precision))),
+        annotations));
+  }
+  return values.sort(
+      (a, b) => a.observation.timestamp.toMillis() -
+          b.observation.timestamp.toMillis());
+}
+
+/**
+ * Makes an Observation holding a computed value, so that it can be charted
+ * like the values read from FHIR.
+ */
+function makeObservation(
+    code: DerivedCode, time: DateTime, value: number): Observation {
+  const unit = code.formula.unit;
+  return new Observation({
+    code: {
+      coding: [{system: DerivedCode.CODING_STRING, code: code.codeString}],
+      text: code.label
+    },
+    effectiveDateTime: time.toISO(),
+    valueQuantity: unit ? {
+      value: value,
+      unit: displayUnit(unit),
+      system: UCUM_SYSTEM,
+      code: unit
+    } :
+                          {value: value}
+  });
+}
+
+/**
+ * Gets the value of an Observation in a unit. Values without a unit are
+ * taken to be in the unit already.
+ * @returns The value, or undefined if the Observation has no exact value, or
+ *     its unit cannot be converted.
+ */
+function valueIn(observation: Observation, unit: string): number {
+  if (!observation.value || typeof observation.value.value !== 'number' ||
+      observation.comparator) {
+    return undefined;
+  }
+  if (!observation.unitCode) {
+    return observation.value.value;
+  }
+  const preferred = PREFERRED_UNITS.get(observation.codes[0].codeString);
+  try {
+    return convertUnit(
+        observation.value.value, observation.unitCode, unit,
+        preferred ? preferred.molarMass : undefined);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the input value measured closest to a time.
+ */
+function closest(candidates: InputValue[], time: DateTime): InputValue {
+  const distance = (candidate: InputValue) =>
+      Math.abs(candidate.observation.timestamp.diff(time).as('milliseconds'));
+  return candidates.reduce(
+      (best, candidate) =>
+          !best || distance(candidate) < distance(best) ? candidate : best,
+      undefined);
+}
+
+/**
+ * Describes an input value for a tooltip, such as "120 mmHg", with the time
+ * it was measured if that is not the time of the computed value.
+ */
+function describeInput(input: InputValue, time: DateTime): string {
+  const timestamp = input.observation.timestamp;
+  return input.observation.displayValue +
+      (timestamp.toMillis() === time.toMillis() ?
+           '' :
+           ' (' + timestamp.toLocal().toLocaleString(DateTime.DATETIME_SHORT) +
+               ')');
+}
@@ -0,0 +1,68 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+// Disable this check because it's for IE 11 compatibility and we're not worried
+// about that in our testing code.
+/* tslint:disable:object-literal-shorthand*/
+
+import {restoreCodes, useCodes} from '../test_utils';
+
+import {DerivedCode, DerivedFormula, FORMULAS} from './derived-code';
+
+describe('FORMULAS', () => {
+  it('should compute mean arterial pressures', () => {
+    expect(FORMULAS.get(DerivedFormula.MeanArterialPressure).compute([
+      120, 60
+    ])).toEqual(80);
+  });
+
+  it('should compute bedside Schwartz eGFRs', () => {
+    expect(FORMULAS.get(DerivedFormula.BedsideSchwartz).compute([
+      0.413, 100
+    ])).toBeCloseTo(100);
+  });
+
+  it('should compute body mass indices', () => {
+    expect(FORMULAS.get(DerivedFormula.BodyMassIndex).compute([
+      20, 1
+    ])).toEqual(20);
+  });
+
+  it('should compute shock indices', () => {
+    expect(FORMULAS.get(DerivedFormula.ShockIndex).compute([
+      90, 120
+    ])).toEqual(0.75);
+  });
+});
+
+describe('DerivedCode', () => {
+  beforeEach(() => {
+    useCodes();
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
+  it('should have data available when every input has data, on its own or ' +
+         'in a panel',
+     (done: DoneFn) => {
+       const code = DerivedCode.fromCodeString('calculated-shock-index');
+       const present = ['8867-4', '55284-4'];
+       const fhirServiceStub: any = {
+         observationsPresentWithCode(loincCode) {
+           return Promise.resolve(present.includes(loincCode.codeString));
+         }
+       };
+       code.dataAvailableInAppTimeScope(fhirServiceStub).then(available => {
+         expect(available).toBe(true);
+         present.pop();
+         code.dataAvailableInAppTimeScope(fhirServiceStub)
+             .then(availableWithoutPanel => {
+               expect(availableWithoutPanel).toBe(false);
+               done();
+             });
+       });
+     });
+});
@@ -0,0 +1,181 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Duration} from 'luxon';
+import {APP_TIMESPAN} from 'src/constants';
+
+import {FhirService} from '../fhir.service';
+
+import {CodeConfig, DerivedConfig} from './concept-config';
+import {DisplayGrouping} from './display-grouping';
+import {LOINCCode} from './loinc-code';
+import {ResourceCode} from './resource-code-group';
+
+/**
+ * The formulas a code's values can be computed with.
+ */
+export enum DerivedFormula {
+  MeanArterialPressure = 'meanArterialPressure',
+  BedsideSchwartz = 'bedsideSchwartz',
+  BodyMassIndex = 'bodyMassIndex',
+  ShockIndex = 'shockIndex'
+}
+
+/**
+ * An input of a formula.
+ */
+export interface FormulaInput {
+  /** The name the input is configured by, such as "systolic". */
+  name: string;
+  /** The UCUM unit the formula takes the input's values in. */
+  unit: string;
+}
+
+/**
+ * A formula computing a value from the values of other Observations.
+ */
+export interface Formula {
+  /** How the formula is shown in tooltips. */
+  description: string;
+  /**
+   * The inputs of the formula. A value is computed at the time of each value
+   * of the first input.
+   */
+  inputs: FormulaInput[];
+  /** The UCUM unit of the computed values, if they have one. */
+  unit?: string;
+  /** The number of decimal places computed values are rounded to. */
+  precision: number;
+  /**
+   * Computes a value from the values of the inputs, given in the order and
+   * units of the inputs.
+   */
+  compute: (values: number[]) => number;
+}
+
+/**
+ * The formulas a code's values can be computed with, by name.
+ */
+export const FORMULAS = new Map<string, Formula>([
+  [
+    DerivedFormula.MeanArterialPressure, {
+      description: 'MAP = (SBP + 2 × DBP) / 3',
+      inputs: [
+        {name: 'systolic', unit: 'mm[Hg]'}, {name: 'diastolic', unit: 'mm[Hg]'}
+      ],
+      unit: 'mm[Hg]',
+      precision: 0,
+      compute: ([systolic, diastolic]) => (systolic + 2 * diastolic) / 3
+    }
+  ],
+  // The bedside Schwartz equation estimates the GFR of children.
+  // https://www.ncbi.nlm.nih.gov/pmc/articles/PMC2653687/
+  [
+    DerivedFormula.BedsideSchwartz, {
+      description: 'eGFR = 0.413 × height (cm) / creatinine (mg/dL)',
+      inputs:
+          [{name: 'creatinine', unit: 'mg/dL'}, {name: 'height', unit: 'cm'}],
+      unit: 'mL/min/{1.73_m2}',
+      precision: 0,
+      compute: ([creatinine, height]) => 0.413 * height / creatinine
+    }
+  ],
+  [
+    DerivedFormula.BodyMassIndex, {
+      description: 'BMI = weight (kg) / height (m)²',
+      inputs: [{name: 'weight', unit: 'kg'}, {name: 'height', unit: 'm'}],
+      unit: 'kg/m2',
+      precision: 1,
+      compute: ([weight, height]) => weight / (height * height)
+    }
+  ],
+  [
+    DerivedFormula.ShockIndex, {
+      description: 'Shock index = HR / SBP',
+      inputs: [
+        {name: 'heartRate', unit: '/min'}, {name: 'systolic', unit: 'mm[Hg]'}
+      ],
+      precision: 2,
+      compute: ([heartRate, systolic]) => heartRate / systolic
+    }
+  ]
+]);
+
+/**
+ * A code whose values are computed from the values of other codes with a
+ * formula, such as a mean arterial pressure computed from systolic and
+ * diastolic pressures, rather than read from Observations.
+ */
+export class DerivedCode extends ResourceCode {
+  static readonly CODING_STRING = 'urn:medtimeline:derived';
+
+  /** The formula the values are computed with. */
+  readonly formula: Formula;
+  /** How far apart in time the inputs of a value may be measured. */
+  readonly tolerance: Duration;
+
+  constructor(
+      codeString: string, displayGrouping: DisplayGrouping, label: string,
+      /** How the values are computed. */
+      readonly derivation: DerivedConfig, showByDefault = false,
+      displayBounds?: [number, number], forceDisplayBounds = false) {
+    super(
+        codeString, displayGrouping, label, showByDefault, displayBounds,
+        forceDisplayBounds);
+    this.formula = FORMULAS.get(derivation.formula);
+    this.tolerance = derivation.tolerance ?
+        Duration.fromISO(derivation.tolerance) :
+        Duration.fromMillis(0);
+  }
+
+  /**
+   * The codes of the panels whose components hold the inputs.
+   */
+  get panelCodes(): LOINCCode[] {
+    return knownCodes(this.derivation.panels);
+  }
+
+  /**
+   * The codes that record the value itself, at whose times no value is
+   * computed.
+   */
+  get recordedCodes(): LOINCCode[] {
+    return knownCodes(this.derivation.unlessRecorded);
+  }
+
+  /**
+   * The codes holding the values of an input.
+   * @param name The name of the input.
+   */
+  inputCodes(name: string): LOINCCode[] {
+    return knownCodes(this.derivation.inputs[name]);
+  }
+
+  /**
+   * Values can be computed if there are Observations for every input, either
+   * on their own or as components of panels.
+   */
+  dataAvailableInAppTimeScope(fhirService: FhirService): Promise<boolean> {
+    const available = (codes: LOINCCode[]) =>
+        Promise
+            .all(codes.map(
+                code => fhirService.observationsPresentWithCode(
+                    code, APP_TIMESPAN)))
+            .then(present => present.some(x => x));
+    return Promise
+        .all(this.formula.inputs.map(
+            input =>
+                available(this.inputCodes(input.name).concat(this.panelCodes))))
+        .then(present => present.every(x => x));
+  }
+}
+
+/**
+ * Looks up configured LOINC codes, leaving out any that are not registered.
+ */
+function knownCodes(codes: CodeConfig[] = []): LOINCCode[] {
+  return codes.map(code => LOINCCode.fromCodeString(code.code) as LOINCCode)
+      .filter(code => !!code);
+}
@@ -4,6 +4,7 @@
 // license that can be found in the LICENSE file.
 
 import * as Color from 'color';
+
 import * as BCHColors from '../theme/bch_colors';
 
 
@@ -39,11 +40,16 @@ export const vitalSign =
     new DisplayGrouping('Vital Signs', BCHColors.MATERIAL_YELLOW);
 export const culture =
     new DisplayGrouping('Cultures', BCHColors.BOSTON_WARM_GRAY);
-export const med =
-    new DisplayGrouping('Vancomycin and Gentamicin', BCHColors.MATERIAL_TEAL);
+export const med = new DisplayGrouping('Medications', BCHColors.MATERIAL_TEAL);
 export const document = new DisplayGrouping('Document', BCHColors.BOSTON_BAY);
 export const microbio =
     new DisplayGrouping('Microbiology', BCHColors.MATERIAL_ORANGE);
+// Cards the user built in the app are grouped together.
+export const customCard =
+    new DisplayGrouping('Custom Cards', BCHColors.BOSTON_PINK);
+// Results found in the patient's record that no configured card displays.
+export const otherResults =
+    new DisplayGrouping('Other Results', BCHColors.BOSTON_LAVENDER);
 // We declare more DisplayGroupings related to Microbiology results that are
 // used to classify points on the Microbiology chart.
 export const posPrelimMB = new DisplayGrouping(
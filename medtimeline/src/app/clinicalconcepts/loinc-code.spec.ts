@@ -7,18 +7,27 @@
 // about that in our testing code.
 /* tslint:disable:object-literal-shorthand*/
 
-import {Interval} from 'luxon';
+import {DateTime, Interval} from 'luxon';
+import {Subject} from 'rxjs';
 
 import {AnnotatedObservation} from '../fhir-data-classes/annotated-observation';
 import {Observation} from '../fhir-data-classes/observation';
 import {OBSERVATION_INTERPRETATION_VALUESET_URL, ObservationInterpretation} from '../fhir-data-classes/observation-interpretation-valueset';
+import {SearchProgress} from '../fhir-paging';
 import {ChartType} from '../graphtypes/graph/graph.component';
+import {restoreCodes, useCodes, vancomycinPeakCode} from '../test_utils';
 
 import {vitalSign} from './display-grouping';
 import {LOINCCode, LOINCCodeGroup} from './loinc-code';
-import {ResourceCode} from './resource-code-group';
 
 describe('LOINCCodeGroup', () => {
+  beforeEach(() => {
+    useCodes(vancomycinPeakCode);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
   it('should correctly separate list of Observations into ObservationSets if ' +
          'inner components are present',
      (done: DoneFn) => {
@@ -166,7 +175,7 @@ describe('LOINCCodeGroup', () => {
     const loincGroup = new LOINCCodeGroup(
         fhirServiceStub, 'label',
         [
-          ResourceCode.fromCodeString('4090-7'),
+          LOINCCode.fromCodeString('4090-7'),
         ],
         vitalSign, ChartType.LINE, [80, 200], true,
         (o: Observation, range: Interval): Promise<AnnotatedObservation> => {
@@ -207,7 +216,7 @@ describe('LOINCCodeGroup', () => {
     const loincGroup = new LOINCCodeGroup(
         fhirServiceStub, 'label',
         [
-          ResourceCode.fromCodeString('4090-7'),
+          LOINCCode.fromCodeString('4090-7'),
         ],
         vitalSign, ChartType.LINE, [80, 200], true,
         (o: Observation, range: Interval): Promise<AnnotatedObservation> => {
@@ -229,11 +238,91 @@ describe('LOINCCodeGroup', () => {
     });
   });
 
+  it('should merge observations retrieved for overlapping time intervals',
+     (done: DoneFn) => {
+       const makeTemperature = (value: number, day: number) => new Observation({
+         code: {
+           text: 'Temperature',
+           coding: [{system: LOINCCode.CODING_STRING, code: '8310-5'}]
+         },
+         valueQuantity: {value: value},
+         effectiveDateTime: DateTime.utc(2018, 8, day).toISO()
+       });
+       const temperatures = [
+         makeTemperature(97, 1), makeTemperature(98, 2), makeTemperature(99, 3)
+       ];
+       const fhirServiceStub: any = {
+         searchProgress: new Subject<SearchProgress>(),
+         getObservationsForCodeGroup(group, dateRange: Interval) {
+           // Include both ends of the interval, as FHIR date searches do.
+           return Promise.resolve([temperatures.filter(
+               obs => dateRange.contains(obs.timestamp) ||
+                   obs.timestamp.equals(dateRange.end))]);
+         }
+       };
+       const loincGroup = new LOINCCodeGroup(
+           fhirServiceStub, 'label', [], vitalSign, ChartType.LINE);
+
+       loincGroup
+           .getResourceSet(Interval.fromDateTimes(
+               DateTime.utc(2018, 8, 1), DateTime.utc(2018, 8, 2)))
+           .then(
+               x => loincGroup.getResourceSet(Interval.fromDateTimes(
+                   DateTime.utc(2018, 7, 31), DateTime.utc(2018, 8, 4))))
+           .then(result => {
+             expect(result.length).toEqual(1);
+             expect(result[0].resourceList.map(
+                        annotated => annotated.observation.value.value))
+                 .toEqual([97, 98, 99]);
+             done();
+           });
+     });
+
+  it('should keep distinct observations with the same time and value',
+     (done: DoneFn) => {
+       const makeTemperature = (id: string, day: number) => new Observation({
+         id: id,
+         code: {
+           text: 'Temperature',
+           coding: [{system: LOINCCode.CODING_STRING, code: '8310-5'}]
+         },
+         valueQuantity: {value: 98},
+         effectiveDateTime: DateTime.utc(2018, 8, day).toISO()
+       });
+       const temperatures = [
+         makeTemperature('first', 1), makeTemperature('second', 1),
+         makeTemperature('third', 2)
+       ];
+       const fhirServiceStub: any = {
+         searchProgress: new Subject<SearchProgress>(),
+         getObservationsForCodeGroup(group, dateRange: Interval) {
+           return Promise.resolve([temperatures.filter(
+               obs => dateRange.contains(obs.timestamp) ||
+                   obs.timestamp.equals(dateRange.end))]);
+         }
+       };
+       const loincGroup = new LOINCCodeGroup(
+           fhirServiceStub, 'label', [], vitalSign, ChartType.LINE);
+
+       loincGroup
+           .getResourceSet(Interval.fromDateTimes(
+               DateTime.utc(2018, 7, 31), DateTime.utc(2018, 8, 1)))
+           .then(
+               x => loincGroup.getResourceSet(Interval.fromDateTimes(
+                   DateTime.utc(2018, 7, 31), DateTime.utc(2018, 8, 3))))
+           .then(result => {
+             expect(result[0].resourceList.map(
+                        annotated => annotated.observation.id))
+                 .toEqual(['first', 'second', 'third']);
+             done();
+           });
+     });
+
   it('should set display bounds if there is just one code group', () => {
     const loincGroup = new LOINCCodeGroup(
         undefined /* FHIR service */, 'label',
         /* ESR's bounds are 0-200 */
-        [ResourceCode.fromCodeString('4537-7')], vitalSign, ChartType.LINE);
+        [LOINCCode.fromCodeString('4537-7')], vitalSign, ChartType.LINE);
     expect(loincGroup.displayBounds).toEqual([0, 200]);
   });
 
@@ -242,8 +331,8 @@ describe('LOINCCodeGroup', () => {
        const loincGroup = new LOINCCodeGroup(
            undefined /* FHIR service */, 'label',
            [
-             ResourceCode.fromCodeString('4537-7'),  // ESR
-             ResourceCode.fromCodeString('8867-4')   // Heart rate
+             LOINCCode.fromCodeString('4537-7'),  // ESR
+             LOINCCode.fromCodeString('8867-4')   // Heart rate
            ],
            vitalSign, ChartType.LINE);
        expect(loincGroup.displayBounds).toBeUndefined();
@@ -255,8 +344,8 @@ describe('LOINCCodeGroup', () => {
            undefined /* FHIR service */,
            'label',
            [
-             ResourceCode.fromCodeString('26464-8'),  // WBC
-             ResourceCode.fromCodeString('8310-5')    // Temperature
+             LOINCCode.fromCodeString('26464-8'),  // WBC
+             LOINCCode.fromCodeString('8310-5')    // Temperature
            ],
            vitalSign,
            ChartType.LINE,
@@ -284,7 +373,7 @@ describe('LOINCCodeGroup', () => {
        const loincGroup = new LOINCCodeGroup(
            fhirServiceStub, 'label',
            [
-             ResourceCode.fromCodeString('4090-7'),
+             LOINCCode.fromCodeString('4090-7'),
            ],
            vitalSign, ChartType.LINE, [80, 200], true,
            (o: Observation, range: Interval): Promise<AnnotatedObservation> => {
@@ -13,8 +13,21 @@ import {FhirService} from '../fhir.service';
 import {ChartType} from '../graphtypes/graph/graph.component';
 
 import {DisplayGrouping} from './display-grouping';
-import {ResourceCode} from './resource-code-group';
-import {CachedResourceCodeGroup} from './resource-code-group';
+import {CachedResourceCodeGroup, ResourceCode} from './resource-code-group';
+
+/**
+ * Whether two observations are the same observation, retrieved twice. Only
+ * observations without an id, such as computed ones, are compared by their
+ * time and value, since distinct observations can share those.
+ */
+function isSameObservation(a: Observation, b: Observation): boolean {
+  if (a.id || b.id) {
+    return a.id === b.id;
+  }
+  return a.timestamp.toMillis() === b.timestamp.toMillis() &&
+      (a.value ? a.value.value : null) === (b.value ? b.value.value : null) &&
+      a.result === b.result;
+}
 
 /**
  * Holds LOINC codes.
@@ -58,7 +71,12 @@ export class LOINCCodeGroup extends CachedResourceCodeGroup<ObservationSet> {
        */
       readonly makeAnnotated?:
           (observation: Observation,
-           dateRange: Interval) => Promise<AnnotatedObservation>) {
+           dateRange: Interval) => Promise<AnnotatedObservation>,
+      /**
+       * The groups computing the values of the DerivedCodes in this group,
+       * whose values are displayed alongside the Observations read from FHIR.
+       */
+      readonly derivedGroups: LOINCCodeGroup[] = []) {
     super(
         fhirService, label, resourceCodes, displayGrouping, chartType,
         displayBounds, forceDisplayBounds);
@@ -133,7 +151,9 @@ export class LOINCCodeGroup extends CachedResourceCodeGroup<ObservationSet> {
               mapObs.set(observation.label, obsList);
             }
           });
-          this.precision = maxPrecision;
+          // The precision is kept across retrievals for different time
+          // intervals, since they all end up in the same cache.
+          this.precision = Math.max(this.precision, maxPrecision);
           return Array.from(mapObs.values());
         })
         .then(
@@ -143,6 +163,78 @@ export class LOINCCodeGroup extends CachedResourceCodeGroup<ObservationSet> {
                         .then(
                             resolvedAnnotations =>
                                 new ObservationSet(resolvedAnnotations))))
-        .then(observationSetArray => Promise.all(observationSetArray));
+        .then(observationSetArray => Promise.all(observationSetArray))
+        .then(
+            observationSets =>
+                Promise
+                    .all(this.derivedGroups.map(
+                        group => group.getResourceSet(dateRange)))
+                    .then(derivedSets => {
+                      for (const group of this.derivedGroups) {
+                        this.precision =
+                            Math.max(this.precision, group.precision);
+                      }
+                      return observationSets.concat(...derivedSets);
+                    }));
+  }
+
+  /**
+   * Empties the cache, along with the caches of the groups computing derived
+   * values.
+   * @override
+   */
+  clearCache() {
+    super.clearCache();
+    for (const group of this.derivedGroups) {
+      group.clearCache();
+    }
+  }
+
+  /**
+   * Restricts each ObservationSet to the observations that fall within the
+   * time interval, leaving out any ObservationSets that end up empty.
+   * @param data The ObservationSets to restrict.
+   * @param dateRange The time interval to restrict the ObservationSets to.
+   */
+  protected sliceToRange(data: ObservationSet[], dateRange: Interval):
+      ObservationSet[] {
+    return data
+        .map(
+            obsSet => new ObservationSet(obsSet.resourceList.filter(
+                annotated => annotated.observation.timestamp &&
+                    dateRange.contains(annotated.observation.timestamp))))
+        .filter(obsSet => obsSet.resourceList.length > 0);
+  }
+
+  /**
+   * Combines the ObservationSets with the same label into one ObservationSet,
+   * sorted by time. Observations with the same label, timestamp and value are
+   * considered to be the same observation. Observations without a timestamp
+   * are left out, since they cannot be placed in any time interval.
+   * @param cached The ObservationSets already in the cache.
+   * @param retrieved The newly retrieved ObservationSets.
+   */
+  protected mergeResources(
+      cached: ObservationSet[], retrieved: ObservationSet[]): ObservationSet[] {
+    const mapObs = new Map<string, AnnotatedObservation[]>();
+    for (const obsSet of cached.concat(retrieved)) {
+      const obsList = mapObs.has(obsSet.label) ?
+          mapObs.get(obsSet.label) :
+          new Array<AnnotatedObservation>();
+      for (const annotated of obsSet.resourceList.filter(
+               a => !!a.observation.timestamp)) {
+        if (!obsList.some(
+                existing => isSameObservation(
+                    existing.observation, annotated.observation))) {
+          obsList.push(annotated);
+        }
+      }
+      mapObs.set(obsSet.label, obsList);
+    }
+    return Array.from(mapObs.values())
+        .map(
+            obsList => new ObservationSet(obsList.sort(
+                (a, b) => a.observation.timestamp.toMillis() -
+                    b.observation.timestamp.toMillis())));
   }
 }
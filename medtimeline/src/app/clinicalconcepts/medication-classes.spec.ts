@@ -0,0 +1,87 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import * as defaultClassesJson from '../../assets/medication-classes.json';
+
+import {med} from './display-grouping';
+import {MEDICATION_CLASS_TABLE_VERSION, MedicationClassCatalogue, medicationClasses} from './medication-classes';
+import {ANTIBIOTIC, ANTIVIRAL, MedicationConceptGroup, RxNormCode} from './rx-norm';
+
+describe('MedicationClassCatalogue', () => {
+  let catalogue: MedicationClassCatalogue;
+
+  beforeEach(() => {
+    catalogue = new MedicationClassCatalogue();
+    catalogue.addTable({
+      version: MEDICATION_CLASS_TABLE_VERSION,
+      classes: [
+        {atcCode: 'J01', label: 'Antibiotic'},
+        {atcCode: 'J05', label: 'Antiviral'},
+        {atcCode: 'J01XA', label: 'Glycopeptide', color: '#80225f'}
+      ],
+      medications: [
+        {code: '11124', label: 'Vancomycin', atcCode: 'J01XA01'},
+        {code: '1596450', label: 'Gentamicin', atcCode: 'J01GB03'},
+        {code: 'antimalarial', label: 'Antimalarial', atcCode: 'P01BA01'}
+      ]
+    });
+  });
+
+  it('should use the medication classes built into the app', () => {
+    expect(catalogue.classOf('1596450')).toBe(ANTIBIOTIC);
+    expect(medicationClasses.classOf('11124')).toBe(ANTIBIOTIC);
+  });
+
+  it('should find the most specific class of a medication', () => {
+    const glycopeptide = catalogue.classOf('11124');
+    expect(glycopeptide instanceof MedicationConceptGroup).toBe(true);
+    expect(glycopeptide.label).toEqual('Glycopeptide');
+    expect(glycopeptide.fill.hex()).toEqual('#80225F');
+    expect(catalogue.classOf('antimalarial')).toBeUndefined();
+    expect(catalogue.classOf('unknown')).toBeUndefined();
+  });
+
+  it('should make a summary card for each class with medications', () => {
+    const cards = catalogue.cards();
+    expect(cards.map(card => card.label)).toEqual([
+      'Antibiotic Summary', 'Glycopeptide Summary'
+    ]);
+    expect(cards[0].displayGrouping).toEqual(med.label);
+    expect(cards[0].axes[0].system).toEqual(RxNormCode.CODING_STRING);
+    expect(cards[0].axes[0].chartType).toEqual('STEP');
+    expect(cards[0].axes[0].codes).toEqual([
+      {code: '1596450', label: 'Gentamicin', displayGrouping: 'Antibiotic'}
+    ]);
+  });
+
+  it('should make a summary card for each class shipped with the app', () => {
+    expect(medicationClasses.cards().map(card => card.label))
+        .toEqual(defaultClassesJson.classes.map(
+            medicationClass => medicationClass.label + ' Summary'));
+  });
+
+  it('should keep the classes and medications already added', () => {
+    catalogue.addTable({
+      version: MEDICATION_CLASS_TABLE_VERSION,
+      classes: [{atcCode: 'J01', label: 'Antiviral'}],
+      medications: [{code: '1596450', label: 'Gentamicin', atcCode: 'J05'}]
+    });
+    expect(catalogue.classOf('1596450')).toBe(ANTIBIOTIC);
+    expect(ANTIVIRAL.label).toEqual('Antiviral');
+  });
+
+  it('should list every problem with an invalid table', () => {
+    expect(() => catalogue.addTable({
+      version: MEDICATION_CLASS_TABLE_VERSION,
+      classes: [{atcCode: 'J01', label: 'Lab Results', color: 'not a colour'}]
+    }))
+        .toThrowError(
+            'Invalid medication class table: ' +
+            'classes[0].label "Lab Results" is the label of a display ' +
+            'grouping that is not a medication class. ' +
+            'classes[0].color must be a CSS colour. ' +
+            'medications must be an array.');
+  });
+});
@@ -0,0 +1,232 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import * as Color from 'color';
+
+import * as defaultClassesJson from '../../assets/medication-classes.json';
+
+import {CardConfig} from './concept-config';
+import {ALL_DISPLAY_GROUPS_MAP, med} from './display-grouping';
+import {MedicationConceptGroup, RxNormCode} from './rx-norm';
+
+/**
+ * The version of the medication class table format. This should be bumped
+ * whenever the format changes.
+ */
+export const MEDICATION_CLASS_TABLE_VERSION = 1;
+
+/**
+ * A class of medications, given by a code of the Anatomical Therapeutic
+ * Chemical (ATC) classification, such as "J01" for antibacterials for systemic
+ * use.
+ * https://www.whocc.no/atc/structure_and_principles/
+ */
+export interface MedicationClassConfig {
+  atcCode: string;
+  /**
+   * The label of the class. Classes labelled like a MedicationConceptGroup
+   * built into the app, such as "Antibiotic", are displayed as it.
+   */
+  label: string;
+  /** The colour of the class, such as "#80225f", if it is not built in. */
+  color?: string;
+}
+
+/**
+ * A medication, given by the RxNorm code of its ingredient, and its ATC code,
+ * such as "J01XA01" for vancomycin.
+ */
+export interface ClassifiedMedication {
+  code: string;
+  label: string;
+  atcCode: string;
+}
+
+/**
+ * A local table of medication classes and the medications in them.
+ */
+export interface MedicationClassTableJson {
+  version: number;
+  classes: MedicationClassConfig[];
+  medications: ClassifiedMedication[];
+}
+
+/**
+ * The catalogue of medication classes. Each class with medications in it gets
+ * a medication summary card, and the medications of every medication summary
+ * are coloured by their class.
+ */
+export class MedicationClassCatalogue {
+  // The classes, by ATC code.
+  private readonly classes = new Map<string, MedicationConceptGroup>();
+  // The medications, by RxNorm code.
+  private readonly medications = new Map<string, ClassifiedMedication>();
+
+  /**
+   * Adds the classes and medications of a table. Classes and medications that
+   * are already in the catalogue are kept as they are.
+   * @param json The table, as parsed from JSON.
+   * @throws An Error listing every problem found, if the table is not valid.
+   */
+  addTable(json: any) {
+    const table = validateMedicationClassTable(json);
+    for (const medicationClass of table.classes) {
+      if (this.classes.has(medicationClass.atcCode)) {
+        continue;
+      }
+      const builtIn = ALL_DISPLAY_GROUPS_MAP.get(medicationClass.label);
+      this.classes.set(
+          medicationClass.atcCode,
+          builtIn instanceof MedicationConceptGroup ?
+              builtIn :
+              new MedicationConceptGroup(
+                  medicationClass.label,
+                  medicationClass.color ? Color(medicationClass.color) :
+                                          undefined));
+    }
+    for (const medication of table.medications) {
+      if (!this.medications.has(medication.code)) {
+        this.medications.set(medication.code, medication);
+      }
+    }
+  }
+
+  /**
+   * Finds the class of a medication, which is the class with the most
+   * specific ATC code that the medication's ATC code starts with.
+   * @param code The RxNorm code of the medication.
+   * @returns The class, or undefined if the medication is in no class.
+   */
+  classOf(code: string): MedicationConceptGroup {
+    const medication = this.medications.get(code);
+    if (!medication) {
+      return undefined;
+    }
+    const atcCode =
+        Array.from(this.classes.keys())
+            .filter(classCode => medication.atcCode.startsWith(classCode))
+            .sort((a, b) => b.length - a.length)[0];
+    return atcCode ? this.classes.get(atcCode) : undefined;
+  }
+
+  /**
+   * Makes the medication summary card of each class with medications in it,
+   * in the order the classes were added.
+   */
+  cards(): CardConfig[] {
+    const cards = new Array<CardConfig>();
+    for (const medicationClass of Array.from(new Set(this.classes.values()))) {
+      const medications =
+          Array.from(this.medications.values())
+              .filter(
+                  medication =>
+                      this.classOf(medication.code) === medicationClass);
+      if (medications.length === 0) {
+        continue;
+      }
+      const label = medicationClass.label + ' Summary';
+      const codes = medications.map(medication => ({
+                                      code: medication.code,
+                                      label: medication.label,
+                                      displayGrouping: medicationClass.label
+                                    }));
+      cards.push({
+        label: label,
+        displayGrouping: med.label,
+        axes: [{
+          label: label,
+          system: RxNormCode.CODING_STRING,
+          chartType: 'STEP',
+          codes: codes
+        }]
+      });
+    }
+    return cards;
+  }
+}
+
+/**
+ * The catalogue of medication classes, starting with the table shipped with
+ * the app. Sites add their own when the app starts.
+ */
+export const medicationClasses = new MedicationClassCatalogue();
+medicationClasses.addTable(defaultClassesJson);
+
+/**
+ * Checks that a medication class table has the expected form.
+ * @param json The table, as parsed from JSON.
+ * @returns The table.
+ * @throws An Error listing every problem found, if there are any.
+ */
+export function validateMedicationClassTable(json: any):
+    MedicationClassTableJson {
+  const problems = new Array<string>();
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    problems.push('The medication class table must be an object.');
+  } else {
+    if (json.version !== MEDICATION_CLASS_TABLE_VERSION) {
+      problems.push(
+          'version must be ' + MEDICATION_CLASS_TABLE_VERSION + ', but is ' +
+          json.version + '.');
+    }
+    checkEntries(json.classes, 'classes', problems, (medicationClass, path) => {
+      checkString(medicationClass.atcCode, path + '.atcCode', problems);
+      checkString(medicationClass.label, path + '.label', problems);
+      const builtIn = ALL_DISPLAY_GROUPS_MAP.get(medicationClass.label);
+      if (builtIn && !(builtIn instanceof MedicationConceptGroup)) {
+        problems.push(
+            path + '.label "' + medicationClass.label +
+            '" is the label of a display grouping that is not a ' +
+            'medication class.');
+      }
+      if (medicationClass.color !== undefined &&
+          !isColor(medicationClass.color)) {
+        problems.push(path + '.color must be a CSS colour.');
+      }
+    });
+    checkEntries(
+        json.medications, 'medications', problems, (medication, path) => {
+          checkString(medication.code, path + '.code', problems);
+          checkString(medication.label, path + '.label', problems);
+          checkString(medication.atcCode, path + '.atcCode', problems);
+        });
+  }
+  if (problems.length > 0) {
+    throw Error('Invalid medication class table: ' + problems.join(' '));
+  }
+  return json;
+}
+
+function checkEntries(
+    entries: any, path: string, problems: string[],
+    checkEntry: (entry: any, path: string) => void) {
+  if (!Array.isArray(entries)) {
+    problems.push(path + ' must be an array.');
+    return;
+  }
+  entries.forEach((entry, i) => {
+    const entryPath = path + '[' + i + ']';
+    if (typeof entry !== 'object' || entry === null) {
+      problems.push(entryPath + ' must be an object.');
+      return;
+    }
+    checkEntry(entry, entryPath);
+  });
+}
+
+function checkString(value: any, path: string, problems: string[]) {
+  if (typeof value !== 'string' || value.length === 0) {
+    problems.push(path + ' must be a non-empty string.');
+  }
+}
+
+function isColor(value: any): boolean {
+  try {
+    Color(value);
+    return typeof value === 'string';
+  } catch (e) {
+    return false;
+  }
+}
@@ -0,0 +1,47 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+/**
+ * The unit a measurement is charted in, and the molar mass of the substance
+ * measured, if it is reported both by mass and by amount of substance.
+ */
+export interface PreferredUnit {
+  /** The UCUM unit to chart the measurement in. */
+  readonly unit: string;
+  /** The molar mass of the substance measured, in grams per mole. */
+  readonly molarMass?: number;
+}
+
+/**
+ * The units we chart measurements in, keyed by LOINC code. The display bounds
+ * of the codes are in these units. Values reported in other units that can be
+ * converted to these are converted before they are charted.
+ */
+export const PREFERRED_UNITS = new Map<string, PreferredUnit>([
+  // Body Weight and Height
+  ['29463-7', {unit: 'kg'}],
+  ['8302-2', {unit: 'cm'}],
+  // Body temperature
+  ['8310-5', {unit: 'Cel'}],
+  // Systolic and Diastolic Blood Pressure
+  ['8480-6', {unit: 'mm[Hg]'}],
+  ['8462-4', {unit: 'mm[Hg]'}],
+  // Mean Arterial Pressure
+  ['76214-6', {unit: 'mm[Hg]'}],
+  // Heart Rate and Respiratory Rate
+  ['8867-4', {unit: '/min'}],
+  ['9279-1', {unit: '/min'}],
+  // BUN, measured as the nitrogen in urea.
+  ['3094-0', {unit: 'mg/dL', molarMass: 28.014}],
+  // Creatinine
+  ['2160-0', {unit: 'mg/dL', molarMass: 113.12}],
+  // Bilirubin, Direct and Total
+  ['1968-7', {unit: 'mg/dL', molarMass: 584.66}],
+  ['1975-2', {unit: 'mg/dL', molarMass: 584.66}],
+  // Uric acid
+  ['3084-1', {unit: 'mg/dL', molarMass: 168.11}],
+  // Hemoglobin, by the molar mass of a monomer.
+  ['718-7', {unit: 'g/dL', molarMass: 16114.5}],
+]);
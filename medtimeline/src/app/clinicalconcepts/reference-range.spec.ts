@@ -0,0 +1,62 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime, Interval} from 'luxon';
+
+import {Patient} from '../fhir-data-classes/patient';
+import {makePatient} from '../test_utils';
+
+import {vitalSign} from './display-grouping';
+import {LOINCCode} from './loinc-code';
+import {ReferenceRange, referenceRangesFor} from './reference-range';
+
+describe('ReferenceRange', () => {
+  const heartRate =
+      new LOINCCode('8867-4', vitalSign, 'Heart Rate', true, [20, 300]);
+
+  it('should find the normal range for the patient\'s age on a date', () => {
+    const ranges = referenceRangesFor(heartRate, makePatient('2018-01-01'));
+    expect(ranges.at(DateTime.local(2018, 1, 10))).toEqual([100, 205]);
+    expect(ranges.at(DateTime.local(2018, 6, 1))).toEqual([100, 180]);
+    expect(ranges.at(DateTime.local(2020, 3, 1))).toEqual([98, 140]);
+    expect(ranges.at(DateTime.local(2040, 3, 1))).toEqual([60, 100]);
+  });
+
+  it('should split an interval where the patient moves into another age band',
+     () => {
+       const ranges = referenceRangesFor(heartRate, makePatient('2018-01-01'));
+       const bands = ranges.over(Interval.fromDateTimes(
+           DateTime.local(2018, 12, 25), DateTime.local(2019, 1, 5)));
+       expect(bands.map(band => band.bounds)).toEqual([[100, 180], [98, 140]]);
+       expect(bands[0].interval.end.toISODate()).toEqual('2019-01-01');
+       expect(bands[1].interval.start.toISODate()).toEqual('2019-01-01');
+     });
+
+  it('should only use the ranges for the patient\'s sex', () => {
+    const table = new Map<string, ReferenceRange[]>([[
+      '8867-4',
+      [
+        new ReferenceRange([1, 2], {}, undefined, 'female'),
+        new ReferenceRange([3, 4], {}, undefined, 'male')
+      ]
+    ]]);
+    const ranges =
+        referenceRangesFor(heartRate, makePatient('2018-01-01'), table);
+    expect(ranges.at(DateTime.local(2019, 1, 1))).toEqual([3, 4]);
+  });
+
+  it('should have no normal ranges without a birth date', () => {
+    const patient = new Patient({
+      resourceType: 'Patient',
+      name: [{family: ['Smart'], given: ['Timmy']}]
+    });
+    expect(referenceRangesFor(heartRate, patient)).toBeUndefined();
+  });
+
+  it('should have no normal ranges for codes not in the tables', () => {
+    const code = new LOINCCode('2160-0', vitalSign, 'Creatinine', true);
+    expect(referenceRangesFor(code, makePatient())).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime, DurationObject, Interval} from 'luxon';
+
+import {Patient} from '../fhir-data-classes/patient';
+
+import {ResourceCode} from './resource-code-group';
+
+/**
+ * What is normal for a measurement in patients of a certain age and sex.
+ */
+export class ReferenceRange {
+  constructor(
+      /** The low and high bounds of the normal range. */
+      readonly bounds: [number, number],
+      /** The youngest age the range applies to. */
+      readonly ageFrom: DurationObject,
+      /**
+       * The age from which the range no longer applies. If unset, the range
+       * applies at any age from ageFrom on.
+       */
+      readonly ageTo?: DurationObject,
+      /**
+       * The administrative gender the range applies to. If unset, the range
+       * applies to patients of any sex.
+       */
+      readonly sex?: string) {}
+
+  /**
+   * The dates on which the range applies to a patient born on the given date.
+   * @param birthDate The patient's birth date.
+   */
+  intervalFor(birthDate: DateTime): Interval {
+    return Interval.fromDateTimes(
+        birthDate.plus(this.ageFrom),
+        this.ageTo ? birthDate.plus(this.ageTo) : DateTime.utc(9999));
+  }
+}
+
+/**
+ * Normal ranges for the vital signs of children, by age, from the Pediatric
+ * Advanced Life Support provider manual (American Heart Association, 2015).
+ * The ranges are for children who are awake, and are the same for both sexes.
+ * The ranges for the oldest age band are used for all older patients.
+ */
+export const REFERENCE_RANGES = new Map<string, ReferenceRange[]>([
+  [
+    // Heart Rate
+    '8867-4',
+    [
+      new ReferenceRange([100, 205], {}, {days: 28}),
+      new ReferenceRange([100, 180], {days: 28}, {years: 1}),
+      new ReferenceRange([98, 140], {years: 1}, {years: 3}),
+      new ReferenceRange([80, 120], {years: 3}, {years: 6}),
+      new ReferenceRange([75, 118], {years: 6}, {years: 12}),
+      new ReferenceRange([60, 100], {years: 12})
+    ]
+  ],
+  [
+    // Respiratory Rate
+    '9279-1',
+    [
+      new ReferenceRange([30, 53], {}, {years: 1}),
+      new ReferenceRange([22, 37], {years: 1}, {years: 3}),
+      new ReferenceRange([20, 28], {years: 3}, {years: 6}),
+      new ReferenceRange([18, 25], {years: 6}, {years: 12}),
+      new ReferenceRange([12, 20], {years: 12})
+    ]
+  ],
+  [
+    // Systolic Blood Pressure
+    '8480-6',
+    [
+      new ReferenceRange([67, 84], {}, {days: 28}),
+      new ReferenceRange([72, 104], {days: 28}, {years: 1}),
+      new ReferenceRange([86, 106], {years: 1}, {years: 3}),
+      new ReferenceRange([89, 112], {years: 3}, {years: 6}),
+      new ReferenceRange([97, 115], {years: 6}, {years: 10}),
+      new ReferenceRange([102, 120], {years: 10}, {years: 12}),
+      new ReferenceRange([110, 131], {years: 12})
+    ]
+  ],
+  [
+    // Diastolic Blood Pressure
+    '8462-4',
+    [
+      new ReferenceRange([35, 53], {}, {days: 28}),
+      new ReferenceRange([37, 56], {days: 28}, {years: 1}),
+      new ReferenceRange([42, 63], {years: 1}, {years: 3}),
+      new ReferenceRange([46, 72], {years: 3}, {years: 6}),
+      new ReferenceRange([57, 76], {years: 6}, {years: 10}),
+      new ReferenceRange([61, 80], {years: 10}, {years: 12}),
+      new ReferenceRange([64, 83], {years: 12})
+    ]
+  ]
+]);
+
+/**
+ * The normal ranges of a measurement for one patient, which change as the
+ * patient grows older.
+ */
+export class PatientReferenceRanges {
+  private readonly ranges: ReferenceRange[];
+
+  /**
+   * @param ranges The ranges for the measurement, for patients of any age and
+   *     sex. Where more than one range applies, the first is used.
+   * @param patient The patient to find the ranges for.
+   */
+  constructor(ranges: ReferenceRange[], private readonly patient: Patient) {
+    this.ranges =
+        ranges.filter(range => !range.sex || range.sex === patient.sex);
+  }
+
+  /**
+   * Finds the normal range on a date.
+   * @param date The date to find the normal range on.
+   * @returns The low and high bounds of the normal range, or undefined if no
+   *     range applies to the patient at that age.
+   */
+  at(date: DateTime): [number, number] {
+    const range = this.ranges.find(
+        r => r.intervalFor(this.patient.birthDate).contains(date));
+    return range ? range.bounds : undefined;
+  }
+
+  /**
+   * Splits a time interval into the parts that have different normal ranges
+   * for the patient. Parts of the interval that no range applies to are left
+   * out.
+   * @param interval The time interval to split.
+   */
+  over(interval: Interval):
+      Array<{interval: Interval, bounds: [number, number]}> {
+    const bands = [];
+    for (const range of this.ranges) {
+      const overlap =
+          range.intervalFor(this.patient.birthDate).intersection(interval);
+      // Earlier ranges take precedence where ranges overlap.
+      const uncovered = overlap ?
+          overlap.difference(...bands.map(band => band.interval)) :
+          [];
+      for (const part of uncovered) {
+        bands.push({interval: part, bounds: range.bounds});
+      }
+    }
+    return bands.sort(
+        (a, b) => a.interval.start.toMillis() - b.interval.start.toMillis());
+  }
+}
+
+/**
+ * Finds the normal ranges of a measurement for a patient from the local
+ * reference range tables.
+ * @param code The code of the measurement.
+ * @param patient The patient to find the normal ranges for.
+ * @param table The reference range tables, keyed by code.
+ * @returns The patient's normal ranges for the measurement, or undefined if
+ *     there are none in the tables or the patient's birth date is not known.
+ */
+export function referenceRangesFor(
+    code: ResourceCode, patient: Patient,
+    table = REFERENCE_RANGES): PatientReferenceRanges {
+  if (!code || !patient || !patient.birthDate || !table.has(code.codeString)) {
+    return undefined;
+  }
+  return new PatientReferenceRanges(table.get(code.codeString), patient);
+}
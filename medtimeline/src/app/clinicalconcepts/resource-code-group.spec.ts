@@ -8,9 +8,11 @@ import {DateTime, Interval} from 'luxon';
 import {AnnotatedObservation} from '../fhir-data-classes/annotated-observation';
 import {Observation} from '../fhir-data-classes/observation';
 import {ObservationSet} from '../fhir-data-classes/observation-set';
+import {SearchProgress} from '../fhir-paging';
 import {ChartType} from '../graphtypes/graph/graph.component';
 import {StubFhirService} from '../test_utils';
 
+import {vitalSign} from './display-grouping';
 import {LOINCCode} from './loinc-code';
 import {CachedResourceCodeGroup, ResourceCode} from './resource-code-group';
 
@@ -38,12 +40,57 @@ const returnedObservationSet: ObservationSet[] = new Array(new ObservationSet([
 class StubCachedResourceCodeGroup extends
     CachedResourceCodeGroup<ObservationSet> {
   getResourceFromFhir(dateRange: Interval): Promise<ObservationSet[]> {
-    if (dateRange === interval) {
+    if (dateRange.equals(interval)) {
       return Promise.resolve(returnedObservationSet);
     } else {
       throw Error('Bad date range.');
     }
   }
+
+  protected sliceToRange(data: ObservationSet[], dateRange: Interval):
+      ObservationSet[] {
+    return data;
+  }
+
+  protected mergeResources(
+      cached: ObservationSet[], retrieved: ObservationSet[]): ObservationSet[] {
+    return cached.concat(retrieved);
+  }
+}
+
+const hourlyTimestamps = Array.from(
+    Array(48).keys(),
+    hour => DateTime.fromISO('2012-08-04T00:00:00.000Z').toUTC().plus({
+      hours: hour
+    }));
+
+/**
+ * A CachedResourceCodeGroup whose resources are just timestamps, one for each
+ * hour of two days.
+ */
+class StubTimestampGroup extends CachedResourceCodeGroup<DateTime> {
+  getResourceFromFhir(dateRange: Interval): Promise<DateTime[]> {
+    // Like FHIR date searches, include both ends of the interval.
+    return Promise.resolve(hourlyTimestamps.filter(
+        timestamp =>
+            dateRange.contains(timestamp) || timestamp.equals(dateRange.end)));
+  }
+
+  protected sliceToRange(data: DateTime[], dateRange: Interval): DateTime[] {
+    return data.filter(timestamp => dateRange.contains(timestamp));
+  }
+
+  protected mergeResources(cached: DateTime[], retrieved: DateTime[]):
+      DateTime[] {
+    return cached.concat(retrieved.filter(
+        timestamp => !cached.some(existing => existing.equals(timestamp))));
+  }
+}
+
+function hours(startHour: number, endHour: number): Interval {
+  return Interval.fromDateTimes(
+      hourlyTimestamps[0].plus({hours: startHour}),
+      hourlyTimestamps[0].plus({hours: endHour}));
 }
 
 describe('ResourceCodeGroup', () => {
@@ -94,4 +141,117 @@ describe('CachedResourceCodeGroup', () => {
              done();
            });
      });
+
+  it('should answer a range inside a cached range from the cache',
+     (done: DoneFn) => {
+       const stub = new StubTimestampGroup(
+           new StubFhirService(), 'rsc_label', new Array<ResourceCode>(),
+           undefined /* concept group */, ChartType.SCATTER);
+       spyOn(stub, 'getResourceFromFhir').and.callThrough();
+
+       stub.getResourceSet(hours(0, 24))
+           .then(x => stub.getResourceSet(hours(6, 12)))
+           .then(result => {
+             expect(result).toEqual(hourlyTimestamps.slice(6, 12));
+             expect(stub.getResourceFromFhir).toHaveBeenCalledTimes(1);
+             done();
+           });
+     });
+
+  it('should share a pending retrieval with overlapping requests',
+     (done: DoneFn) => {
+       const stub = new StubTimestampGroup(
+           new StubFhirService(), 'rsc_label', new Array<ResourceCode>(),
+           undefined /* concept group */, ChartType.SCATTER);
+       const fhirSpy = spyOn(stub, 'getResourceFromFhir').and.callThrough();
+
+       Promise
+           .all([
+             stub.getResourceSet(hours(0, 24)),
+             stub.getResourceSet(hours(6, 12)),
+             stub.getResourceSet(hours(20, 30))
+           ])
+           .then(results => {
+             expect(results[0]).toEqual(hourlyTimestamps.slice(0, 24));
+             expect(results[1]).toEqual(hourlyTimestamps.slice(6, 12));
+             const retrievedRanges =
+                 fhirSpy.calls.allArgs().map(args => args[0]);
+             expect(retrievedRanges.length).toBe(2);
+             expect(retrievedRanges[1].equals(hours(24, 30))).toBe(true);
+             done();
+           });
+     });
+
+  it('should only retrieve the missing edges when a range grows',
+     (done: DoneFn) => {
+       const stub = new StubTimestampGroup(
+           new StubFhirService(), 'rsc_label', new Array<ResourceCode>(),
+           undefined /* concept group */, ChartType.SCATTER);
+       const fhirSpy = spyOn(stub, 'getResourceFromFhir').and.callThrough();
+
+       stub.getResourceSet(hours(10, 20))
+           .then(x => stub.getResourceSet(hours(5, 30)))
+           .then(result => {
+             const retrievedRanges =
+                 fhirSpy.calls.allArgs().map(args => args[0]);
+             expect(retrievedRanges.length).toBe(3);
+             expect(retrievedRanges[1].equals(hours(5, 10))).toBe(true);
+             expect(retrievedRanges[2].equals(hours(20, 30))).toBe(true);
+             // The timestamps at the shared endpoints are retrieved twice,
+             // but should only be returned once.
+             expect(result.length).toBe(25);
+             expect(result.map(t => t.toMillis()).sort())
+                 .toEqual(hourlyTimestamps.slice(5, 30)
+                              .map(t => t.toMillis())
+                              .sort());
+             done();
+           });
+     });
+
+  it('should retrieve a range again if its search left out results',
+     (done: DoneFn) => {
+       const code = new LOINCCode('8310-5', vitalSign, 'Temperature');
+       const fhirService = new StubFhirService();
+       const stub = new StubTimestampGroup(
+           fhirService, 'rsc_label', [code], undefined /* concept group */,
+           ChartType.SCATTER);
+       let truncated = true;
+       const fhirSpy =
+           spyOn(stub, 'getResourceFromFhir')
+               .and.callFake((dateRange: Interval) => {
+                 fhirService.searchProgress.next(new SearchProgress(
+                     0, [code], 10, 10, 20, true, truncated));
+                 truncated = false;
+                 return Promise.resolve(hourlyTimestamps.slice(0, 10));
+               });
+
+       stub.getResourceSet(hours(0, 10))
+           .then(x => stub.getResourceSet(hours(0, 10)))
+           .then(x => stub.getResourceSet(hours(0, 10)))
+           .then(result => {
+             expect(result).toEqual(hourlyTimestamps.slice(0, 10));
+             expect(fhirSpy).toHaveBeenCalledTimes(2);
+             done();
+           });
+     });
+
+  it('should not cache a range whose retrieval failed', (done: DoneFn) => {
+    const stub = new StubTimestampGroup(
+        new StubFhirService(), 'rsc_label', new Array<ResourceCode>(),
+        undefined /* concept group */, ChartType.SCATTER);
+    const fhirSpy = spyOn(stub, 'getResourceFromFhir')
+                        .and.callFake(() => Promise.reject('failed'));
+
+    stub.getResourceSet(hours(0, 10))
+        .catch(err => {
+          expect(err).toBe('failed');
+          fhirSpy.and.callThrough();
+          return stub.getResourceSet(hours(0, 10));
+        })
+        .then(result => {
+          expect(result).toEqual(hourlyTimestamps.slice(0, 10));
+          expect(stub.getResourceFromFhir).toHaveBeenCalledTimes(2);
+          done();
+        });
+  });
 });
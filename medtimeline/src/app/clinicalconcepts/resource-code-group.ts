@@ -4,9 +4,11 @@
 // license that can be found in the LICENSE file.
 
 import {Interval} from 'luxon';
+
 import {FhirService} from '../fhir.service';
 import {ChartType} from '../graphtypes/graph/graph.component';
 
+import {CodeRegistry} from './code-registry';
 import {DisplayGrouping} from './display-grouping';
 
 /**
@@ -21,11 +23,15 @@ export abstract class ResourceCode {
    */
   static readonly CODING_STRING;
 
-  private static readonly CODE_STRING_TO_CODE:
-      {[code: string]: ResourceCode} = {};
-
+  /**
+   * Looks up a code of the class's code system in the active registry, so
+   * that it can be called on any extending class, such as
+   * LOINCCode.fromCodeString('718-7').
+   * @param code The code string.
+   * @returns The code, or undefined if it is not registered.
+   */
   static fromCodeString(code: string): ResourceCode {
-    return ResourceCode.CODE_STRING_TO_CODE[code];
+    return CodeRegistry.active.get(this.CODING_STRING, code);
   }
 
   constructor(
@@ -35,9 +41,7 @@ export abstract class ResourceCode {
       readonly displayBounds?: [number, number],
       /* Whether or not to force the axis bounds, even if a smaller range
          containing all the data can be calculated. */
-      readonly forceDisplayBounds = false) {
-    ResourceCode.CODE_STRING_TO_CODE[codeString] = this;
-  }
+      readonly forceDisplayBounds = false) {}
 
   /**
    * Returns whether there is any data available for this ResourceCode within
@@ -94,33 +98,113 @@ export class ResourceCodeGroup {
 }
 
 /**
- * CachedResourceCodeGroups cache their retrieved data in a dictionary keyed
- * by time interval.
+ * CachedResourceCodeGroups cache their retrieved data along with the time
+ * intervals the data covers. Requests for a time interval that has already
+ * been covered are answered from the cache, and requests for a time interval
+ * that is only partially covered only retrieve the data for the uncovered
+ * portions of the interval.
  * @param T The type of data to be cached.
  */
 export abstract class CachedResourceCodeGroup<T> extends ResourceCodeGroup {
-  private dataCache = new Map<Interval, T[]>();
+  /**
+   * The time intervals whose data is in the cache, merged so that no two
+   * intervals overlap or abut.
+   */
+  private coveredIntervals = new Array<Interval>();
+
+  /** All the data retrieved so far, across all the covered intervals. */
+  private cachedData = new Array<T>();
 
   /**
-   * Looks in the cache to see if data for this time interval exists. If not,
-   * calls the implementing class's getResourceFromFhir function and caches
-   * its data, then returns the data for the given time interval.
+   * The time intervals whose data is being retrieved, along with the
+   * retrievals, so that requests made at the same time for overlapping
+   * intervals, such as by an axis and by the check for available data, share
+   * them rather than retrieving the same data twice.
+   */
+  private pendingRetrievals =
+      new Array<{interval: Interval, retrieval: Promise<void>}>();
+
+  /**
+   * Counts how many times the cache has been emptied, so that retrievals
+   * started before it was emptied do not fill it with stale data.
+   */
+  private cacheGeneration = 0;
+
+  /**
+   * Looks in the cache to see which parts of this time interval have already
+   * been retrieved or are being retrieved. For any parts that are not, calls
+   * the implementing class's getResourceFromFhir function and merges its data
+   * into the cache. Then returns the data for the given time interval.
    */
   getResourceSet(dateRange: Interval): Promise<T[]> {
-    if (this.dataCache.has(dateRange)) {
-      return Promise.resolve(this.dataCache.get(dateRange));
-    } else {
-      return this.getResourceFromFhir(dateRange).then(
-          res => {
-            this.dataCache.set(dateRange, res);
-            return Promise.resolve(this.dataCache.get(dateRange));
-          },
-          rejection => {
-            // If there is any error with getting the resources for this
-            // ResourceCodeGroup, throw an error.
-            throw rejection;
-          });
+    const pending = this.pendingRetrievals.filter(
+        pendingRetrieval => pendingRetrieval.interval.overlaps(dateRange));
+    const uncovered = dateRange.difference(
+        ...this.coveredIntervals,
+        ...pending.map(pendingRetrieval => pendingRetrieval.interval));
+    if (uncovered.length === 0 && pending.length === 0) {
+      return Promise.resolve(this.sliceToRange(this.cachedData, dateRange));
     }
+    return Promise
+        .all(pending.map(pendingRetrieval => pendingRetrieval.retrieval)
+                 .concat(uncovered.map(interval => this.retrieve(interval))))
+        .then(
+            () => this.sliceToRange(this.cachedData, dateRange), rejection => {
+              // If there is any error with getting the resources for this
+              // ResourceCodeGroup, throw an error.
+              throw rejection;
+            });
+  }
+
+  /**
+   * Empties the cache, so that all data is retrieved again. This is needed
+   * when the data source changes.
+   */
+  clearCache() {
+    this.coveredIntervals = [];
+    this.cachedData = [];
+    this.pendingRetrievals = [];
+    this.cacheGeneration++;
+  }
+
+  /**
+   * Retrieves the data for a time interval and merges it into the cache. The
+   * retrieval is pending until it finishes, whether or not it succeeds.
+   * If any search for the data stops at the maximum number of pages, the
+   * interval is not recorded as covered, so that it is searched again, and
+   * the truncation reported again, when it is next asked for.
+   * @param interval The time interval to retrieve the data for.
+   */
+  private retrieve(interval: Interval): Promise<void> {
+    const generation = this.cacheGeneration;
+    const searchedCodes = this.searchedCodes();
+    let truncated = false;
+    const progressSubscription =
+        this.fhirService.searchProgress.subscribe(progress => {
+          if (progress.truncated &&
+              progress.codes.some(code => searchedCodes.includes(code))) {
+            truncated = true;
+          }
+        });
+    const retrieval = this.getResourceFromFhir(interval).then(res => {
+      if (generation !== this.cacheGeneration) {
+        return;
+      }
+      this.cachedData = this.mergeResources(this.cachedData, res);
+      if (!truncated) {
+        this.coveredIntervals =
+            Interval.merge(this.coveredIntervals.concat(interval));
+      }
+    });
+    const pendingRetrieval = {interval: interval, retrieval: retrieval};
+    this.pendingRetrievals.push(pendingRetrieval);
+    const finish = () => {
+      progressSubscription.unsubscribe();
+      this.pendingRetrievals =
+          this.pendingRetrievals.filter(other => other !== pendingRetrieval);
+    };
+    retrieval.then(finish, finish);
+    return retrieval;
   }
 
   /**
@@ -128,4 +212,30 @@ export abstract class CachedResourceCodeGroup<T> extends ResourceCodeGroup {
    * resources corresponding to this resource code group.
    */
   abstract getResourceFromFhir(dateRange: Interval): Promise<T[]>;
+
+  /**
+   * The codes that getResourceFromFhir searches for, whose search progress
+   * tells whether a retrieval left out any data.
+   */
+  protected searchedCodes(): ResourceCode[] {
+    return this.resourceCodes;
+  }
+
+  /**
+   * Returns the parts of the cached data that fall within the given time
+   * interval, in the same form getResourceFromFhir would have returned them
+   * for that interval.
+   * @param data The cached data, which may cover more than dateRange.
+   * @param dateRange The time interval to restrict the data to.
+   */
+  protected abstract sliceToRange(data: T[], dateRange: Interval): T[];
+
+  /**
+   * Combines newly retrieved data with the data already in the cache.
+   * Retrieved intervals can share their endpoints, so the same resource may
+   * be retrieved twice and should only be included once.
+   * @param cached The data already in the cache.
+   * @param retrieved The newly retrieved data.
+   */
+  protected abstract mergeResources(cached: T[], retrieved: T[]): T[];
 }
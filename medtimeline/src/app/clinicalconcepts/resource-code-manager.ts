@@ -5,37 +5,54 @@
 
 import {Injectable} from '@angular/core';
 import {Interval} from 'luxon';
+import {Observable, Subject} from 'rxjs';
 
 import {LOINCCodeGroup} from '../clinicalconcepts/loinc-code';
+import {ConceptConfigService} from '../concept-config.service';
+import {CustomCardService} from '../custom-card.service';
 import {AnnotatedObservation} from '../fhir-data-classes/annotated-observation';
 import {Observation} from '../fhir-data-classes/observation';
 import {FhirService} from '../fhir.service';
 import {ChartType} from '../graphtypes/graph/graph.component';
 
 import {BCHMicrobioCode, BCHMicrobioCodeGroup} from './bch-microbio-code';
-import {DisplayGrouping, document, labResult, med, microbio, vitalSign} from './display-grouping';
+import {CodeRegistry} from './code-registry';
+// tslint:disable-next-line:max-line-length
+import {AnnotationConfig, AnnotationType, AxisConfig, CardConfig, CodeConfig, CONCEPT_CONFIG_VERSION, ConceptConfig, DEFAULT_CONCEPT_CONFIG, validateConceptConfig} from './concept-config';
+import {DerivedCode} from './derived-code';
+import {DerivedCodeGroup} from './derived-code-group';
+import {ALL_DISPLAY_GROUPS_MAP, DisplayGrouping, document, vitalSign} from './display-grouping';
 import {LOINCCode} from './loinc-code';
-import {ResourceCodeGroup} from './resource-code-group';
-import {RXNORM_CODES, RxNormCode} from './rx-norm';
+import {medicationClasses} from './medication-classes';
+import {CachedResourceCodeGroup, ResourceCode, ResourceCodeGroup} from './resource-code-group';
+import {RxNormCode} from './rx-norm';
 import {RxNormCodeGroup} from './rx-norm-group';
 
 // We declare a new LOINCCode referencing a DocumentReference, but do not
-// include it in the groupings below because it is not graphed/displayed in the
+// include it in the configured cards because it is not graphed/displayed in the
 // configuration sidebar.
-export const documentReferenceLoinc =
-    new LOINCCode('68608-9', document, 'Summary', true);
+export const documentReferenceLoinc = CodeRegistry.BUILT_IN.register(
+    new LOINCCode('68608-9', document, 'Summary', true));
+
+// Body weight is shown in the patient header rather than graphed, so it is
+// not included in the configured cards either.
+export const bodyWeightLoinc = CodeRegistry.BUILT_IN.register(
+    new LOINCCode('29463-7', vitalSign, 'Body Weight', false));
+
+// Blood pressures are reported with their systolic and diastolic pressures as
+// components, which are read along with the blood pressure even though they
+// are not configured on their own.
+export const diastolicBP = CodeRegistry.BUILT_IN.register(new LOINCCode(
+    '8462-4', vitalSign, 'Diastolic Blood Pressure', true, [25, 150]));
+export const systolicBP = CodeRegistry.BUILT_IN.register(new LOINCCode(
+    '8480-6', vitalSign, 'Systolic Blood Pressure', true, [30, 250]));
 
-const ovaAndParasiteExam = new BCHMicrobioCode(
-    'OVAANDPARASITEEXAM', microbio, 'Ovo and Parasite Exam', false);
-
-const salmonella = new BCHMicrobioCode(
-    'SALMONELLAANDSHIGELLACULTURE', microbio, 'Salmonella and Shigella Culture',
-    false);
-
-export const diastolicBP = new LOINCCode(
-    '8462-4', vitalSign, 'Diastolic Blood Pressure', true, [25, 150]);
-export const systolicBP = new LOINCCode(
-    '8480-6', vitalSign, 'Systolic Blood Pressure', true, [30, 250]);
+/**
+ * The codes of the configuration shipped with the app. Resources are read
+ * with these codes unless the app was started with another configuration.
+ */
+const defaultCodeRegistry = makeCodeRegistry(DEFAULT_CONCEPT_CONFIG);
+CodeRegistry.activate(defaultCodeRegistry);
 
 export class ResourceCodesForCard {
   // Each ResourceCodeGroup represents data series on one axis. The type of
@@ -64,6 +81,14 @@ export class ResourceCodesForCard {
     this.resourceCodeGroups = resourceCodeGroups;
     this.label = label;
     this.displayGrouping = displayGrouping;
+    this.updateDataAvailability();
+  }
+
+  /**
+   * Checks again whether there is data to display for any of the resource
+   * code groups, for example after the data source has changed.
+   */
+  updateDataAvailability() {
     Promise
         .all(this.resourceCodeGroups.map(
             rsc => rsc.dataAvailableInAppTimeScope()))
@@ -78,263 +103,45 @@ export class ResourceCodesForCard {
 /**
  * ResourceCodeManager is the centralized class where other components can
  * look to find an exhaustive listing of all the resource code groups that the
- * application may display.
- * TODO(b/119185198): Eventually RxNorms should be listed here, too.
+ * application may display. The listing is built from the clinical concept
+ * configuration the app was started with.
  */
 @Injectable()
 export class ResourceCodeManager {
   private static resourceCodeGroups: ResourceCodesForCard[];
   private static displayGroupMapping:
       Map<DisplayGrouping, ResourceCodesForCard[]>;
+  private static readonly cardsAdded = new Subject<ResourceCodesForCard>();
+  private static codeRegistry: CodeRegistry;
 
-  private static readonly labLoincs = [
-    // Pull all the defaults to the top.
-    new LOINCCode(
-        '1988-5', labResult, 'C-Reactive Protein', true, [0, 100], true),
-    new LOINCCode('4537-7', labResult, 'ESR', true, [0, 200]),
-    new LOINCCode('3094-0', labResult, 'BUN', true),
-    new LOINCCode('2160-0', labResult, 'Creatinine', true),
-    new LOINCCode('1742-6', labResult, 'Alanine Aminotransferase (ALT)', true),
-    new LOINCCode(
-        '1920-8', labResult, 'Aspartate Aminotransferase (AST)', true),
-    new LOINCCode('6768-6', labResult, 'Alkaline Phosphatase', true),
-    new LOINCCode('1968-7', labResult, 'Bilirubin, Direct', true),
-    new LOINCCode('1975-2', labResult, 'Bilirubin, Total', true),
-    new LOINCCode('3084-1', labResult, 'Uric acid', false)
-  ];
-
-  private static readonly vitalLoincs = [
-    new LOINCCode('8310-5', vitalSign, 'Body temperature', true, [35, 41]),
-    new LOINCCode('8867-4', vitalSign, 'Heart Rate', true, [20, 300]),
-    new LOINCCode('9279-1', vitalSign, 'Respiratory Rate', true, [6, 100]),
-    new LOINCCode('55284-4', vitalSign, 'Blood Pressure', true, [25, 250]),
-    new LOINCCode('59408-5', vitalSign, 'SpO2', true, [5, 100], true)
-  ];
-
-  private static readonly gentMonitoring = [
-    new LOINCCode('35668-3', labResult, 'Gent Level'),
-    new LOINCCode('3663-2', labResult, 'Gent Pk'),
-    new LOINCCode('31092-0', labResult, 'Gent Tr')
-    // TODO: add Gentamicin, Peak/Post Q24H
-  ];
-
-  private static readonly vancMonitoring = [
-    new LOINCCode('20578-1', labResult, 'Vanc Level', true),
-    new LOINCCode('4092-3', labResult, 'Vanc Tr', true),
-    // TODO: add Vanc Peak
-  ];
-
-
-  private static readonly urineGroup = [
-    new LOINCCode('5769-5', labResult, 'Bacteria, Urinalysis'),
-    new LOINCCode('50551-1', labResult, 'Bilirubin, Urinalysis'),
-    new LOINCCode('5794-3', labResult, 'Blood, Urinalysis'),
-    new LOINCCode('21033-6', labResult, 'Budding Yeast, Urinalysis'),
-    new LOINCCode('25157-9', labResult, 'Epithelial Cast, Urinalysis'),
-    new LOINCCode('50558-6', labResult, 'Nitrite, Urinalysis'),
-    // TODO: add Protein, Urinalysis
-    new LOINCCode('58449-0', labResult, 'Red Blood Cell Clump, Urinalysis'),
-    new LOINCCode('13945-1', labResult, 'Red Cells, Urinalysis'),
-    // TODO: add Squamous Epithelial, Urinalysis
-    new LOINCCode('50563-6', labResult, 'Urobilinogen, Urinalysis'),
-    new LOINCCode('5799-2', labResult, 'White Blood Cell Enzyme, Urinalysis'),
-    new LOINCCode('33825-1', labResult, 'White Blood Cell Clump, Urinalysis'),
-    // TODO: add White Cells, Urinalysis
-    // TODO: add yeast, Urinalysis
-  ];
-
-  // TODO(b/117431412): Figure out which microbio concepts to display.
-  private static stoolGroup = [
-    new BCHMicrobioCode(
-        'OVAANDPARASITEEXAM', microbio, 'Ovo and Parasite Exam', true),
-    new BCHMicrobioCode(
-        'SALMONELLAANDSHIGELLACULTURE', microbio,
-        'Salmonella and Shigella Culture', true)
-  ];
-
-  private static npSwabGroup = [
-    new BCHMicrobioCode(
-        'INFLUENZAABRSVPCRWASUBTYPEQUAL', microbio,
-        'nfluenza A/B, RSV PCR w/A Subtype, QuaL', true),
-    new BCHMicrobioCode(
-        'ADENOVIRUSPCRRESPQUAL', microbio, 'Adenovirus PCR, Resp, QuaL', true),
-    new BCHMicrobioCode(
-        'VIRALDFARESPIRATORY', microbio, 'Viral DFA Respiratory', true)
-  ];
-
-  private static typeToPairs: Array<[DisplayGrouping, LOINCCode[]]> = [
-    [vitalSign, ResourceCodeManager.vitalLoincs],
-    [labResult, ResourceCodeManager.labLoincs],
-  ];
-
-  constructor(private fhirService: FhirService) {
+  constructor(
+      private fhirService: FhirService,
+      conceptConfig: ConceptConfigService = new ConceptConfigService(),
+      private customCards: CustomCardService = new CustomCardService()) {
     if (!ResourceCodeManager.resourceCodeGroups) {
-      const codeGroups: ResourceCodesForCard[] = [];
-      // All the labs and vitals are linecharts and displayed on
-      // independent axes.
-      for (const [conceptGroup, codePairs] of ResourceCodeManager.typeToPairs) {
-        for (const loinc of codePairs) {
-          codeGroups.push(new ResourceCodesForCard(
-              [new LOINCCodeGroup(
-                  this.fhirService, loinc.label, new Array(loinc), conceptGroup,
-                  ChartType.LINE, loinc.displayBounds,
-                  loinc.forceDisplayBounds)],
-              loinc.label, conceptGroup));
+      // Resources are read with the codes of the configuration the listing
+      // is built from.
+      ResourceCodeManager.codeRegistry =
+          conceptConfig.config === DEFAULT_CONCEPT_CONFIG ?
+          defaultCodeRegistry :
+          makeCodeRegistry(conceptConfig.config);
+      CodeRegistry.activate(ResourceCodeManager.codeRegistry);
+      ResourceCodeManager.resourceCodeGroups =
+          conceptConfig.config.cards.map(card => this.makeCard(card));
+      // Each medication class gets a summary card, unless the configuration
+      // already has a card with its label.
+      for (const card of medicationClasses.cards()) {
+        if (!this.hasCard(card.label)) {
+          ResourceCodeManager.resourceCodeGroups.push(this.makeCard(card));
+        }
+      }
+      // Custom cards whose labels have since been given to configured cards
+      // are left out, since cards are looked up by their labels.
+      for (const card of customCards.cards) {
+        if (!this.hasCard(card.label)) {
+          ResourceCodeManager.resourceCodeGroups.push(this.makeCard(card));
         }
       }
-
-      const bpIndex = codeGroups.findIndex(
-          codeGroup => codeGroup.label === 'Blood Pressure');
-      // Mean Arterial Pressure is recorded as a separate LOINCCode, but include
-      // it on the same axis as Systolic/Diastolic BP.
-      codeGroups[bpIndex].resourceCodeGroups[0].resourceCodes.push(
-          new LOINCCode('76214-6', vitalSign, 'Mean Arterial Pressure', true));
-
-      // Make a LOINCodeGroup for Blood pressure location.
-      const bpLocation = new LOINCCodeGroup(
-          this.fhirService, 'Blood Pressure Details',
-          [new LOINCCode(
-              '41904-4', vitalSign, 'Blood Pressure Location', true)],
-          vitalSign, ChartType.SCATTER);
-      // Modify the existing BP LOINCCodeGroup to included annotated
-      // Observations containing the BP locations.
-      const bpLoincGroup = new LOINCCodeGroup(
-          this.fhirService, 'Blood Pressure',
-          codeGroups[bpIndex].resourceCodeGroups[0].resourceCodes, vitalSign,
-          ChartType.LINE, undefined,  // No display bounds
-          false,
-          (observation: Observation,
-           dateRange: Interval): Promise<AnnotatedObservation> => {
-            return bpLocation.getResourceSet(dateRange).then(obsSet => {
-              return AnnotatedObservation.forBloodPressure(
-                  observation,
-                  // We only pass in the first ObservationSet, since we know
-                  // there is only one code whose observations we care about.
-                  obsSet[0]);
-            });
-          });
-      // Replace (in place) the original BP ResourceCodesForCard with the
-      // modified information.
-      codeGroups[bpIndex] = new ResourceCodesForCard(
-          [bpLoincGroup], codeGroups[bpIndex].label, vitalSign);
-
-      const cbc = [
-        new LOINCCodeGroup(
-            this.fhirService, 'Hematocrit',
-            [new LOINCCode('4544-3', labResult, 'Hematocrit', false, [10, 70])],
-            labResult, ChartType.LINE, [10, 70]),
-        new LOINCCodeGroup(
-            this.fhirService, 'Hemoglobin',
-            [new LOINCCode('718-7', labResult, 'Hemoglobin', false, [0.5, 30])],
-            labResult, ChartType.LINE, [0.5, 30]),
-        // TODO: add Platelet
-        new LOINCCodeGroup(
-            this.fhirService, 'White Blood Cell',
-            [new LOINCCode('26464-8', labResult, 'White Blood Cell', false)],
-            labResult, ChartType.LINE),
-      ];
-      codeGroups.push(
-          new ResourceCodesForCard(cbc, 'Complete Blood Count', labResult));
-
-      const cbcWBC = [
-        new LOINCCodeGroup(
-            this.fhirService, 'Neutrophil/Band',
-            [new LOINCCode(
-                '35332-6', labResult, 'Neutrophil/Band', true, [0, 100], true)],
-            labResult, ChartType.LINE, [0, 100], true),
-        // TODO: add Immature Granulocytes
-        // TODO: add Lymphocyte
-        new LOINCCodeGroup(
-            this.fhirService, 'Monocyte',
-            [new LOINCCode(
-                '5905-5', labResult, 'Monocyte', false, [0, 100], true)],
-            labResult, ChartType.LINE, [0, 100], true),
-        new LOINCCodeGroup(
-            this.fhirService, 'Eosinophil',
-            [new LOINCCode(
-                '713-8', labResult, 'Eosinophil', false, [0, 100], true)],
-            labResult, ChartType.LINE, [0, 100], true),
-        new LOINCCodeGroup(
-            this.fhirService, 'Basophil',
-            [new LOINCCode(
-                '706-2', labResult, 'Basophil', false, [0, 100], true)],
-            labResult, ChartType.LINE, [0, 100], true),
-
-      ];
-      codeGroups.push(new ResourceCodesForCard(
-          cbcWBC, 'Complete Blood Count White Blood Cell', labResult));
-
-      // TODO(b/118874488): Allow for configuration of RxNormCodeGroups.
-      const medsSummaryGroup = RXNORM_CODES;
-      codeGroups.push(new ResourceCodesForCard(
-          [new RxNormCodeGroup(
-              this.fhirService, 'Vancomycin & Gentamicin Summary',
-              medsSummaryGroup, med, ChartType.STEP)],
-          'Vancomycin & Gentamicin Summary', med));
-
-      // Drug monitoring should be a scatterplot, and the related concepts
-      // should be displayed on the same axes.
-      const vancRxNorm = new RxNormCodeGroup(
-          this.fhirService, 'Vancomycin', [RxNormCode.fromCodeString('11124')],
-          med, ChartType.SCATTER);
-
-      // Drug monitoring should be a scatterplot, and the related concepts
-      // should be displayed on the same axes.
-      codeGroups.push(new ResourceCodesForCard(
-          [
-            vancRxNorm,
-            new LOINCCodeGroup(
-                this.fhirService, 'Vancomycin Monitoring',
-                ResourceCodeManager.vancMonitoring, med, ChartType.SCATTER,
-                undefined,  // no meaningful y-axis ranges
-                false,
-                (observation: Observation, dateRange: Interval):
-                    Promise<AnnotatedObservation> => {
-                      return vancRxNorm.getResourceSet(dateRange)
-                          .then(rxNorms => {
-                            // We know that we're only pushing in one RxNorm
-                            // so it's safe to grab the first (and only) one in
-                            // the list.
-                            return rxNorms[0].orders;
-                          })
-                          .then(orderSet => {
-                            return AnnotatedObservation.forMedicationMonitoring(
-                                observation, orderSet);
-                          });
-                    })
-          ],
-          'Vancomycin', med));
-
-      codeGroups.push(new ResourceCodesForCard(
-          [
-            new RxNormCodeGroup(
-                this.fhirService, 'Medication Administrations',
-                [RxNormCode.fromCodeString('1596450')], med, ChartType.SCATTER),
-            new LOINCCodeGroup(
-                this.fhirService, 'Monitoring',
-                ResourceCodeManager.gentMonitoring, med, ChartType.SCATTER)
-          ],
-          'Gentamicin', med));
-
-
-      codeGroups.push(new ResourceCodesForCard(
-          [new LOINCCodeGroup(
-              this.fhirService, 'Urinalysis', ResourceCodeManager.urineGroup,
-              labResult, ChartType.SCATTER)],
-          'Urinalysis', labResult));
-
-      codeGroups.push(new ResourceCodesForCard(
-          [new BCHMicrobioCodeGroup(
-              this.fhirService, 'Stool', ResourceCodeManager.stoolGroup,
-              microbio, ChartType.MICROBIO)],
-          'Stool', microbio));
-
-      codeGroups.push(new ResourceCodesForCard(
-          [new BCHMicrobioCodeGroup(
-              this.fhirService, 'NP Swab', ResourceCodeManager.npSwabGroup,
-              microbio, ChartType.MICROBIO)],
-          'NP Swab', microbio));
-      ResourceCodeManager.resourceCodeGroups = codeGroups;
     }
 
     if (!ResourceCodeManager.displayGroupMapping) {
@@ -367,4 +174,298 @@ export class ResourceCodeManager {
   getDisplayGroupMapping(): Map<DisplayGrouping, ResourceCodesForCard[]> {
     return ResourceCodeManager.displayGroupMapping;
   }
+
+  /**
+   * Emits each card added after the listing was built, such as the cards the
+   * user builds in the app.
+   */
+  get cardAdded(): Observable<ResourceCodesForCard> {
+    return ResourceCodeManager.cardsAdded;
+  }
+
+  /**
+   * Checks that a card can be added to the listing.
+   * @param card The configuration of the card.
+   * @throws An Error saying why the card cannot be added, if it cannot.
+   */
+  validateCard(card: CardConfig) {
+    validateConceptConfig({version: CONCEPT_CONFIG_VERSION, cards: [card]});
+    if (this.hasCard(card.label)) {
+      throw Error('There is already a card called "' + card.label + '".');
+    }
+  }
+
+  /**
+   * Adds a card to the listing for the rest of the session.
+   * @param card The configuration of the card.
+   * @returns The card added.
+   * @throws An Error if the card cannot be added.
+   */
+  addCard(card: CardConfig): ResourceCodesForCard {
+    this.validateCard(card);
+    const resourceCodesForCard = this.makeCard(card);
+    ResourceCodeManager.resourceCodeGroups.push(resourceCodesForCard);
+    const mapping = this.getDisplayGroupMapping();
+    if (mapping.has(resourceCodesForCard.displayGrouping)) {
+      mapping.get(resourceCodesForCard.displayGrouping)
+          .push(resourceCodesForCard);
+    } else {
+      mapping.set(resourceCodesForCard.displayGrouping, [resourceCodesForCard]);
+    }
+    ResourceCodeManager.cardsAdded.next(resourceCodesForCard);
+    return resourceCodesForCard;
+  }
+
+  /**
+   * Adds a card the user built to the listing, and saves it so that it is
+   * listed in later sessions too.
+   * @param card The configuration of the card.
+   * @returns The card added.
+   * @throws An Error if the card cannot be added.
+   */
+  addCustomCard(card: CardConfig): ResourceCodesForCard {
+    const resourceCodesForCard = this.addCard(card);
+    this.customCards.add(card);
+    return resourceCodesForCard;
+  }
+
+  /**
+   * Throws away all the cached data and checks again which ResourceCodeGroups
+   * have data to display. This should be called when the data source changes.
+   */
+  reloadData() {
+    for (const card of this.getResourceCodeGroups()) {
+      for (const group of card.resourceCodeGroups) {
+        if (group instanceof CachedResourceCodeGroup) {
+          group.clearCache();
+        }
+      }
+      card.updateDataAvailability();
+    }
+  }
+
+  /**
+   * Whether the listing has a card with the label.
+   * @param label The label of the card.
+   */
+  private hasCard(label: string): boolean {
+    return this.getResourceCodeGroups().some(card => card.label === label);
+  }
+
+  /**
+   * Finds the code a card refers to. The configured codes are registered when
+   * the listing is built, and cards added later reuse the codes already known
+   * rather than redefining them, so that only the codes those cards add are
+   * registered. The codes a derived code is computed from are found or
+   * registered along with it.
+   * @param system The code system of the code.
+   * @param code The configuration of the code.
+   * @param cardGrouping The display grouping of the code's card.
+   */
+  private findOrRegisterCode(
+      system: string, code: CodeConfig,
+      cardGrouping: DisplayGrouping): ResourceCode {
+    const registry = ResourceCodeManager.codeRegistry;
+    registerSources(registry, code, cardGrouping);
+    return registry.get(systemOf(system, code), code.code) ||
+        registry.register(makeCode(system, code, cardGrouping));
+  }
+
+  /**
+   * Makes a card out of its configuration.
+   * @param card The configuration of the card.
+   */
+  private makeCard(card: CardConfig): ResourceCodesForCard {
+    const displayGrouping = ALL_DISPLAY_GROUPS_MAP.get(card.displayGrouping);
+    const groups = new Map<string, ResourceCodeGroup>();
+    // Axes are made in order, so that annotations can look up the axes
+    // listed before them.
+    for (const axis of card.axes) {
+      groups.set(axis.label, this.makeGroup(axis, displayGrouping, groups));
+    }
+    return new ResourceCodesForCard(
+        Array.from(groups.values()), card.label, displayGrouping);
+  }
+
+  /**
+   * Makes the ResourceCodeGroup for an axis out of its configuration.
+   * @param axis The configuration of the axis.
+   * @param displayGrouping The display grouping of the axis's card.
+   * @param otherGroups The groups already made for the card, by label.
+   */
+  private makeGroup(
+      axis: AxisConfig, displayGrouping: DisplayGrouping,
+      otherGroups: Map<string, ResourceCodeGroup>): ResourceCodeGroup {
+    const codes = axis.codes.map(
+        code => this.findOrRegisterCode(axis.system, code, displayGrouping));
+    // Axes with one code take their bounds from it, unless told otherwise.
+    const displayBounds = axis.displayBounds ||
+        (codes.length === 1 ? codes[0].displayBounds : undefined);
+    const forceDisplayBounds = axis.forceDisplayBounds !== undefined ?
+        axis.forceDisplayBounds :
+        codes.length === 1 && codes[0].forceDisplayBounds;
+    const chartType: ChartType = ChartType[axis.chartType];
+    switch (axis.system) {
+      case RxNormCode.CODING_STRING:
+        return new RxNormCodeGroup(
+            this.fhirService, axis.label, codes, displayGrouping, chartType);
+      case BCHMicrobioCode.CODING_STRING:
+        return new BCHMicrobioCodeGroup(
+            this.fhirService, axis.label, codes, displayGrouping, chartType);
+      default:
+        // The values of derived codes are computed by groups of their own,
+        // and displayed along with the axis's other codes.
+        const derivedGroups = codes.filter(code => code instanceof DerivedCode)
+                                  .map(
+                                      code => new DerivedCodeGroup(
+                                          this.fhirService, code as DerivedCode,
+                                          displayGrouping));
+        return new LOINCCodeGroup(
+            this.fhirService, axis.label, codes, displayGrouping, chartType,
+            displayBounds, forceDisplayBounds,
+            axis.annotation ?
+                this.makeAnnotator(
+                    axis.annotation, displayGrouping, otherGroups) :
+                undefined,
+            derivedGroups);
+    }
+  }
+
+  /**
+   * Makes the function that annotates an axis's observations, so that their
+   * tooltips can show the related data.
+   * @param annotation The configuration of the annotation.
+   * @param displayGrouping The display grouping of the axis's card.
+   * @param otherGroups The groups already made for the card, by label.
+   */
+  private makeAnnotator(
+      annotation: AnnotationConfig, displayGrouping: DisplayGrouping,
+      otherGroups: Map<string, ResourceCodeGroup>):
+      (observation: Observation,
+       dateRange: Interval) => Promise<AnnotatedObservation> {
+    if (annotation.type === AnnotationType.BloodPressureLocation) {
+      const bpLocation = new LOINCCodeGroup(
+          this.fhirService, annotation.label,
+          annotation.codes.map(
+              code => this.findOrRegisterCode(
+                  LOINCCode.CODING_STRING, code, displayGrouping)),
+          displayGrouping, ChartType.SCATTER);
+      return (observation: Observation, dateRange: Interval) =>
+                 bpLocation.getResourceSet(dateRange).then(
+                     obsSet => AnnotatedObservation.forBloodPressure(
+                         observation,
+                         // We only pass in the first ObservationSet, since we
+                         // know there is only one code whose observations we
+                         // care about.
+                         obsSet[0]));
+    }
+    const medication =
+        otherGroups.get(annotation.medicationAxis) as RxNormCodeGroup;
+    return (observation: Observation, dateRange: Interval) =>
+               medication.getResourceSet(dateRange)
+                   .then(rxNorms => {
+                     // We know that we're only pushing in one RxNorm so it's
+                     // safe to grab the first (and only) one in the list.
+                     return rxNorms[0].orders;
+                   })
+                   .then(
+                       orderSet => AnnotatedObservation.forMedicationMonitoring(
+                           observation, orderSet));
+  }
+}
+
+/**
+ * Registers the codes of a configuration of cards, on top of the codes built
+ * into the app. A code may be listed on several cards, such as a medication
+ * that is graphed on its own and alongside its monitoring, as long as it is
+ * defined the same way each time.
+ * @param config The configuration of the cards.
+ * @returns The registry of the configuration's codes.
+ * @throws An Error if the configuration defines a code in different ways.
+ */
+export function makeCodeRegistry(config: ConceptConfig): CodeRegistry {
+  const registry = new CodeRegistry(CodeRegistry.BUILT_IN);
+  for (const card of config.cards) {
+    const cardGrouping = ALL_DISPLAY_GROUPS_MAP.get(card.displayGrouping);
+    for (const axis of card.axes) {
+      for (const code of axis.codes) {
+        registry.register(makeCode(axis.system, code, cardGrouping));
+      }
+      if (axis.annotation &&
+          axis.annotation.type === AnnotationType.BloodPressureLocation) {
+        for (const code of axis.annotation.codes) {
+          registry.register(
+              makeCode(LOINCCode.CODING_STRING, code, cardGrouping));
+        }
+      }
+    }
+  }
+  // The codes derived codes are computed from need not be on any card, so they
+  // are registered once the cards' codes are, unless a card defines them.
+  for (const card of config.cards) {
+    const cardGrouping = ALL_DISPLAY_GROUPS_MAP.get(card.displayGrouping);
+    for (const axis of card.axes) {
+      for (const code of axis.codes) {
+        registerSources(registry, code, cardGrouping);
+      }
+    }
+  }
+  return registry;
+}
+
+/**
+ * Makes a code out of its configuration.
+ * @param system The code system of the code.
+ * @param code The configuration of the code.
+ * @param cardGrouping The display grouping of the code's card.
+ */
+function makeCode(
+    system: string, code: CodeConfig,
+    cardGrouping: DisplayGrouping): ResourceCode {
+  const displayGrouping = code.displayGrouping ?
+      ALL_DISPLAY_GROUPS_MAP.get(code.displayGrouping) :
+      cardGrouping;
+  if (code.derived) {
+    return new DerivedCode(
+        code.code, displayGrouping, code.label, code.derived,
+        code.showByDefault, code.displayBounds, code.forceDisplayBounds);
+  }
+  const codeClass = system === RxNormCode.CODING_STRING ?
+      RxNormCode :
+      (system === BCHMicrobioCode.CODING_STRING ? BCHMicrobioCode : LOINCCode);
+  return new codeClass(
+      code.code, displayGrouping, code.label, code.showByDefault,
+      code.displayBounds, code.forceDisplayBounds);
+}
+
+/**
+ * Gets the code system a code is registered in. Derived codes are registered
+ * in a system of their own, whatever the system of their axis.
+ */
+function systemOf(system: string, code: CodeConfig): string {
+  return code.derived ? DerivedCode.CODING_STRING : system;
+}
+
+/**
+ * Registers the LOINC codes a derived code is computed from, or checked
+ * against, unless they are already known.
+ * @param registry The registry to register the codes in.
+ * @param code The configuration of the derived code.
+ * @param cardGrouping The display grouping of the code's card.
+ */
+function registerSources(
+    registry: CodeRegistry, code: CodeConfig, cardGrouping: DisplayGrouping) {
+  if (!code.derived) {
+    return;
+  }
+  const sources: CodeConfig[] = [].concat(
+      ...Object.keys(code.derived.inputs)
+          .map(input => code.derived.inputs[input]),
+      code.derived.panels || [], code.derived.unlessRecorded || []);
+  for (const source of sources) {
+    if (!registry.get(LOINCCode.CODING_STRING, source.code)) {
+      registry.register(
+          makeCode(LOINCCode.CODING_STRING, source, cardGrouping));
+    }
+  }
 }
@@ -4,6 +4,7 @@
 // license that can be found in the LICENSE file.
 
 import {Interval} from 'luxon';
+
 import {CachedResourceCodeGroup} from '../clinicalconcepts/resource-code-group';
 import {MedicationAdministration} from '../fhir-data-classes/medication-administration';
 import {MedicationOrder, MedicationOrderSet} from '../fhir-data-classes/medication-order';
@@ -16,6 +17,15 @@ import {RxNormCode} from './rx-norm';
  * group.
  */
 export class RxNormCodeGroup extends CachedResourceCodeGroup<RxNormCode> {
+  /**
+   * The MedicationOrders retrieved so far for each RxNormCode in this group,
+   * keyed by order ID. RxNormCodes are shared, so each retrieval would
+   * otherwise replace the orders found by retrievals for other time
+   * intervals.
+   */
+  private readonly ordersForCode =
+      new Map<RxNormCode, Map<string, MedicationOrder>>();
+
   /**
    * Fills out the order and administration information for each for each
    * RxNormCode in this group, and returns a list of the populated RxNormCodes.
@@ -40,6 +50,44 @@ export class RxNormCodeGroup extends CachedResourceCodeGroup<RxNormCode> {
             });
   }
 
+  /**
+   * Restricts the RxNormCodes to those with at least one order that has
+   * administrations within the time interval. The orders of each RxNormCode
+   * are left whole, since each order holds all of its administrations
+   * regardless of time.
+   * @param data The RxNormCodes to restrict.
+   * @param dateRange The time interval to restrict the RxNormCodes to.
+   */
+  protected sliceToRange(data: RxNormCode[], dateRange: Interval):
+      RxNormCode[] {
+    return data.filter(
+        rxNorm => rxNorm.orders &&
+            rxNorm.orders.resourceList.some(
+                order => order.firstAdministration.timestamp < dateRange.end &&
+                    order.lastAdmininistration.timestamp >= dateRange.start));
+  }
+
+  /**
+   * Adds the newly retrieved RxNormCodes that are not already cached. Their
+   * orders have already been combined when they were retrieved.
+   * @param cached The RxNormCodes already in the cache.
+   * @param retrieved The newly retrieved RxNormCodes.
+   */
+  protected mergeResources(cached: RxNormCode[], retrieved: RxNormCode[]):
+      RxNormCode[] {
+    return cached.concat(
+        retrieved.filter(rxNorm => cached.indexOf(rxNorm) === -1));
+  }
+
+  /**
+   * Empties the cache, along with the orders found for each RxNormCode.
+   * @override
+   */
+  clearCache() {
+    super.clearCache();
+    this.ordersForCode.clear();
+  }
+
   /**
    * Takes a list of lists of MedicationAdministrations and groups them by their
    * order IDs. Each list represents a set of MedicationAdministrations for a
@@ -179,7 +227,16 @@ export class RxNormCodeGroup extends CachedResourceCodeGroup<RxNormCode> {
               Array.from(groupedByMed.entries()).forEach(medEntry => {
                 const rxNorm = medEntry[0];
                 const medOrders = medEntry[1];
-                rxNorm.orders = new MedicationOrderSet(medOrders);
+                if (!this.ordersForCode.has(rxNorm)) {
+                  this.ordersForCode.set(
+                      rxNorm, new Map<string, MedicationOrder>());
+                }
+                const allOrders = this.ordersForCode.get(rxNorm);
+                for (const order of medOrders) {
+                  allOrders.set(order.orderId, order);
+                }
+                rxNorm.orders =
+                    new MedicationOrderSet(Array.from(allOrders.values()));
               });
               // Return all the populated RxNorms.
               return Array.from(groupedByMed.keys());
@@ -0,0 +1,82 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {RxNormCode} from './rx-norm';
+import {findRxNormCode, RXNORM_INGREDIENT_TABLE_VERSION, RxNormIngredientTable, RxNormTermType} from './rx-norm-ingredients';
+
+// The codes of the products are made up for the tests, while 11124 and
+// 1596450 are the ingredients vancomycin and gentamicin.
+const vancomycinDrug = {
+  code: 'vancomycin-drug',
+  termType: RxNormTermType.ClinicalDrug,
+  ingredients: ['11124'],
+  display: 'vancomycin 1000 MG Injection'
+};
+const vancomycinBrand = {
+  code: 'vancomycin-brand',
+  termType: RxNormTermType.BrandedDrug,
+  ingredients: ['11124']
+};
+const mixedPack = {
+  code: 'mixed-pack',
+  termType: RxNormTermType.GenericPack,
+  ingredients: ['unknown-ingredient', '1596450']
+};
+
+describe('RxNormIngredientTable', () => {
+  let table: RxNormIngredientTable;
+
+  beforeEach(() => {
+    table = new RxNormIngredientTable();
+    table.addTable({
+      version: RXNORM_INGREDIENT_TABLE_VERSION,
+      products: [vancomycinDrug, vancomycinBrand, mixedPack]
+    });
+  });
+
+  it('should list the products of each ingredient', () => {
+    expect(table.productOf('vancomycin-drug')).toEqual(vancomycinDrug);
+    expect(table.productsOf('11124').map(product => product.code)).toEqual([
+      'vancomycin-drug', 'vancomycin-brand'
+    ]);
+    expect(table.productsOf('1596450')).toEqual([mixedPack]);
+    expect(table.productsOf('8640')).toEqual([]);
+  });
+
+  it('should list every problem with an invalid table', () => {
+    expect(() => table.addTable({
+      version: RXNORM_INGREDIENT_TABLE_VERSION,
+      products: [{code: 'a', termType: 'IN', ingredients: []}]
+    }))
+        .toThrowError(
+            'Invalid RxNorm ingredient table: ' +
+            'products[0].termType must be one of SCD, SBD, GPCK, BPCK. ' +
+            'products[0].ingredients must be a non-empty array of codes.');
+  });
+
+  it('should display products as the first ingredient the app knows', () => {
+    const codings = [
+      {system: 'http://example.org/pharmacy', code: '11124'},
+      {system: RxNormCode.CODING_STRING, code: 'mixed-pack'}
+    ];
+    const match = findRxNormCode(codings, table);
+    expect(match.code as RxNormCode)
+        .toBe(RxNormCode.fromCodeString('1596450') as RxNormCode);
+    expect(match.product).toEqual(mixedPack);
+  });
+
+  it('should prefer codes the app knows to products', () => {
+    const match = findRxNormCode(
+        [
+          {system: RxNormCode.CODING_STRING, code: 'vancomycin-drug'},
+          {system: RxNormCode.CODING_STRING, code: '11124'}
+        ],
+        table);
+    expect(match.code as RxNormCode)
+        .toBe(RxNormCode.fromCodeString('11124') as RxNormCode);
+    expect(match.product).toBeUndefined();
+    expect(findRxNormCode([{code: 'not-in-the-table'}], table)).toBeUndefined();
+  });
+});
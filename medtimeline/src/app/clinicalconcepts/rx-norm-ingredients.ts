@@ -0,0 +1,196 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {RxNormCode} from './rx-norm';
+
+/**
+ * The version of the ingredient table format. This should be bumped whenever
+ * the format changes.
+ */
+export const RXNORM_INGREDIENT_TABLE_VERSION = 1;
+
+/**
+ * The RxNorm term types of the products the ingredient table maps onto their
+ * ingredients.
+ * https://www.nlm.nih.gov/research/umls/rxnorm/docs/appendix5.html
+ */
+export enum RxNormTermType {
+  ClinicalDrug = 'SCD',
+  BrandedDrug = 'SBD',
+  GenericPack = 'GPCK',
+  BrandedPack = 'BPCK'
+}
+
+/**
+ * A medication product, such as "vancomycin 1000 MG Injection", that
+ * medications may be coded as instead of their ingredient.
+ */
+export interface RxNormProduct {
+  code: string;
+  termType: RxNormTermType;
+  /** The RxNorm codes of the product's ingredients, of term type IN. */
+  ingredients: string[];
+  display?: string;
+}
+
+/**
+ * A local table of the relationships between RxNorm products and their
+ * ingredients, as drawn from a release of RxNorm.
+ */
+export interface RxNormIngredientTableJson {
+  version: number;
+  products: RxNormProduct[];
+}
+
+/**
+ * The medication a resource is displayed as.
+ */
+export interface RxNormMatch {
+  /** The code of the medication, or of its ingredient. */
+  code: RxNormCode;
+  /** The product the resource was coded as, if it was matched through it. */
+  product?: RxNormProduct;
+}
+
+/**
+ * Maps the RxNorm codes of clinical drugs, branded drugs and packs onto the
+ * codes of their ingredients, so that a medication is displayed as its
+ * ingredient however specifically it was coded.
+ */
+export class RxNormIngredientTable {
+  // The products, by code.
+  private readonly products = new Map<string, RxNormProduct>();
+  // The products of each ingredient, by the code of the ingredient.
+  private readonly productsByIngredient = new Map<string, RxNormProduct[]>();
+
+  /**
+   * Adds the products of an ingredient table. A product that is already in
+   * the table keeps its ingredients.
+   * @param json The ingredient table, as parsed from JSON.
+   * @throws An Error listing every problem found, if the table is not valid.
+   */
+  addTable(json: any) {
+    for (const product of validateIngredientTable(json).products) {
+      if (this.products.has(product.code)) {
+        continue;
+      }
+      this.products.set(product.code, product);
+      for (const ingredient of product.ingredients) {
+        const products = this.productsByIngredient.get(ingredient) || [];
+        products.push(product);
+        this.productsByIngredient.set(ingredient, products);
+      }
+    }
+  }
+
+  /**
+   * Finds a product by its code.
+   * @param code The RxNorm code of the product.
+   * @returns The product, or undefined if it is not in the table.
+   */
+  productOf(code: string): RxNormProduct {
+    return this.products.get(code);
+  }
+
+  /**
+   * Finds the products of an ingredient, so that they can be searched for
+   * along with it.
+   * @param code The RxNorm code of the ingredient.
+   */
+  productsOf(code: string): RxNormProduct[] {
+    return this.productsByIngredient.get(code) || [];
+  }
+}
+
+/**
+ * The ingredient table used to read medications. It is empty until a site's
+ * table is loaded when the app starts.
+ */
+export const rxNormIngredients = new RxNormIngredientTable();
+
+/**
+ * Checks that an ingredient table has the expected form.
+ * @param json The ingredient table, as parsed from JSON.
+ * @returns The ingredient table.
+ * @throws An Error listing every problem found, if there are any.
+ */
+export function validateIngredientTable(json: any): RxNormIngredientTableJson {
+  const problems = new Array<string>();
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    problems.push('The ingredient table must be an object.');
+  } else {
+    if (json.version !== RXNORM_INGREDIENT_TABLE_VERSION) {
+      problems.push(
+          'version must be ' + RXNORM_INGREDIENT_TABLE_VERSION + ', but is ' +
+          json.version + '.');
+    }
+    if (!Array.isArray(json.products)) {
+      problems.push('products must be an array.');
+    } else {
+      const termTypes =
+          Object.keys(RxNormTermType).map(key => RxNormTermType[key]);
+      json.products.forEach((product, i) => {
+        const path = 'products[' + i + ']';
+        if (typeof product !== 'object' || product === null) {
+          problems.push(path + ' must be an object.');
+          return;
+        }
+        if (typeof product.code !== 'string' || !product.code) {
+          problems.push(path + '.code must be a non-empty string.');
+        }
+        if (!termTypes.includes(product.termType)) {
+          problems.push(
+              path + '.termType must be one of ' + termTypes.join(', ') + '.');
+        }
+        if (!Array.isArray(product.ingredients) ||
+            product.ingredients.length === 0 ||
+            !product.ingredients.every(
+                ingredient => typeof ingredient === 'string' && ingredient)) {
+          problems.push(
+              path + '.ingredients must be a non-empty array of codes.');
+        }
+      });
+    }
+  }
+  if (problems.length > 0) {
+    throw Error('Invalid RxNorm ingredient table: ' + problems.join(' '));
+  }
+  return json;
+}
+
+/**
+ * Finds the medication a resource is displayed as, from the codings of its
+ * medication. Codes the app knows are used as they are. Otherwise, a product
+ * is displayed as the first of its ingredients that the app knows.
+ * @param codings The codings of the medication's CodeableConcept.
+ * @param table The ingredient table to look products up in.
+ * @returns The medication, or undefined if the app knows none of the codes.
+ */
+export function findRxNormCode(
+    codings: any[], table = rxNormIngredients): RxNormMatch {
+  const rxNormCodings =
+      (codings || [])
+          .filter(
+              coding => !coding.system ||
+                  coding.system.indexOf(RxNormCode.CODING_STRING) !== -1);
+  for (const coding of rxNormCodings) {
+    const code = RxNormCode.fromCodeString(coding.code) as RxNormCode;
+    if (code) {
+      return {code: code};
+    }
+  }
+  for (const coding of rxNormCodings) {
+    const product = table.productOf(coding.code);
+    const code = product ?
+        product.ingredients
+                .map(ingredient => RxNormCode.fromCodeString(ingredient))
+                .find(ingredient => !!ingredient) as RxNormCode :
+        undefined;
+    if (code) {
+      return {code: code, product: product};
+    }
+  }
+  return undefined;
+}
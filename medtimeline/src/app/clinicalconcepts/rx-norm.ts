@@ -10,8 +10,14 @@ import {MedicationOrderSet} from '../fhir-data-classes/medication-order';
 import {FhirService} from '../fhir.service';
 import * as BCHColors from '../theme/bch_colors';
 
+import {CodeRegistry} from './code-registry';
 import {DisplayGrouping} from './display-grouping';
 
+/**
+ * A class of medications, such as antibiotics, that the medications of the
+ * medication summaries are coloured by. The classes are listed in
+ * medication-classes.ts.
+ */
 export class MedicationConceptGroup extends DisplayGrouping {}
 
 export const ANTIVIRAL =
@@ -20,8 +26,8 @@ export const ANTIBIOTIC =
     new MedicationConceptGroup('Antibiotic', BCHColors.BOSTON_INDIGO);
 export const ANTIFUNGAL =
     new MedicationConceptGroup('Antifungal', BCHColors.BOSTON_YELLOW);
-
-export const MEDICATION_GROUPS = [ANTIVIRAL, ANTIBIOTIC, ANTIFUNGAL];
+export const ANTIMYCOBACTERIAL =
+    new MedicationConceptGroup('Antimycobacterial', BCHColors.BOSTON_GREEN);
 
 /**
  * Holds RXNorm codes and orders corresponding to them.
@@ -37,8 +43,10 @@ export class RxNormCode extends ResourceCode {
   }
 }
 
+// The medications built into the app, which are known whether or not any card
+// displays them.
 export const RXNORM_CODES = [
   // Parenteral antibiotics
   new RxNormCode('11124', ANTIBIOTIC, 'Vancomycin', true),
   new RxNormCode('1596450', ANTIBIOTIC, 'Gentamicin')
-];
+].map(code => CodeRegistry.BUILT_IN.register(code));
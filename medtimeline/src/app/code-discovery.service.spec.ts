@@ -0,0 +1,169 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Interval} from 'luxon';
+
+import {CodeRegistry} from './clinicalconcepts/code-registry';
+import {CardConfig} from './clinicalconcepts/concept-config';
+import {ALL_DISPLAY_GROUPS_MAP} from './clinicalconcepts/display-grouping';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {ResourceCodeManager} from './clinicalconcepts/resource-code-manager';
+import {CodeDiscoveryService} from './code-discovery.service';
+import {ObservationCategory, ObservationCode} from './observation-codes';
+import {restoreCodes, StubFhirService, useCodes} from './test_utils';
+
+/**
+ * Answers searches for the codes of a category with the codes given for it,
+ * and fails searches of categories without any.
+ */
+class CodesFhirService extends StubFhirService {
+  constructor(private readonly codes: Map<string, ObservationCode[]>) {
+    super();
+  }
+
+  getObservationCodes(category: ObservationCategory, dateRange: Interval):
+      Promise<ObservationCode[]> {
+    return this.codes.has(category) ?
+        Promise.resolve(this.codes.get(category)) :
+        Promise.reject('Search failed');
+  }
+}
+
+/**
+ * Lists the cards of a ResourceCodeManager, and keeps the cards added to it
+ * to itself rather than adding them to the listing every spec shares. The
+ * codes of the cards are registered in the codes the spec reads with.
+ */
+class StubResourceCodeManager {
+  readonly cards: any[];
+
+  constructor(fhirService: StubFhirService) {
+    this.cards =
+        new ResourceCodeManager(fhirService).getResourceCodeGroups().slice();
+  }
+
+  getResourceCodeGroups(): any[] {
+    return this.cards;
+  }
+
+  addCard(card: CardConfig): any {
+    const displayGrouping = ALL_DISPLAY_GROUPS_MAP.get(card.displayGrouping);
+    for (const code of card.axes[0].codes) {
+      CodeRegistry.active.register(
+          new LOINCCode(code.code, displayGrouping, code.label));
+    }
+    const added = {label: card.label, displayGrouping: displayGrouping};
+    this.cards.push(added);
+    return added;
+  }
+}
+
+function makeCode(
+    code: string, display: string, category: ObservationCategory,
+    count: number): ObservationCode {
+  return {code: code, display: display, category: category, count: count};
+}
+
+describe('CodeDiscoveryService', () => {
+  const lab = ObservationCategory.Laboratory;
+  const vitals = ObservationCategory.VitalSigns;
+
+  beforeEach(() => {
+    useCodes();
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
+  it('should list the codes no card displays, most frequent first',
+     (done: DoneFn) => {
+       const fhirService = new CodesFhirService(new Map([
+         [
+           lab,
+           [
+             makeCode('718-7', 'Hemoglobin', lab, 5),
+             makeCode('discovery-1', 'Glucose', lab, 1)
+           ]
+         ],
+         [
+           vitals,
+           [
+             makeCode('discovery-2', 'Pain Score', vitals, 3),
+             makeCode('discovery-1', 'Glucose', vitals, 1)
+           ]
+         ]
+       ]));
+       const service = new CodeDiscoveryService(
+           fhirService, new ResourceCodeManager(fhirService));
+       service.discover().then(codes => {
+         expect(codes.map(code => code.code)).toEqual([
+           'discovery-2', 'discovery-1'
+         ]);
+         done();
+       });
+     });
+
+  it('should not list the codes mapped onto the codes of a card',
+     (done: DoneFn) => {
+       // The ConceptMap shipped with the app maps hemoglobin by calculation
+       // onto hemoglobin.
+       const fhirService = new CodesFhirService(new Map([
+         [
+           lab,
+           [
+             makeCode('20509-6', 'Hemoglobin by calculation', lab, 2),
+             makeCode('discovery-6', 'Lactate', lab, 1)
+           ]
+         ],
+         [vitals, []]
+       ]));
+       const service = new CodeDiscoveryService(
+           fhirService, new ResourceCodeManager(fhirService));
+       service.discover().then(codes => {
+         expect(codes.map(code => code.code)).toEqual(['discovery-6']);
+         done();
+       });
+     });
+
+  it('should still list the codes of categories that can be searched',
+     (done: DoneFn) => {
+       const fhirService = new CodesFhirService(
+           new Map([[vitals, [makeCode('discovery-3', 'Pain', vitals, 1)]]]));
+       const service = new CodeDiscoveryService(
+           fhirService, new ResourceCodeManager(fhirService));
+       service.discover().then(codes => {
+         expect(codes.map(code => code.code)).toEqual(['discovery-3']);
+         done();
+       });
+     });
+
+  it('should add an Other Results card for each code once', (done: DoneFn) => {
+    const fhirService = new CodesFhirService(new Map([
+      [
+        lab,
+        [
+          makeCode('discovery-4', 'Ammonia', lab, 2),
+          makeCode('discovery-5', 'Complete Blood Count', lab, 1)
+        ]
+      ],
+      [vitals, []]
+    ]));
+    const manager = new StubResourceCodeManager(fhirService);
+    const service = new CodeDiscoveryService(fhirService, manager as any);
+    service.addOtherResultsCards()
+        .then(cards => {
+          expect(cards.map(card => card.label)).toEqual([
+            'Ammonia', 'Complete Blood Count (discovery-5)'
+          ]);
+          expect(cards[0].displayGrouping.label).toEqual('Other Results');
+          expect(manager.getResourceCodeGroups()).toContain(cards[0]);
+          return service.addOtherResultsCards();
+        })
+        .then(cards => {
+          expect(cards).toEqual([]);
+          done();
+        });
+  });
+});
@@ -0,0 +1,122 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Injectable} from '@angular/core';
+
+import {APP_TIMESPAN} from '../constants';
+
+import {CardConfig} from './clinicalconcepts/concept-config';
+import {conceptMapper} from './clinicalconcepts/concept-map';
+import {otherResults} from './clinicalconcepts/display-grouping';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {ResourceCodeManager, ResourceCodesForCard} from './clinicalconcepts/resource-code-manager';
+import {FhirService} from './fhir.service';
+import {ObservationCategory, ObservationCode} from './observation-codes';
+
+/**
+ * This service finds the lab results and vital signs in the patient's record
+ * that no card displays, since Observations with codes the app does not know
+ * about are otherwise left out, and lists an "Other Results" card for each.
+ */
+@Injectable({providedIn: 'root'})
+export class CodeDiscoveryService {
+  // The search for codes, shared by everything that asks for it until the
+  // data source changes.
+  private discovery: Promise<ObservationCode[]>;
+
+  constructor(
+      private fhirService: FhirService,
+      private resourceCodeManager: ResourceCodeManager) {}
+
+  /**
+   * Finds the LOINC codes of the laboratory and vital sign Observations in
+   * the app's time span that the app does not know about. Codes that a
+   * ConceptMap maps onto a code the app knows are already displayed as it.
+   * @returns The codes, with the most frequent first.
+   */
+  discover(): Promise<ObservationCode[]> {
+    if (!this.discovery) {
+      const categories =
+          [ObservationCategory.Laboratory, ObservationCategory.VitalSigns];
+      this.discovery =
+          Promise
+              .all(categories.map(
+                  category =>
+                      this.fhirService
+                          .getObservationCodes(category, APP_TIMESPAN)
+                          // A category that cannot be searched has already
+                          // been logged, and should not hide the others.
+                          .catch(rejection => [] as ObservationCode[])))
+              .then(codesByCategory => {
+                const found = new Map<string, ObservationCode>();
+                for (const code of [].concat(...codesByCategory)) {
+                  if (!found.has(code.code)) {
+                    found.set(code.code, code);
+                  }
+                }
+                return Array.from(found.values())
+                    .filter(code => !isDisplayed(code.code))
+                    .sort((a, b) => b.count - a.count);
+              });
+    }
+    return this.discovery;
+  }
+
+  /**
+   * Forgets the codes found, so that they are searched for again. This should
+   * be called when the data source changes.
+   */
+  forget() {
+    this.discovery = undefined;
+  }
+
+  /**
+   * Finds the codes that no card displays, and adds an "Other Results" card
+   * to the listing for each of them, for the rest of the session.
+   * @returns The cards added.
+   */
+  addOtherResultsCards(): Promise<ResourceCodesForCard[]> {
+    // Codes are known once their card is added, so only the codes that are
+    // still unknown need cards.
+    return this.discover().then(
+        codes => codes.filter(code => !isDisplayed(code.code))
+                     .map(
+                         code => this.resourceCodeManager.addCard(
+                             this.makeCardConfig(code))));
+  }
+
+  /**
+   * Makes the configuration of the card for a code. The card is labelled with
+   * the display text of the code, or with the code if that label is taken.
+   * @param code The code to display.
+   */
+  private makeCardConfig(code: ObservationCode): CardConfig {
+    let label = code.display || 'LOINC ' + code.code;
+    if (this.resourceCodeManager.getResourceCodeGroups().some(
+            card => card.label === label)) {
+      label = label + ' (' + code.code + ')';
+    }
+    return {
+      label: label,
+      displayGrouping: otherResults.label,
+      axes: [{
+        label: label,
+        system: LOINCCode.CODING_STRING,
+        chartType: 'LINE',
+        codes: [{code: code.code, label: label}]
+      }]
+    };
+  }
+}
+
+/**
+ * Whether Observations with a LOINC code are displayed, either as the code
+ * itself or as the code a ConceptMap maps it onto.
+ */
+function isDisplayed(code: string): boolean {
+  const target = conceptMapper.targetOf(LOINCCode.CODING_STRING, code);
+  return !!LOINCCode.fromCodeString(code) ||
+      (!!target && !!LOINCCode.fromCodeString(target));
+}
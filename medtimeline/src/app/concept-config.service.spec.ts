@@ -0,0 +1,71 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {of, throwError} from 'rxjs';
+
+import {DEFAULT_CONCEPT_CONFIG} from './clinicalconcepts/concept-config';
+import {ConceptConfigService} from './concept-config.service';
+import {DebuggerService, Severity} from './debugger.service';
+
+const config = {
+  version: 1,
+  cards: [{
+    label: 'Platelets',
+    displayGrouping: 'Lab Results',
+    axes: [{
+      label: 'Platelets',
+      system: 'http://loinc.org',
+      chartType: 'LINE',
+      codes: [{code: '777-3', label: 'Platelets'}]
+    }]
+  }]
+};
+
+describe('ConceptConfigService', () => {
+  let debugService: DebuggerService;
+
+  beforeEach(() => {
+    debugService = new DebuggerService();
+  });
+
+  it('should use the configuration shipped with the app by default', () => {
+    expect(new ConceptConfigService().config).toBe(DEFAULT_CONCEPT_CONFIG);
+  });
+
+  it('should load the configuration', (done: DoneFn) => {
+    const http: any = {get: () => of(config)};
+    const service = new ConceptConfigService(http, debugService);
+    service.load('assets/clinical-concepts.json').then(() => {
+      expect(service.config).toEqual(config as any);
+      expect(debugService.events).toEqual([]);
+      done();
+    });
+  });
+
+  it('should keep the default configuration if the configuration is invalid',
+     (done: DoneFn) => {
+       const http: any = {get: () => of({version: 1, cards: []})};
+       const service = new ConceptConfigService(http, debugService);
+       service.load('assets/clinical-concepts.json').then(() => {
+         expect(service.config).toBe(DEFAULT_CONCEPT_CONFIG);
+         expect(debugService.events.length).toEqual(1);
+         expect(debugService.events[0].severity).toEqual(Severity.Warning);
+         expect(debugService.events[0].query)
+             .toEqual('assets/clinical-concepts.json');
+         done();
+       });
+     });
+
+  it('should keep the default configuration if it cannot be loaded',
+     (done: DoneFn) => {
+       const http: any = {get: () => throwError({status: 404})};
+       const service = new ConceptConfigService(http, debugService);
+       service.load('assets/clinical-concepts.json').then(() => {
+         expect(service.config).toBe(DEFAULT_CONCEPT_CONFIG);
+         expect(debugService.events[0].status).toEqual(404);
+         done();
+       });
+     });
+});
@@ -0,0 +1,62 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {HttpClient} from '@angular/common/http';
+import {Injectable, Optional} from '@angular/core';
+
+import {environment} from '../environments/environment';
+
+import {ConceptConfig, DEFAULT_CONCEPT_CONFIG, validateConceptConfig} from './clinicalconcepts/concept-config';
+import {DebuggerService, Severity} from './debugger.service';
+
+/**
+ * This service holds the catalogue of cards the app can display. The
+ * catalogue is loaded from a JSON file when the app starts, so that cards can
+ * be added without changing the code, and falls back to the catalogue shipped
+ * with the app if the file cannot be loaded or is not valid.
+ */
+@Injectable({providedIn: 'root'})
+export class ConceptConfigService {
+  config: ConceptConfig = DEFAULT_CONCEPT_CONFIG;
+
+  constructor(
+      @Optional() private http?: HttpClient,
+      private debugService: DebuggerService = new DebuggerService()) {}
+
+  /**
+   * Loads the catalogue of cards.
+   * @param url Where to load the catalogue from. If unset, the catalogue
+   *     shipped with the app is used.
+   * @returns A promise that resolves once the catalogue is loaded, even if it
+   *     could not be.
+   */
+  load(url: string): Promise<void> {
+    if (!url || !this.http) {
+      return Promise.resolve();
+    }
+    return this.http.get(url)
+        .toPromise<any>()
+        .then(json => {
+          this.config = validateConceptConfig(json);
+        })
+        .catch(error => {
+          this.debugService.logError(error, {
+            source: 'ConceptConfigService',
+            severity: Severity.Warning,
+            query: url
+          });
+        });
+  }
+}
+
+/**
+ * Makes the app initializer that loads the catalogue of cards before the app
+ * starts.
+ * @param service The service to load the catalogue into.
+ */
+export function loadConceptConfig(service: ConceptConfigService): () =>
+    Promise<void> {
+  return () => service.load(environment.conceptConfigUrl);
+}
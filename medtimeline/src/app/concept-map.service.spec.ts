@@ -0,0 +1,63 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {of, throwError} from 'rxjs';
+
+import {ConceptMapper} from './clinicalconcepts/concept-map';
+import {ConceptMapService} from './concept-map.service';
+import {DebuggerService, Severity} from './debugger.service';
+
+const conceptMap = {
+  resourceType: 'ConceptMap',
+  group: [{
+    source: 'http://example.org/local-lab-codes',
+    target: 'http://loinc.org',
+    element:
+        [{code: 'PLT', target: [{code: '777-3', equivalence: 'equivalent'}]}]
+  }]
+};
+
+describe('ConceptMapService', () => {
+  let debugService: DebuggerService;
+  let mapper: ConceptMapper;
+
+  beforeEach(() => {
+    debugService = new DebuggerService();
+    mapper = new ConceptMapper();
+  });
+
+  it('should add the mappings it loads', (done: DoneFn) => {
+    const http: any = {get: () => of(conceptMap)};
+    const service = new ConceptMapService(http, debugService, mapper);
+    service.load('assets/site-concept-map.json').then(() => {
+      expect(mapper.targetOf('http://example.org/local-lab-codes', 'PLT'))
+          .toEqual('777-3');
+      expect(debugService.events).toEqual([]);
+      done();
+    });
+  });
+
+  it('should log a warning if the ConceptMap is invalid', (done: DoneFn) => {
+    const http: any = {get: () => of({resourceType: 'Patient'})};
+    const service = new ConceptMapService(http, debugService, mapper);
+    service.load('assets/site-concept-map.json').then(() => {
+      expect(debugService.events.length).toEqual(1);
+      expect(debugService.events[0].severity).toEqual(Severity.Warning);
+      expect(debugService.events[0].query)
+          .toEqual('assets/site-concept-map.json');
+      done();
+    });
+  });
+
+  it('should log a warning if the ConceptMap cannot be loaded',
+     (done: DoneFn) => {
+       const http: any = {get: () => throwError({status: 404})};
+       const service = new ConceptMapService(http, debugService, mapper);
+       service.load('assets/site-concept-map.json').then(() => {
+         expect(debugService.events[0].status).toEqual(404);
+         done();
+       });
+     });
+});
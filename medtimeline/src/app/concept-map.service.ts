@@ -0,0 +1,61 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {HttpClient} from '@angular/common/http';
+import {Injectable, Optional} from '@angular/core';
+
+import {environment} from '../environments/environment';
+
+import {ConceptMapper, conceptMapper} from './clinicalconcepts/concept-map';
+import {DebuggerService, Severity} from './debugger.service';
+
+/**
+ * This service loads a site's ConceptMaps when the app starts, so that
+ * Observations reported with the site's own codes are shown on the cards of
+ * the LOINC codes they map onto.
+ */
+@Injectable({providedIn: 'root'})
+export class ConceptMapService {
+  constructor(
+      @Optional() private http?: HttpClient,
+      private debugService: DebuggerService = new DebuggerService(),
+      readonly mapper: ConceptMapper = conceptMapper) {}
+
+  /**
+   * Loads a ConceptMap, or a Bundle of ConceptMaps, and adds its mappings to
+   * those shipped with the app.
+   * @param url Where to load the ConceptMaps from. If unset, only the
+   *     ConceptMap shipped with the app is used.
+   * @returns A promise that resolves once the ConceptMaps are loaded, even if
+   *     they could not be.
+   */
+  load(url: string): Promise<void> {
+    if (!url || !this.http) {
+      return Promise.resolve();
+    }
+    return this.http.get(url)
+        .toPromise<any>()
+        .then(json => {
+          this.mapper.addConceptMap(json);
+        })
+        .catch(error => {
+          this.debugService.logError(error, {
+            source: 'ConceptMapService',
+            severity: Severity.Warning,
+            query: url
+          });
+        });
+  }
+}
+
+/**
+ * Makes the app initializer that loads the site's ConceptMaps before the app
+ * starts.
+ * @param service The service to load the ConceptMaps with.
+ */
+export function loadConceptMaps(service: ConceptMapService): () =>
+    Promise<void> {
+  return () => service.load(environment.conceptMapUrl);
+}
@@ -0,0 +1,75 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {CardConfig} from './clinicalconcepts/concept-config';
+import {CustomCardService} from './custom-card.service';
+import {DebuggerService} from './debugger.service';
+
+/**
+ * Keeps items in memory, in place of the browser storage.
+ */
+class FakeStorage {
+  readonly items = new Map<string, string>();
+
+  getItem(key: string): string {
+    return this.items.has(key) ? this.items.get(key) : null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+const lactateAndPh: CardConfig = {
+  label: 'Lactate and pH',
+  displayGrouping: 'Custom Cards',
+  axes: [
+    {
+      label: 'Lactate',
+      system: 'http://loinc.org',
+      chartType: 'LINE',
+      codes: [{code: '2524-7', label: 'Lactate'}]
+    },
+    {
+      label: 'pH',
+      system: 'http://loinc.org',
+      chartType: 'LINE',
+      codes: [{code: '2744-1', label: 'pH'}],
+      displayBounds: [6.8, 7.8],
+      forceDisplayBounds: true
+    }
+  ]
+};
+
+describe('CustomCardService', () => {
+  let storage: any;
+  let debugService: DebuggerService;
+
+  beforeEach(() => {
+    storage = new FakeStorage();
+    debugService = new DebuggerService();
+  });
+
+  it('should keep custom cards for later sessions', () => {
+    new CustomCardService(storage, debugService).add(lactateAndPh);
+    const later = new CustomCardService(storage, debugService);
+    expect(later.cards).toEqual([lactateAndPh]);
+  });
+
+  it('should leave out saved cards that are not valid', () => {
+    storage.setItem(
+        'medtimeline.customCards',
+        JSON.stringify({version: 1, cards: [{label: 'Lactate'}]}));
+    const service = new CustomCardService(storage, debugService);
+    expect(service.cards).toEqual([]);
+    expect(debugService.events.length).toEqual(1);
+  });
+
+  it('should keep custom cards in memory without storage', () => {
+    const service = new CustomCardService(undefined, debugService);
+    service.add(lactateAndPh);
+    expect(service.cards).toEqual([lactateAndPh]);
+  });
+});
@@ -0,0 +1,64 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Inject, Injectable, InjectionToken, Optional} from '@angular/core';
+
+import {CardConfig, CONCEPT_CONFIG_VERSION, validateConceptConfig} from './clinicalconcepts/concept-config';
+import {DebuggerService, Severity} from './debugger.service';
+
+/**
+ * The storage custom cards are saved in, so that they are kept across
+ * sessions.
+ */
+export const BROWSER_STORAGE = new InjectionToken<Storage>(
+    'Browser storage', {providedIn: 'root', factory: () => localStorage});
+
+/**
+ * The key the custom cards are saved under in the browser storage.
+ */
+const STORAGE_KEY = 'medtimeline.customCards';
+
+/**
+ * This service keeps the cards the user built in the app, so that they can be
+ * added again in later sessions. The cards are saved in the form of the
+ * clinical concept configuration, so they are checked the same way.
+ */
+@Injectable({providedIn: 'root'})
+export class CustomCardService {
+  /** The custom cards saved so far, in the order they were built. */
+  readonly cards: CardConfig[] = [];
+
+  constructor(
+      @Optional() @Inject(BROWSER_STORAGE) private storage?: Storage,
+      private debugService: DebuggerService = new DebuggerService()) {
+    const saved = this.storage ? this.storage.getItem(STORAGE_KEY) : null;
+    if (saved) {
+      try {
+        this.cards.push(...validateConceptConfig(JSON.parse(saved)).cards);
+      } catch (error) {
+        // Cards saved by another version of the app are left out, rather
+        // than stopping the app from starting.
+        this.debugService.logError(error, {
+          source: 'CustomCardService',
+          severity: Severity.Warning,
+          query: STORAGE_KEY
+        });
+      }
+    }
+  }
+
+  /**
+   * Saves a custom card.
+   * @param card The configuration of the card.
+   */
+  add(card: CardConfig) {
+    this.cards.push(card);
+    if (this.storage) {
+      this.storage.setItem(
+          STORAGE_KEY,
+          JSON.stringify({version: CONCEPT_CONFIG_VERSION, cards: this.cards}));
+    }
+  }
+}
@@ -0,0 +1,62 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DisplayGrouping} from './clinicalconcepts/display-grouping';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {codeOf, DataQualityService} from './data-quality.service';
+
+describe('DataQualityService', () => {
+  const observationJson = {
+    resourceType: 'Observation',
+    id: 'obs1',
+    code: {coding: [{system: 'http://loinc.org', code: '2160-0'}]}
+  };
+
+  it('should record why a resource could not be displayed', () => {
+    const service = new DataQualityService();
+    service.recordFailure(
+        observationJson, Error('Observations have to have a label.'));
+    expect(service.dropped).toEqual([{
+      resourceType: 'Observation',
+      id: 'obs1',
+      code: '2160-0',
+      reason: 'Observations have to have a label.',
+      source: undefined
+    }]);
+  });
+
+  it('should only record each resource once', () => {
+    const service = new DataQualityService();
+    service.recordFailure(observationJson, Error('No value.'));
+    service.recordFailure(observationJson, Error('No value.'));
+    expect(service.dropped.length).toBe(1);
+    service.clear();
+    expect(service.dropped).toEqual([]);
+  });
+
+  it('should find the resources left out for a set of codes', () => {
+    const service = new DataQualityService();
+    service.recordFailure(observationJson, Error('No value.'));
+    service.record({resourceType: 'Observation', reason: 'No code.'});
+    const creatinine = new LOINCCode(
+        '2160-0', new DisplayGrouping('concept', 'red'), 'Creatinine', true);
+    expect(service.droppedWithCodes([creatinine]).map(d => d.id)).toEqual([
+      'obs1'
+    ]);
+  });
+
+  it('codeOf should get the medication code from a contained Medication',
+     () => {
+       expect(codeOf({
+         resourceType: 'MedicationAdministration',
+         medicationReference: {reference: '#med'},
+         contained: [{
+           resourceType: 'Medication',
+           id: 'med',
+           code: {coding: [{code: '11124'}]}
+         }]
+       })).toEqual('11124');
+     });
+});
@@ -0,0 +1,118 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Injectable} from '@angular/core';
+
+import {FhirResourceType} from '../constants';
+
+import {ResourceCode} from './clinicalconcepts/resource-code-group';
+
+/**
+ * A resource that was left out of the app because it could not be turned into
+ * one of the app's data classes, such as an Observation without a value.
+ */
+export interface DroppedResource {
+  /** The type of the resource, if known. */
+  resourceType?: string;
+  /** The id of the resource, if known. */
+  id?: string;
+  /**
+   * The code of the resource, such as its LOINC or RxNorm code, if it has
+   * one.
+   */
+  code?: string;
+  /** Why the resource could not be displayed. */
+  reason: string;
+  /** Where the resource came from, such as the name of a file. */
+  source?: string;
+}
+
+/**
+ * Gets the code of a resource from its JSON: the code of an Observation or
+ * DiagnosticReport, or the medication code of a MedicationAdministration or
+ * MedicationOrder, which may be in a contained Medication.
+ * @param json The JSON of the resource.
+ * @returns The first code of the resource, or undefined if it has none.
+ */
+export function codeOf(json: any): string {
+  if (!json) {
+    return undefined;
+  }
+  let concept = json.code || json.medicationCodeableConcept;
+  if (!concept && json.medicationReference && json.contained) {
+    const medication = json.contained.find(
+        resource => resource.resourceType === FhirResourceType.Medication);
+    concept = medication ? medication.code : undefined;
+  }
+  return concept && concept.coding && concept.coding.length > 0 ?
+      concept.coding[0].code :
+      undefined;
+}
+
+/**
+ * This service keeps track of the resources that were left out of the app
+ * because they could not be parsed, so that clinicians can be told that
+ * some of a card's data is missing and the resources can be looked into from
+ * the debugger.
+ */
+@Injectable({providedIn: 'root'})
+export class DataQualityService {
+  /** Every resource left out so far, in the order they were left out. */
+  readonly dropped: DroppedResource[] = [];
+
+  // Resources are often parsed more than once, such as when the date range
+  // changes, so each is only recorded once.
+  private readonly seen = new Set<string>();
+
+  /**
+   * Records that a resource was left out.
+   * @param json The JSON of the resource.
+   * @param error The error thrown while parsing the resource.
+   * @param source Where the resource came from, if not from the FHIR server.
+   * @returns A description of the resource that was left out.
+   */
+  recordFailure(json: any, error: any, source?: string): DroppedResource {
+    const dropped: DroppedResource = {
+      resourceType: json ? json.resourceType : undefined,
+      id: json ? json.id : undefined,
+      code: codeOf(json),
+      reason: error && error.message ? error.message : String(error),
+      source: source
+    };
+    this.record(dropped);
+    return dropped;
+  }
+
+  /**
+   * Records that a resource was left out.
+   * @param dropped A description of the resource that was left out.
+   */
+  record(dropped: DroppedResource) {
+    const key = JSON.stringify([
+      dropped.source, dropped.resourceType, dropped.id, dropped.code,
+      dropped.reason
+    ]);
+    if (!this.seen.has(key)) {
+      this.seen.add(key);
+      this.dropped.push(dropped);
+    }
+  }
+
+  /**
+   * Finds the resources left out that have one of the given codes.
+   * @param codes The codes a card or graph displays.
+   */
+  droppedWithCodes(codes: ResourceCode[]): DroppedResource[] {
+    const codeStrings = new Set(codes.map(code => code.codeString));
+    return this.dropped.filter(
+        dropped => dropped.code !== undefined && codeStrings.has(dropped.code));
+  }
+
+  /** Forgets every resource left out so far, such as when the data changes. */
+  clear() {
+    this.dropped.length = 0;
+    this.seen.clear();
+  }
+}
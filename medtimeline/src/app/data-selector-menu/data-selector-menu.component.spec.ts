@@ -6,10 +6,11 @@
 import {async, ComponentFixture, fakeAsync, TestBed} from '@angular/core/testing';
 import {FormsModule, ReactiveFormsModule} from '@angular/forms';
 // tslint:disable-next-line:max-line-length
-import {MatAutocompleteModule, MatFormFieldModule, MatIconModule, MatInputModule, MatListModule, MatMenuModule, MatTooltipModule} from '@angular/material';
+import {MatAutocompleteModule, MatDialogModule, MatFormFieldModule, MatIconModule, MatInputModule, MatListModule, MatMenuModule, MatTooltipModule} from '@angular/material';
 import {BrowserAnimationsModule} from '@angular/platform-browser/animations';
 
 import {ResourceCodeManager} from '../clinicalconcepts/resource-code-manager';
+import {CodeDiscoveryService} from '../code-discovery.service';
 import {DataSelectorElementComponent} from '../data-selector-element/data-selector-element.component';
 import {StubFhirService} from '../test_utils';
 
@@ -33,6 +34,7 @@ describe('DataSelectorMenuComponent', () => {
             MatIconModule,
             MatListModule,
             MatAutocompleteModule,
+            MatDialogModule,
             MatFormFieldModule,
             FormsModule,
             ReactiveFormsModule,
@@ -40,7 +42,11 @@ describe('DataSelectorMenuComponent', () => {
             BrowserAnimationsModule,
           ],
           providers: [
-            {provide: ResourceCodeManager, useValue: resourceCodeManagerStub},
+            {provide: ResourceCodeManager, useValue: resourceCodeManagerStub}, {
+              provide: CodeDiscoveryService,
+              useValue: new CodeDiscoveryService(
+                  new StubFhirService(), resourceCodeManagerStub)
+            }
           ]
         })
         .compileComponents();
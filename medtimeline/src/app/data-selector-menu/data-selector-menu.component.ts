@@ -3,14 +3,17 @@
 // Use of this source code is governed by a BSD-style
 // license that can be found in the LICENSE file.
 
-import {Component, EventEmitter, OnInit, Output, ViewChild} from '@angular/core';
+import {Component, EventEmitter, OnDestroy, OnInit, Output, ViewChild} from '@angular/core';
 import {FormControl} from '@angular/forms';
-import {MatAutocompleteTrigger, MatMenuTrigger} from '@angular/material';
-import {Observable} from 'rxjs';
+import {MatAutocompleteTrigger, MatDialog, MatMenuTrigger} from '@angular/material';
+import {Observable, Subscription} from 'rxjs';
 import {map, startWith} from 'rxjs/operators';
 
+import {CardBuilderDialogComponent} from '../card-builder-dialog/card-builder-dialog.component';
+import {CardConfig} from '../clinicalconcepts/concept-config';
 import {DisplayGrouping} from '../clinicalconcepts/display-grouping';
 import {ResourceCodeManager, ResourceCodesForCard} from '../clinicalconcepts/resource-code-manager';
+import {CodeDiscoveryService} from '../code-discovery.service';
 
 @Component({
   selector: 'app-data-selector-menu',
@@ -21,7 +24,7 @@ import {ResourceCodeManager, ResourceCodesForCard} from '../clinicalconcepts/res
 /**
  * Shows a button with expanding menus for selecting data elements to display.
  */
-export class DataSelectorMenuComponent implements OnInit {
+export class DataSelectorMenuComponent implements OnInit, OnDestroy {
   // The trigger for the main menu displayed.
   @ViewChild(MatMenuTrigger) menuTrigger: MatMenuTrigger;
   // The trigger for the autocomplete panel displayed.
@@ -30,7 +33,7 @@ export class DataSelectorMenuComponent implements OnInit {
 
   // An array of DisplayGroupings and ResourceCodesForCard that belong to that
   // grouping.
-  readonly displayGroupings: Array<[DisplayGrouping, ResourceCodesForCard[]]>;
+  displayGroupings: Array<[DisplayGrouping, ResourceCodesForCard[]]>;
 
   // An event that is emitted when the user requests to add a new card.
   @Output() addCard = new EventEmitter<string>();
@@ -40,17 +43,30 @@ export class DataSelectorMenuComponent implements OnInit {
   @Output() addCustomTimeline = new EventEmitter<null>();
 
   // All ResourceCodesForCard that correspond to cards displayed on the page.
-  readonly allConcepts: Array<ResourceCodesForCard>;
+  allConcepts: Array<ResourceCodesForCard>;
 
   // The FormControl used to monitor changes in the user input of the
   // autocomplete field.
   readonly conceptCtrl = new FormControl();
   filteredConcepts: Observable<ResourceCodesForCard[]>;
-  constructor(private resourceCodeManager: ResourceCodeManager) {
-    const displayGroups = resourceCodeManager.getDisplayGroupMapping();
-    const temp = Array.from(displayGroups.values());
-    this.allConcepts = [].concat.apply([], temp);
-    this.displayGroupings = Array.from(displayGroups.entries());
+
+  // Listens for cards added to the listing, such as custom cards built from
+  // another menu and "Other Results" cards.
+  private readonly cardAddedSubscription: Subscription;
+
+  constructor(
+      private resourceCodeManager: ResourceCodeManager,
+      private dialog: MatDialog, codeDiscovery: CodeDiscoveryService) {
+    this.listConcepts();
+    this.cardAddedSubscription =
+        resourceCodeManager.cardAdded.subscribe(() => this.listConcepts());
+    // Results in the patient's record that no configured card displays are
+    // listed under "Other Results" once they are found.
+    codeDiscovery.addOtherResultsCards();
+  }
+
+  ngOnDestroy() {
+    this.cardAddedSubscription.unsubscribe();
   }
 
   ngOnInit() {
@@ -78,6 +94,27 @@ export class DataSelectorMenuComponent implements OnInit {
     this.addCustomTimeline.emit();
   }
 
+  // Opens a dialog for building a custom card, which is added to the listing
+  // and the page once the user saves it.
+  private buildCard() {
+    this.dialog.open(CardBuilderDialogComponent)
+        .afterClosed()
+        .subscribe((card: CardConfig) => {
+          if (card) {
+            this.addConceptCard(
+                this.resourceCodeManager.addCustomCard(card).label);
+          }
+        });
+  }
+
+  // Lists the cards the user can add, by display grouping.
+  private listConcepts() {
+    const displayGroups = this.resourceCodeManager.getDisplayGroupMapping();
+    const temp = Array.from(displayGroups.values());
+    this.allConcepts = [].concat.apply([], temp);
+    this.displayGroupings = Array.from(displayGroups.entries());
+  }
+
   // Filter the concepts shown on the autocomplete menu.
   filter(concept): ResourceCodesForCard[] {
     return this.allConcepts.filter(
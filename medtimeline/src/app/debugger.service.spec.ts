@@ -5,7 +5,8 @@
 
 import {TestBed} from '@angular/core/testing';
 
-import {DebuggerService} from './debugger.service';
+import {DebuggerService, Severity} from './debugger.service';
+import {FhirRequestError} from './fhir-transport';
 
 describe('DebuggerService', () => {
   beforeEach(() => TestBed.configureTestingModule({}));
@@ -14,4 +15,54 @@ describe('DebuggerService', () => {
     const service: DebuggerService = TestBed.get(DebuggerService);
     expect(service).toBeTruthy();
   });
+
+  it('should log the status of rejected requests', () => {
+    const service = new DebuggerService();
+    const event = service.logError(
+        {error: {status: 404}},
+        {source: 'FhirHttpService', query: 'Specimen/4', resourceId: '4'});
+    expect(event.severity).toEqual(Severity.Error);
+    expect(event.source).toEqual('FhirHttpService');
+    expect(event.status).toEqual(404);
+    expect(event.query).toEqual('Specimen/4');
+    expect(event.resourceId).toEqual('4');
+    expect(event.message).toContain('404');
+    expect(service.events).toEqual([event]);
+  });
+
+  it('should log the message and stack of errors', () => {
+    const service = new DebuggerService();
+    const event = service.logError(new FhirRequestError(503, 3, undefined));
+    expect(event.status).toEqual(503);
+    expect(event.message)
+        .toEqual(new FhirRequestError(503, 3, undefined).message);
+    expect(event.stack).toBeDefined();
+    expect(event.source).toEqual('unknown');
+  });
+
+  it('should search events by severity and text', () => {
+    const service = new DebuggerService();
+    const failure = service.logError(
+        'Search failed', {query: 'Observation?patient=1&code=718-7'});
+    const warning = service.logError(
+        'History failed',
+        {severity: Severity.Warning, query: 'Observation/4/_history'});
+    expect(service.search()).toEqual([failure, warning]);
+    expect(service.search(Severity.Warning)).toEqual([warning]);
+    expect(service.search(undefined, '718-7')).toEqual([failure]);
+    expect(service.search(undefined, 'HISTORY')).toEqual([warning]);
+    expect(service.search(Severity.Error, 'history')).toEqual([]);
+  });
+
+  it('should export events in the diagnostic bundle', () => {
+    const service = new DebuggerService();
+    service.logError('Search failed', {source: 'FhirHttpService'});
+    const bundle =
+        JSON.parse(JSON.stringify(service.toDiagnosticBundle({version: 1})));
+    expect(bundle.version).toEqual(1);
+    expect(bundle.events.length).toEqual(1);
+    expect(bundle.events[0].message).toEqual('Search failed');
+    expect(bundle.events[0].source).toEqual('FhirHttpService');
+    expect(typeof bundle.events[0].timestamp).toEqual('string');
+  });
 });
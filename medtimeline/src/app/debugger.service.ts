@@ -4,16 +4,155 @@
 // license that can be found in the LICENSE file.
 
 import {Injectable} from '@angular/core';
+import {DateTime} from 'luxon';
+
+import {statusOf} from './fhir-transport';
+
+/**
+ * How serious a debug event is.
+ */
+export enum Severity {
+  Info = 'info',
+  Warning = 'warning',
+  Error = 'error'
+}
+
+/**
+ * Something that happened in the app that may help explain a problem, such
+ * as a request to the FHIR server that failed.
+ */
+export interface DebugEvent {
+  readonly severity: Severity;
+  /** The module the event happened in, such as "FhirHttpService". */
+  readonly source: string;
+  readonly message: string;
+  readonly timestamp: DateTime;
+  /** The FHIR request the event is about, such as the URL of a search. */
+  readonly query?: string;
+  /** The HTTP status of the response to the FHIR request, if there was one. */
+  readonly status?: number;
+  /** The id of the resource the event is about. */
+  readonly resourceId?: string;
+  /** The stack trace of the error that caused the event. */
+  readonly stack?: string;
+}
 
 /**
- * This service accumulates any errors sent to it in the app into an array of
- * strings so that they can be surfaced in the UI.
+ * What is known about where an error happened, when it is logged.
+ */
+export interface DebugContext {
+  /** The module the error happened in. Defaults to "unknown". */
+  source?: string;
+  /** How serious the error is. Defaults to Severity.Error. */
+  severity?: Severity;
+  /** The FHIR request the error is about. */
+  query?: string;
+  /** The id of the resource the error is about. */
+  resourceId?: string;
+}
+
+/**
+ * This service keeps a log of the errors and other events in the app, so that
+ * they can be surfaced in the UI, searched, and exported to attach to support
+ * tickets.
  */
 @Injectable({providedIn: 'root'})
 export class DebuggerService {
-  errors: string[] = [];
+  readonly events: DebugEvent[] = [];
+
+  /**
+   * Logs an event.
+   * @param event The event to log.
+   */
+  log(event: DebugEvent) {
+    this.events.push(event);
+  }
+
+  /**
+   * Logs an error. Errors may be strings, Error instances, or the rejections
+   * of SMART API requests, which hold the request that failed.
+   * @param error The error to log.
+   * @param context What is known about where the error happened.
+   * @returns The event logged for the error.
+   */
+  logError(error: any, context: DebugContext = {}): DebugEvent {
+    const event: DebugEvent = {
+      severity: context.severity || Severity.Error,
+      source: context.source || 'unknown',
+      message: describeError(error),
+      timestamp: DateTime.utc(),
+      query: context.query,
+      status: statusOf(error),
+      resourceId: context.resourceId,
+      stack: error instanceof Error ? error.stack : undefined
+    };
+    this.log(event);
+    return event;
+  }
+
+  /**
+   * Finds the events of a severity whose text contains the search text.
+   * @param severity The severity of the events to find. If unset, events of
+   *     any severity are found.
+   * @param text The text to search for in the message, source, query and
+   *     resource id of the events, ignoring case. If unset, all events of the
+   *     severity are found.
+   */
+  search(severity?: Severity, text = ''): DebugEvent[] {
+    const lowerCaseText = text.trim().toLowerCase();
+    return this.events.filter(
+        event => (!severity || event.severity === severity) &&
+            [event.message, event.source, event.query, event.resourceId].some(
+                field =>
+                    !!field && field.toLowerCase().includes(lowerCaseText)));
+  }
+
+  /**
+   * Makes a diagnostic bundle holding every event logged, to attach to
+   * support tickets.
+   * @param extras Other diagnostic information to include in the bundle.
+   */
+  toDiagnosticBundle(extras: {[key: string]: any} = {}): any {
+    return {
+      exported: DateTime.utc().toISO(),
+      userAgent: navigator.userAgent,
+      events: this.events,
+      ...extras
+    };
+  }
 
-  logError(error: string) {
-    this.errors.push(error);
+  /**
+   * Saves the diagnostic bundle as a JSON file.
+   * @param extras Other diagnostic information to include in the bundle.
+   * @param fileName The name of the file to save.
+   */
+  download(
+      extras: {[key: string]: any} = {}, fileName = 'diagnostic-bundle.json') {
+    const blob = new Blob(
+        [JSON.stringify(this.toDiagnosticBundle(extras), null, 2)],
+        {type: 'application/json'});
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+}
+
+/**
+ * Describes an error in words.
+ * @param error A string, an Error, or the rejection of a SMART API request.
+ */
+function describeError(error: any): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  const status = statusOf(error);
+  if (status !== undefined) {
+    return 'Request failed with HTTP status ' + status + '.';
   }
+  return JSON.stringify(error);
 }
@@ -4,6 +4,7 @@
 // license that can be found in the LICENSE file.
 
 import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {FormsModule} from '@angular/forms';
 
 import {DebuggerComponent} from './debugger.component';
 
@@ -12,7 +13,9 @@ describe('DebuggerComponent', () => {
   let fixture: ComponentFixture<DebuggerComponent>;
 
   beforeEach(async(() => {
-    TestBed.configureTestingModule({declarations: [DebuggerComponent]})
+    TestBed
+        .configureTestingModule(
+            {imports: [FormsModule], declarations: [DebuggerComponent]})
         .compileComponents();
   }));
 
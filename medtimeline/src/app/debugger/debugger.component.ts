@@ -4,7 +4,10 @@
 // license that can be found in the LICENSE file.
 
 import {Component} from '@angular/core';
-import {DebuggerService} from '../debugger.service';
+
+import {DataQualityService} from '../data-quality.service';
+import {DebugEvent, DebuggerService, Severity} from '../debugger.service';
+import {FhirRecorder} from '../fhir-recorder';
 
 @Component({
   selector: 'app-debugger',
@@ -12,12 +15,40 @@ import {DebuggerService} from '../debugger.service';
 })
 
 /**
- * This debugger component surfaces errors stored in the debug service to the
- * UI.
+ * This debugger component surfaces the events logged in the debug service to
+ * the UI, where they can be filtered, searched and exported, lists the
+ * resources that could not be displayed, and lets the user save the requests
+ * made to the FHIR server when they are being recorded.
  */
 export class DebuggerComponent {
   browserVersion: string;
-  constructor(readonly debugService: DebuggerService) {
+  readonly severities = [Severity.Error, Severity.Warning, Severity.Info];
+
+  // The severity of the events shown. If unset, events of any severity are
+  // shown.
+  severity: Severity;
+  // The text the events shown must contain.
+  searchText = '';
+
+  constructor(
+      readonly debugService: DebuggerService, readonly recorder: FhirRecorder,
+      readonly dataQuality: DataQualityService) {
     this.browserVersion = navigator.appVersion;
   }
+
+  /** The events that match the severity and search text. */
+  get events(): DebugEvent[] {
+    return this.debugService.search(this.severity, this.searchText);
+  }
+
+  /**
+   * Saves every event logged, along with the resources that could not be
+   * displayed, to attach to support tickets.
+   */
+  exportDiagnostics() {
+    this.debugService.download({
+      browserVersion: this.browserVersion,
+      droppedResources: this.dataQuality.dropped
+    });
+  }
 }
@@ -6,7 +6,7 @@
 import {DateTime} from 'luxon';
 
 // tslint:disable-next-line:max-line-length
-import {makeMedicationAdministration, makeMedicationOrder, makeSampleDiscreteObservationJson, makeSampleObservationJson} from '../test_utils';
+import {makeMedicationAdministration, makeMedicationOrder, makeSampleDiscreteObservationJson, makeSampleObservationJson, restoreCodes, useCodes, vancomycinPeakCode} from '../test_utils';
 
 import {AnnotatedObservation} from './annotated-observation';
 import {AnnotatedAdministration, MedicationAdministrationSet} from './medication-administration';
@@ -20,6 +20,13 @@ import {ObservationSet} from './observation-set';
 // license that can be found in the LICENSE file.
 
 describe('AnnotatedObservation', () => {
+  beforeEach(() => {
+    useCodes(vancomycinPeakCode);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
   const obs = new Observation(makeSampleObservationJson(
       10, DateTime.fromISO('1992-11-06T00:00:00.00')));
 
@@ -7,6 +7,7 @@ import {DateTime} from 'luxon';
 
 import {FhirResourceType} from '../../constants';
 
+import {FhirVersion} from './fhir-version';
 import {Observation} from './observation';
 import {Specimen} from './specimen';
 
@@ -46,14 +47,17 @@ const statusToEnumMap = new Map<string, DiagnosticReportStatus>([
  * https://www.hl7.org/fhir/DSTU2/diagnosticreport.html
  *
  * The parsing for this class is heavily influenced by the custom API BCH
- * built to return DiagnosticReports for microbiology data. In particular, we
- * only parse out specimens and results from the "contained" portion of the
- * resource instead of supporting retrieval by reference since the Cerner
- * implementation of the FHIR standard won't allow microbiology retrieval.
+ * built to return DiagnosticReports for microbiology data, which returns
+ * specimens and results in the "contained" portion of the resource. Specimens
+ * and results that are only referenced by the report have to be retrieved
+ * separately and passed in alongside the report's JSON.
  */
 export class DiagnosticReport {
   readonly id: string;
 
+  /** The version of the resource on the server, if the server tracks it. */
+  readonly versionId: string;
+
   /** Specimens this report is based on */
   readonly specimens = new Array<Specimen>();
 
@@ -63,20 +67,38 @@ export class DiagnosticReport {
   /** Status for this test */
   readonly status: DiagnosticReportStatus;
 
-  constructor(json: any) {
+  /**
+   * The version of an amended or corrected report that it replaced, if it
+   * has been retrieved from the server's history of the resource.
+   */
+  previousVersion: DiagnosticReport;
+
+  /**
+   * @param json The JSON representing the DiagnosticReport.
+   * @param referencedResources The resolved Specimens and Observations that
+   *     the report references rather than contains.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
+   */
+  constructor(
+      json: any, referencedResources: any[] = [],
+      fhirVersion = FhirVersion.DSTU2) {
     if (json.id) {
       this.id = json.id;
     }
+    if (json.meta) {
+      this.versionId = json.meta.versionId;
+    }
 
-    // Contained resources may be either specimens or observations.
-    const contained = json.contained;
-    for (const rsc of contained) {
+    // Contained and referenced resources may be either specimens or
+    // observations.
+    const contained = json.contained ? json.contained : [];
+    for (const rsc of contained.concat(referencedResources)) {
       if (rsc.resourceType === FhirResourceType.Specimen) {
         this.specimens.push(new Specimen(rsc));
       } else if (rsc.resourceType === FhirResourceType.Observation) {
-        this.results.push(new Observation(rsc));
+        this.results.push(new Observation(rsc, fhirVersion));
       }
-      // Silently ignore all other contained resource types.
+      // Silently ignore all other resource types.
     }
 
     if (!json.status) {
@@ -87,6 +109,12 @@ export class DiagnosticReport {
 
     this.status = statusToEnumMap.get(json.status);
   }
+
+  /** Whether the report's results were changed after it was issued. */
+  get isRevised(): boolean {
+    return this.status === DiagnosticReportStatus.Amended ||
+        this.status === DiagnosticReportStatus.Corrected;
+  }
 }
 
 /**
@@ -4,6 +4,8 @@
 // license that can be found in the LICENSE file.
 
 import {Dosage} from './dosage';
+import {FhirVersion} from './fhir-version';
+
 describe('Dosage', () => {
   it('should get dosage information from json', () => {
     const dosage = new Dosage({
@@ -22,4 +24,18 @@ describe('Dosage', () => {
     expect(dosage.text).toBeDefined();
     expect(dosage.text).toEqual('50mg tablet daily');
   });
+
+  it('should get dose information from R4 json', () => {
+    const dosage = new Dosage(
+        {
+          'dosage': {
+            'dose': {'value': 50, 'unit': 'mg'},
+            'route': {'text': 'oral'},
+          },
+        },
+        FhirVersion.R4);
+    expect(dosage.quantity).toEqual(50);
+    expect(dosage.unit).toEqual('mg');
+    expect(dosage.route).toEqual('oral');
+  });
 });
@@ -1,5 +1,8 @@
+import {convertUnit, displayUnit, roundLike, toUcum, UCUM_SYSTEM} from '../ucum';
 import {fixUnitAbbreviations} from '../unit_utils';
 
+import {FhirVersion} from './fhir-version';
+
 // Copyright 2018 Verily Life Sciences Inc.
 //
 // Use of this source code is governed by a BSD-style
@@ -12,14 +15,26 @@ import {fixUnitAbbreviations} from '../unit_utils';
 export class Dosage {
   readonly quantity: number;
   readonly unit: string;
+  /** The unit of the quantity in UCUM, used to convert it to other units. */
+  readonly unitCode: string;
   readonly route: string;
   readonly text: string;
 
-  constructor(json: any) {
+  /**
+   * @param json The JSON of the resource holding the dosage.
+   * @param fhirVersion The version of the FHIR standard the JSON is in. The
+   *     amount given is called "quantity" in DSTU2 and "dose" in R4.
+   */
+  constructor(json: any, fhirVersion = FhirVersion.DSTU2) {
     if (json.dosage) {
-      if (json.dosage.quantity) {
-        this.quantity = json.dosage.quantity.value;
-        this.unit = fixUnitAbbreviations(json.dosage.quantity.unit);
+      const dose = fhirVersion === FhirVersion.R4 ? json.dosage.dose :
+                                                    json.dosage.quantity;
+      if (dose) {
+        this.quantity = dose.value;
+        this.unit = fixUnitAbbreviations(dose.unit);
+        this.unitCode = dose.system === UCUM_SYSTEM && dose.code ?
+            dose.code :
+            toUcum(dose.unit);
       }
       if (json.dosage.route) {
         this.route = json.dosage.route.text;
@@ -33,4 +48,29 @@ export class Dosage {
       this.text = json.dosage.text;
     }
   }
+
+  /**
+   * Makes a copy of the Dosage with its quantity converted to another unit.
+   * @param unit The UCUM unit to convert to.
+   * @throws Error if the quantity cannot be converted to the unit.
+   */
+  convertedTo(unit: string): Dosage {
+    const quantity = this.quantity === undefined ?
+        undefined :
+        roundLike(
+            convertUnit(Number(this.quantity), this.unitCode, unit),
+            this.quantity);
+    return new Dosage({
+      dosage: {
+        quantity: {
+          value: quantity,
+          unit: displayUnit(unit),
+          system: UCUM_SYSTEM,
+          code: unit
+        },
+        route: {text: this.route},
+        text: this.text
+      }
+    });
+  }
 }
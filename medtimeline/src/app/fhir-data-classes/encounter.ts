@@ -4,6 +4,9 @@
 // license that can be found in the LICENSE file.
 
 import {DateTime, Interval} from 'luxon';
+
+import {FhirVersion} from './fhir-version';
+
 /**
  * This object represents basic information about an Encounter: what its
  * reason and type were, when it happened, and its ID.
@@ -14,7 +17,11 @@ export class Encounter {
   readonly reason: string;
   readonly type: string;
 
-  constructor(private json: any) {
+  /**
+   * @param json The JSON representing the Encounter.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
+   */
+  constructor(private json: any, fhirVersion = FhirVersion.DSTU2) {
     this.encounterId = json.identifier;
     try {
       this.period = Interval.fromDateTimes(
@@ -25,6 +32,9 @@ export class Encounter {
           'An encounter must have a start date. JSON: ' + JSON.stringify(json));
     }
     this.type = json.type;
-    this.reason = json.reason;
+    // The DSTU2 reason element is called reasonCode in R4.
+    // https://www.hl7.org/fhir/R4/encounter-definitions.html#Encounter.reasonCode
+    this.reason =
+        fhirVersion === FhirVersion.R4 ? json.reasonCode : json.reason;
   }
 }
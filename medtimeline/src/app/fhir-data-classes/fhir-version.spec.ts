@@ -0,0 +1,28 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {FhirResourceType} from '../../constants';
+
+import {FhirVersion, fhirVersionFromString, medicationOrderResourceType} from './fhir-version';
+
+describe('FhirVersion', () => {
+  it('should get the FHIR version from a CapabilityStatement version', () => {
+    expect(fhirVersionFromString('1.0.2')).toBe(FhirVersion.DSTU2);
+    expect(fhirVersionFromString('4.0.0')).toBe(FhirVersion.R4);
+    expect(fhirVersionFromString('4.0.1')).toBe(FhirVersion.R4);
+  });
+
+  it('should throw error for unsupported versions', () => {
+    expect(() => fhirVersionFromString('3.0.1')).toThrowError();
+    expect(() => fhirVersionFromString(undefined)).toThrowError();
+  });
+
+  it('should get the medication order resource type for each version', () => {
+    expect(medicationOrderResourceType(FhirVersion.DSTU2))
+        .toBe(FhirResourceType.MedicationOrder);
+    expect(medicationOrderResourceType(FhirVersion.R4))
+        .toBe(FhirResourceType.MedicationRequest);
+  });
+});
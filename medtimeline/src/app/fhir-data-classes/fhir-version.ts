@@ -0,0 +1,47 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {FhirResourceType} from '../../constants';
+
+/**
+ * The versions of the FHIR standard that resources can be parsed from.
+ * https://www.hl7.org/fhir/DSTU2/
+ * https://www.hl7.org/fhir/R4/
+ */
+export enum FhirVersion {
+  DSTU2 = 'DSTU2',
+  R4 = 'R4'
+}
+
+/**
+ * Determines the FHIR version from the fhirVersion element of a server's
+ * CapabilityStatement (called Conformance in DSTU2), such as "1.0.2" or
+ * "4.0.1".
+ * https://www.hl7.org/fhir/R4/versions.html#versions
+ * @param fhirVersion The version string reported by the server.
+ * @throws Error if the version is not one we can parse resources from.
+ */
+export function fhirVersionFromString(fhirVersion: string): FhirVersion {
+  if (fhirVersion) {
+    if (fhirVersion.startsWith('1.0.')) {
+      return FhirVersion.DSTU2;
+    }
+    if (fhirVersion.startsWith('4.0.')) {
+      return FhirVersion.R4;
+    }
+  }
+  throw Error('Unsupported FHIR version: ' + fhirVersion);
+}
+
+/**
+ * Gets the resource type for medication orders, since the DSTU2
+ * MedicationOrder resource was renamed to MedicationRequest in R4.
+ * @param fhirVersion The FHIR version the resources are in.
+ */
+export function medicationOrderResourceType(fhirVersion: FhirVersion):
+    FhirResourceType {
+  return fhirVersion === FhirVersion.R4 ? FhirResourceType.MedicationRequest :
+                                          FhirResourceType.MedicationOrder;
+}
@@ -11,6 +11,7 @@ import {RxNormCode} from '../clinicalconcepts/rx-norm';
 import {makeMedicationAdministration} from '../test_utils';
 
 import {Dosage} from './dosage';
+import {FhirVersion} from './fhir-version';
 import {AnnotatedAdministration, MedicationAdministration, MedicationAdministrationSet} from './medication-administration';
 
 const medicationCoding = {
@@ -155,6 +156,64 @@ describe('MedicationAdministration', () => {
     });
     expect(medicationAdministration.containedMedications.length).toEqual(0);
   });
+
+  it('should get timestamp from effectiveDateTime for R4', () => {
+    const timestampString = '2012-08-04T11:00:00.000Z';
+    const medicationAdministration = new MedicationAdministration(
+        {
+          effectiveDateTime: timestampString,
+          medicationCodeableConcept: medicationCoding,
+        },
+        FhirVersion.R4);
+    expect(medicationAdministration.timestamp)
+        .toEqual(DateTime.fromISO(timestampString).toUTC());
+  });
+
+  it('should get dosage, order and not-done status from R4 json', () => {
+    const medicationAdministration = new MedicationAdministration(
+        {
+          status: 'not-done',
+          request: {reference: 'MedicationRequest/123'},
+          dosage: {dose: {value: 50, unit: 'mg'}, route: {text: 'oral'}},
+          medicationCodeableConcept: medicationCoding,
+        },
+        FhirVersion.R4);
+    expect(medicationAdministration.wasNotGiven).toBe(true);
+    expect(medicationAdministration.medicationOrderId)
+        .toEqual('MedicationRequest/123');
+    expect(medicationAdministration.dosage.quantity).toEqual(50);
+    expect(medicationAdministration.dosage.unit).toEqual('mg');
+  });
+
+  it('should set contained medications from R4 json', () => {
+    const medicationAdministration = new MedicationAdministration(
+        {
+          medicationReference: {reference: '#12345'},
+          contained: [
+            {
+              code: {...medicationCoding},
+              resourceType: 'Medication',
+              id: '12345',
+              ingredient: [
+                {
+                  itemReference: {reference: '#12', display: 'Ing1'},
+                  strength: {numerator: {value: 50, unit: 'mg'}}
+                },
+                {
+                  itemReference: {reference: '#345', display: 'Ing2'},
+                  strength: {numerator: {value: 60, unit: 'mg'}}
+                }
+              ]
+            },
+            {resourceType: 'Medication', id: '12', code: medicationCoding},
+            {resourceType: 'Medication', id: '345', code: medicationCoding},
+          ]
+        },
+        FhirVersion.R4);
+    expect(medicationAdministration.containedMedications.length).toEqual(2);
+    expect(medicationAdministration.containedMedications[1].dosage.quantity)
+        .toEqual(60);
+  });
 });
 
 describe('MedicationAdministrationSet', () => {
@@ -248,4 +307,32 @@ describe('MedicationAdministrationSet', () => {
     expect(obsSet.unit).toEqual('unit');
     expect(obsSet.rxNormCode.codeString).toEqual('1596450');
   });
+
+  it('should convert doses to the unit most are given in', () => {
+    const medicationAdministrations = [
+      new MedicationAdministration({
+        medicationCodeableConcept: medicationCoding,
+        dosage: {quantity: {value: 500, unit: 'mg'}}
+      }),
+      new MedicationAdministration({
+        medicationCodeableConcept: medicationCoding,
+        dosage: {quantity: {value: 1, unit: 'g'}}
+      }),
+      new MedicationAdministration({
+        medicationCodeableConcept: medicationCoding,
+        dosage: {quantity: {value: 750, unit: 'mg'}}
+      })
+    ];
+    const admins: AnnotatedAdministration[] = [];
+    medicationAdministrations.forEach(
+        (x, i) => admins.push(
+            new AnnotatedAdministration(x, i + 1, 1, admins[i - 1])));
+    const adminSet = new MedicationAdministrationSet(admins);
+
+    expect(adminSet.unit).toEqual('mg');
+    expect(adminSet.maxDose).toEqual(1000);
+    const converted = adminSet.resourceList[1];
+    expect(converted.medAdministration.originalDosage.unit).toEqual('g');
+    expect(adminSet.resourceList[2].previousDose).toBe(converted);
+  });
 });
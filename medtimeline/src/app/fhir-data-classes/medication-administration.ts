@@ -6,25 +6,38 @@
 import {DateTime} from 'luxon';
 
 import {RxNormCode} from '../clinicalconcepts/rx-norm';
+import {findRxNormCode, RxNormProduct} from '../clinicalconcepts/rx-norm-ingredients';
 import {FhirResourceSet, LabeledClass} from '../fhir-resource-set';
-import {fixUnitAbbreviations} from '../unit_utils';
+import {canConvert} from '../ucum';
 
 import {Dosage} from './dosage';
+import {FhirVersion} from './fhir-version';
 import {ContainedMedication} from './medication';
 
 
 /**
  * This object represents a FHIR MedicationAdministration. It does not contain
  * all the information in a standard MedicationAdministration (see
- * https://www.hl7.org/fhir/DSTU2/medicationadministration.html) but instead
+ * https://www.hl7.org/fhir/DSTU2/medicationadministration.html and
+ * https://www.hl7.org/fhir/R4/medicationadministration.html) but instead
  * stores only the information we're interested in seeing.
  */
 export class MedicationAdministration extends LabeledClass {
   readonly MED_RESOURCE_TYPE = 'Medication';
   readonly rxNormCode: RxNormCode;
+  /**
+   * The product the administration was coded as, if it is displayed as the
+   * product's ingredient.
+   */
+  readonly product: RxNormProduct;
   readonly timestamp: DateTime;
   readonly wasNotGiven: boolean;
   readonly dosage: Dosage;
+  /**
+   * The dosage as it was given, if the dosage has been converted to another
+   * unit.
+   */
+  readonly originalDosage: Dosage;
   readonly medicationOrderId: string;
   readonly containedMedications: ContainedMedication[] = [];
   /**
@@ -32,27 +45,21 @@ export class MedicationAdministration extends LabeledClass {
    * a FHIR MedicationAdministration.
    * https://www.hl7.org/fhir/DSTU2/medicationadministration.html
    * @param json A JSON object that represents a FHIR MedicationAdministration.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
    */
-  constructor(private json: any) {
+  constructor(private json: any, fhirVersion = FhirVersion.DSTU2) {
     super(
         json.medicationReference ? json.medicationReference.display :
-                                   json.medicationCodeableConcept ?
+            json.medicationCodeableConcept ?
                                    json.medicationCodeableConcept.text :
                                    null);
     if (json.medicationCodeableConcept) {
-      if (json.medicationCodeableConcept.coding) {
-        this.rxNormCode =
-            (json.medicationCodeableConcept.coding
-                 .map(
-                     // Map the codes to a boolean that is true only if the
-                     // encoding is an RxNorm encoding, and the RxNorm code
-                     // appears in our RxNormCode list that we care about.
-                     (coding) => (!coding.system ||
-                                  coding.system.indexOf(
-                                      RxNormCode.CODING_STRING) !== -1) &&
-                         RxNormCode.fromCodeString(coding.code))
-                 // Filter out any codes that are not RxNorm codes.
-                 .filter((code) => !!code))[0];
+      // Medications coded as a product, such as a clinical drug, are
+      // displayed as their ingredient.
+      const match = findRxNormCode(json.medicationCodeableConcept.coding);
+      if (match) {
+        this.rxNormCode = match.code;
+        this.product = match.product;
       }
     }
 
@@ -60,16 +67,29 @@ export class MedicationAdministration extends LabeledClass {
     // timezone is specified, but if not, then the timezone might not be
     // specified! I'm not sure how to best handle that.
     // https://www.hl7.org/fhir/DSTU2/datatypes.html#dateTime
-    this.timestamp = json.effectiveTimeDateTime ?
-        DateTime.fromISO(json.effectiveTimeDateTime).toUTC() :
-        (json.effectiveTimePeriod ?
-             DateTime.fromISO(json.effectiveTimePeriod.start).toUTC() :
-             null);
+    // The effectiveTime[x] element of DSTU2 is called effective[x] in R4.
+    const effectiveDateTime = fhirVersion === FhirVersion.R4 ?
+        json.effectiveDateTime :
+        json.effectiveTimeDateTime;
+    const effectivePeriod = fhirVersion === FhirVersion.R4 ?
+        json.effectivePeriod :
+        json.effectiveTimePeriod;
+    this.timestamp = effectiveDateTime ?
+        DateTime.fromISO(effectiveDateTime).toUTC() :
+        (effectivePeriod ? DateTime.fromISO(effectivePeriod.start).toUTC() :
+                           null);
 
-    this.dosage = new Dosage(json);
-    this.wasNotGiven = json.wasNotGiven;
-    this.medicationOrderId =
-        json.prescription ? json.prescription.reference : null;
+    this.dosage = new Dosage(json, fhirVersion);
+    if (fhirVersion === FhirVersion.R4) {
+      // R4 drops the wasNotGiven flag in favor of a "not-done" status, and
+      // refers to the order as a MedicationRequest.
+      this.wasNotGiven = json.status === 'not-done';
+      this.medicationOrderId = json.request ? json.request.reference : null;
+    } else {
+      this.wasNotGiven = json.wasNotGiven;
+      this.medicationOrderId =
+          json.prescription ? json.prescription.reference : null;
+    }
 
     if (json.contained && json.contained.length > 0) {
       // We first find the element that lists the "ingredients" of this
@@ -83,11 +103,16 @@ export class MedicationAdministration extends LabeledClass {
       if (referenceId) {
         const index = json.contained.findIndex(
             el =>
-                (el.resourceType === this.MED_RESOURCE_TYPE && el.product &&
+                (el.resourceType === this.MED_RESOURCE_TYPE &&
+                 MedicationAdministration.getIngredients(el, fhirVersion) &&
                  el.id === referenceId.replace('#', '')));
         const listOfIngredients = json.contained[index];
-        if (listOfIngredients && listOfIngredients.product.ingredient) {
-          for (const el of listOfIngredients.product.ingredient) {
+        const ingredients = listOfIngredients ?
+            MedicationAdministration.getIngredients(
+                listOfIngredients, fhirVersion) :
+            null;
+        if (ingredients) {
+          for (const el of ingredients) {
             if (el.item && el.amount) {
               ingredientReferences.set(el.item.reference.replace('#', ''), el);
             }
@@ -136,6 +161,45 @@ export class MedicationAdministration extends LabeledClass {
     //   }
     // }
   }
+
+  /**
+   * Gets the ingredients listed in a contained Medication, in the DSTU2 shape
+   * with an item reference and an amount. In R4, ingredients are listed
+   * directly on the Medication rather than under its product, and the item
+   * and amount are called itemReference and strength.
+   * https://www.hl7.org/fhir/R4/medication-definitions.html#Medication.ingredient
+   * @param medication The JSON of the contained Medication.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
+   */
+  private static getIngredients(medication: any, fhirVersion: FhirVersion):
+      any[] {
+    if (fhirVersion === FhirVersion.R4) {
+      return medication.ingredient ?
+          medication.ingredient.map(
+              el => ({item: el.itemReference, amount: el.strength})) :
+          undefined;
+    }
+    return medication.product ?
+        (medication.product.ingredient ? medication.product.ingredient : []) :
+        undefined;
+  }
+
+  /**
+   * Makes a copy of the MedicationAdministration with its dosage converted to
+   * another unit. The copy keeps the dosage as it was given as its
+   * originalDosage.
+   * @param unit The UCUM unit to convert to.
+   * @throws Error if the dosage cannot be converted to the unit.
+   */
+  convertedTo(unit: string): MedicationAdministration {
+    // The contained Medications are parsed destructively from the JSON, so we
+    // copy the parsed administration rather than parsing the JSON again.
+    return Object.assign(
+        Object.create(MedicationAdministration.prototype), this, {
+          dosage: this.dosage.convertedTo(unit),
+          originalDosage: this.originalDosage || this.dosage
+        });
+  }
 }
 
 /**
@@ -147,39 +211,43 @@ export class MedicationAdministrationSet extends
   readonly maxDose: number;
   readonly minDose: number;
   readonly unit: string;
+  /** The unit of the doses in UCUM. */
+  readonly unitCode: string;
   readonly rxNormCode: RxNormCode;
 
   /**
-   * Constructor for MedicationAdministrationSet.
+   * Constructor for MedicationAdministrationSet. Doses in units that can be
+   * converted to one another are converted to the same unit, keeping the
+   * dose as it was given.
    * @param medicationAdministrationList The list of MedicationAdministrations
    *     belonging together.
+   * @param unit The UCUM unit to convert the doses to. If unset, they are
+   *     converted to the unit most of them are given in.
    * @throws Error if the administrations have different labels or RxNorms,
-   *      or if there is not a label, or if the administrations have different
-   *      units.
+   *      or if there is not a label, or if the administrations have units
+   *      that cannot be converted to one another.
    */
-  constructor(medicationAdministrationList: AnnotatedAdministration[]) {
-    super(medicationAdministrationList);
+  constructor(
+      medicationAdministrationList: AnnotatedAdministration[], unit?: string) {
+    super(toCommonUnit(medicationAdministrationList, unit));
 
-    const rxNorms =
-        medicationAdministrationList.map(x => x.medAdministration.rxNormCode);
+    const rxNorms = this.resourceList.map(x => x.medAdministration.rxNormCode);
     if (new Set(rxNorms).size > 1) {
       throw Error('Different RxNorms for administrations: ' + rxNorms);
     }
     this.rxNormCode = rxNorms[0];
 
-    this.minDose = Math.min(...medicationAdministrationList.map(
-        x => x.medAdministration.dosage.quantity));
-    this.maxDose = Math.max(...medicationAdministrationList.map(
-        x => x.medAdministration.dosage.quantity));
-
-    const units = new Set(
-        medicationAdministrationList.map(x => x.medAdministration.dosage.unit));
-    if (units.size > 1) {
-      throw Error(
-          'Different units in the administration set: ' +
-          Array.from(units.values()));
+    this.minDose = Math.min(
+        ...this.resourceList.map(x => x.medAdministration.dosage.quantity));
+    this.maxDose = Math.max(
+        ...this.resourceList.map(x => x.medAdministration.dosage.quantity));
+
+    const withUnit =
+        this.resourceList.find(x => !!x.medAdministration.dosage.unitCode);
+    if (withUnit) {
+      this.unit = withUnit.medAdministration.dosage.unit;
+      this.unitCode = withUnit.medAdministration.dosage.unitCode;
     }
-    this.unit = fixUnitAbbreviations(Array.from(units.values())[0]);
   }
 }
 
@@ -220,3 +288,59 @@ export class AnnotatedAdministration extends LabeledClass {
     this.previousDose = prevDose;
   }
 }
+
+/**
+ * Converts the doses of administrations to a common unit.
+ * @param administrations The administrations, in the order they were given.
+ * @param unit The UCUM unit to convert to. If unset, the doses are converted
+ *     to the unit most of them are given in.
+ * @throws Error if some of the doses cannot be converted to the unit.
+ */
+function toCommonUnit(
+    administrations: AnnotatedAdministration[],
+    unit?: string): AnnotatedAdministration[] {
+  const units =
+      new Set(administrations.map(x => x.medAdministration.dosage.unitCode)
+                  .filter(x => !!x));
+  if (units.size === 0 || (units.size === 1 && (!unit || units.has(unit)))) {
+    return administrations;
+  }
+  const target = unit || mostCommonUnit(administrations);
+  const incompatible =
+      Array.from(units).filter(from => !canConvert(from, target));
+  if (incompatible.length > 0) {
+    throw Error(
+        'Different units in the administration set: ' + Array.from(units));
+  }
+  // Each administration links to the one before it, so the links are made
+  // again between the converted administrations.
+  const converted: AnnotatedAdministration[] = [];
+  for (const x of administrations) {
+    const previous = x.previousDose ?
+        converted[administrations.indexOf(x.previousDose)] || x.previousDose :
+        undefined;
+    converted.push(new AnnotatedAdministration(
+        !x.medAdministration.dosage.unitCode ||
+                x.medAdministration.dosage.unitCode === target ?
+            x.medAdministration :
+            x.medAdministration.convertedTo(target),
+        x.doseInOrder, x.doseDay, previous));
+  }
+  return converted;
+}
+
+/**
+ * Finds the UCUM unit most of the administrations' doses are given in.
+ */
+function mostCommonUnit(administrations: AnnotatedAdministration[]): string {
+  const counts = new Map<string, number>();
+  for (const x of administrations) {
+    const unit = x.medAdministration.dosage.unitCode;
+    if (!unit) {
+      continue;
+    }
+    counts.set(unit, (counts.get(unit) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+      .reduce((most, entry) => entry[1] > most[1] ? entry : most)[0];
+}
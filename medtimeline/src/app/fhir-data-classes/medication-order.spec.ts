@@ -7,14 +7,15 @@
 // about that in our testing code.
 /* tslint:disable:object-literal-shorthand*/
 import {async} from '@angular/core/testing';
-import {Interval} from 'luxon';
-import {DateTime} from 'luxon';
+import {DateTime, Interval} from 'luxon';
 import {of} from 'rxjs';
 
 import {ResourceCode} from '../clinicalconcepts/resource-code-group';
-import {RxNormCode} from '../clinicalconcepts/rx-norm';
+import {ANTIBIOTIC, RxNormCode} from '../clinicalconcepts/rx-norm';
+import {RXNORM_INGREDIENT_TABLE_VERSION, rxNormIngredients, RxNormTermType} from '../clinicalconcepts/rx-norm-ingredients';
 import {makeMedicationAdministration, makeMedicationOrder} from '../test_utils';
 
+import {FhirVersion} from './fhir-version';
 import {AnnotatedAdministration, MedicationAdministration, MedicationAdministrationSet} from './medication-administration';
 import {MedicationOrder, MedicationOrderSet} from './medication-order';
 
@@ -66,6 +67,29 @@ describe('MedicationOrder', () => {
         .toBe(RxNormCode.fromCodeString('11124'));
   });
 
+  it('should parse an R4 MedicationRequest', () => {
+    const medicationOrder = new MedicationOrder(
+        {
+          resourceType: 'MedicationRequest',
+          id: '123',
+          dosageInstruction: [{text: 'dosage'}],
+          ...vancMedConcept
+        },
+        FhirVersion.R4);
+    expect(medicationOrder.orderId).toEqual('123');
+    expect(medicationOrder.dosageInstruction).toEqual('dosage');
+    expect(medicationOrder.rxNormCode as ResourceCode)
+        .toBe(RxNormCode.fromCodeString('11124'));
+  });
+
+  it('should throw error for a MedicationOrder in R4', () => {
+    const constructor = () => {
+      const order = new MedicationOrder(
+          {resourceType: 'MedicationOrder', ...vancMedConcept}, FhirVersion.R4);
+    };
+    expect(constructor).toThrowError();
+  });
+
   it('should get label from json', () => {
     const medicationOrder = new MedicationOrder({
       medicationReference: {display: 'vancomycin'},
@@ -79,6 +103,29 @@ describe('MedicationOrder', () => {
     expect(medicationOrder.label).toEqual('vancomycin');
   });
 
+  it('should read an order coded as a product as its ingredient', () => {
+    rxNormIngredients.addTable({
+      version: RXNORM_INGREDIENT_TABLE_VERSION,
+      products: [{
+        code: 'order-spec-vancomycin-drug',
+        termType: RxNormTermType.ClinicalDrug,
+        ingredients: ['11124']
+      }]
+    });
+    const medicationOrder = new MedicationOrder({
+      medicationReference: {display: 'vancomycin 1000 MG Injection'},
+      medicationCodeableConcept: {
+        coding: [
+          {system: RxNormCode.CODING_STRING, code: 'order-spec-vancomycin-drug'}
+        ]
+      },
+    });
+    expect(medicationOrder.rxNormCode as ResourceCode)
+        .toBe(RxNormCode.fromCodeString('11124'));
+    expect(medicationOrder.product.code).toEqual('order-spec-vancomycin-drug');
+    expect(medicationOrder.label).toEqual('vancomycin 1000 MG Injection');
+  });
+
   it('should get dosage instruction from json', () => {
     const medicationOrder = new MedicationOrder({
       medicationReference: {display: 'vancomycin'},
@@ -230,6 +277,19 @@ describe('MedicationOrderSet', () => {
     expect(medOrderSet.unit).toBe('mg');
   });
 
+  it('should take the class of its medication', () => {
+    const medAdmin =
+        makeMedicationAdministration(DateTime.utc(1965, 3, 22).toString(), 92);
+    const order = makeMedicationOrder();
+    order.administrationsForOrder = new MedicationAdministrationSet(
+        [new AnnotatedAdministration(medAdmin, 0, 0)]);
+    order.firstAdministration = medAdmin;
+    order.lastAdmininistration = medAdmin;
+
+    const medOrderSet = new MedicationOrderSet([order]);
+    expect(medOrderSet.medicationConcept).toBe(ANTIBIOTIC);
+  });
+
   it('should throw error if units do not match', () => {
     const medicationAdministrations = [new MedicationAdministration(
         {...vancMedConcept, dosage: {quantity: {unit: 'unit'}}})];
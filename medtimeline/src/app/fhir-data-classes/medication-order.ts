@@ -7,11 +7,13 @@
 // about that in our testing code.
 /* tslint:disable:object-literal-shorthand*/
 
+import {medicationClasses} from '../clinicalconcepts/medication-classes';
 import {MedicationConceptGroup, RxNormCode} from '../clinicalconcepts/rx-norm';
+import {findRxNormCode, RxNormProduct} from '../clinicalconcepts/rx-norm-ingredients';
 import {FhirResourceSet, LabeledClass} from '../fhir-resource-set';
 import {FhirService} from '../fhir.service';
-import {fixUnitAbbreviations} from '../unit_utils';
 
+import {FhirVersion, medicationOrderResourceType} from './fhir-version';
 import {AnnotatedAdministration, MedicationAdministration, MedicationAdministrationSet} from './medication-administration';
 
 /**
@@ -19,9 +21,18 @@ import {AnnotatedAdministration, MedicationAdministration, MedicationAdministrat
  * all the information in a standard MedicationOrder (see
  * https://www.hl7.org/fhir/DSTU2/medicationorder.html) but instead
  * stores only the information we're interested in seeing.
+ *
+ * In R4, MedicationOrder was renamed to MedicationRequest
+ * (https://www.hl7.org/fhir/R4/medicationrequest.html). The elements we use
+ * are the same in both versions.
  */
 export class MedicationOrder extends LabeledClass {
   readonly rxNormCode: RxNormCode;
+  /**
+   * The product the order was coded as, if it is displayed as the product's
+   * ingredient.
+   */
+  readonly product: RxNormProduct;
   readonly dosageRetrievalError = 'Could not retrieve dosage instructions.';
   firstAdministration: MedicationAdministration;
   lastAdmininistration: MedicationAdministration;
@@ -34,18 +45,26 @@ export class MedicationOrder extends LabeledClass {
    * Makes an MedicationOrder out of a list of MedicationAdministrations.
    * https://www.hl7.org/fhir/DSTU2/medicationorder.html
    * @param json The json representing this MedicationOrder.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
    */
-  constructor(private json: any) {
+  constructor(private json: any, fhirVersion = FhirVersion.DSTU2) {
     // A MedicationOrder's label is one of the following in order of preference:
     // 1) the medication reference's display anme
     // 2) the medication encoding's text
     // 3) the order's ID
     super(
         json.medicationReference ? json.medicationReference.display :
-                                   json.medicationCodeableConcept ?
+            json.medicationCodeableConcept ?
                                    json.medicationCodeableConcept.text :
                                    json.id);
 
+    const expectedResourceType = medicationOrderResourceType(fhirVersion);
+    if (json.resourceType && json.resourceType !== expectedResourceType) {
+      throw Error(
+          'A ' + fhirVersion + ' medication order must be a ' +
+          expectedResourceType + '. JSON: ' + JSON.stringify(json));
+    }
+
     if (json.dosageInstruction && json.dosageInstruction[0]) {
       if (json.dosageInstruction.length > 1) {
         throw Error('JSON must only include one dosage instruction.');
@@ -55,19 +74,12 @@ export class MedicationOrder extends LabeledClass {
     this.orderId = json.id;
 
     if (json.medicationCodeableConcept) {
-      if (json.medicationCodeableConcept.coding) {
-        this.rxNormCode =
-            (json.medicationCodeableConcept.coding
-                 .map(
-                     // Map the codes to a boolean that is true only if the
-                     // encoding is an RxNorm encoding, and the RxNorm code
-                     // appears in our RxNormCode list that we care about.
-                     (coding) => (!coding.system ||
-                                  coding.system.indexOf(
-                                      RxNormCode.CODING_STRING) !== -1) &&
-                         RxNormCode.fromCodeString(coding.code))
-                 // Filter out any codes that are not RxNorm codes.
-                 .filter((code) => !!code))[0];
+      // Medications coded as a product, such as a clinical drug, are
+      // displayed as their ingredient.
+      const match = findRxNormCode(json.medicationCodeableConcept.coding);
+      if (match) {
+        this.rxNormCode = match.code;
+        this.product = match.product;
       }
     }
 
@@ -78,8 +90,10 @@ export class MedicationOrder extends LabeledClass {
           JSON.stringify(json));
     }
 
-    // Check this MedicationOrder label against the RxNorm label.
-    if (this.label.toLowerCase() !== this.rxNormCode.label.toLowerCase()) {
+    // Check this MedicationOrder label against the RxNorm label. Orders of a
+    // product are labelled with the product rather than its ingredient.
+    if (!this.product &&
+        this.label.toLowerCase() !== this.rxNormCode.label.toLowerCase()) {
       throw Error(
           'The label for this MedicationOrder\'s RxNorm code doesn\'t match ' +
           ' the label in the data. MedicationOrder label: ' + this.label +
@@ -141,6 +155,10 @@ export class MedicationOrderSet extends FhirResourceSet<MedicationOrder> {
    * must have the same RxNormCode.
    */
   readonly rxNormCode: RxNormCode;
+  /*
+   * The class of the medication, such as antibiotics, or undefined if the
+   * medication is in no class.
+   */
   readonly medicationConcept: MedicationConceptGroup;
 
   readonly maxDose: number;
@@ -178,20 +196,30 @@ export class MedicationOrderSet extends FhirResourceSet<MedicationOrder> {
         }
       }
       this.rxNormCode = firstRxNorm;
-      this.medicationConcept = this.rxNormCode.displayGrouping;
+      this.medicationConcept =
+          medicationClasses.classOf(this.rxNormCode.codeString);
+
+      // The orders share a y-axis, so their doses are converted to the unit
+      // of the first order that has one.
+      const withUnit =
+          medicationOrderList.find(x => !!x.administrationsForOrder.unitCode);
+      if (withUnit) {
+        const unitCode = withUnit.administrationsForOrder.unitCode;
+        for (const order of medicationOrderList) {
+          const administrations = order.administrationsForOrder;
+          if (administrations.unitCode &&
+              administrations.unitCode !== unitCode) {
+            order.administrationsForOrder = new MedicationAdministrationSet(
+                administrations.resourceList, unitCode);
+          }
+        }
+        this.unit = withUnit.administrationsForOrder.unit;
+      }
 
       this.minDose = Math.min(
           ...medicationOrderList.map(x => x.administrationsForOrder.minDose));
       this.maxDose = Math.max(
           ...medicationOrderList.map(x => x.administrationsForOrder.maxDose));
-
-      const units =
-          new Set(medicationOrderList.map(x => x.administrationsForOrder.unit));
-      if (units.size > 1) {
-        throw Error(
-            'Different units in the order set: ' + Array.from(units.values()));
-      }
-      this.unit = fixUnitAbbreviations(Array.from(units.values())[0]);
     }
   }
 }
@@ -5,7 +5,9 @@
 
 
 import {RxNormCode} from '../clinicalconcepts/rx-norm';
+import {findRxNormCode} from '../clinicalconcepts/rx-norm-ingredients';
 import {LabeledClass} from '../fhir-resource-set';
+
 import {Dosage} from './dosage';
 
 /**
@@ -25,19 +27,11 @@ export class ContainedMedication extends LabeledClass {
       throw Error('Resource must be of type Medication');
     }
     if (json.code) {
-      if (json.code.coding) {
-        this.code =
-            json.code.coding
-                .map(
-                    // Map the codes to a boolean that is true only if the
-                    // encoding is an RxNormCode encoding, and the RxNorm code
-                    // appeas in our RxNormCode list that we care about.
-                    (coding) => (!coding.system ||
-                                 coding.system.indexOf(
-                                     RxNormCode.CODING_STRING) !== -1) &&
-                        RxNormCode.fromCodeString(coding.code))
-                // Filter out any codes that are not RxNorm codes.
-                .filter((code) => !!code)[0];
+      // Ingredients of compounded or mixed medications may be coded as a
+      // product, and are displayed as their ingredient.
+      const match = findRxNormCode(json.code.coding);
+      if (match) {
+        this.code = match.code;
       }
     }
     if (!this.code) {
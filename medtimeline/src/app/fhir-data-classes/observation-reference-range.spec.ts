@@ -0,0 +1,77 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime} from 'luxon';
+
+import {makePatient} from '../test_utils';
+
+import {FhirVersion} from './fhir-version';
+import {ObservationReferenceRange} from './observation-reference-range';
+
+describe('ObservationReferenceRange', () => {
+  it('should be a normal range when it has no type', () => {
+    const range = new ObservationReferenceRange(
+        {low: {value: 1}, high: {value: 5}}, FhirVersion.R4);
+    expect(range.bounds).toEqual([1, 5]);
+    expect(range.isNormal).toBe(true);
+    expect(range.isCritical).toBe(false);
+  });
+
+  it('should get the type from the meaning in DSTU2 and the type in R4', () => {
+    expect(new ObservationReferenceRange({
+             low: {value: 1},
+             meaning: {coding: [{code: 'therapeutic'}]}
+           }).type)
+        .toEqual('therapeutic');
+    expect(new ObservationReferenceRange(
+               {low: {value: 1}, type: {text: 'Critical'}}, FhirVersion.R4)
+               .isCritical)
+        .toBe(true);
+  });
+
+  it('should get one-sided bounds from the text', () => {
+    expect(new ObservationReferenceRange({text: '<5'}).bounds).toEqual([
+      undefined, 5
+    ]);
+    expect(new ObservationReferenceRange({text: '>= 0.5'}).bounds).toEqual([
+      0.5, undefined
+    ]);
+    expect(new ObservationReferenceRange({text: '3.5 - 5'}).bounds).toEqual([
+      3.5, 5
+    ]);
+    expect(new ObservationReferenceRange({text: 'Negative'}).bounds)
+        .toBeUndefined();
+  });
+
+  it('should only apply to patients of the sex it is for', () => {
+    const range = new ObservationReferenceRange(
+        {low: {value: 1}, appliesTo: [{coding: [{code: '248152002'}]}]},
+        FhirVersion.R4);
+    expect(range.sex).toEqual('female');
+    expect(range.appliesTo(makePatient(), DateTime.utc(2019, 1, 1)))
+        .toBe(false);
+  });
+
+  it('should not apply to populations it cannot check the patient is in',
+     () => {
+       const range = new ObservationReferenceRange(
+           {low: {value: 1}, appliesTo: [{text: 'Pre-puberty'}]},
+           FhirVersion.R4);
+       expect(range.appliesTo(makePatient(), DateTime.utc(2019, 1, 1)))
+           .toBe(false);
+     });
+
+  it('should apply to patients of the ages it is for', () => {
+    const range = new ObservationReferenceRange({
+      low: {value: 1},
+      age: {low: {value: 1, code: 'a'}, high: {value: 5, code: 'a'}}
+    });
+    const patient = makePatient('2012-03-04');
+    expect(range.appliesTo(patient, DateTime.local(2013, 3, 3))).toBe(false);
+    expect(range.appliesTo(patient, DateTime.local(2013, 3, 4))).toBe(true);
+    expect(range.appliesTo(patient, DateTime.local(2018, 3, 3))).toBe(true);
+    expect(range.appliesTo(patient, DateTime.local(2018, 3, 4))).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime, DurationObject} from 'luxon';
+
+import {FhirVersion} from './fhir-version';
+import {Patient} from './patient';
+
+/**
+ * The type of a reference range that says what is normal. A reference range
+ * without a type is a normal range.
+ * https://www.hl7.org/fhir/R4/valueset-referencerange-meaning.html
+ */
+export const NORMAL_RANGE = 'normal';
+
+/**
+ * The type our labs give reference ranges that say which values are
+ * critical. It is not part of the FHIR value set for reference range types,
+ * so the labs send it as text.
+ */
+export const CRITICAL_RANGE = 'critical';
+
+/**
+ * Codes for the sexes a reference range can apply to, from the
+ * administrative gender value set and from SNOMED CT.
+ * https://www.hl7.org/fhir/R4/valueset-referencerange-appliesto.html
+ */
+const SEX_CODES = new Map<string, string>([
+  ['male', 'male'],
+  ['female', 'female'],
+  ['248153007', 'male'],
+  ['248152002', 'female'],
+]);
+
+/**
+ * The UCUM units a reference range's age can be given in.
+ */
+const AGE_UNITS = new Map<string, string>([
+  ['a', 'years'],
+  ['mo', 'months'],
+  ['wk', 'weeks'],
+  ['d', 'days'],
+]);
+
+/**
+ * Matches a reference range given only as text, such as "<5", ">= 10" or
+ * "3.5 - 5".
+ */
+const ONE_SIDED_TEXT = /^\s*(<=?|≤|>=?|≥)\s*(-?\d+(?:\.\d+)?)\s*$/;
+const TWO_SIDED_TEXT = /^\s*(-?\d+(?:\.\d+)?)\s*-\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * One of the reference ranges of a FHIR Observation, which say how to
+ * interpret its value. An Observation can have several, such as a normal
+ * range and a critical range, or ranges for patients of different ages.
+ * https://www.hl7.org/fhir/DSTU2/observation-definitions.html#Observation.referenceRange
+ * https://www.hl7.org/fhir/R4/observation-definitions.html#Observation.referenceRange
+ */
+export class ObservationReferenceRange {
+  /**
+   * The low and high bounds of the range. Either may be undefined for a
+   * one-sided range, such as "<5".
+   */
+  readonly bounds: [number, number];
+
+  /**
+   * What the range means, such as "normal" or "critical", in lower case.
+   * Called the meaning in DSTU2 and the type in R4.
+   */
+  readonly type: string;
+
+  /**
+   * The sex the range applies to, if it only applies to one: male or female.
+   */
+  readonly sex: string;
+
+  /**
+   * Whether the range applies to a population we cannot tell the patient
+   * is part of, such as a race or a stage of puberty.
+   */
+  readonly appliesToUnknownPopulation: boolean = false;
+
+  /** The youngest age the range applies to, if it is limited by age. */
+  readonly ageFrom: DurationObject;
+
+  /** The oldest age the range applies to, if it is limited by age. */
+  readonly ageTo: DurationObject;
+
+  /**
+   * @param json The JSON representing the reference range.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
+   */
+  constructor(json: any, fhirVersion = FhirVersion.DSTU2) {
+    const low = json.low ? json.low.value : undefined;
+    const high = json.high ? json.high.value : undefined;
+    this.bounds = low !== undefined || high !== undefined ?
+        [low, high] :
+        parseBoundsText(json.text);
+
+    const type = fhirVersion === FhirVersion.R4 ? json.type : json.meaning;
+    this.type = describeConcept(type) || NORMAL_RANGE;
+
+    if (fhirVersion === FhirVersion.R4 && json.appliesTo) {
+      for (const concept of json.appliesTo) {
+        const population = describeConcept(concept);
+        if (SEX_CODES.has(population)) {
+          this.sex = SEX_CODES.get(population);
+        } else {
+          this.appliesToUnknownPopulation = true;
+        }
+      }
+    }
+
+    if (json.age) {
+      this.ageFrom = toAge(json.age.low);
+      this.ageTo = toAge(json.age.high);
+    }
+  }
+
+  /** Whether the range says what is normal. */
+  get isNormal(): boolean {
+    return this.type === NORMAL_RANGE;
+  }
+
+  /** Whether the range says which values are critical. */
+  get isCritical(): boolean {
+    return this.type === CRITICAL_RANGE || this.type === 'panic';
+  }
+
+  /** Whether the range applies to some patients and not others. */
+  get isRestricted(): boolean {
+    return !!this.sex || this.appliesToUnknownPopulation || !!this.ageFrom ||
+        !!this.ageTo;
+  }
+
+  /**
+   * Whether the range applies to a patient at the time of an observation.
+   * Ranges for populations we cannot tell the patient is part of never
+   * apply, and nor do ranges limited by age when the patient's birth date is
+   * not known.
+   * @param patient The patient.
+   * @param date When the observation was made.
+   */
+  appliesTo(patient: Patient, date: DateTime): boolean {
+    if (this.appliesToUnknownPopulation) {
+      return false;
+    }
+    if (this.sex && this.sex !== patient.sex) {
+      return false;
+    }
+    if (this.ageFrom || this.ageTo) {
+      if (!patient.birthDate || !date) {
+        return false;
+      }
+      if (this.ageFrom && date < patient.birthDate.plus(this.ageFrom)) {
+        return false;
+      }
+      // An age range of 1-5 years includes children up until their sixth
+      // birthday.
+      if (this.ageTo &&
+          date >= patient.birthDate.plus(this.ageTo)
+                      .plus({[Object.keys(this.ageTo)[0]]: 1})) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Whether a value is outside the range.
+   * @param value The value to check.
+   */
+  excludes(value: number): boolean {
+    return (this.bounds[0] !== undefined && value < this.bounds[0]) ||
+        (this.bounds[1] !== undefined && value > this.bounds[1]);
+  }
+}
+
+/**
+ * Describes a CodeableConcept by its first code, or its text if it has no
+ * codes, in lower case.
+ * @param concept The JSON of the CodeableConcept.
+ */
+function describeConcept(concept: any): string {
+  if (!concept) {
+    return undefined;
+  }
+  const description = concept.coding && concept.coding.length > 0 ?
+      concept.coding[0].code :
+      concept.text;
+  return description ? description.toString().toLowerCase() : undefined;
+}
+
+/**
+ * Gets the bounds of a reference range given only as text.
+ * @param text The text of the reference range, such as "<5" or "3.5 - 5".
+ * @returns The bounds, or undefined if the text could not be understood.
+ */
+function parseBoundsText(text: string): [number, number] {
+  if (!text) {
+    return undefined;
+  }
+  const oneSided = text.match(ONE_SIDED_TEXT);
+  if (oneSided) {
+    const bound = parseFloat(oneSided[2]);
+    return oneSided[1].startsWith('<') || oneSided[1] === '≤' ?
+        [undefined, bound] :
+        [bound, undefined];
+  }
+  const twoSided = text.match(TWO_SIDED_TEXT);
+  if (twoSided) {
+    return [parseFloat(twoSided[1]), parseFloat(twoSided[2])];
+  }
+  return undefined;
+}
+
+/**
+ * Converts an age Quantity to a Duration, defaulting to years.
+ * @param quantity The JSON of the age Quantity.
+ */
+function toAge(quantity: any): DurationObject {
+  if (!quantity || quantity.value === undefined) {
+    return undefined;
+  }
+  const unit = AGE_UNITS.get(quantity.code || quantity.unit) || 'years';
+  return {[unit]: quantity.value};
+}
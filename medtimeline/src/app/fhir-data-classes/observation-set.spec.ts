@@ -4,8 +4,10 @@
 // license that can be found in the LICENSE file.
 
 import {LOINCCode} from '../clinicalconcepts/loinc-code';
+import {makePatient} from '../test_utils';
 
 import {AnnotatedObservation} from './annotated-observation';
+import {FhirVersion} from './fhir-version';
 import {Observation} from './observation';
 import {ObservationSet} from './observation-set';
 
@@ -71,6 +73,53 @@ describe('ObservationSet', () => {
     expect(obsSet.normalRange).toEqual([10, 20]);
   });
 
+  it('should set critical range with matching ranges', () => {
+    const referenceRange = [
+      {low: {value: 10.0}, high: {value: 20.0}},
+      {high: {value: 30.0}, meaning: {text: 'critical'}}
+    ];
+    const observations = [
+      new AnnotatedObservation(new Observation({
+        referenceRange: referenceRange,
+        ...observationCodingString,
+        valueQuantity: {value: 93}
+      })),
+      new AnnotatedObservation(new Observation({
+        referenceRange: referenceRange,
+        ...observationCodingString,
+        valueQuantity: {value: 94}
+      }))
+    ];
+    const obsSet = new ObservationSet(observations);
+    expect(obsSet.normalRange).toEqual([10, 20]);
+    expect(obsSet.criticalRange).toEqual([undefined, 30]);
+  });
+
+  it('should find the normal range for the patient\'s sex', () => {
+    const referenceRange = [
+      {
+        low: {value: 13.0},
+        high: {value: 17.0},
+        appliesTo: [{coding: [{code: '248153007'}]}]
+      },
+      {
+        low: {value: 12.0},
+        high: {value: 15.0},
+        appliesTo: [{coding: [{code: '248152002'}]}]
+      }
+    ];
+    const observations = [new AnnotatedObservation(new Observation(
+        {
+          referenceRange: referenceRange,
+          ...observationCodingString,
+          valueQuantity: {value: 14}
+        },
+        FhirVersion.R4))];
+    const obsSet = new ObservationSet(observations);
+    expect(obsSet.normalRange).toBeUndefined();
+    expect(obsSet.normalRangeFor(makePatient())).toEqual([13, 17]);
+  });
+
   it('should get the label text', () => {
     const observations = [
       new AnnotatedObservation(new Observation(
@@ -112,4 +161,41 @@ describe('ObservationSet', () => {
        const obsSet = new ObservationSet(observations);
        expect(obsSet.allQualitative).toBeFalsy();
      });
+
+  it('should convert observations to the unit their code is charted in', () => {
+    const creatinine = {
+      code: {
+        coding: [{system: LOINCCode.CODING_STRING, code: '2160-0'}],
+        text: 'Creatinine'
+      }
+    };
+    const observations = [
+      new AnnotatedObservation(new Observation(
+          {...creatinine, valueQuantity: {value: 0.7, unit: 'mg/dL'}})),
+      new AnnotatedObservation(new Observation({
+        ...creatinine,
+        valueQuantity: {value: 70, unit: 'umol/L'},
+        referenceRange: [{low: {value: 27}, high: {value: 62}}]
+      }))
+    ];
+    const obsSet = new ObservationSet(observations);
+    expect(obsSet.unit).toEqual('mg/dL');
+    const converted = obsSet.resourceList[1].observation;
+    expect(converted.value.value).toEqual(0.792);
+    expect(converted.normalRange).toEqual([0.305, 0.701]);
+    expect(converted.originalValue.value).toEqual(70);
+    expect(converted.originalValue.unit).toEqual('umol/L');
+  });
+
+  it('should throw error with units that cannot be converted', () => {
+    const observations = [
+      new AnnotatedObservation(new Observation({
+        ...observationCodingString,
+        valueQuantity: {value: 37, unit: 'Cel'}
+      })),
+      new AnnotatedObservation(new Observation(
+          {...observationCodingString, valueQuantity: {value: 37, unit: '%'}}))
+    ];
+    expect(() => new ObservationSet(observations)).toThrowError();
+  });
 });
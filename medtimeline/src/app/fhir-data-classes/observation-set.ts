@@ -3,10 +3,14 @@
 // Use of this source code is governed by a BSD-style
 // license that can be found in the LICENSE file.
 
+import {PREFERRED_UNITS} from '../clinicalconcepts/preferred-units';
 import {FhirResourceSet} from '../fhir-resource-set';
+import {canConvert, displayUnit} from '../ucum';
 import {fixUnitAbbreviations} from '../unit_utils';
 
 import {AnnotatedObservation} from './annotated-observation';
+import {Observation} from './observation';
+import {Patient} from './patient';
 
 /**
  * A set of observations that belong together as part of the same series.
@@ -19,11 +23,20 @@ export class ObservationSet extends FhirResourceSet<AnnotatedObservation> {
   readonly normalRange: [number, number];
 
   /**
-   * The units for this set of observations. Left unset if the normal
-   * range is different across the observations.
+   * The critical range for this set of observations. Left unset if the
+   * critical range is different across the observations.
+   */
+  readonly criticalRange: [number, number];
+
+  /**
+   * The units for this set of observations. Left unset if the observations
+   * have no units.
    */
   readonly unit: string;
 
+  /** The units for this set of observations, in UCUM. */
+  readonly unitCode: string;
+
   /**
    * Whether or not all Observations belonging to this ObservationSet contain
    * all qualitative results rather than numerical values.
@@ -31,48 +44,131 @@ export class ObservationSet extends FhirResourceSet<AnnotatedObservation> {
   readonly allQualitative: boolean = false;
 
   /**
-   * Constructor for ObservationSet.
+   * Constructor for ObservationSet. Observations in units that can be
+   * converted to one another are converted to the same unit, keeping the
+   * value as it was reported.
    * @param observationList The list of observations belonging together.
+   * @param unit The UCUM unit to convert the observations to. If unset, they
+   *     are converted to the unit we chart their code in, or else to the unit
+   *     most of them are reported in.
    * @throws Error if the observations have different labels, as this indicates
    *     that they are data points from different series, or if there is not
-   *     a label.
+   *     a label, or if the observations have units that cannot be converted
+   *     to one another.
    */
-  constructor(observationList: AnnotatedObservation[]) {
-    super(observationList);
-
-    let firstNormalRange;
-    let firstUnit;
-    if (observationList.length > 0) {
-      firstNormalRange = observationList[0].observation.normalRange;
-      firstUnit = observationList[0].observation.unit;
-    }
-    // Ensure that the labels of the data are all the same. Also ensure that
-    // we only set a normal range if all the observations have a matching
-    // normal range.
-    let differentNormalRanges = false;
-    let differentUnits = false;
-
-    for (const obs of observationList) {
-      // Some observations may not have a normal range.
-      if (obs.observation.normalRange &&
-          (obs.observation.normalRange[0] !== firstNormalRange[0] ||
-           obs.observation.normalRange[1] !== firstNormalRange[1])) {
-        differentNormalRanges = true;
-      }
-      // Some observations may not have a normal range.
-      if (obs.observation.unit && obs.observation.unit !== firstUnit) {
-        differentUnits = true;
-      }
-    }
+  constructor(observationList: AnnotatedObservation[], unit?: string) {
+    super(toCommonUnit(observationList, unit));
 
-    if (!differentNormalRanges) {
-      this.normalRange = firstNormalRange;
-    }
-    if (!differentUnits && firstUnit) {
-      this.unit = fixUnitAbbreviations(firstUnit);
+    // All the observations with units are now in the same unit.
+    const withUnit = this.resourceList.find(obs => !!obs.observation.unitCode);
+    if (withUnit) {
+      this.unit = fixUnitAbbreviations(
+          withUnit.observation.unit ||
+          displayUnit(withUnit.observation.unitCode));
+      this.unitCode = withUnit.observation.unitCode;
     }
 
+    // We only set a normal or critical range if all the observations have a
+    // matching range.
+    this.normalRange = this.commonRange(obs => obs.normalRange);
+    this.criticalRange = this.commonRange(obs => obs.criticalRange);
+
     this.allQualitative = observationList.every(
         obs => (obs.observation.result !== null && !obs.observation.value));
   }
+
+  /**
+   * Finds the normal range for a patient that all the observations share,
+   * from the ranges that apply to the patient's age and sex when each
+   * observation was made.
+   * @param patient The patient the observations are for.
+   * @returns The normal range, or undefined if it is different across the
+   *     observations.
+   */
+  normalRangeFor(patient?: Patient): [number, number] {
+    return this.commonRange(obs => obs.normalRangeFor(patient));
+  }
+
+  /**
+   * Finds the critical range for a patient that all the observations share,
+   * the same way as normalRangeFor finds the normal range.
+   * @param patient The patient the observations are for.
+   */
+  criticalRangeFor(patient?: Patient): [number, number] {
+    return this.commonRange(obs => obs.criticalRangeFor(patient));
+  }
+
+  /**
+   * Finds the range all the observations share. Observations without a range
+   * are left out.
+   * @param getRange Gets the range of an observation.
+   * @returns The range, or undefined if it is different across the
+   *     observations.
+   */
+  private commonRange(getRange: (obs: Observation) => [number, number]):
+      [number, number] {
+    const ranges = this.resourceList.map(obs => getRange(obs.observation))
+                       .filter(range => !!range);
+    if (ranges.length === 0 ||
+        ranges.some(
+            range => range[0] !== ranges[0][0] || range[1] !== ranges[0][1])) {
+      return undefined;
+    }
+    return ranges[0];
+  }
+}
+
+/**
+ * Converts observations to a common unit.
+ * @param observations The observations to convert.
+ * @param unit The UCUM unit to convert to. If unset, the observations are
+ *     converted to the unit we chart their code in if they all can be, or else
+ *     to the unit most of them are reported in.
+ * @throws Error if some of the observations cannot be converted to the unit.
+ */
+function toCommonUnit(observations: AnnotatedObservation[], unit?: string):
+    AnnotatedObservation[] {
+  const withUnits = observations.filter(
+      obs => obs.observation.value && obs.observation.unitCode);
+  if (withUnits.length === 0) {
+    return observations;
+  }
+  const code = withUnits[0].observation.codes[0];
+  const preferred = code ? PREFERRED_UNITS.get(code.codeString) : undefined;
+  const molarMass = preferred ? preferred.molarMass : undefined;
+  const units = new Set(withUnits.map(obs => obs.observation.unitCode));
+  const convertsTo = (to: string) =>
+      Array.from(units).every(from => canConvert(from, to, molarMass));
+
+  let target = unit;
+  if (!target) {
+    target = preferred && convertsTo(preferred.unit) ?
+        preferred.unit :
+        mostCommonUnit(withUnits);
+  }
+  if (!convertsTo(target)) {
+    throw Error(
+        'Observations have units that cannot be converted to ' + target + ': ' +
+        Array.from(units));
+  }
+  return observations.map(
+      obs => obs.observation.value && obs.observation.unitCode &&
+              obs.observation.unitCode !== target ?
+          new AnnotatedObservation(
+              obs.observation.convertedTo(target, molarMass),
+              obs.annotationValues) :
+          obs);
+}
+
+/**
+ * Finds the UCUM unit most of the observations are reported in.
+ */
+function mostCommonUnit(observations: AnnotatedObservation[]): string {
+  const counts = new Map<string, number>();
+  for (const obs of observations) {
+    const unit = obs.observation.unitCode;
+    counts.set(unit, (counts.get(unit) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+      .reduce((most, entry) => entry[1] > most[1] ? entry : most)[0];
 }
@@ -4,8 +4,12 @@
 // license that can be found in the LICENSE file.
 
 import {DateTime} from 'luxon';
+
+import {conceptMapper} from '../clinicalconcepts/concept-map';
 import {LOINCCode} from '../clinicalconcepts/loinc-code';
+import {makePatient} from '../test_utils';
 
+import {FhirVersion} from './fhir-version';
 import {Observation} from './observation';
 import {OBSERVATION_INTERPRETATION_VALUESET_URL} from './observation-interpretation-valueset';
 
@@ -46,6 +50,36 @@ describe('Observation', () => {
     expect(observation.codes[0]).toBe(LOINCCode.fromCodeString('8310-5'));
   });
 
+  it('should get the loinc code a local code is mapped onto', () => {
+    const localSystem = 'http://example.org/local-lab-codes';
+    conceptMapper.addConceptMap({
+      resourceType: 'ConceptMap',
+      group: [{
+        source: localSystem,
+        target: LOINCCode.CODING_STRING,
+        element: [
+          {code: 'TEMP', target: [{code: '8310-5', equivalence: 'equivalent'}]}
+        ]
+      }]
+    });
+    const observation = new Observation({
+      code: {
+        coding: [{system: localSystem, code: 'TEMP', display: 'Temp'}],
+        text: 'Temperature'
+      },
+      valueQuantity: {value: 37}
+    });
+    expect(observation.codes).toEqual([LOINCCode.fromCodeString('8310-5')]);
+    expect(observation.sourceCode)
+        .toEqual({system: localSystem, code: 'TEMP', display: 'Temp'});
+  });
+
+  it('should not have a source code if it has the loinc code', () => {
+    const observation =
+        new Observation({...codingString, valueQuantity: {value: 103}});
+    expect(observation.sourceCode).toBeUndefined();
+  });
+
   it('should get timestamp from effectiveDateTime', () => {
     const timestampString = '2012-08-04T11:00:00.000Z';
     const observation = new Observation({
@@ -111,15 +145,56 @@ describe('Observation', () => {
   });
 
 
-  it('should not set normal range from JSON unless high and low provided',
-     () => {
-       const observation = new Observation({
-         referenceRange: [{text: '< 20', high: {value: 20.0}}],
-         ...observationCodingString,
-         valueQuantity: {value: 100},
-       });
-       expect(observation.normalRange).toBeUndefined();
-     });
+  it('should set a one-sided normal range from JSON', () => {
+    const observation = new Observation({
+      referenceRange: [{text: '< 20', high: {value: 20.0}}],
+      ...observationCodingString,
+      valueQuantity: {value: 100},
+    });
+    expect(observation.normalRange).toEqual([undefined, 20]);
+  });
+
+  it('should set normal and critical ranges from multiple ranges', () => {
+    const observation = new Observation({
+      referenceRange: [
+        {low: {value: 36.5}, high: {value: 37.5}},
+        {low: {value: 35}, high: {value: 40}, meaning: {text: 'Critical'}}
+      ],
+      ...observationCodingString,
+      valueQuantity: {value: 39},
+    });
+    expect(observation.normalRange).toEqual([36.5, 37.5]);
+    expect(observation.criticalRange).toEqual([35, 40]);
+  });
+
+  it('should pick the normal range for the patient\'s age', () => {
+    const observation = new Observation(
+        {
+          referenceRange: [
+            {
+              low: {value: 37},
+              high: {value: 38},
+              age: {high: {value: 1, code: 'a'}}
+            },
+            {
+              low: {value: 36},
+              high: {value: 37},
+              age: {low: {value: 2, code: 'a'}}
+            }
+          ],
+          ...observationCodingString,
+          effectiveDateTime: '2019-01-01T00:00:00Z',
+          valueQuantity: {value: 39},
+        },
+        FhirVersion.R4);
+    expect(observation.normalRange).toBeUndefined();
+    expect(observation.normalRangeFor(makePatient('2018-03-01'))).toEqual([
+      37, 38
+    ]);
+    expect(observation.normalRangeFor(makePatient('2012-03-01'))).toEqual([
+      36, 37
+    ]);
+  });
 
   it('should get label from json', () => {
     const observation = new Observation(
@@ -153,6 +228,60 @@ describe('Observation', () => {
     expect(observation.result).toEqual('red');
   });
 
+  it('should get results from values that are not numbers', () => {
+    const resultOf = (value: any) =>
+        new Observation({...observationCodingString, ...value}).result;
+    expect(resultOf({valueString: 'Hemolyzed'})).toEqual('Hemolyzed');
+    expect(resultOf({valueBoolean: false})).toEqual('No');
+    expect(resultOf({
+      valueRange: {low: {value: 3}, high: {value: 5, unit: 'mg'}}
+    })).toEqual('3 - 5 mg');
+    expect(resultOf({
+      valueRatio: {numerator: {value: 1}, denominator: {value: 64}}
+    })).toEqual('1:64');
+    expect(resultOf({
+      valueCodeableConcept: {coding: [{code: '10828004', display: 'Positive'}]}
+    })).toEqual('Positive');
+  });
+
+  it('should get the value from an integer', () => {
+    const observation =
+        new Observation({...observationCodingString, valueInteger: 3});
+    expect(observation.value.value).toEqual(3);
+    expect(observation.precision).toEqual(0);
+    expect(observation.result).toBeNull();
+  });
+
+  it('should keep the comparator of a censored value', () => {
+    const observation = new Observation({
+      ...observationCodingString,
+      valueQuantity: {value: 0.5, comparator: '<', unit: 'mg/dL'}
+    });
+    expect(observation.value.value).toEqual(0.5);
+    expect(observation.comparator).toEqual('<');
+  });
+
+  it('should be revised when it is amended or corrected', () => {
+    const corrected = new Observation(
+        {
+          ...observationCodingString,
+          id: 'obs1',
+          meta: {versionId: '2'},
+          status: 'corrected',
+          valueQuantity: {value: 0.5, comparator: '<', unit: 'mg/dL'}
+        },
+        FhirVersion.R4);
+    expect(corrected.versionId).toEqual('2');
+    expect(corrected.isRevised).toBe(true);
+    expect(corrected.displayValue).toEqual('<0.5 mg/dL');
+    expect(new Observation({
+             ...observationCodingString,
+             status: 'final',
+             valueString: 'Yellow'
+           }).isRevised)
+        .toBe(false);
+  });
+
   it('should get interpretation code from json', () => {
     const observation = new Observation({
       ...codingString,
@@ -164,6 +293,31 @@ describe('Observation', () => {
     expect(observation.interpretation.display).toBe('Negative or Flora');
   });
 
+  it('should get timestamp from effectiveInstant for R4', () => {
+    const timestampString = '2012-08-04T11:00:00.000Z';
+    const observation = new Observation(
+        {
+          ...observationCodingString,
+          valueQuantity: {value: 100},
+          effectiveInstant: timestampString
+        },
+        FhirVersion.R4);
+    expect(observation.timestamp)
+        .toEqual(DateTime.fromISO(timestampString).toUTC());
+  });
+
+  it('should get the first interpretation from R4 json', () => {
+    const observation = new Observation(
+        {
+          ...codingString,
+          valueQuantity: {value: 103},
+          interpretation: [interpretationString.interpretation]
+        },
+        FhirVersion.R4);
+    expect(observation.interpretation).toBeDefined();
+    expect(observation.interpretation.code).toEqual('NEGORFLORA');
+  });
+
   it('should set inner components from json', () => {
     const observation = new Observation({
       ...observationCodingString,
@@ -6,19 +6,25 @@
 import {DateTime} from 'luxon';
 
 import {BCHMicrobioCode} from '../clinicalconcepts/bch-microbio-code';
+import {conceptMapper, SourceCode} from '../clinicalconcepts/concept-map';
+import {DerivedCode} from '../clinicalconcepts/derived-code';
 import {LOINCCode} from '../clinicalconcepts/loinc-code';
 import {ResourceCode} from '../clinicalconcepts/resource-code-group';
 import {LabeledClass} from '../fhir-resource-set';
+import {convertUnit, displayUnit, roundLike, toUcum, UCUM_SYSTEM} from '../ucum';
 import {fixUnitAbbreviations} from '../unit_utils';
 
+import {FhirVersion} from './fhir-version';
 import {OBSERVATION_INTERPRETATION_VALUESET_URL, ObservationInterpretation} from './observation-interpretation-valueset';
+import {ObservationReferenceRange} from './observation-reference-range';
+import {Patient} from './patient';
 
 
 /**
  * These are the quantity attributes provided by FHIR. See
  * https://www.hl7.org/fhir/datatypes.html#quantity
  */
-interface Quantity {
+export interface Quantity {
   value: number;
   comparator: string;
   unit: string;
@@ -28,14 +34,16 @@ interface Quantity {
 
 /**
  * FHIR element for ObservationStatus, from the DSTU2 version of the
- * standard.
+ * standard. Corrected is only part of the R4 version.
  * http://hl7.org/fhir/DSTU2/valueset-observation-status.html
+ * http://hl7.org/fhir/R4/valueset-observation-status.html
  */
 export enum ObservationStatus {
   Registered = 'Registered',
   Preliminary = 'Preliminary',
   Final = 'Final',
   Amended = 'Amended',
+  Corrected = 'Corrected',
   Cancelled = 'Cancelled',
   EnteredInError = 'Enteredinerror',
   Unknown = 'Unknown'
@@ -46,6 +54,7 @@ const statusToEnumMap = new Map<string, ObservationStatus>([
   ['preliminary', ObservationStatus.Preliminary],
   ['final', ObservationStatus.Final],
   ['amended', ObservationStatus.Amended],
+  ['corrected', ObservationStatus.Corrected],
   ['cancelled', ObservationStatus.Cancelled],
   ['entered-in-error', ObservationStatus.EnteredInError],
   ['unknown', ObservationStatus.Unknown],
@@ -64,19 +73,52 @@ const statusToEnumMap = new Map<string, ObservationStatus>([
  * TODO(b/126222425): Add a descriptive readme to this folder.
  */
 export class Observation extends LabeledClass {
+  readonly id: string;
+  /** The version of the resource on the server, if the server tracks it. */
+  readonly versionId: string;
   readonly codes: ResourceCode[] = [];
+  /**
+   * The code the Observation was reported with, if it is shown as another
+   * code that the code is mapped onto by a ConceptMap, such as a local code.
+   */
+  readonly sourceCode: SourceCode;
   timestamp: DateTime;
   readonly value: Quantity;
+  /**
+   * The comparator of a censored value, such as "<" for a result of "<0.5".
+   * The value is then a limit rather than the exact value.
+   */
+  readonly comparator: string;
   // Populated if the Observation contains a qualitative result, such
-  // as "Yellow", rather than a numerical value.
+  // as "Yellow", rather than a numerical value. Strings, booleans, ranges,
+  // ratios and dates are shown as text results.
   readonly result: string;
+  /**
+   * The normal range of the Observation, if it has just one that applies to
+   * every patient. Either bound may be undefined for a one-sided range. Use
+   * normalRangeFor to find the normal range for a particular patient.
+   */
   readonly normalRange: [number, number];
+  /**
+   * The critical range of the Observation, if it has just one that applies to
+   * every patient. Values outside the range are critical.
+   */
+  readonly criticalRange: [number, number];
+  /** All the reference ranges of the Observation that have bounds. */
+  readonly referenceRanges: ObservationReferenceRange[] = [];
   readonly unit: string;
+  /** The unit of the value in UCUM, used to convert it to other units. */
+  readonly unitCode: string;
   readonly innerComponents: Observation[] = [];
   // The display string associated with the code for this Observation.
   readonly display: string;
   readonly interpretation: ObservationInterpretation;
   readonly status: ObservationStatus;
+  /**
+   * The version of an amended or corrected Observation that it replaced, if
+   * it has been retrieved from the server's history of the resource.
+   */
+  previousVersion: Observation;
 
   // The number of decimal places stored in the value.
   readonly precision: number;
@@ -86,16 +128,21 @@ export class Observation extends LabeledClass {
    * Makes an Observation out of a JSON object that represents a
    * a FHIR observation.
    * @param json A JSON object that represents a FHIR observation.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
+   * @param originalValue The value as it was reported, if the JSON holds the
+   *     value converted to another unit.
    */
-  constructor(private json: any) {
+  constructor(
+      private json: any, private fhirVersion = FhirVersion.DSTU2,
+      readonly originalValue?: Quantity) {
     super(Observation.getLabel(json));
+    this.id = json.id;
+    this.versionId = json.meta ? json.meta.versionId : undefined;
     // TODO(b/111990521): If there are hours and minutes then we can
     // guarantee timezone is specified, but if not, then the timezone might
     // not be specified! I'm not sure how to best handle that.
     // https://www.hl7.org/fhir/DSTU2/datatypes.html#dateTime
-    this.timestamp = json.effectiveDateTime ?
-        DateTime.fromISO(json.effectiveDateTime).toUTC() :
-        json.issued ? DateTime.fromISO(json.issued).toUTC() : null;
+    this.timestamp = Observation.getEffectiveTime(json, fhirVersion);
     if (json.code) {
       if (json.code.coding) {
         // TODO(b/121318193): Implement better parsing of Observations with BCH
@@ -104,25 +151,51 @@ export class Observation extends LabeledClass {
           this.codes = json.code.coding.map(
               (coding) => BCHMicrobioCode.fromCodeString(coding.code));
           this.display = json.code.coding[0].display;
-        } else {
+        } else if (json.code.coding[0].system === DerivedCode.CODING_STRING) {
+          // Values the app computed from other Observations are made with
+          // the code they were computed for.
           this.codes =
-              json.code.coding
-                  .map(
-                      // Map the codes to a boolean that is true only if the
-                      // encoding is a LOINC encoding, and the LOINC code appeas
-                      // in our LOINCCode list that we care about.
-                      (coding) => (!coding.system ||
-                                   coding.system.indexOf(
-                                       LOINCCode.CODING_STRING) !== -1) &&
-                          LOINCCode.fromCodeString(coding.code))
-                  // Filter out any codes that are not LOINC codes.
-                  .filter((code) => !!code);
+              [DerivedCode.fromCodeString(json.code.coding[0].code)].filter(
+                  code => !!code);
+        } else {
+          // Map the codes to the LOINC codes in our LOINCCode list that we
+          // care about, either directly or through the ConceptMaps, and
+          // filter out any other codes.
+          const isLoinc = (coding: any) => !coding.system ||
+              coding.system.indexOf(LOINCCode.CODING_STRING) !== -1;
+          const direct: ResourceCode[] =
+              json.code.coding.filter(isLoinc)
+                  .map(coding => LOINCCode.fromCodeString(coding.code))
+                  .filter(code => !!code);
+          const mapped = new Array<ResourceCode>();
+          for (const coding of json.code.coding) {
+            const target = conceptMapper.targetOf(
+                isLoinc(coding) ? LOINCCode.CODING_STRING : coding.system,
+                coding.code);
+            const code = target ? LOINCCode.fromCodeString(target) : undefined;
+            if (code && !direct.includes(code) && !mapped.includes(code)) {
+              mapped.push(code);
+              this.sourceCode = this.sourceCode || {
+                system: coding.system || LOINCCode.CODING_STRING,
+                code: coding.code,
+                display: coding.display
+              };
+            }
+          }
+          this.codes = direct.concat(mapped);
         }
       }
     }
 
-    if (json.interpretation && json.interpretation.coding) {
-      const coding = json.interpretation.coding[0];
+    // R4 allows an Observation to have several interpretations, but we only
+    // display the first.
+    // https://www.hl7.org/fhir/R4/observation-definitions.html#Observation.interpretation
+    const interpretation =
+        fhirVersion === FhirVersion.R4 && json.interpretation ?
+        json.interpretation[0] :
+        json.interpretation;
+    if (interpretation && interpretation.coding) {
+      const coding = interpretation.coding[0];
       if (coding.system === OBSERVATION_INTERPRETATION_VALUESET_URL) {
         if (ObservationInterpretation.codeToObject.has(coding.code)) {
           this.interpretation =
@@ -137,7 +210,7 @@ export class Observation extends LabeledClass {
 
     if (json.component) {
       json.component.forEach(element => {
-        const innerObs = new Observation(element);
+        const innerObs = new Observation(element, fhirVersion);
         if (!innerObs.timestamp) {
           innerObs.timestamp = this.timestamp;
         }
@@ -169,20 +242,29 @@ export class Observation extends LabeledClass {
     }
     */
 
-    this.value = json.valueQuantity ? json.valueQuantity : null;
+    // R4 adds integer values, which we chart like quantities without a unit.
+    // https://www.hl7.org/fhir/R4/observation-definitions.html#Observation.value_x_
+    this.value = json.valueQuantity ?
+        json.valueQuantity :
+        (json.valueInteger !== undefined ?
+             {value: json.valueInteger} as Quantity :
+             null);
     if (this.value) {
       this.unit = fixUnitAbbreviations(this.value.unit);
+      this.unitCode = this.value.system === UCUM_SYSTEM && this.value.code ?
+          this.value.code :
+          toUcum(this.value.unit);
+      this.comparator = this.value.comparator;
     }
 
     // We must calculate precision before the value is stored as a number, where
     // precision is lost.
-    if (json.valueQuantity && json.valueQuantity.value) {
-      const values = json.valueQuantity.value.toString().split('.');
+    if (this.value && this.value.value) {
+      const values = this.value.value.toString().split('.');
       this.precision = values.length > 1 ? values[1].length : 0;
     }
 
-    this.result =
-        json.valueCodeableConcept ? json.valueCodeableConcept.text : null;
+    this.result = getResult(json);
 
     // TODO(b/121318193): Impement better parsing of Observations with BCH Codes
     // (associated with Microbiology data). These Observations might not have
@@ -194,23 +276,37 @@ export class Observation extends LabeledClass {
           'or an interpretation to be useful. JSON: ' + JSON.stringify(json));
     }
 
-    // The FHIR standard says that if there's only one range then it should be
-    // what is "normal" for that measure. Otherwise they should be labeled.
-    // We are going to err on the side of safety and not include a normal range
-    // unless there's just the one, and it includes a high and low field.
+    // The FHIR standard says that a range without a type is what is "normal"
+    // for that measure. Ranges given only as text are kept if their text
+    // gives their bounds, such as "<5".
     // https://www.hl7.org/fhir/DSTU2/observation.html#4.20.4.4
-    // TODO(b/113575661): handle multiple ranges
-    if (json.referenceRange && json.referenceRange.length === 1) {
-      if (json.referenceRange[0].low && json.referenceRange[0].high) {
-        this.normalRange = [
-          json.referenceRange[0].low.value, json.referenceRange[0].high.value
-        ];
-      }
+    if (json.referenceRange) {
+      this.referenceRanges =
+          json.referenceRange
+              .map(range => new ObservationReferenceRange(range, fhirVersion))
+              .filter(range => !!range.bounds);
     }
+    this.normalRange = this.rangeFor(range => range.isNormal);
+    this.criticalRange = this.rangeFor(range => range.isCritical);
 
     this.status = statusToEnumMap.get(json.status);
   }
 
+  /**
+   * Gets the time an Observation was made. DSTU2 Observations only have an
+   * effectiveDateTime or effectivePeriod, while R4 Observations may also have
+   * an effectiveInstant. In either version, we fall back to when the
+   * Observation was issued.
+   * https://www.hl7.org/fhir/R4/observation-definitions.html#Observation.effective_x_
+   */
+  static getEffectiveTime(json: any, fhirVersion: FhirVersion): DateTime {
+    const effectiveTime = json.effectiveDateTime ||
+        (fhirVersion === FhirVersion.R4 ? json.effectiveInstant : null) ||
+        (json.effectivePeriod ? json.effectivePeriod.start : null) ||
+        json.issued;
+    return effectiveTime ? DateTime.fromISO(effectiveTime).toUTC() : null;
+  }
+
   private static getLabel(json: any) {
     let label;
     if (json.code) {
@@ -223,4 +319,174 @@ export class Observation extends LabeledClass {
     }
     return label;
   }
+
+  /**
+   * Makes a copy of the Observation with its value and reference ranges
+   * converted to another unit. The copy keeps the value as it was reported
+   * as its originalValue.
+   * @param unit The UCUM unit to convert to.
+   * @param molarMass The molar mass of the substance measured, to convert
+   *     between mass and amount of substance.
+   * @throws Error if the value cannot be converted to the unit.
+   */
+  convertedTo(unit: string, molarMass?: number): Observation {
+    const convert = (quantity: any) =>
+        quantity && quantity.value !== undefined ? {
+          ...quantity,
+          value: roundLike(
+              convertUnit(
+                  Number(quantity.value), this.unitCode, unit, molarMass),
+              quantity.value),
+          unit: displayUnit(unit),
+          system: UCUM_SYSTEM,
+          code: unit
+        } :
+                                                   quantity;
+    const json = {
+      ...this.json,
+      valueQuantity: convert(this.json.valueQuantity),
+      referenceRange: this.json.referenceRange ?
+          this.json.referenceRange.map(range => {
+            // Ranges given only as text are converted from the bounds in
+            // their text.
+            const bounds =
+                new ObservationReferenceRange(range, this.fhirVersion).bounds ||
+                [];
+            return {
+              ...range,
+              low: convert(range.low || {value: bounds[0]}),
+              high: convert(range.high || {value: bounds[1]})
+            };
+          }) :
+          undefined
+    };
+    const converted = new Observation(
+        json, this.fhirVersion, this.originalValue || this.value);
+    // Inner components take their timestamp from the Observation they are
+    // part of.
+    converted.timestamp = this.timestamp;
+    converted.previousVersion = this.previousVersion;
+    return converted;
+  }
+
+  /**
+   * The value or result of the Observation as text, such as "<0.5 mg/dL" or
+   * "Yellow".
+   */
+  get displayValue(): string {
+    return this.value ? formatQuantity(this.value) : this.result;
+  }
+
+  /** Whether the Observation's result was changed after it was issued. */
+  get isRevised(): boolean {
+    return this.status === ObservationStatus.Amended ||
+        this.status === ObservationStatus.Corrected;
+  }
+
+  /**
+   * Finds the normal range of the Observation for a patient, from the ranges
+   * that apply to the patient's age and sex when the Observation was made.
+   * @param patient The patient the Observation is for. If unset, only a
+   *     normal range that applies to every patient is used.
+   * @returns The low and high bounds of the normal range, or undefined if
+   *     there is not exactly one normal range for the patient.
+   */
+  normalRangeFor(patient?: Patient): [number, number] {
+    return this.rangeFor(range => range.isNormal, patient);
+  }
+
+  /**
+   * Finds the critical range of the Observation for a patient, the same way
+   * as normalRangeFor finds the normal range.
+   * @param patient The patient the Observation is for.
+   */
+  criticalRangeFor(patient?: Patient): [number, number] {
+    return this.rangeFor(range => range.isCritical, patient);
+  }
+
+  /**
+   * Finds the bounds of the one range of a type that applies to a patient.
+   * We err on the side of safety and do not pick a range if more than one
+   * could apply.
+   */
+  private rangeFor(
+      isOfType: (range: ObservationReferenceRange) => boolean,
+      patient?: Patient): [number, number] {
+    const ranges = this.referenceRanges.filter(
+        range => isOfType(range) &&
+            (patient ? range.appliesTo(patient, this.timestamp) :
+                       !range.isRestricted));
+    return ranges.length === 1 ? ranges[0].bounds : undefined;
+  }
+}
+
+/**
+ * Gets the result of an Observation whose value is not a number, as text.
+ * @param json The JSON of the Observation.
+ * @returns The result, or null if the value is a number or there is none.
+ */
+function getResult(json: any): string {
+  if (json.valueCodeableConcept) {
+    const concept = json.valueCodeableConcept;
+    return concept.text ||
+        (concept.coding && concept.coding.length > 0 ?
+             concept.coding[0].display :
+             undefined);
+  }
+  if (json.valueString !== undefined) {
+    return json.valueString;
+  }
+  if (json.valueBoolean !== undefined) {
+    return json.valueBoolean ? 'Yes' : 'No';
+  }
+  if (json.valueRange) {
+    return formatRange(json.valueRange);
+  }
+  if (json.valueRatio) {
+    return formatRatio(json.valueRatio);
+  }
+  if (json.valueDateTime) {
+    return DateTime.fromISO(json.valueDateTime)
+        .toLocal()
+        .toLocaleString(DateTime.DATETIME_SHORT);
+  }
+  return null;
+}
+
+/**
+ * Formats a Quantity, including its comparator, such as "<0.5 mg/dL".
+ */
+function formatQuantity(quantity: Quantity): string {
+  return (quantity.comparator || '') + quantity.value +
+      (quantity.unit ? ' ' + fixUnitAbbreviations(quantity.unit) : '');
+}
+
+/**
+ * Formats a Range, such as "3 - 5 mg" or ">=3 mg" if it has no high bound.
+ * https://www.hl7.org/fhir/R4/datatypes.html#Range
+ */
+function formatRange(range: any): string {
+  if (range.low && range.high) {
+    return range.low.value + ' - ' + formatQuantity(range.high);
+  }
+  if (range.low) {
+    return '>=' + formatQuantity(range.low);
+  }
+  return range.high ? '<=' + formatQuantity(range.high) : null;
+}
+
+/**
+ * Formats a Ratio. A ratio of plain numbers, such as a titer, is written as
+ * "1:64".
+ * https://www.hl7.org/fhir/R4/datatypes.html#Ratio
+ */
+function formatRatio(ratio: any): string {
+  if (!ratio.numerator || !ratio.denominator) {
+    return null;
+  }
+  if (!ratio.numerator.unit && !ratio.denominator.unit) {
+    return formatQuantity(ratio.numerator) + ':' + ratio.denominator.value;
+  }
+  return formatQuantity(ratio.numerator) + ' / ' +
+      formatQuantity(ratio.denominator);
 }
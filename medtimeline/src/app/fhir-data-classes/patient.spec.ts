@@ -0,0 +1,88 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime} from 'luxon';
+
+import {FhirVersion} from './fhir-version';
+import {Patient} from './patient';
+
+describe('Patient', () => {
+  const patientJson = {
+    resourceType: 'Patient',
+    id: '4342012',
+    identifier: [
+      {
+        type: {coding: [{system: 'http://hl7.org/fhir/v2/0203', code: 'SS'}]},
+        value: '000-00-0000'
+      },
+      {
+        type: {
+          coding: [{system: 'http://hl7.org/fhir/v2/0203', code: 'MR'}],
+          text: 'MRN'
+        },
+        value: '10002700'
+      }
+    ],
+    name: [
+      {use: 'nickname', given: ['Tim']},
+      {use: 'official', family: ['Smart'], given: ['Timmy', 'Robert']}
+    ],
+    gender: 'male',
+    birthDate: '2012-03-04'
+  };
+
+  it('should get demographics from json', () => {
+    const patient = new Patient(patientJson);
+    expect(patient.id).toEqual('4342012');
+    expect(patient.name).toEqual('Timmy Robert Smart');
+    expect(patient.mrn).toEqual('10002700');
+    expect(patient.sex).toEqual('male');
+    expect(patient.birthDate.toISODate()).toEqual('2012-03-04');
+  });
+
+  it('should read the R4 family name', () => {
+    const patient = new Patient(
+        {name: [{family: 'Smart', given: ['Timmy']}]}, FhirVersion.R4);
+    expect(patient.name).toEqual('Timmy Smart');
+  });
+
+  it('should prefer the text of the name', () => {
+    const patient =
+        new Patient({name: [{text: 'Timmy Smart', family: ['Smart']}]});
+    expect(patient.name).toEqual('Timmy Smart');
+  });
+
+  it('should raise an error if there is no name', () => {
+    expect(() => {
+      const patient = new Patient({resourceType: 'Patient', id: '1'});
+    }).toThrowError();
+  });
+
+  it('should raise an error for other resources', () => {
+    expect(() => {
+      const patient = new Patient({resourceType: 'Encounter', name: []});
+    }).toThrowError();
+  });
+
+  it('should describe the age of a newborn in days', () => {
+    const patient = new Patient(patientJson);
+    expect(patient.ageAt(DateTime.fromISO('2012-03-20'))).toEqual('16 d');
+  });
+
+  it('should describe the age of an infant in months', () => {
+    const patient = new Patient(patientJson);
+    expect(patient.ageAt(DateTime.fromISO('2013-05-10'))).toEqual('14 mo');
+  });
+
+  it('should describe the age of an older child in years', () => {
+    const patient = new Patient(patientJson);
+    expect(patient.ageAt(DateTime.fromISO('2019-03-03'))).toEqual('6 y');
+  });
+
+  it('should not describe the age without a birth date', () => {
+    const patient = new Patient({name: [{text: 'Timmy Smart'}]});
+    expect(patient.ageAt()).toBeUndefined();
+  });
+});
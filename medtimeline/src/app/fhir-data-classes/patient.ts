@@ -0,0 +1,114 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime} from 'luxon';
+
+import {FhirResourceType} from '../../constants';
+
+import {FhirVersion} from './fhir-version';
+
+/**
+ * The code for a medical record number in the identifier type value set.
+ * https://www.hl7.org/fhir/DSTU2/v2/0203/index.html
+ */
+const MEDICAL_RECORD_NUMBER = 'MR';
+
+/**
+ * This object represents the demographics of a FHIR Patient that we show in
+ * the app and that affect how data is interpreted, such as age and sex.
+ * https://www.hl7.org/fhir/DSTU2/patient.html
+ * https://www.hl7.org/fhir/R4/patient.html
+ */
+export class Patient {
+  readonly id: string;
+  /** The patient's name, as it should be displayed. */
+  readonly name: string;
+  /** The patient's medical record number. */
+  readonly mrn: string;
+  readonly birthDate: DateTime;
+  /**
+   * The patient's administrative gender: male, female, other or unknown.
+   * https://www.hl7.org/fhir/DSTU2/valueset-administrative-gender.html
+   */
+  readonly sex: string;
+
+  /**
+   * @param json The JSON representing the Patient.
+   * @param fhirVersion The version of the FHIR standard the JSON is in.
+   */
+  constructor(private json: any, fhirVersion = FhirVersion.DSTU2) {
+    if (json.resourceType && json.resourceType !== FhirResourceType.Patient) {
+      throw Error('A Patient must be a Patient. JSON: ' + JSON.stringify(json));
+    }
+    this.id = json.id;
+    this.name = getName(json.name, fhirVersion);
+    if (!this.name) {
+      throw Error(
+          'A Patient must have a name to be useful. JSON: ' +
+          JSON.stringify(json));
+    }
+    this.mrn = getMrn(json.identifier);
+    this.birthDate =
+        json.birthDate ? DateTime.fromISO(json.birthDate) : undefined;
+    this.sex = json.gender;
+  }
+
+  /**
+   * Describes the patient's age the way it is usually written for children:
+   * in days for the first month, in months until the age of two, and in years
+   * after that.
+   * @param asOf When to give the patient's age at.
+   * @returns The age, such as "3 d", "14 mo" or "7 y", or undefined if the
+   *     patient's birth date is not known.
+   */
+  ageAt(asOf = DateTime.local()): string {
+    if (!this.birthDate) {
+      return undefined;
+    }
+    const age = asOf.diff(this.birthDate, ['years', 'months', 'days']);
+    if (age.years >= 2) {
+      return age.years + ' y';
+    }
+    if (age.years >= 1 || age.months >= 1) {
+      return (age.years * 12 + age.months) + ' mo';
+    }
+    return Math.floor(age.days) + ' d';
+  }
+}
+
+/**
+ * Gets the name to display for a patient, preferring their official name.
+ * The family name is a list of names in DSTU2 but a single string in R4.
+ * https://www.hl7.org/fhir/R4/datatypes.html#HumanName
+ * @param names The JSON of the patient's names.
+ * @param fhirVersion The version of the FHIR standard the JSON is in.
+ */
+function getName(names: any[], fhirVersion: FhirVersion): string {
+  if (!names || names.length === 0) {
+    return undefined;
+  }
+  const name = names.find(n => n.use === 'official') ||
+      names.find(n => n.use === 'usual') || names[0];
+  if (name.text) {
+    return name.text;
+  }
+  const family = fhirVersion === FhirVersion.R4 || !name.family ?
+      name.family :
+      name.family.join(' ');
+  return [...(name.given || []), family].filter(part => !!part).join(' ');
+}
+
+/**
+ * Finds the patient's medical record number among their identifiers.
+ * @param identifiers The JSON of the patient's identifiers.
+ */
+function getMrn(identifiers: any[]): string {
+  const mrn = (identifiers || [])
+                  .find(
+                      identifier => identifier.type && identifier.type.coding &&
+                          identifier.type.coding.some(
+                              coding => coding.code === MEDICAL_RECORD_NUMBER));
+  return mrn ? mrn.value : undefined;
+}
@@ -7,6 +7,10 @@ import {DateTime, Interval} from 'luxon';
 /**
  * FHIR resource for a Specimen, from the DSTU2 standard.
  * https://www.hl7.org/fhir/DSTU2/specimen.html
+ *
+ * The elements we use are the same in R4, so Specimens from either version
+ * are parsed the same way.
+ * https://www.hl7.org/fhir/R4/specimen.html
  */
 export class Specimen {
   /** If this is a contained resource, then it will have an ID string. */
@@ -4,25 +4,45 @@
 // license that can be found in the LICENSE file.
 
 import {DateTime, Interval} from 'luxon';
+
+import {FhirResourceType} from '../constants';
+
+import {BCHMicrobioCode, BCHMicrobioCodeGroup} from './clinicalconcepts/bch-microbio-code';
 import {DisplayGrouping} from './clinicalconcepts/display-grouping';
 import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {RxNormCode} from './clinicalconcepts/rx-norm';
+import {DataQualityService} from './data-quality.service';
 import {FhirHttpService} from './fhir-http.service';
+import {FhirRequestError} from './fhir-transport';
 import {FhirService} from './fhir.service';
+import {ChartType} from './graphtypes/graph/graph.component';
+import {ObservationCategory} from './observation-codes';
 import {makeSampleObservationJson} from './test_utils';
 
 describe('FhirService', () => {
   let service: FhirService;
   let clientReadyCallback: (any) => void;
   let clientError: (any) => void;
-  const smartApi = {patient: {api: {fetchAll: () => {}}}};
+  const smartApi = {
+    patient: {
+      api: {
+        search: (params: any) => {},
+        conformance: () => Promise.resolve({data: {fhirVersion: '1.0.2'}})
+      }
+    }
+  };
   const code = new LOINCCode(
       '44123', new DisplayGrouping('concept', 'red'), 'lbl1', true);
   const dateRange: Interval = Interval.fromDateTimes(
       DateTime.fromISO('2018-08-20T00:00:00.00'),
       DateTime.fromISO('2018-08-28T00:00:00.00'));
-  const SAMPLE_OBSERVATION_SET = new Array(
-      makeSampleObservationJson(25, DateTime.utc(2018, 8, 24)),
-      makeSampleObservationJson(27, DateTime.utc(2018, 8, 25)));
+  const SAMPLE_OBSERVATION_BUNDLE = {
+    resourceType: 'Bundle',
+    entry: [
+      {resource: makeSampleObservationJson(25, DateTime.utc(2018, 8, 24))},
+      {resource: makeSampleObservationJson(27, DateTime.utc(2018, 8, 25))}
+    ]
+  };
 
   beforeEach(() => {
     const smartOnFhirClient = {
@@ -48,13 +68,13 @@ describe('FhirService', () => {
   it('should resolve getObservationsWithCode promise when API promise ' +
          'resolves before getObservationsWithCode call',
      (done: DoneFn) => {
-       const observationReadSpy =
-           spyOn(smartApi.patient.api, 'fetchAll')
-               .and.returnValue(Promise.resolve(SAMPLE_OBSERVATION_SET));
+       const observationReadSpy = spyOn(smartApi.patient.api, 'search')
+                                      .and.returnValue(Promise.resolve(
+                                          {data: SAMPLE_OBSERVATION_BUNDLE}));
        clientReadyCallback(smartApi);
        service.getObservationsWithCode(code, dateRange).then(observation => {
          expect(observationReadSpy.calls.count())
-             .toBe(1, 'smartApi.observation.fetchAll was called once');
+             .toBe(1, 'smartApi.patient.api.search was called once');
          expect(observation.length).toBe(2);
          expect(observation[0].label).toEqual('Hemoglobin');
          done();
@@ -64,9 +84,9 @@ describe('FhirService', () => {
   it('should resolve getObservationsWithCode promise when API promise ' +
          'resolves after getObservationsWithCode call',
      (done: DoneFn) => {
-       const observationReadSpy =
-           spyOn(smartApi.patient.api, 'fetchAll')
-               .and.returnValue(Promise.resolve(SAMPLE_OBSERVATION_SET));
+       const observationReadSpy = spyOn(smartApi.patient.api, 'search')
+                                      .and.returnValue(Promise.resolve(
+                                          {data: SAMPLE_OBSERVATION_BUNDLE}));
        service.getObservationsWithCode(code, dateRange).then(observation => {
          expect(observationReadSpy.calls.count()).toBe(1);
          expect(observation.length).toBeGreaterThan(0);
@@ -76,13 +96,596 @@ describe('FhirService', () => {
        clientReadyCallback(smartApi);
      });
 
+  it('should read MedicationRequests from an R4 server', (done: DoneFn) => {
+    const r4Api = {
+      patient: {
+        api: {
+          conformance: () => Promise.resolve({data: {fhirVersion: '4.0.1'}}),
+          read: () => Promise.resolve({
+            data: {
+              resourceType: FhirResourceType.MedicationRequest,
+              id: '123',
+              medicationCodeableConcept: {
+                coding: [{system: RxNormCode.CODING_STRING, code: '11124'}],
+                text: 'Vancomycin'
+              }
+            }
+          })
+        }
+      }
+    };
+    const readSpy = spyOn(r4Api.patient.api, 'read').and.callThrough();
+    clientReadyCallback(r4Api);
+    service.getMedicationOrderWithId('123').then(order => {
+      expect(readSpy).toHaveBeenCalledWith(
+          {type: FhirResourceType.MedicationRequest, id: '123'});
+      expect(order.orderId).toEqual('123');
+      done();
+    });
+  });
+
   it('should bubble error to getObservationsWithCode when promise is rejected',
      (done: DoneFn) => {
-       spyOn(smartApi.patient.api, 'fetchAll');
+       spyOn(smartApi.patient.api, 'search');
        clientError('api failed');
        service.getObservationsWithCode(code, dateRange).catch(err => {
          expect(err).toBe('api failed');
-         expect(smartApi.patient.api.fetchAll).not.toHaveBeenCalled();
+         expect(smartApi.patient.api.search).not.toHaveBeenCalled();
+         done();
+       });
+     });
+});
+
+/**
+ * A local stand-in for a FHIR server. It serves search results in pages of
+ * pageSize entries linked by "next" links, and serves reads of any resource
+ * it holds. Failures can be injected to test how errors are handled.
+ */
+class FakeFhirServer {
+  readonly readRequests: string[] = [];
+  readonly searchRequests: any[] = [];
+  readonly batchRequests: any[] = [];
+  readonly historyRequests: string[] = [];
+  // The versions of each resource, newest first, keyed by "resourceType/id".
+  readonly histories = new Map<string, any[]>();
+  // HTTP statuses to fail the next requests with, in order.
+  readonly failures: number[] = [];
+  requestCount = 0;
+
+  constructor(
+      private readonly searchResults: any[], private readonly resources: any[],
+      private readonly pageSize: number) {}
+
+  get api() {
+    return {
+      conformance: () => Promise.resolve({data: {fhirVersion: '1.0.2'}}),
+      search: (params: any) => {
+        this.searchRequests.push(params);
+        return this.respond(() => Promise.resolve({data: this.makePage(0)}));
+      },
+      fetchAll: (params: any) => {
+        this.searchRequests.push(params);
+        return this.respond(() => Promise.resolve(this.searchResults));
+      },
+      transaction: (params: any) => {
+        this.batchRequests.push(params.bundle);
+        return this.respond(() => Promise.resolve({
+          data: {
+            resourceType: 'Bundle',
+            type: 'batch-response',
+            entry: params.bundle.entry.map(
+                entry =>
+                    ({resource: this.makePage(0), response: {status: '200'}}))
+          }
+        }));
+      },
+      nextPage: (params: any) => {
+        const next = params.bundle.link.find(link => link.relation === 'next');
+        return this.respond(
+            () => Promise.resolve({data: this.makePage(Number(next.url))}));
+      },
+      read: (params: any) => {
+        this.readRequests.push(params.type + '/' + params.id);
+        const resource = this.resources.find(
+            r => r.resourceType === params.type && r.id === params.id);
+        return this.respond(
+            () => resource ? Promise.resolve({data: resource}) :
+                             Promise.reject('Resource not found'));
+      },
+      // The history of the whole server, which is not what the app wants.
+      history: (params: any) => {
+        this.historyRequests.push('_history');
+        return this.respond(
+            () => Promise.resolve(
+                {data: {resourceType: 'Bundle', type: 'history', entry: []}}));
+      },
+      resourceHistory: (params: any) => {
+        const key = params.type + '/' + params.id;
+        this.historyRequests.push(key);
+        const versions = this.histories.get(key) || [];
+        return this.respond(() => Promise.resolve({
+          data: {
+            resourceType: 'Bundle',
+            type: 'history',
+            entry: versions.map(resource => ({resource: resource}))
+          }
+        }));
+      }
+    };
+  }
+
+  // Fails the request the way the SMART API does if a failure is waiting,
+  // and answers it otherwise.
+  private respond(answer: () => Promise<any>): Promise<any> {
+    this.requestCount++;
+    const failure = this.failures.shift();
+    return failure === undefined ?
+        answer() :
+        Promise.reject(
+            {error: {status: failure, getResponseHeader: () => null}});
+  }
+
+  private makePage(start: number): any {
+    const end = start + this.pageSize;
+    const link = end < this.searchResults.length ?
+        [{relation: 'next', url: end.toString()}] :
+        [];
+    return {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      link: link,
+      entry: this.searchResults.slice(start, end)
+                 .map(resource => ({resource: resource}))
+    };
+  }
+}
+
+describe('FhirHttpService getDiagnosticReports', () => {
+  const stoolGroup = new BCHMicrobioCodeGroup(
+      null, 'Stool',
+      [new BCHMicrobioCode(
+          'OVAANDPARASITEEXAM', new DisplayGrouping('microbio', 'orange'),
+          'Ovo and Parasite Exam', true)],
+      new DisplayGrouping('microbio', 'orange'), ChartType.MICROBIO);
+  const dateRange = Interval.fromDateTimes(
+      DateTime.fromISO('2018-08-20T00:00:00.00'),
+      DateTime.fromISO('2018-09-28T00:00:00.00'));
+
+  function makeSpecimen(id: string, type: string) {
+    return {
+      resourceType: 'Specimen',
+      id: id,
+      type: {text: type},
+      collection: {collectedDateTime: '2018-08-31T13:48:00-04:00'}
+    };
+  }
+
+  const resultObservation = {
+    resourceType: 'Observation',
+    id: 'obs1',
+    code: {
+      coding: [{
+        system: BCHMicrobioCode.CODING_STRING,
+        code: 'OVAANDPARASITEEXAM',
+        display: 'Ova and Parasite Exam'
+      }]
+    },
+    interpretation: {
+      coding: [{
+        system: 'http://hl7.org/fhir/ValueSet/observation-interpretation',
+        code: 'NEGORFLORA',
+        display: 'Neg or Flora'
+      }]
+    }
+  };
+
+  function makeReport(id: string, specimenId: string) {
+    return {
+      resourceType: 'DiagnosticReport',
+      id: id,
+      status: 'final',
+      specimen: [{reference: 'Specimen/' + specimenId}],
+      result: [{reference: 'Observation/obs1'}]
+    };
+  }
+
+  function makeService(server: FakeFhirServer): FhirHttpService {
+    const smartOnFhirClient = {
+      oauth2: {ready: (smart, err) => smart({patient: server})}
+    };
+    return new FhirHttpService(null, smartOnFhirClient, null);
+  }
+
+  it('should follow next links and resolve referenced resources',
+     (done: DoneFn) => {
+       const server = new FakeFhirServer(
+           [
+             makeReport('report1', 'stool1'), makeReport('report2', 'stool2'),
+             makeReport('report3', 'stool3')
+           ],
+           [
+             makeSpecimen('stool1', 'Stool'), makeSpecimen('stool2', 'Stool'),
+             makeSpecimen('stool3', 'Stool'), resultObservation
+           ],
+           2);
+       makeService(server)
+           .getDiagnosticReports(stoolGroup, dateRange)
+           .then(reports => {
+             expect(reports.map(r => r.id)).toEqual([
+               'report1', 'report2', 'report3'
+             ]);
+             expect(reports[0].specimens[0].type).toEqual('Stool');
+             expect(reports[0].results[0].display)
+                 .toEqual('Ova and Parasite Exam');
+             // The shared result Observation is only read once.
+             expect(server.readRequests.filter(r => r === 'Observation/obs1')
+                        .length)
+                 .toBe(1);
+             expect(server.searchRequests[0].query.code)
+                 .toEqual(
+                     BCHMicrobioCode.CODING_STRING + '|OVAANDPARASITEEXAM');
+             done();
+           });
+     });
+
+  it('should only return reports with a specimen matching the group',
+     (done: DoneFn) => {
+       const server = new FakeFhirServer(
+           [makeReport('report1', 'swab1'), makeReport('report2', 'stool1')],
+           [
+             makeSpecimen('swab1', 'NP Swab'), makeSpecimen('stool1', 'Stool'),
+             resultObservation
+           ],
+           10);
+       makeService(server)
+           .getDiagnosticReports(stoolGroup, dateRange)
+           .then(reports => {
+             expect(reports.map(r => r.id)).toEqual(['report2']);
+             done();
+           });
+     });
+
+  it('should stop paging once limitCount reports are found', (done: DoneFn) => {
+    const server = new FakeFhirServer(
+        [
+          makeReport('report1', 'stool1'), makeReport('report2', 'stool2'),
+          makeReport('report3', 'stool3')
+        ],
+        [
+          makeSpecimen('stool1', 'Stool'), makeSpecimen('stool2', 'Stool'),
+          makeSpecimen('stool3', 'Stool'), resultObservation
+        ],
+        1);
+    const service = makeService(server);
+    service.diagnosticReportsPresentWithCodes(stoolGroup, dateRange)
+        .then(present => {
+          expect(present).toBe(true);
+          expect(server.searchRequests[0].query._count).toBe(1);
+          expect(server.readRequests).not.toContain('Specimen/stool2');
+          done();
+        });
+  });
+
+  it('should read the previous version of amended reports', (done: DoneFn) => {
+    const amended = {
+      ...makeReport('report1', 'stool1'),
+      status: 'amended',
+      meta: {versionId: '2'}
+    };
+    const server = new FakeFhirServer(
+        [amended, makeReport('report2', 'stool1')],
+        [makeSpecimen('stool1', 'Stool'), resultObservation], 10);
+    server.histories.set('DiagnosticReport/report1', [
+      amended, {...makeReport('report1', 'stool1'), meta: {versionId: '1'}}
+    ]);
+    makeService(server)
+        .getDiagnosticReports(stoolGroup, dateRange)
+        .then(reports => {
+          expect(server.historyRequests).toEqual(['DiagnosticReport/report1']);
+          expect(reports[0].previousVersion.versionId).toEqual('1');
+          expect(reports[0].previousVersion.results[0].display)
+              .toEqual('Ova and Parasite Exam');
+          expect(reports[1].previousVersion).toBeUndefined();
+          done();
+        });
+  });
+
+  it('should reject if a referenced resource cannot be read',
+     (done: DoneFn) => {
+       const server = new FakeFhirServer(
+           [makeReport('report1', 'missing')], [resultObservation], 10);
+       const service = new FhirHttpService(
+           jasmine.createSpyObj('DebuggerService', ['logError']),
+           {oauth2: {ready: (smart, err) => smart({patient: server})}}, null);
+       service.getDiagnosticReports(stoolGroup, dateRange).catch(err => {
+         expect(err).toBe('Resource not found');
+         done();
+       });
+     });
+});
+
+describe('FhirHttpService getObservationsWithCode paging', () => {
+  const code = new LOINCCode(
+      '718-7', new DisplayGrouping('concept', 'red'), 'Hemoglobin', true);
+  const dateRange = Interval.fromDateTimes(
+      DateTime.fromISO('2018-08-01T00:00:00.00'),
+      DateTime.fromISO('2018-08-31T00:00:00.00'));
+  const observations = Array.from(
+      Array(5).keys(),
+      day =>
+          makeSampleObservationJson(10 + day, DateTime.utc(2018, 8, day + 1)));
+
+  function makeService(server: FakeFhirServer): FhirHttpService {
+    return new FhirHttpService(
+        null, {oauth2: {ready: (smart, err) => smart({patient: server})}},
+        null);
+  }
+
+  it('should follow next links up to the maximum number of pages',
+     (done: DoneFn) => {
+       const server = new FakeFhirServer(observations, [], 2);
+       const service = makeService(server);
+       service.pagingOptions = {pageSize: 2, maxPages: 10};
+       service.getObservationsWithCode(code, dateRange).then(result => {
+         expect(result.map(obs => obs.value.value)).toEqual([
+           10, 11, 12, 13, 14
+         ]);
+         expect(server.searchRequests[0].query._count).toBe(2);
+         done();
+       });
+     });
+
+  it('should report progress and flag truncated results', (done: DoneFn) => {
+    const server = new FakeFhirServer(observations, [], 2);
+    const service = makeService(server);
+    service.pagingOptions = {pageSize: 2, maxPages: 2};
+    const progressEvents = [];
+    service.searchProgress.subscribe(progress => progressEvents.push(progress));
+    service.getObservationsWithCode(code, dateRange).then(result => {
+      expect(result.length).toBe(4);
+      const lastProgress = progressEvents[progressEvents.length - 1];
+      expect(lastProgress.codes).toEqual([code]);
+      expect(lastProgress.pagesLoaded).toBe(2);
+      expect(lastProgress.resourcesLoaded).toBe(4);
+      expect(lastProgress.done).toBe(true);
+      expect(lastProgress.truncated).toBe(true);
+      done();
+    });
+  });
+
+  it('should leave out and report observations that cannot be parsed',
+     (done: DoneFn) => {
+       const noValue = {...observations[1], id: 'obs2', valueQuantity: null};
+       const server = new FakeFhirServer(
+           [observations[0], noValue, observations[2]], [], 10);
+       const dataQuality = new DataQualityService();
+       const service = new FhirHttpService(
+           null, {oauth2: {ready: (smart, err) => smart({patient: server})}},
+           null, undefined, dataQuality);
+       service.getObservationsWithCode(code, dateRange).then(result => {
+         expect(result.map(obs => obs.value.value)).toEqual([10, 12]);
+         expect(dataQuality.dropped.length).toBe(1);
+         expect(dataQuality.dropped[0].id).toEqual('obs2');
+         expect(dataQuality.dropped[0].code).toEqual('718-7');
+         done();
+       });
+     });
+
+  it('should read the previous version of corrected observations',
+     (done: DoneFn) => {
+       const corrected = {
+         ...observations[0],
+         id: 'obs1',
+         status: 'corrected',
+         meta: {versionId: '3'}
+       };
+       const server = new FakeFhirServer([corrected, observations[1]], [], 10);
+       server.histories.set('Observation/obs1', [
+         corrected, {
+           ...observations[0],
+           id: 'obs1',
+           valueQuantity: {value: 100},
+           meta: {versionId: '2'}
+         }
+       ]);
+       makeService(server)
+           .getObservationsWithCode(code, dateRange)
+           .then(result => {
+             expect(result[0].isRevised).toBe(true);
+             expect(result[0].value.value).toEqual(10);
+             expect(result[0].previousVersion.value.value).toEqual(100);
+             expect(result[1].previousVersion).toBeUndefined();
+             done();
+           });
+     });
+
+  it('should not read histories for limited searches', (done: DoneFn) => {
+    const corrected = {...observations[0], id: 'obs1', status: 'corrected'};
+    const server = new FakeFhirServer([corrected], [], 10);
+    makeService(server)
+        .observationsPresentWithCode(code, dateRange)
+        .then(present => {
+          expect(present).toBe(true);
+          expect(server.historyRequests).toEqual([]);
+          done();
+        });
+  });
+
+  it('should not report progress for limited searches', (done: DoneFn) => {
+    const server = new FakeFhirServer(observations, [], 2);
+    const service = makeService(server);
+    const progressSpy = jasmine.createSpy('progress');
+    service.searchProgress.subscribe(progressSpy);
+    service.observationsPresentWithCode(code, dateRange).then(present => {
+      expect(present).toBe(true);
+      expect(server.searchRequests[0].query._count).toBe(1);
+      expect(progressSpy).not.toHaveBeenCalled();
+      done();
+    });
+  });
+});
+
+describe('FhirHttpService request coordination', () => {
+  const grouping = new DisplayGrouping('concept', 'red');
+  const dateRange = Interval.fromDateTimes(
+      DateTime.fromISO('2018-08-01T00:00:00.00'),
+      DateTime.fromISO('2018-08-31T00:00:00.00'));
+  const observations = [
+    makeSampleObservationJson(10, DateTime.utc(2018, 8, 1)),
+    makeSampleObservationJson(11, DateTime.utc(2018, 8, 2))
+  ];
+
+  function makeService(server: FakeFhirServer): FhirHttpService {
+    return new FhirHttpService(
+        null, {oauth2: {ready: (smart, err) => smart({patient: server})}},
+        null);
+  }
+
+  it('should send identical requests in flight only once', (done: DoneFn) => {
+    const server = new FakeFhirServer(observations, [], 10);
+    const service = makeService(server);
+    const code = new LOINCCode('718-7', grouping, 'Hemoglobin', true);
+    Promise
+        .all([
+          service.getObservationsWithCode(code, dateRange),
+          service.getObservationsWithCode(code, dateRange)
+        ])
+        .then(([first, second]) => {
+          expect(server.searchRequests.length).toBe(1);
+          expect(first.length).toBe(2);
+          expect(second).toBe(first);
+          done();
+        });
+  });
+
+  it('should batch checks for whether data is present', (done: DoneFn) => {
+    const server = new FakeFhirServer(observations, [], 10);
+    const service = makeService(server);
+    Promise
+        .all([
+          service.observationsPresentWithCode(
+              new LOINCCode('718-7', grouping, 'Hemoglobin', true), dateRange),
+          service.observationsPresentWithCode(
+              new LOINCCode('8867-4', grouping, 'Heart Rate', true), dateRange)
+        ])
+        .then(present => {
+          expect(present).toEqual([true, true]);
+          expect(server.searchRequests.length).toBe(0);
+          expect(server.batchRequests.length).toBe(1);
+          expect(server.batchRequests[0].entry.map(
+                     entry => entry.request.url.split('&')[0]))
+              .toEqual([
+                // Sibling hemoglobin codes are mapped onto 718-7 by the
+                // ConceptMap shipped with the app.
+                'Observation?code=' +
+                    encodeURIComponent([
+                      '718-7', '20509-6', '30313-1', '30350-3'
+                    ].map(code => LOINCCode.CODING_STRING + '|' + code)
+                                           .join(',')),
+                'Observation?code=' +
+                    encodeURIComponent(LOINCCode.CODING_STRING + '|8867-4')
+              ]);
+          done();
+        });
+  });
+});
+
+describe('FhirHttpService getObservationCodes', () => {
+  const dateRange = Interval.fromDateTimes(
+      DateTime.fromISO('2018-08-01T00:00:00.00'),
+      DateTime.fromISO('2018-08-31T00:00:00.00'));
+
+  function makeObservation(code: string, display: string, status = 'final') {
+    return {
+      resourceType: 'Observation',
+      status: status,
+      category: {coding: [{code: 'laboratory'}]},
+      code: {
+        coding:
+            [{system: LOINCCode.CODING_STRING, code: code, display: display}]
+      },
+      effectiveDateTime: '2018-08-02T00:00:00.00Z',
+      valueQuantity: {value: 1}
+    };
+  }
+
+  it('should count the codes of every page of the category', (done: DoneFn) => {
+    const server = new FakeFhirServer(
+        [
+          makeObservation('2345-7', 'Glucose'),
+          makeObservation('1988-5', 'C-Reactive Protein'),
+          makeObservation('2345-7', 'Glucose'),
+          makeObservation('2345-7', 'Glucose', 'entered-in-error')
+        ],
+        [], 2);
+    const service = new FhirHttpService(
+        null, {oauth2: {ready: (smart, err) => smart({patient: server})}},
+        null);
+    service.pagingOptions = {pageSize: 2, maxPages: 10};
+    service.getObservationCodes(ObservationCategory.Laboratory, dateRange)
+        .then(codes => {
+          expect(server.searchRequests[0].query.category).toEqual('laboratory');
+          expect(codes).toEqual([
+            {
+              code: '2345-7',
+              display: 'Glucose',
+              category: ObservationCategory.Laboratory,
+              count: 2
+            },
+            {
+              code: '1988-5',
+              display: 'C-Reactive Protein',
+              category: ObservationCategory.Laboratory,
+              count: 1
+            }
+          ]);
+          done();
+        });
+  });
+});
+
+describe('FhirHttpService transport failures', () => {
+  const code = new LOINCCode(
+      '718-7', new DisplayGrouping('concept', 'red'), 'Hemoglobin', true);
+  const dateRange = Interval.fromDateTimes(
+      DateTime.fromISO('2018-08-01T00:00:00.00'),
+      DateTime.fromISO('2018-08-31T00:00:00.00'));
+
+  function makeService(server: FakeFhirServer): FhirHttpService {
+    const service = new FhirHttpService(
+        jasmine.createSpyObj('DebuggerService', ['logError']),
+        {oauth2: {ready: (smart, err) => smart({patient: server})}}, null);
+    service.transport.options = {
+      maxRetries: 2,
+      initialBackoffMs: 0,
+      maxBackoffMs: 0,
+      maxConcurrentRequests: 6
+    };
+    return service;
+  }
+
+  it('should retry searches that fail for a transient reason',
+     (done: DoneFn) => {
+       const server = new FakeFhirServer(
+           [makeSampleObservationJson(10, DateTime.utc(2018, 8, 1))], [], 10);
+       server.failures.push(503, 0);
+       makeService(server)
+           .getObservationsWithCode(code, dateRange)
+           .then(observations => {
+             expect(observations.length).toBe(1);
+             expect(server.requestCount).toBe(3);
+             done();
+           });
+     });
+
+  it('should reject encounters with a FhirRequestError once retries run out',
+     (done: DoneFn) => {
+       const server = new FakeFhirServer([], [], 10);
+       server.failures.push(429, 429, 429);
+       makeService(server).getEncountersForPatient(dateRange).catch(error => {
+         expect(error instanceof FhirRequestError).toBe(true);
+         expect(error.status).toBe(429);
+         expect(error.attempts).toBe(3);
          done();
        });
      });
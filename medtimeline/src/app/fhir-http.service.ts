@@ -3,51 +3,100 @@
 // Use of this source code is governed by a BSD-style
 // license that can be found in the LICENSE file.
 
-import {Inject, Injectable, SecurityContext} from '@angular/core';
+import {Inject, Injectable, Optional, SecurityContext} from '@angular/core';
 import {DomSanitizer} from '@angular/platform-browser';
 import {Interval} from 'luxon';
 
 import {APP_TIMESPAN, FhirResourceType} from '../constants';
 
-import {BCHMicrobioCodeGroup} from './clinicalconcepts/bch-microbio-code';
+import {BCHMicrobioCode, BCHMicrobioCodeGroup} from './clinicalconcepts/bch-microbio-code';
+import {conceptMapper} from './clinicalconcepts/concept-map';
 import {LOINCCode} from './clinicalconcepts/loinc-code';
 import {documentReferenceLoinc} from './clinicalconcepts/resource-code-manager';
 import {RxNormCode} from './clinicalconcepts/rx-norm';
-import {DebuggerService} from './debugger.service';
+import {rxNormIngredients} from './clinicalconcepts/rx-norm-ingredients';
+import {DataQualityService} from './data-quality.service';
+import {DebuggerService, Severity} from './debugger.service';
 import {DiagnosticReport} from './fhir-data-classes/diagnostic-report';
 import {Encounter} from './fhir-data-classes/encounter';
+import {FhirVersion, fhirVersionFromString, medicationOrderResourceType} from './fhir-data-classes/fhir-version';
 import {MedicationAdministration} from './fhir-data-classes/medication-administration';
 import {MedicationOrder} from './fhir-data-classes/medication-order';
 import {Observation, ObservationStatus} from './fhir-data-classes/observation';
+import {Patient} from './fhir-data-classes/patient';
+import {DEFAULT_PAGING_OPTIONS, forEachPageFrom} from './fhir-paging';
+import {FhirRecorder} from './fhir-recorder';
+import {TransportPolicy} from './fhir-transport';
 import {FhirService} from './fhir.service';
+import {ObservationCategory, ObservationCode, tallyObservationCodes} from './observation-codes';
+import {RequestCoordinator, toSearchUrl} from './request-coordinator';
 import {SMART_ON_FHIR_CLIENT} from './smart-on-fhir-client';
 
 
 const GREATER_OR_EQUAL = 'ge';
 const LESS_OR_EQUAL = 'le';
 
-// The Cerner implementation has a maximum result return of 100 for
-// observations.
-const CERNER_MAX_OBS_RESULTS_RETURNED = 100;
+/**
+ * Describes a request, so that identical requests can share a response.
+ */
+function requestKey(...parts: any[]): string {
+  return JSON.stringify(parts);
+}
+
+/**
+ * A resource whose results may be revised after it is issued, such as an
+ * Observation or a DiagnosticReport.
+ */
+interface RevisableResource<T> {
+  readonly id: string;
+  readonly versionId: string;
+  readonly isRevised: boolean;
+  previousVersion: T;
+}
 
 @Injectable()
 export class FhirHttpService extends FhirService {
   readonly smartApiPromise: Promise<any>;
+  readonly fhirVersionPromise: Promise<FhirVersion>;
+  // How many pages of search results to retrieve for each search.
+  pagingOptions = DEFAULT_PAGING_OPTIONS;
+  // Retries transient failures and limits how many requests are sent to the
+  // server at once.
+  readonly transport = new TransportPolicy();
   errorMessage: string;
 
+  // Merges identical requests and batches small searches, since several cards
+  // often ask for data about the same codes at once.
+  private readonly coordinator = new RequestCoordinator();
+
   private createContentTypeString = 'application/xhtml+xml;charset=utf-8';
 
   constructor(
       private debugService: DebuggerService,
       @Inject(SMART_ON_FHIR_CLIENT) smartOnFhirClient: any,
-      private sanitizer: DomSanitizer) {
+      private sanitizer: DomSanitizer, @Optional() recorder?: FhirRecorder,
+      private dataQuality: DataQualityService = new DataQualityService()) {
     super();
     // Create a promise which resolves to the smart API when the smart API is
     // ready. This allows clients of this service to call service methods
     // which depend on the API, regardless of whether the API is ready or not.
+    // All requests made through the API go through the transport policy, and
+    // their final outcomes are recorded if recording is turned on.
     this.smartApiPromise = new Promise(
-        (resolve, reject) => smartOnFhirClient.oauth2.ready(
-            smart => resolve(smart), err => reject(err)));
+        (resolve, reject) => smartOnFhirClient.oauth2.ready(smart => {
+          const smartApi = this.transport.wrapSmartApi(smart);
+          resolve(
+              recorder && recorder.enabled ? recorder.wrapSmartApi(smartApi) :
+                                             smartApi);
+        }, err => reject(err)));
+    // The server reports the version of the FHIR standard it implements in
+    // its CapabilityStatement (called Conformance in DSTU2). All resources
+    // from the server are parsed against that version.
+    this.fhirVersionPromise = this.smartApiPromise.then(
+        smartApi => smartApi.patient.api.conformance({}).then(response => {
+          this.coordinator.useCapabilities(response.data);
+          return fhirVersionFromString(response.data.fhirVersion);
+        }));
   }
 
   /**
@@ -63,86 +112,218 @@ export class FhirHttpService extends FhirService {
     const queryParams = {
       type: FhirResourceType.Observation,
       query: {
-        code: LOINCCode.CODING_STRING + '|' + code.codeString,
+        // Observations reported with the codes mapped onto this one are
+        // searched for too.
+        code: [{system: LOINCCode.CODING_STRING, code: code.codeString}]
+                  .concat(conceptMapper.sourcesOf(code.codeString))
+                  .map(source => source.system + '|' + source.code)
+                  .join(','),
         date: {
           $and: [
             GREATER_OR_EQUAL + dateRange.start.toISO(),
             LESS_OR_EQUAL + dateRange.end.toISO()
           ]
         },
-        _count: limitCount ? limitCount : CERNER_MAX_OBS_RESULTS_RETURNED
+        _count: limitCount ? limitCount : this.pagingOptions.pageSize
       }
     };
 
-    return this.smartApiPromise.then(
-        smartApi =>
-            smartApi.patient.api.fetchAll(queryParams)
-                .then(
-                    (results: any[]) =>
-                        results
-                            .map(result => {
-                              return new Observation(result);
-                            })
-                            // TODO(b/126775896): Determine which statuses to
-                            // filter out.
-                            .filter(
-                                result => result.status !==
-                                    ObservationStatus.EnteredInError),
-                    // Do not return any Observations for this code if one of
-                    // the Observation constructions throws an error.
-                    rejection => {
-                      this.debugService.logError(rejection);
-                      throw rejection;
-                    }));
+    return this.coordinator.share(
+        requestKey(
+            FhirResourceType.Observation, code.codeString, dateRange.toISO(),
+            limitCount),
+        () => {
+          const observations = new Array<Observation>();
+          return this.whenReady().then(
+              ([smartApi, fhirVersion]) =>
+                  forEachPageFrom(
+                      smartApi,
+                      this.searchFirstPage(smartApi, queryParams, limitCount),
+                      this.pagingOptions,
+                      bundle => {
+                        // Search results may also hold other resources, such as
+                        // OperationOutcomes. Observations that cannot be parsed
+                        // are left out and reported, rather than failing the
+                        // whole search.
+                        for (const entry of (
+                                 bundle.entry ? bundle.entry : [])) {
+                          if (entry.resource.resourceType ===
+                              FhirResourceType.Observation) {
+                            const observation = this.parseOrReport(
+                                entry.resource,
+                                json => new Observation(json, fhirVersion));
+                            if (observation) {
+                              observations.push(observation);
+                            }
+                          }
+                        }
+                        // Stop paging once we have enough observations.
+                        return Promise.resolve(
+                            !!limitCount && observations.length >= limitCount);
+                      },
+                      [code],
+                      // Only report progress for full searches, rather than
+                      // checks for whether any data is present.
+                      limitCount ?
+                          undefined :
+                          progress => this.searchProgress.next(progress))
+                      .then(
+                          () => {
+                            const results =
+                                observations
+                                    .slice(
+                                        0, limitCount ? limitCount : undefined)
+                                    // TODO(b/126775896): Determine which
+                                    // statuses to filter out.
+                                    .filter(
+                                        result => result.status !==
+                                            ObservationStatus.EnteredInError);
+                            // Checks for whether any data is present do not
+                            // show the values, so skip their history.
+                            return limitCount ?
+                                results :
+                                this.addPreviousVersions(
+                                        smartApi, FhirResourceType.Observation,
+                                        results,
+                                        json => Promise.resolve(
+                                            new Observation(json, fhirVersion)))
+                                    .then(() => results);
+                          },
+                          rejection => {
+                            this.logFailure(
+                                rejection,
+                                toSearchUrl(queryParams, smartApi.patient.id));
+                            throw rejection;
+                          }));
+        });
   }
 
   /**
-   * Gets medication data from a specified date range with a specific Rx code
-   * @param code The RxNormCode codes for which to get observations.
+   * Gets the LOINC codes of the observations in a category, whether or not
+   * the app knows about them. Only the codes are read from the search
+   * results, so observations the app cannot parse are not reported.
+   * @param category The category of the observations.
    * @param dateRange The time interval observations should fall between.
-   * @param limitCount If provided, the maximum number of observations to
-   *     query for.
    */
-  getMedicationAdministrationsWithCode(
-      code: RxNormCode, dateRange: Interval,
-      limitCount?: number): Promise<MedicationAdministration[]> {
+  getObservationCodes(category: ObservationCategory, dateRange: Interval):
+      Promise<ObservationCode[]> {
     const queryParams = {
-      type: FhirResourceType.MedicationAdministration,
+      type: FhirResourceType.Observation,
       query: {
-        effectivetime: {
+        category: category,
+        date: {
           $and: [
             GREATER_OR_EQUAL + dateRange.start.toISO(),
             LESS_OR_EQUAL + dateRange.end.toISO()
           ]
         },
-        medication: {
-          code: RxNormCode.CODING_STRING + '|' + code.codeString,
-        }
+        _count: this.pagingOptions.pageSize
       }
     };
 
-    if (limitCount) {
-      queryParams.query['_count'] = limitCount;
-    }
+    return this.coordinator.share(
+        requestKey(FhirResourceType.Observation, category, dateRange.toISO()),
+        () => {
+          const jsons = new Array<any>();
+          return this.smartApiPromise.then(
+              smartApi =>
+                  forEachPageFrom(
+                      smartApi, smartApi.patient.api.search(queryParams),
+                      this.pagingOptions,
+                      bundle => {
+                        for (const entry of (
+                                 bundle.entry ? bundle.entry : [])) {
+                          if (entry.resource.resourceType ===
+                                  FhirResourceType.Observation &&
+                              entry.resource.status !== 'entered-in-error') {
+                            jsons.push(entry.resource);
+                          }
+                        }
+                        return Promise.resolve(false);
+                      })
+                      .then(
+                          () => tallyObservationCodes(jsons, category),
+                          rejection => {
+                            this.logFailure(
+                                rejection,
+                                toSearchUrl(queryParams, smartApi.patient.id));
+                            throw rejection;
+                          }));
+        });
+  }
 
-    return this.smartApiPromise.then(
-        smartApi => smartApi.patient.api.fetchAll(queryParams)
-                        .then(
-                            (results: any[]) => results.map(result => {
-                              try {
-                                return new MedicationAdministration(result);
-                              } catch (e) {
-                                this.debugService.logError(e);
-                                throw e;
-                              }
-                            }),
-                            // Do not return any MedicationAdministrations for
-                            // this code if one of the MedicationAdministration
-                            // constructions throws an error.
-                            rejection => {
-                              this.debugService.logError(rejection);
-                              throw rejection;
-                            }));
+  /**
+   * Gets medication data from a specified date range with a specific Rx code
+   * @param code The RxNormCode codes for which to get observations.
+   * @param dateRange The time interval observations should fall between.
+   * @param limitCount If provided, the maximum number of observations to
+   *     query for.
+   */
+  getMedicationAdministrationsWithCode(
+      code: RxNormCode, dateRange: Interval,
+      limitCount?: number): Promise<MedicationAdministration[]> {
+    const effectiveTime = {
+      $and: [
+        GREATER_OR_EQUAL + dateRange.start.toISO(),
+        LESS_OR_EQUAL + dateRange.end.toISO()
+      ]
+    };
+    // Administrations coded as one of the medication's products are displayed
+    // as the medication, so they are searched for too.
+    const medicationCode =
+        [code.codeString]
+            .concat(rxNormIngredients.productsOf(code.codeString)
+                        .map(product => product.code))
+            .map(codeString => RxNormCode.CODING_STRING + '|' + codeString)
+            .join(',');
+
+    return this.coordinator.share(
+        requestKey(
+            FhirResourceType.MedicationAdministration, code.codeString,
+            dateRange.toISO(), limitCount),
+        () => this.whenReady().then(([smartApi, fhirVersion]) => {
+          // R4 renames the effectivetime search parameter to effective-time,
+          // and searches on the medication code directly.
+          const queryParams = {
+            type: FhirResourceType.MedicationAdministration,
+            query: fhirVersion === FhirVersion.R4 ?
+                {'effective-time': effectiveTime, code: medicationCode} :
+                {
+                  effectivetime: effectiveTime,
+                  medication: {
+                    code: medicationCode,
+                  }
+                }
+          };
+
+          if (limitCount) {
+            queryParams.query['_count'] = limitCount;
+          }
+
+          // Limited searches only need the first page of results, which can be
+          // batched with other searches.
+          const resources: Promise<any[]> = limitCount ?
+              this.searchFirstPage(smartApi, queryParams, limitCount)
+                  .then(
+                      response =>
+                          (response.data.entry ? response.data.entry : [])
+                              .map(entry => entry.resource)
+                              .filter(
+                                  resource => resource.resourceType ===
+                                      FhirResourceType.MedicationAdministration)
+                              .slice(0, limitCount)) :
+              smartApi.patient.api.fetchAll(queryParams);
+
+          return resources.then(
+              (results: any[]) => this.parseAllOrReport(
+                  results,
+                  json => new MedicationAdministration(json, fhirVersion)),
+              rejection => {
+                this.logFailure(
+                    rejection, toSearchUrl(queryParams, smartApi.patient.id));
+                throw rejection;
+              });
+        }));
   }
 
   /**
@@ -150,21 +331,35 @@ export class FhirHttpService extends FhirService {
    * @param id The id to pull the order from.
    */
   getMedicationOrderWithId(id: string): Promise<MedicationOrder> {
-    return this.smartApiPromise.then(
-        smartApi =>
-            smartApi.patient.api
-                .read({type: FhirResourceType.MedicationOrder, 'id': id})
-                .then(
-                    (result: any) => {
-                      return new MedicationOrder(result.data);
-                    },
-                    // Do not return any MedicationOrders for
-                    // this code if one of the MedicationOrder
-                    // constructions throws an error.
-                    rejection => {
-                      this.debugService.logError(rejection);
-                      throw rejection;
-                    }));
+    return this.coordinator.share(
+        requestKey(FhirResourceType.MedicationOrder, id),
+        () => this.whenReady().then(
+            ([smartApi, fhirVersion]) =>
+                smartApi.patient.api
+                    .read({
+                      type: medicationOrderResourceType(fhirVersion),
+                      'id': id
+                    })
+                    .then(
+                        (result: any) => {
+                          try {
+                            return new MedicationOrder(
+                                result.data, fhirVersion);
+                          } catch (e) {
+                            // There is no order to return, but the order is
+                            // reported so that it can be looked into.
+                            this.dataQuality.recordFailure(result.data, e);
+                            throw e;
+                          }
+                        },
+                        rejection => {
+                          this.logFailure(
+                              rejection,
+                              [medicationOrderResourceType(fhirVersion),
+                               id].join('/'),
+                              id);
+                          throw rejection;
+                        })));
   }
 
   /**
@@ -173,29 +368,56 @@ export class FhirHttpService extends FhirService {
    */
   getMedicationAdministrationsWithOrder(id: string):
       Promise<MedicationAdministration[]> {
-    const queryParams = {
-      type: FhirResourceType.MedicationAdministration,
+    return this.coordinator.share(
+        requestKey(FhirResourceType.MedicationAdministration, id),
+        () => this.whenReady().then(([smartApi, fhirVersion]) => {
+          // The search parameter for the order is called request in R4.
+          const orderReference = {
+            reference: [medicationOrderResourceType(fhirVersion), id].join('/')
+          };
+          const queryParams = {
+            type: FhirResourceType.MedicationAdministration,
+            query: fhirVersion === FhirVersion.R4 ?
+                {request: orderReference} :
+                {prescription: orderReference}
+          };
+          return smartApi.patient.api.fetchAll(queryParams)
+              .then(
+                  (results: any[]) => this.parseAllOrReport(
+                      results,
+                      json => new MedicationAdministration(json, fhirVersion)),
+                  rejection => {
+                    this.logFailure(
+                        rejection,
+                        toSearchUrl(queryParams, smartApi.patient.id));
+                    throw rejection;
+                  });
+        }));
+  }
 
-      query: {
-        prescription:
-            {reference: [FhirResourceType.MedicationOrder, id].join('/')}
-      }
-    };
-    return this.smartApiPromise.then(
-        smartApi => smartApi.patient.api.fetchAll(queryParams)
-                        .then(
-                            (results: any[]) => {
-                              results.map(result => {
-                                return new MedicationAdministration(result);
-                              });
-                            },
-                            // Do not return any MedicationOrders for
-                            // this code if one of the MedicationOrder
-                            // constructions throws an error.
-                            rejection => {
-                              this.debugService.logError(rejection);
-                              throw rejection;
-                            }));
+  /**
+   * Reads the Patient resource of the patient the app was launched for.
+   */
+  getPatient(): Promise<Patient> {
+    return this.coordinator.share(
+        requestKey(FhirResourceType.Patient),
+        () => this.whenReady().then(
+            ([smartApi, fhirVersion]) =>
+                smartApi.patient.api
+                    .read({
+                      type: FhirResourceType.Patient,
+                      id: smartApi.patient.id
+                    })
+                    .then(
+                        (result: any) => new Patient(result.data, fhirVersion),
+                        rejection => {
+                          this.logFailure(
+                              rejection,
+                              FhirResourceType.Patient + '/' +
+                                  smartApi.patient.id,
+                              smartApi.patient.id);
+                          throw rejection;
+                        })));
   }
 
   /**
@@ -216,24 +438,32 @@ export class FhirHttpService extends FhirService {
     // filtering by date at this point, so we grab all the encounters
     // then filter them.
 
-    return this.smartApiPromise.then(
-        smartApi => smartApi.patient.api.fetchAll(queryParams)
-                        .then(
-                            (results: any[]) => {
-                              results =
-                                  results
-                                      .map(result => {
-                                        return new Encounter(result);
-                                      })
-                                      .filter(
-                                          encounter =>
-                                              dateRange.intersection(
-                                                  encounter.period) !== null);
-                              return results;
-                            },
-                            rejection => {
-                              this.debugService.logError(rejection);
-                            }));
+    return this.coordinator.share(
+        requestKey(FhirResourceType.Encounter, dateRange.toISO()),
+        () => this.whenReady().then(
+            ([smartApi, fhirVersion]) =>
+                smartApi.patient.api.fetchAll(queryParams)
+                    .then(
+                        (results: any[]) => {
+                          results =
+                              results
+                                  .map(result => {
+                                    return new Encounter(result, fhirVersion);
+                                  })
+                                  .filter(
+                                      encounter =>
+                                          dateRange.intersection(
+                                              encounter.period) !== null);
+                          return results;
+                        },
+                        // Let callers decide what to show when the encounters
+                        // cannot be retrieved.
+                        rejection => {
+                          this.logFailure(
+                              rejection,
+                              toSearchUrl(queryParams, smartApi.patient.id));
+                          throw rejection;
+                        })));
   }
 
   /**
@@ -287,14 +517,330 @@ export class FhirHttpService extends FhirService {
 
   /**
    * Gets the DiagnosticReports for the patient for any report that falls in
-   * the given date range.
+   * the given date range, whose results are in the codeGroup provided and
+   * whose specimens match the codeGroup's label.
    * @param codeGroup The CodeGroup to retrieve DiagnosticReports for.
    * @param dateRange Return all DiagnosticReports that covered any time in this
    *   date range.
+   * @param limitCount If provided, the maximum number of DiagnosticReports to
+   *     return.
+   */
+  getDiagnosticReports(
+      codeGroup: BCHMicrobioCodeGroup, dateRange: Interval,
+      limitCount?: number): Promise<DiagnosticReport[]> {
+    const queryParams = {
+      type: FhirResourceType.DiagnosticReport,
+      query: {
+        code: codeGroup.resourceCodes
+                  .map(
+                      code =>
+                          BCHMicrobioCode.CODING_STRING + '|' + code.codeString)
+                  .join(','),
+        date: {
+          $and: [
+            GREATER_OR_EQUAL + dateRange.start.toISO(),
+            LESS_OR_EQUAL + dateRange.end.toISO()
+          ]
+        }
+      }
+    };
+
+    if (limitCount) {
+      queryParams.query['_count'] = limitCount;
+    }
+
+    return this.coordinator.share(
+        requestKey(
+            FhirResourceType.DiagnosticReport, codeGroup.label,
+            queryParams.query.code, dateRange.toISO(), limitCount),
+        () => {
+          const reports = new Array<DiagnosticReport>();
+          // Reports often share Specimens and results, so referenced
+          // resources are only read once for the whole search.
+          const knownResources = new Map<string, Promise<any>>();
+          return this.whenReady().then(
+              ([smartApi, fhirVersion]) =>
+                  forEachPageFrom(
+                      smartApi,
+                      this.searchFirstPage(smartApi, queryParams, limitCount),
+                      this.pagingOptions,
+                      bundle =>
+                          this.getReportsFromBundle(
+                                  smartApi, bundle, fhirVersion, knownResources)
+                              .then(reportsOnPage => {
+                                for (const report of reportsOnPage.filter(
+                                         r => r.specimens.some(
+                                             s =>
+                                                 s.type === codeGroup.label))) {
+                                  reports.push(report);
+                                }
+                                // Stop paging once we have enough
+                                // reports.
+                                return !!limitCount &&
+                                    reports.length >= limitCount;
+                              }),
+                      codeGroup.resourceCodes,
+                      limitCount ?
+                          undefined :
+                          progress => this.searchProgress.next(progress))
+                      .then(
+                          () => {
+                            const results = reports.slice(
+                                0, limitCount ? limitCount : undefined);
+                            return limitCount ?
+                                results :
+                                this.addPreviousVersions(
+                                        smartApi,
+                                        FhirResourceType.DiagnosticReport,
+                                        results,
+                                        json => this.makeReport(
+                                            smartApi, json, fhirVersion,
+                                            knownResources))
+                                    .then(() => results);
+                          },
+                          rejection => {
+                            this.logFailure(
+                                rejection,
+                                toSearchUrl(queryParams, smartApi.patient.id));
+                            throw rejection;
+                          }));
+        });
+  }
+
+  /**
+   * Waits until the smart API is ready and the server's FHIR version is known.
+   * @returns The smart API and the version of the FHIR standard the server
+   *     uses.
+   */
+  private whenReady(): Promise<[any, FhirVersion]> {
+    return Promise.all([this.smartApiPromise, this.fhirVersionPromise]);
+  }
+
+  /**
+   * Retrieves the first page of results for a search. Searches that only ask
+   * for a few results, such as checks for whether any data is present, are
+   * batched with the other searches made at the same time.
+   * @param smartApi The SMART API to search with.
+   * @param queryParams The search parameters.
+   * @param limitCount If provided, the maximum number of results wanted.
    */
-  // TODO(b/119121684): Make API calls to get DiagnosticReports.
-  getDiagnosticReports(codeGroup: BCHMicrobioCodeGroup, dateRange: Interval):
-      Promise<DiagnosticReport[]> {
-    return Promise.resolve([]);
+  private searchFirstPage(smartApi: any, queryParams: any, limitCount?: number):
+      Promise<any> {
+    return limitCount ? this.coordinator.batchSearch(smartApi, queryParams) :
+                        smartApi.patient.api.search(queryParams);
   }
+
+  /**
+   * Makes DiagnosticReports out of all the DiagnosticReport entries in a
+   * search result Bundle, resolving any Specimens and Observations that the
+   * reports reference rather than contain.
+   * @param smartApi The SMART API to read referenced resources with.
+   * @param bundle The search result Bundle.
+   * @param fhirVersion The version of the FHIR standard the server uses.
+   * @param knownResources Resources that have already been retrieved or
+   *     requested, keyed by "resourceType/id".
+   */
+  private getReportsFromBundle(
+      smartApi: any, bundle: any, fhirVersion: FhirVersion,
+      knownResources: Map<string, Promise<any>>): Promise<DiagnosticReport[]> {
+    const entries = bundle.entry ? bundle.entry : [];
+    // Resources pulled in with the search results (for example, through
+    // _include) do not need to be read again.
+    for (const entry of entries) {
+      if (entry.resource && entry.resource.id) {
+        knownResources.set(
+            [entry.resource.resourceType, entry.resource.id].join('/'),
+            Promise.resolve(entry.resource));
+      }
+    }
+
+    const reportJsons: any[] =
+        entries.map(entry => entry.resource)
+            .filter(
+                resource => resource &&
+                    resource.resourceType ===
+                        FhirResourceType.DiagnosticReport);
+    // Reports that cannot be parsed are left out, rather than failing the
+    // whole search.
+    return Promise
+        .all(reportJsons.map(
+            json =>
+                this.makeReport(smartApi, json, fhirVersion, knownResources)))
+        .then(reports => reports.filter(report => report !== undefined));
+  }
+
+  /**
+   * Makes a DiagnosticReport, resolving any Specimens and Observations that
+   * the report references rather than contains.
+   * @param smartApi The SMART API to read referenced resources with.
+   * @param json The JSON of the report.
+   * @param fhirVersion The version of the FHIR standard the server uses.
+   * @param knownResources Resources that have already been retrieved or
+   *     requested, keyed by "resourceType/id".
+   * @returns The report, or undefined if it could not be parsed, in which
+   *     case it is recorded in the data quality report.
+   */
+  private makeReport(
+      smartApi: any, json: any, fhirVersion: FhirVersion,
+      knownResources: Map<string, Promise<any>>): Promise<DiagnosticReport> {
+    return this
+        .resolveReferences(
+            smartApi,
+            [].concat(
+                json.specimen ? json.specimen : [],
+                json.result ? json.result : []),
+            knownResources)
+        .then(
+            referenced => this.parseOrReport(
+                json,
+                reportJson =>
+                    new DiagnosticReport(reportJson, referenced, fhirVersion)));
+  }
+
+  /**
+   * Logs a request to the FHIR server that failed, with the request, so that
+   * it can be looked into from the debugger.
+   * @param rejection Why the request failed.
+   * @param query The request that failed.
+   * @param resourceId The id of the resource requested, if there was one.
+   * @param severity How serious the failure is.
+   */
+  private logFailure(
+      rejection: any, query: string, resourceId?: string,
+      severity = Severity.Error) {
+    this.debugService.logError(rejection, {
+      source: 'FhirHttpService',
+      severity: severity,
+      query: query,
+      resourceId: resourceId
+    });
+  }
+
+  /**
+   * Makes one of the app's data classes out of a resource's JSON. Resources
+   * that cannot be parsed are recorded in the data quality report instead.
+   * @param json The JSON of the resource.
+   * @param parse Makes the data class out of the JSON.
+   * @returns The parsed resource, or undefined if it could not be parsed.
+   */
+  private parseOrReport<T>(json: any, parse: (json: any) => T): T {
+    try {
+      return parse(json);
+    } catch (e) {
+      this.dataQuality.recordFailure(json, e);
+      return undefined;
+    }
+  }
+
+  /**
+   * Makes data classes out of a list of resources, leaving out and reporting
+   * the resources that cannot be parsed.
+   * @param jsons The JSON of the resources.
+   * @param parse Makes the data class out of the JSON.
+   */
+  private parseAllOrReport<T>(jsons: any[], parse: (json: any) => T): T[] {
+    return jsons.map(json => this.parseOrReport(json, parse))
+        .filter(resource => resource !== undefined);
+  }
+
+  /**
+   * Reads the history of each amended or corrected resource, and links the
+   * resource to the version it replaced so that the previous result can be
+   * shown alongside the revised one. A history that cannot be read is logged
+   * rather than failing the search, since the current versions can still be
+   * shown.
+   * @param smartApi The SMART API to read the histories with.
+   * @param type The type of the resources.
+   * @param resources The resources, some of which may have been revised.
+   * @param parse Makes a resource out of the JSON of one of its versions.
+   */
+  private addPreviousVersions<T extends RevisableResource<T>>(
+      smartApi: any, type: FhirResourceType, resources: T[],
+      parse: (json: any) => Promise<T>): Promise<void> {
+    return Promise
+        .all(
+            resources.filter(resource => resource.isRevised && resource.id)
+                .map(
+                    resource =>
+                        smartApi.patient.api
+                            .resourceHistory({type: type, id: resource.id})
+                            .then((result: any) => {
+                              const json = previousVersionJson(
+                                  result.data, resource.versionId);
+                              return json ? parse(json) : undefined;
+                            })
+                            .then(
+                                (previous: T) => {
+                                  resource.previousVersion = previous;
+                                },
+                                rejection => {
+                                  this.logFailure(
+                                      rejection,
+                                      [type, resource.id, '_history'].join('/'),
+                                      resource.id, Severity.Warning);
+                                })))
+        .then(() => undefined);
+  }
+
+  /**
+   * Resolves a list of FHIR references to the resources they point to.
+   * References to contained resources (starting with '#') are skipped, since
+   * those are already part of the referencing resource.
+   * @param smartApi The SMART API to read referenced resources with.
+   * @param references The FHIR Reference elements to resolve.
+   * @param knownResources Resources that have already been retrieved or
+   *     requested, keyed by "resourceType/id". Reads made here are added, so
+   *     that each resource is only read once.
+   */
+  private resolveReferences(
+      smartApi: any, references: any[],
+      knownResources: Map<string, Promise<any>>): Promise<any[]> {
+    const externalReferences =
+        references.map(ref => ref.reference)
+            .filter(reference => reference && !reference.startsWith('#'));
+    return Promise.all(externalReferences.map(reference => {
+      // References may be relative ("Specimen/123") or absolute
+      // ("https://server/Specimen/123"). Earlier versions of a report may
+      // reference the versions of its results they held
+      // ("Observation/123/_history/2").
+      const parts = reference.split('/');
+      const versionId =
+          parts.length >= 4 && parts[parts.length - 2] === '_history' ?
+          parts[parts.length - 1] :
+          undefined;
+      const [type, id] = versionId ? parts.slice(-4, -2) : parts.slice(-2);
+      const key = versionId ? [type, id, '_history', versionId].join('/') :
+                              [type, id].join('/');
+      if (!knownResources.has(key)) {
+        knownResources.set(
+            key,
+            (versionId ? smartApi.patient.api.vread(
+                             {type: type, id: id, versionId: versionId}) :
+                         smartApi.patient.api.read({type: type, id: id}))
+                .then((result: any) => result.data));
+      }
+      return knownResources.get(key);
+    }));
+  }
+}
+
+/**
+ * Finds the version a resource replaced in the Bundle of the resource's
+ * history, which lists the versions from newest to oldest.
+ * https://www.hl7.org/fhir/R4/http.html#history
+ * @param bundle The history Bundle.
+ * @param versionId The version of the resource we have. If unset, the newest
+ *     version is taken to be the one we have.
+ * @returns The JSON of the previous version, or undefined if there is none.
+ */
+function previousVersionJson(bundle: any, versionId?: string): any {
+  // Versions that were deleted have no resource.
+  const versions = (bundle && bundle.entry ? bundle.entry : [])
+                       .map(entry => entry.resource)
+                       .filter(resource => !!resource);
+  const current = versionId ?
+      versions.findIndex(
+          resource => resource.meta && resource.meta.versionId === versionId) :
+      0;
+  return current >= 0 ? versions[current + 1] : undefined;
 }
@@ -0,0 +1,74 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {forEachPage, SearchProgress} from './fhir-paging';
+
+describe('forEachPage', () => {
+  // Makes a SMART API that serves the given number of pages, each holding
+  // one resource.
+  function makeSmartApi(pageCount: number) {
+    const makePage = (page: number) => ({
+      data: {
+        resourceType: 'Bundle',
+        total: pageCount,
+        entry: [{resource: {resourceType: 'Observation', id: page.toString()}}],
+        link: page < pageCount - 1 ?
+            [{relation: 'next', url: (page + 1).toString()}] :
+            []
+      }
+    });
+    return {
+      patient: {
+        api: {
+          search: () => Promise.resolve(makePage(0)),
+          nextPage: (params: any) => Promise.resolve(makePage(Number(
+              params.bundle.link.find(link => link.relation === 'next').url)))
+        }
+      }
+    };
+  }
+
+  it('should process every page', (done: DoneFn) => {
+    const ids = [];
+    forEachPage(makeSmartApi(3), {}, {pageSize: 1, maxPages: 10}, bundle => {
+      ids.push(bundle.entry[0].resource.id);
+      return Promise.resolve(false);
+    }).then(progress => {
+      expect(ids).toEqual(['0', '1', '2']);
+      expect(progress.done).toBe(true);
+      expect(progress.truncated).toBe(false);
+      expect(progress.total).toBe(3);
+      done();
+    });
+  });
+
+  it('should stop when processPage asks it to', (done: DoneFn) => {
+    forEachPage(
+        makeSmartApi(3), {}, {pageSize: 1, maxPages: 10},
+        bundle => Promise.resolve(true))
+        .then(progress => {
+          expect(progress.pagesLoaded).toBe(1);
+          expect(progress.truncated).toBe(false);
+          done();
+        });
+  });
+
+  it('should stop at the maximum number of pages', (done: DoneFn) => {
+    const progressEvents = new Array<SearchProgress>();
+    forEachPage(
+        makeSmartApi(5), {}, {pageSize: 1, maxPages: 2},
+        bundle => Promise.resolve(false), [],
+        progress => progressEvents.push(progress))
+        .then(progress => {
+          expect(progress.pagesLoaded).toBe(2);
+          expect(progress.resourcesLoaded).toBe(2);
+          expect(progress.truncated).toBe(true);
+          // One event for each page, and one when the search finishes.
+          expect(progressEvents.length).toBe(3);
+          expect(progressEvents[0].done).toBe(false);
+          done();
+        });
+  });
+});
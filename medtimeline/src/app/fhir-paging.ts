@@ -0,0 +1,134 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {ResourceCode} from './clinicalconcepts/resource-code-group';
+
+/**
+ * Settings for how many pages of search results to retrieve from a FHIR
+ * server.
+ */
+export interface PagingOptions {
+  /** The number of resources to ask for on each page (the _count). */
+  pageSize: number;
+  /**
+   * The maximum number of pages to retrieve for one search. Any results past
+   * this many pages are left out.
+   */
+  maxPages: number;
+}
+
+/**
+ * The default paging settings. The Cerner implementation returns at most 100
+ * resources on each page.
+ */
+export const DEFAULT_PAGING_OPTIONS: PagingOptions = {
+  pageSize: 100,
+  maxPages: 10
+};
+
+// Used to tell apart the progress of different searches.
+let nextSearchId = 0;
+
+/**
+ * The progress of a search whose results are split over several pages.
+ */
+export class SearchProgress {
+  constructor(
+      /** Identifies the search, which may be one of several for a code. */
+      readonly searchId: number,
+      /** The codes being searched for. */
+      readonly codes: ResourceCode[],
+      /** The number of pages retrieved so far. */
+      readonly pagesLoaded: number,
+      /** The number of resources retrieved so far. */
+      readonly resourcesLoaded: number,
+      /**
+       * The total number of resources matching the search, if the server
+       * reports it.
+       */
+      readonly total: number,
+      /** Whether the search has finished. */
+      readonly done = false,
+      /**
+       * Whether the search stopped at the maximum number of pages before all
+       * its results were retrieved.
+       */
+      readonly truncated = false) {}
+}
+
+/**
+ * Runs a search and calls processPage with each page of results, following
+ * the Bundle's "next" link until there are no more pages, processPage
+ * resolves to true, or the maximum number of pages has been retrieved.
+ * @param smartApi The SMART API to search with.
+ * @param queryParams The search parameters.
+ * @param pagingOptions How many pages to retrieve.
+ * @param processPage Called with each search result Bundle. Resolves to
+ *     whether to stop retrieving pages.
+ * @param codes The codes being searched for, to report progress with.
+ * @param onProgress If provided, called after each page is retrieved and
+ *     once the search finishes.
+ * @returns The progress of the search once it has finished.
+ */
+export function forEachPage(
+    smartApi: any, queryParams: any, pagingOptions: PagingOptions,
+    processPage: (bundle: any) => Promise<boolean>, codes: ResourceCode[] = [],
+    onProgress?: (progress: SearchProgress) => void): Promise<SearchProgress> {
+  return forEachPageFrom(
+      smartApi, smartApi.patient.api.search(queryParams), pagingOptions,
+      processPage, codes, onProgress);
+}
+
+/**
+ * Like forEachPage, but starts from a first page of search results that has
+ * already been requested, for example as part of a batch.
+ * @param smartApi The SMART API to retrieve the following pages with.
+ * @param firstPage Resolves to the first page of search results, in the form
+ *     a SMART API search resolves to.
+ * @param pagingOptions How many pages to retrieve.
+ * @param processPage Called with each search result Bundle. Resolves to
+ *     whether to stop retrieving pages.
+ * @param codes The codes being searched for, to report progress with.
+ * @param onProgress If provided, called after each page is retrieved and
+ *     once the search finishes.
+ * @returns The progress of the search once it has finished.
+ */
+export function forEachPageFrom(
+    smartApi: any, firstPage: Promise<any>, pagingOptions: PagingOptions,
+    processPage: (bundle: any) => Promise<boolean>, codes: ResourceCode[] = [],
+    onProgress?: (progress: SearchProgress) => void): Promise<SearchProgress> {
+  const searchId = nextSearchId++;
+  let pagesLoaded = 0;
+  let resourcesLoaded = 0;
+  const report = (progress: SearchProgress) => {
+    if (onProgress) {
+      onProgress(progress);
+    }
+    return progress;
+  };
+
+  const handlePage = (response: any): Promise<SearchProgress> => {
+    const bundle = response.data;
+    pagesLoaded++;
+    resourcesLoaded += bundle.entry ? bundle.entry.length : 0;
+    report(new SearchProgress(
+        searchId, codes, pagesLoaded, resourcesLoaded, bundle.total));
+    return processPage(bundle).then(stop => {
+      const hasNext =
+          bundle.link && bundle.link.some(link => link.relation === 'next');
+      if (stop || !hasNext) {
+        return report(new SearchProgress(
+            searchId, codes, pagesLoaded, resourcesLoaded, bundle.total, true));
+      }
+      if (pagesLoaded >= pagingOptions.maxPages) {
+        return report(new SearchProgress(
+            searchId, codes, pagesLoaded, resourcesLoaded, bundle.total, true,
+            true));
+      }
+      return smartApi.patient.api.nextPage({bundle: bundle}).then(handlePage);
+    });
+  };
+  return firstPage.then(handlePage);
+}
@@ -0,0 +1,126 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {describeRequest, FhirRecorder} from './fhir-recorder';
+
+describe('describeRequest', () => {
+  it('should describe searches by their URL', () => {
+    expect(describeRequest(
+               'search', {type: 'Observation', query: {code: '718-7'}}, '123'))
+        .toEqual('Observation?patient=123&code=718-7');
+  });
+
+  it('should describe reads by the resource read', () => {
+    expect(describeRequest('read', {type: 'Specimen', id: '4'}, '123'))
+        .toEqual('Specimen/4');
+  });
+
+  it('should describe histories by the resource whose history is read', () => {
+    expect(describeRequest(
+               'resourceHistory', {type: 'Observation', id: '4'}, '123'))
+        .toEqual('Observation/4/_history');
+    expect(describeRequest(
+               'vread', {type: 'Observation', id: '4', versionId: '2'}, '123'))
+        .toEqual('Observation/4/_history/2');
+  });
+
+  it('should describe requests for a page by the URL of the page', () => {
+    const bundle = {
+      link: [
+        {relation: 'self', url: 'http://fhir/Observation?page=1'},
+        {relation: 'next', url: 'http://fhir/Observation?page=2'}
+      ]
+    };
+    expect(describeRequest('nextPage', {bundle: bundle}, '123'))
+        .toEqual('http://fhir/Observation?page=2');
+  });
+});
+
+describe('FhirRecorder', () => {
+  const observationBundle = {resourceType: 'Bundle', type: 'searchset'};
+  let recorder: FhirRecorder;
+  let smartApi: any;
+
+  beforeEach(() => {
+    recorder = new FhirRecorder();
+    recorder.enabled = true;
+    smartApi = recorder.wrapSmartApi({
+      patient: {
+        id: '123',
+        api: {
+          search: () =>
+              Promise.resolve({data: observationBundle, config: {type: 'GET'}}),
+          read: () => Promise.reject(
+              {error: {status: 404, getResponseHeader: () => null}}),
+          transaction: (params: any) => Promise.resolve({
+            data: {
+              resourceType: 'Bundle',
+              type: 'batch-response',
+              entry: [
+                {resource: observationBundle, response: {status: '200 OK'}},
+                {response: {status: '403 Forbidden'}}
+              ]
+            }
+          })
+        }
+      },
+      tokenResponse: {encounter: '456'}
+    });
+  });
+
+  it('should record responses', (done: DoneFn) => {
+    smartApi.patient.api.search({type: 'Observation', query: {code: '1'}})
+        .then(response => {
+          expect(response.config).toEqual({type: 'GET'});
+          const recording = recorder.toRecording();
+          expect(recording.patientId).toEqual('123');
+          expect(recording.encounterId).toEqual('456');
+          expect(recording.exchanges).toEqual([{
+            method: 'search',
+            request: 'Observation?patient=123&code=1',
+            response: {data: observationBundle}
+          }]);
+          done();
+        });
+  });
+
+  it('should record failures', (done: DoneFn) => {
+    smartApi.patient.api.read({type: 'Specimen', id: '4'}).catch(rejection => {
+      expect(rejection.error.status).toBe(404);
+      expect(recorder.exchanges).toEqual([{
+        method: 'read',
+        request: 'Specimen/4',
+        failure: {status: 404, message: undefined}
+      }]);
+      done();
+    });
+  });
+
+  it('should record each search in a batch on its own', (done: DoneFn) => {
+    const batch = {
+      resourceType: 'Bundle',
+      type: 'batch',
+      entry: [
+        {request: {method: 'GET', url: 'Observation?code=1'}},
+        {request: {method: 'GET', url: 'Observation?code=2'}}
+      ]
+    };
+    smartApi.patient.api.transaction({bundle: batch}).then(() => {
+      expect(recorder.exchanges).toEqual([
+        {
+          method: 'search',
+          request: 'Observation?code=1',
+          response: {data: observationBundle}
+        },
+        {
+          method: 'search',
+          request: 'Observation?code=2',
+          failure: {status: 403}
+        }
+      ]);
+      done();
+    });
+  });
+});
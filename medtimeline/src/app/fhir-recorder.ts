@@ -0,0 +1,204 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Injectable} from '@angular/core';
+
+import {environment} from '../environments/environment';
+
+import {statusOf} from './fhir-transport';
+import {toSearchUrl} from './request-coordinator';
+
+/**
+ * A request made through the SMART API and how the server answered it.
+ */
+export interface FhirExchange {
+  /** The SMART API method called, such as "search" or "read". */
+  method: string;
+  /**
+   * Describes the request, such as the relative URL of a search. Requests
+   * with the same method and description are answered the same way.
+   */
+  request: string;
+  /** What the SMART API resolved to, if the request succeeded. */
+  response?: any;
+  /** Why the request failed, if it did. */
+  failure?: {status?: number, message?: string};
+}
+
+/**
+ * Every request made to the FHIR server during a session, in the order they
+ * were answered.
+ */
+export interface FhirRecording {
+  /** When the recording was saved. */
+  recordedAt: string;
+  /** The id of the patient the app was launched for. */
+  patientId: string;
+  /** The id of the encounter the app was launched for. */
+  encounterId?: string;
+  exchanges: FhirExchange[];
+}
+
+/**
+ * Describes a SMART API request in a way that does not depend on how it was
+ * sent, so that a replayed session finds the same responses whether or not
+ * searches are batched together. Searches are described by their URL, reads
+ * and histories by the resource they read, and requests for the next page of
+ * results by the URL of that page.
+ * @param method The SMART API method called.
+ * @param params The parameters the method was called with.
+ * @param patientId The id of the patient the API is restricted to.
+ */
+export function describeRequest(
+    method: string, params: any, patientId: string): string {
+  if (method === 'search' || method === 'fetchAll') {
+    return toSearchUrl(params, patientId);
+  }
+  if (method === 'read') {
+    return params.type + '/' + params.id;
+  }
+  if (method === 'vread') {
+    return params.type + '/' + params.id + '/_history/' + params.versionId;
+  }
+  if (method === 'resourceHistory') {
+    return params.type + '/' + params.id + '/_history';
+  }
+  if (method === 'nextPage') {
+    const next =
+        (params.bundle.link || []).find(link => link.relation === 'next');
+    return next ? next.url : undefined;
+  }
+  if (method === 'conformance') {
+    return 'metadata';
+  }
+  return JSON.stringify(params);
+}
+
+/**
+ * Records the requests the app makes to the FHIR server and the responses it
+ * gets, so that a session against a live server can be saved as a fixture
+ * and replayed with ReplayFhirService. Recording is turned on by the
+ * recordFhirSession environment setting. Recordings hold patient data, so
+ * they should be handled like any other export from the EHR.
+ */
+@Injectable({providedIn: 'root'})
+export class FhirRecorder {
+  enabled: boolean = environment.recordFhirSession;
+  readonly exchanges = new Array<FhirExchange>();
+
+  private patientId: string;
+  private encounterId: string;
+
+  /**
+   * Wraps a SMART API so that every request made through it is recorded.
+   * Searches sent together in a batch are recorded as if they had been sent
+   * on their own.
+   * @param smartApi The SMART API to wrap.
+   */
+  wrapSmartApi(smartApi: any): any {
+    this.patientId = smartApi.patient.id;
+    this.encounterId =
+        smartApi.tokenResponse ? smartApi.tokenResponse.encounter : undefined;
+    const api = smartApi.patient.api;
+    const wrappedApi = {};
+    for (const method of Object.keys(api)) {
+      wrappedApi[method] = (params: any) => api[method](params).then(
+          response => {
+            if (method === 'transaction') {
+              this.recordBatch(params.bundle, response);
+            } else {
+              this.exchanges.push({
+                method: method,
+                request: describeRequest(method, params, this.patientId),
+                response: recordableResponse(response)
+              });
+            }
+            return response;
+          },
+          rejection => {
+            if (method !== 'transaction') {
+              this.exchanges.push({
+                method: method,
+                request: describeRequest(method, params, this.patientId),
+                failure: {
+                  status: statusOf(rejection),
+                  message: rejection instanceof Error ? rejection.message :
+                                                        undefined
+                }
+              });
+            }
+            throw rejection;
+          });
+    }
+    return {...smartApi, patient: {...smartApi.patient, api: wrappedApi}};
+  }
+
+  /**
+   * Gets everything recorded so far.
+   */
+  toRecording(): FhirRecording {
+    return {
+      recordedAt: new Date().toISOString(),
+      patientId: this.patientId,
+      encounterId: this.encounterId,
+      exchanges: this.exchanges
+    };
+  }
+
+  /**
+   * Saves everything recorded so far to a JSON file on the user's computer.
+   * @param fileName The name to give the file.
+   */
+  download(fileName = 'fhir-recording.json') {
+    const blob = new Blob(
+        [JSON.stringify(this.toRecording(), null, 2)],
+        {type: 'application/json'});
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  /**
+   * Records each search in a batch as its own exchange.
+   * @param batch The batch Bundle sent to the server.
+   * @param response The server's response to the batch.
+   */
+  private recordBatch(batch: any, response: any) {
+    const entries = response.data.entry || [];
+    batch.entry.forEach((entry, i) => {
+      const result = entries[i];
+      const status = result && result.response ?
+          parseInt(result.response.status.toString(), 10) :
+          undefined;
+      this.exchanges.push(
+          status >= 200 && status < 300 && result.resource ?
+              {
+                method: 'search',
+                request: entry.request.url,
+                response: {data: result.resource}
+              } :
+              {
+                method: 'search',
+                request: entry.request.url,
+                failure: {status: status}
+              });
+    });
+  }
+}
+
+/**
+ * Keeps only the parts of a SMART API response the app reads. Most methods
+ * resolve to an object holding the response body as its data, alongside the
+ * request that cannot be saved; fetchAll resolves to the resources found.
+ * @param response What the SMART API resolved to.
+ */
+function recordableResponse(response: any): any {
+  return response && typeof response === 'object' && !Array.isArray(response) &&
+          response.data !== undefined ?
+      {data: response.data} :
+      response;
+}
@@ -0,0 +1,184 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {FhirRequestError, retryAfterMs, statusOf, TransportPolicy} from './fhir-transport';
+
+/**
+ * A stand-in for a FHIR server that fails requests with the given HTTP
+ * statuses, in order, before answering normally.
+ */
+class FlakyServer {
+  requestCount = 0;
+  activeRequests = 0;
+  maxActiveRequests = 0;
+
+  constructor(
+      private readonly failures: number[] = [],
+      private readonly retryAfter?: string) {}
+
+  request(): Promise<string> {
+    this.requestCount++;
+    this.activeRequests++;
+    this.maxActiveRequests =
+        Math.max(this.maxActiveRequests, this.activeRequests);
+    const failure = this.failures.shift();
+    return new Promise(
+        (resolve, reject) => setTimeout(() => {
+          this.activeRequests--;
+          if (failure === undefined) {
+            resolve('response');
+          } else {
+            reject({
+              error: {
+                status: failure,
+                getResponseHeader: (header: string) =>
+                    header === 'Retry-After' ? this.retryAfter : null
+              }
+            });
+          }
+        }));
+  }
+}
+
+describe('TransportPolicy', () => {
+  const options = {
+    maxRetries: 3,
+    initialBackoffMs: 100,
+    maxBackoffMs: 250,
+    maxConcurrentRequests: 2
+  };
+  let waits: number[];
+  let policy: TransportPolicy;
+
+  beforeEach(() => {
+    waits = [];
+    policy = new TransportPolicy(options, ms => {
+      waits.push(ms);
+      return Promise.resolve();
+    });
+  });
+
+  it('should retry transient failures with exponential backoff',
+     (done: DoneFn) => {
+       const server = new FlakyServer([503, 429, 0]);
+       policy.send(() => server.request()).then(response => {
+         expect(response).toEqual('response');
+         expect(server.requestCount).toBe(4);
+         expect(waits).toEqual([100, 200, 250]);
+         done();
+       });
+     });
+
+  it('should wait as long as the server asks before retrying',
+     (done: DoneFn) => {
+       const server = new FlakyServer([429], '3');
+       policy.send(() => server.request()).then(() => {
+         expect(waits).toEqual([3000]);
+         done();
+       });
+     });
+
+  it('should reject with a FhirRequestError once retries run out',
+     (done: DoneFn) => {
+       const server = new FlakyServer([503, 503, 503, 503, 503]);
+       policy.send(() => server.request()).catch(error => {
+         expect(error instanceof FhirRequestError).toBe(true);
+         expect(error.status).toBe(503);
+         expect(error.attempts).toBe(4);
+         expect(error.message).toContain('503');
+         expect(server.requestCount).toBe(4);
+         done();
+       });
+     });
+
+  it('should not retry other failures', (done: DoneFn) => {
+    const server = new FlakyServer([404]);
+    policy.send(() => server.request()).catch(error => {
+      expect(error.status).toBe(404);
+      expect(error.attempts).toBe(1);
+      expect(server.requestCount).toBe(1);
+      done();
+    });
+  });
+
+  it('should pass through failures that are not HTTP failures',
+     (done: DoneFn) => {
+       policy.send(() => Promise.reject('Invalid resource')).catch(error => {
+         expect(error).toEqual('Invalid resource');
+         done();
+       });
+     });
+
+  it('should limit how many requests are sent at once', (done: DoneFn) => {
+    const server = new FlakyServer([503]);
+    Promise
+        .all(Array.from(
+            Array(5).keys(), () => policy.send(() => server.request())))
+        .then(responses => {
+          expect(responses.length).toBe(5);
+          expect(server.requestCount).toBe(6);
+          expect(server.maxActiveRequests).toBe(2);
+          done();
+        });
+  });
+
+  it('should send requests through a wrapped SMART API', (done: DoneFn) => {
+    const server = new FlakyServer([503]);
+    const smartApi = {
+      tokenResponse: {encounter: '1'},
+      patient: {id: '123', api: {search: () => server.request()}}
+    };
+    const wrapped = policy.wrapSmartApi(smartApi);
+    expect(wrapped.patient.id).toEqual('123');
+    expect(wrapped.tokenResponse).toBe(smartApi.tokenResponse);
+    wrapped.patient.api.search({type: 'Observation'}).then(response => {
+      expect(response).toEqual('response');
+      expect(server.requestCount).toBe(2);
+      done();
+    });
+  });
+
+  it('should not retry writes through a wrapped SMART API', (done: DoneFn) => {
+    const server = new FlakyServer([0]);
+    const smartApi = {patient: {api: {create: () => server.request()}}};
+    policy.wrapSmartApi(smartApi)
+        .patient.api.create({resource: {resourceType: 'DocumentReference'}})
+        .catch(error => {
+          expect(error instanceof FhirRequestError).toBe(true);
+          expect(error.status).toBe(0);
+          expect(server.requestCount).toBe(1);
+          done();
+        });
+  });
+});
+
+describe('statusOf', () => {
+  it('should read the status of the failed request', () => {
+    expect(statusOf({error: {status: 503}})).toBe(503);
+    expect(statusOf({error: {status: 0}})).toBe(0);
+    expect(statusOf('Resource not found')).toBeUndefined();
+  });
+});
+
+describe('retryAfterMs', () => {
+  function rejectionWithRetryAfter(retryAfter: string) {
+    return {error: {getResponseHeader: () => retryAfter}};
+  }
+
+  it('should read a number of seconds', () => {
+    expect(retryAfterMs(rejectionWithRetryAfter('2'))).toBe(2000);
+  });
+
+  it('should read an HTTP date', () => {
+    expect(retryAfterMs(
+               rejectionWithRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT'),
+               Date.UTC(2015, 9, 21, 7, 28, 0)))
+        .toBe(5000);
+  });
+
+  it('should be undefined without the header', () => {
+    expect(retryAfterMs(rejectionWithRetryAfter(null))).toBeUndefined();
+  });
+});
@@ -0,0 +1,214 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+/**
+ * Settings for how requests to a FHIR server are sent and retried.
+ */
+export interface TransportOptions {
+  /** How many times to retry a request that failed for a transient reason. */
+  maxRetries: number;
+  /**
+   * How long to wait before the first retry, in milliseconds. The wait
+   * doubles with each further retry.
+   */
+  initialBackoffMs: number;
+  /** The longest to wait before any retry, in milliseconds. */
+  maxBackoffMs: number;
+  /** The most requests to have waiting on the server at once. */
+  maxConcurrentRequests: number;
+}
+
+/**
+ * The default transport settings. Browsers allow six connections to a server
+ * at once, so there is no point in sending more requests than that.
+ */
+export const DEFAULT_TRANSPORT_OPTIONS: TransportOptions = {
+  maxRetries: 3,
+  initialBackoffMs: 500,
+  maxBackoffMs: 10000,
+  maxConcurrentRequests: 6
+};
+
+/**
+ * The HTTP statuses of failures that are likely to go away if the request is
+ * sent again. A status of 0 means no response was received at all, for
+ * example because the network connection dropped.
+ */
+const TRANSIENT_STATUSES = [0, 429, 503];
+
+/**
+ * The methods of the SMART API that only read from the server, and so can be
+ * sent again safely. A write that timed out or failed with a 503 may already
+ * have been carried out by the server, so writes such as create and
+ * transaction are never retried.
+ */
+const READ_METHODS = [
+  'conformance', 'search', 'fetchAll', 'read', 'vread', 'history',
+  'typeHistory', 'resourceHistory', 'nextPage', 'prevPage'
+];
+
+/**
+ * Describes a failed request in terms a user can act on.
+ * @param status The HTTP status of the last response.
+ * @param attempts How many times the request was sent.
+ */
+function describeFailure(status: number, attempts: number): string {
+  const retried = attempts > 1 ? ' after ' + attempts + ' attempts' : '';
+  if (status === 0) {
+    return 'The FHIR server could not be reached' + retried +
+        '. Please check your network connection.';
+  }
+  return 'The FHIR server responded with HTTP status ' + status + retried + '.';
+}
+
+/**
+ * An error for a request to the FHIR server that failed, after any retries.
+ */
+export class FhirRequestError extends Error {
+  constructor(
+      /**
+       * The HTTP status of the last response, or 0 if the server could not be
+       * reached.
+       */
+      readonly status: number,
+      /** How many times the request was sent. */
+      readonly attempts: number,
+      /** The rejection from the last attempt. */
+      readonly cause: any) {
+    super(describeFailure(status, attempts));
+    // Errors lose their prototype when compiled to ES5.
+    Object.setPrototypeOf(this, FhirRequestError.prototype);
+    this.name = 'FhirRequestError';
+  }
+}
+
+/**
+ * Gets the HTTP status of a failed request from the rejection of the SMART
+ * API, which holds the XMLHttpRequest as its error.
+ * @param rejection The rejection of a SMART API request.
+ * @returns The HTTP status, or undefined if the rejection did not come from
+ *     an HTTP request.
+ */
+export function statusOf(rejection: any): number {
+  const request = rejection && rejection.error ? rejection.error : rejection;
+  return request && typeof request.status === 'number' ? request.status :
+                                                         undefined;
+}
+
+/**
+ * Gets how long the server asked to wait before retrying a request, from the
+ * Retry-After header of its response. The header holds either a number of
+ * seconds or an HTTP date.
+ * @param rejection The rejection of a SMART API request.
+ * @param now The current time, in milliseconds since the epoch.
+ * @returns The time to wait in milliseconds, or undefined if the server did
+ *     not say.
+ */
+export function retryAfterMs(rejection: any, now = Date.now()): number {
+  const request = rejection && rejection.error ? rejection.error : rejection;
+  const retryAfter = request && request.getResponseHeader ?
+      request.getResponseHeader('Retry-After') :
+      undefined;
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Sends requests to a FHIR server, retrying transient failures and limiting
+ * how many requests are waiting on the server at once.
+ */
+export class TransportPolicy {
+  // How many requests are waiting on the server.
+  private activeRequests = 0;
+
+  // Requests waiting for a turn to be sent.
+  private readonly waitingRequests = new Array<() => void>();
+
+  constructor(
+      public options: TransportOptions = DEFAULT_TRANSPORT_OPTIONS,
+      private readonly wait: (ms: number) => Promise<void> = ms =>
+          new Promise(resolve => setTimeout(resolve, ms))) {}
+
+  /**
+   * Sends a request once there is room for it, retrying it while it fails
+   * with a transient HTTP status. Failures with an HTTP status are rejected
+   * with a FhirRequestError; other failures are passed through as they are.
+   * @param request Sends the request.
+   * @param retry Whether the request may be sent again. Requests that change
+   *     data on the server should not be.
+   */
+  send<T>(request: () => Promise<T>, retry = true): Promise<T> {
+    const attempt = (attempts: number): Promise<T> =>
+        this.whenRoomAvailable(request).then(result => result, rejection => {
+          const status = statusOf(rejection);
+          if (status === undefined) {
+            throw rejection;
+          }
+          if (!retry || TRANSIENT_STATUSES.indexOf(status) === -1 ||
+              attempts > this.options.maxRetries) {
+            throw new FhirRequestError(status, attempts, rejection);
+          }
+          const retryAfter = retryAfterMs(rejection);
+          const backoff = Math.min(
+              this.options.maxBackoffMs,
+              this.options.initialBackoffMs * Math.pow(2, attempts - 1));
+          return this.wait(retryAfter !== undefined ? retryAfter : backoff)
+              .then(() => attempt(attempts + 1));
+        });
+    return attempt(1);
+  }
+
+  /**
+   * Makes a copy of a SMART API whose patient API sends all its requests
+   * through this policy. Only reads are retried.
+   * @param smartApi The SMART API to wrap.
+   */
+  wrapSmartApi(smartApi: any): any {
+    const api = smartApi.patient.api;
+    const wrappedApi = {};
+    for (const method of Object.keys(api)) {
+      wrappedApi[method] = (...args: any[]) =>
+          this.send(() => api[method](...args), READ_METHODS.includes(method));
+    }
+    return {...smartApi, patient: {...smartApi.patient, api: wrappedApi}};
+  }
+
+  /**
+   * Sends a request once fewer than the maximum number of requests are
+   * waiting on the server.
+   */
+  private whenRoomAvailable<T>(request: () => Promise<T>): Promise<T> {
+    return new Promise<void>(resolve => {
+             if (this.activeRequests < this.options.maxConcurrentRequests) {
+               this.activeRequests++;
+               resolve();
+             } else {
+               this.waitingRequests.push(resolve);
+             }
+           })
+        .then(() => {
+          // Requests may throw instead of rejecting.
+          const response = new Promise<T>(resolve => resolve(request()));
+          const finish = () => {
+            const next = this.waitingRequests.shift();
+            if (next) {
+              // Hand the slot straight to the next request.
+              next();
+            } else {
+              this.activeRequests--;
+            }
+          };
+          response.then(finish, finish);
+          return response;
+        });
+  }
+}
@@ -5,7 +5,7 @@
 
 import {Injectable} from '@angular/core';
 import {Interval} from 'luxon';
-import {of} from 'rxjs';
+import {of, Subject} from 'rxjs';
 
 import {BCHMicrobioCodeGroup} from './clinicalconcepts/bch-microbio-code';
 import {LOINCCode, LOINCCodeGroup} from './clinicalconcepts/loinc-code';
@@ -16,12 +16,22 @@ import {Encounter} from './fhir-data-classes/encounter';
 import {MedicationAdministration} from './fhir-data-classes/medication-administration';
 import {MedicationOrder} from './fhir-data-classes/medication-order';
 import {Observation} from './fhir-data-classes/observation';
+import {Patient} from './fhir-data-classes/patient';
+import {SearchProgress} from './fhir-paging';
 import {ChartType} from './graphtypes/graph/graph.component';
+import {ObservationCategory, ObservationCode} from './observation-codes';
 
 @Injectable()
 export abstract class FhirService {
   errorMessage: string;
 
+  /**
+   * Reports the progress of searches whose results are split over several
+   * pages, so that the graphs waiting on them can show how far along they
+   * are.
+   */
+  readonly searchProgress = new Subject<SearchProgress>();
+
   /**
    * Returns whether there are any observations with this code in the given
    * time range.
@@ -67,6 +77,16 @@ export abstract class FhirService {
       code: LOINCCode, dateRange: Interval,
       limitCount?: number): Promise<Observation[]>;
 
+  /**
+   * Gets the LOINC codes of the observations in a category, whether or not
+   * the app knows about them, so that results without a card can be found.
+   * @param category The category of the observations.
+   * @param dateRange The time interval observations should fall between.
+   */
+  abstract getObservationCodes(
+      category: ObservationCategory,
+      dateRange: Interval): Promise<ObservationCode[]>;
+
   /**
    * Gets observations from a specified date range with a specific code group.
    * @param codeGroup The LOINCCodeGroup code for which to get observations.
@@ -150,6 +170,11 @@ export abstract class FhirService {
   abstract getMedicationAdministrationsWithOrder(id: string):
       Promise<MedicationAdministration[]>;
 
+  /**
+   * Gets the demographics of the patient the app was launched for.
+   */
+  abstract getPatient(): Promise<Patient>;
+
   /**
    * Gets the encounters for the patient for any encounter that falls in the
    * given date range.
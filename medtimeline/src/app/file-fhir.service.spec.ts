@@ -0,0 +1,170 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime, Interval} from 'luxon';
+
+import {FhirResourceType} from '../constants';
+
+import {DisplayGrouping} from './clinicalconcepts/display-grouping';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {DataQualityService} from './data-quality.service';
+import {FileFhirService, parseFhirFile} from './file-fhir.service';
+import {ObservationCategory} from './observation-codes';
+import {makeSampleObservationJson, restoreCodes, useCodes} from './test_utils';
+
+function makeBundle(resources: any[]): any {
+  return {
+    resourceType: FhirResourceType.Bundle,
+    entry: resources.map(resource => {
+      return {resource: resource};
+    })
+  };
+}
+
+describe('parseFhirFile', () => {
+  const observation = makeSampleObservationJson(12, DateTime.utc(2018, 8, 1));
+
+  it('should read the resources in a JSON Bundle', () => {
+    const parsed = parseFhirFile(
+        'bundle.json', JSON.stringify(makeBundle([observation, observation])));
+    expect(parsed.resources).toEqual([observation, observation]);
+    expect(parsed.failures).toEqual([]);
+  });
+
+  it('should read a single JSON resource', () => {
+    const parsed =
+        parseFhirFile('observation.json', JSON.stringify(observation));
+    expect(parsed.resources).toEqual([observation]);
+  });
+
+  it('should read one resource from each line of an NDJSON file', () => {
+    const text = [
+      JSON.stringify(observation), '', JSON.stringify(observation)
+    ].join('\n');
+    const parsed = parseFhirFile('Observation.ndjson', text);
+    expect(parsed.resources).toEqual([observation, observation]);
+    expect(parsed.failures).toEqual([]);
+  });
+
+  it('should report the lines of an NDJSON file that are not JSON', () => {
+    const text = [JSON.stringify(observation), '{"resourceType":'].join('\n');
+    const parsed = parseFhirFile('Observation.ndjson', text);
+    expect(parsed.resources).toEqual([observation]);
+    expect(parsed.failures.length).toBe(1);
+    expect(parsed.failures[0].source).toEqual('Observation.ndjson:2');
+    expect(parsed.failures[0].message).toContain('Invalid JSON');
+  });
+
+  it('should report a JSON file that cannot be read', () => {
+    const parsed = parseFhirFile('bundle.json', 'not json');
+    expect(parsed.resources).toEqual([]);
+    expect(parsed.failures.length).toBe(1);
+    expect(parsed.failures[0].source).toEqual('bundle.json');
+  });
+});
+
+describe('FileFhirService', () => {
+  // Observations are indexed by the codes they are read with, so the tests
+  // read them with a code of their own.
+  const hemoglobin = new LOINCCode(
+      '718-7', new DisplayGrouping('concept', 'red'), 'Hemoglobin', true);
+  beforeEach(() => {
+    useCodes(hemoglobin);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
+  const dateRange = Interval.fromDateTimes(
+      DateTime.utc(2018, 8, 1), DateTime.utc(2018, 8, 31));
+
+  it('should answer queries from the loaded files', (done: DoneFn) => {
+    const service = new FileFhirService();
+    service.loadText([{
+      name: 'bundle.json',
+      text: JSON.stringify(makeBundle([
+        makeSampleObservationJson(12, DateTime.utc(2018, 8, 1)),
+        makeSampleObservationJson(14, DateTime.utc(2018, 8, 2)),
+        makeSampleObservationJson(16, DateTime.utc(2018, 9, 2))
+      ]))
+    }]);
+    expect(service.fileNames).toEqual(['bundle.json']);
+    expect(service.resourceCount).toBe(3);
+    service.getObservationsWithCode(hemoglobin, dateRange)
+        .then(observations => {
+          expect(observations.map(obs => obs.value.value)).toEqual([12, 14]);
+          done();
+        });
+  });
+
+  it('should report resources that could not be parsed', () => {
+    const dataQuality = new DataQualityService();
+    const service = new FileFhirService(dataQuality);
+    const failures = service.loadText([{
+      name: 'Observation.ndjson',
+      text: [
+        JSON.stringify(makeSampleObservationJson(12, DateTime.utc(2018, 8, 1))),
+        JSON.stringify({resourceType: 'Observation', id: 'no-code'})
+      ].join('\n')
+    }]);
+    expect(failures.length).toBe(1);
+    expect(failures[0].source).toEqual('Observation.ndjson');
+    expect(failures[0].resourceType).toEqual('Observation');
+    expect(failures[0].id).toEqual('no-code');
+    expect(service.parseFailures).toEqual(failures);
+    expect(dataQuality.dropped.map(dropped => dropped.id)).toEqual(['no-code']);
+  });
+
+  it('should replace the data when new files are loaded', (done: DoneFn) => {
+    const service = new FileFhirService();
+    service.loadText([{
+      name: 'first.json',
+      text: JSON.stringify(
+          makeSampleObservationJson(12, DateTime.utc(2018, 8, 1)))
+    }]);
+    service.loadText(
+        [{name: 'second.json', text: JSON.stringify(makeBundle([]))}]);
+    expect(service.fileNames).toEqual(['second.json']);
+    service.getObservationsWithCode(hemoglobin, dateRange)
+        .then(observations => {
+          expect(observations).toEqual([]);
+          done();
+        });
+  });
+
+  it('should find the codes of observations in a category, known or not',
+     (done: DoneFn) => {
+       const inCategory = (json: any, category: string) =>
+           ({...json, category: [{coding: [{code: category}]}]});
+       const unknown = {
+         ...makeSampleObservationJson(3, DateTime.utc(2018, 8, 3)),
+         code: {
+           coding: [{system: LOINCCode.CODING_STRING, code: '2345-7'}],
+           text: 'Glucose'
+         }
+       };
+       const service = new FileFhirService();
+       service.loadText([{
+         name: 'bundle.json',
+         text: JSON.stringify(makeBundle([
+           inCategory(
+               makeSampleObservationJson(12, DateTime.utc(2018, 8, 1)),
+               'laboratory'),
+           inCategory(unknown, 'laboratory'),
+           inCategory(unknown, 'vital-signs'),
+           inCategory(
+               {...unknown, effectiveDateTime: '2018-10-01T00:00:00Z'},
+               'laboratory')
+         ]))
+       }]);
+       service.getObservationCodes(ObservationCategory.Laboratory, dateRange)
+           .then(codes => {
+             expect(codes.map(code => [code.code, code.display, code.count]))
+                 .toEqual(
+                     [['718-7', 'Hemoglobin', 1], ['2345-7', 'Glucose', 1]]);
+             done();
+           });
+     });
+});
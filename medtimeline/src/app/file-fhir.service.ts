@@ -0,0 +1,139 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Injectable} from '@angular/core';
+
+import {FhirResourceType} from '../constants';
+
+import {DataQualityService} from './data-quality.service';
+import {LocalFhirService, ResourceParseFailure, toDroppedResource} from './local-fhir.service';
+
+/**
+ * Pulls the resources out of parsed JSON, which may be a single resource or
+ * a Bundle of them.
+ * @param json The parsed JSON.
+ */
+function resourcesIn(json: any): any[] {
+  if (json && json.resourceType === FhirResourceType.Bundle) {
+    return (json.entry ? json.entry : [])
+        .map(entry => entry.resource)
+        .filter(resource => resource);
+  }
+  return [json];
+}
+
+/**
+ * Parses the contents of a FHIR file. Files ending in ".ndjson" hold one
+ * resource (or Bundle) on each line; any other file holds a single JSON
+ * resource or Bundle.
+ * @param fileName The name of the file.
+ * @param text The contents of the file.
+ * @returns The resources in the file, and the parts of the file that are not
+ *     valid JSON.
+ */
+export function parseFhirFile(fileName: string, text: string):
+    {resources: any[], failures: ResourceParseFailure[]} {
+  const resources = [];
+  const failures = new Array<ResourceParseFailure>();
+  if (fileName.toLowerCase().endsWith('.ndjson')) {
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+      try {
+        resources.push(...resourcesIn(JSON.parse(line)));
+      } catch (err) {
+        failures.push({
+          source: fileName + ':' + (index + 1),
+          message: 'Invalid JSON: ' + err.message
+        });
+      }
+    });
+  } else {
+    try {
+      resources.push(...resourcesIn(JSON.parse(text)));
+    } catch (err) {
+      failures.push(
+          {source: fileName, message: 'Invalid JSON: ' + err.message});
+    }
+  }
+  return {resources: resources, failures: failures};
+}
+
+/**
+ * Reads the text of a file chosen by the user.
+ * @param file The file to read.
+ */
+function readFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * A FhirService that answers queries from FHIR files the user loads into the
+ * app, such as exported Bundles. This allows browsing a record without a FHIR
+ * server or rebuilding the app.
+ */
+@Injectable()
+export class FileFhirService extends LocalFhirService {
+  /** The names of the files the current data came from. */
+  fileNames: string[] = [];
+
+  /** The number of resources in the files. */
+  resourceCount = 0;
+
+  /** The resources in the files that could not be parsed. */
+  parseFailures: ResourceParseFailure[] = [];
+
+  private dataLoaded: Promise<any> = Promise.resolve();
+
+  constructor(
+      private dataQuality: DataQualityService = new DataQualityService()) {
+    super();
+  }
+
+  /**
+   * Replaces the current data with the resources in the given files.
+   * @param files The files to load.
+   * @returns Resolves to the resources that could not be parsed.
+   */
+  loadFiles(files: File[]): Promise<ResourceParseFailure[]> {
+    this.dataLoaded = Promise.all(files.map(file => readFile(file)))
+                          .then(texts => this.loadText(files.map((file, i) => {
+                            return {name: file.name, text: texts[i]};
+                          })));
+    return this.dataLoaded;
+  }
+
+  /**
+   * Replaces the current data with the resources in the given file contents.
+   * @param files The name and contents of each file.
+   * @returns The resources that could not be parsed.
+   */
+  loadText(files: Array<{name: string, text: string}>): ResourceParseFailure[] {
+    this.clearData();
+    this.fileNames = files.map(file => file.name);
+    this.resourceCount = 0;
+    this.parseFailures = [];
+    for (const file of files) {
+      const parsed = parseFhirFile(file.name, file.text);
+      this.resourceCount += parsed.resources.length;
+      const failures = this.indexResources(parsed.resources, file.name);
+      this.parseFailures.push(...parsed.failures, ...failures);
+      for (const failure of failures) {
+        this.dataQuality.record(toDroppedResource(failure));
+      }
+    }
+    return this.parseFailures;
+  }
+
+  protected whenDataLoaded(): Promise<any> {
+    return this.dataLoaded;
+  }
+}
@@ -18,13 +18,19 @@ import {Observation} from './../fhir-data-classes/observation';
 import {ObservationSet} from './../fhir-data-classes/observation-set';
 import {FhirService} from './../fhir.service';
 // tslint:disable-next-line:max-line-length
-import {makeDiagnosticReports, makeEncounter, makeMedicationAdministration, makeMedicationOrder, makeSampleObservationJson} from './../test_utils';
-import {makeSampleDiscreteObservationJson} from './../test_utils';
+import {makeDiagnosticReports, makeEncounter, makeHeartRateObservationJson, makeMedicationAdministration, makeMedicationOrder, makePatient, makeSampleDiscreteObservationJson, makeSampleObservationJson, restoreCodes, useCodes, vancomycinPeakCode} from './../test_utils';
 import {LabeledSeries} from './labeled-series';
 
 
 
 describe('LabeledSeries', () => {
+  beforeEach(() => {
+    useCodes(vancomycinPeakCode);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
   const firstAdministration = '2018-09-12T11:00:00.000Z';
   const lastAdministration = '2018-09-14T11:00:00.000Z';
   const medicationAdministrations = [
@@ -70,6 +76,39 @@ describe('LabeledSeries', () => {
     expect(lblSeries.yValues).toEqual([1, 10, 100]);
   });
 
+  it('LabeledSeries.fromObservationSet should keep the comparators of ' +
+         'censored values',
+     () => {
+       const censored = makeSampleObservationJson(1, DateTime.utc(1988, 3, 24));
+       censored.valueQuantity.comparator = '<';
+       const obsSet = new ObservationSet([
+         new AnnotatedObservation(new Observation(
+             makeSampleObservationJson(10, DateTime.utc(1988, 3, 23)))),
+         new AnnotatedObservation(new Observation(censored))
+       ]);
+       const lblSeries = LabeledSeries.fromObservationSet(obsSet, []);
+       expect(lblSeries.yValues).toEqual([10, 1]);
+       expect(Array.from(lblSeries.comparators.entries())).toEqual([
+         [DateTime.utc(1988, 3, 24).toMillis(), '<']
+       ]);
+     });
+
+  it('LabeledSeries.fromObservationSet should keep the times of revised ' +
+         'values',
+     () => {
+       const amended = makeSampleObservationJson(1, DateTime.utc(1988, 3, 24));
+       amended.status = 'amended';
+       const obsSet = new ObservationSet([
+         new AnnotatedObservation(new Observation(
+             makeSampleObservationJson(10, DateTime.utc(1988, 3, 23)))),
+         new AnnotatedObservation(new Observation(amended))
+       ]);
+       const lblSeries = LabeledSeries.fromObservationSet(obsSet, []);
+       expect(Array.from(lblSeries.revisions)).toEqual([
+         DateTime.utc(1988, 3, 24).toMillis()
+       ]);
+     });
+
   it('LabeledSeries.fromObservationSet should calculate display range ' +
          ' to include all points even if they are outside the normal range',
      () => {
@@ -132,6 +171,41 @@ describe('LabeledSeries', () => {
        expect(lblSeries.yValues).toEqual([]);
      });
 
+  it('LabeledSeries.fromObservationSet should use the normal ranges for the ' +
+         'patient\'s age when the observations have none',
+     () => {
+       const obsSet = new ObservationSet([
+         new AnnotatedObservation(new Observation(
+             makeHeartRateObservationJson(150, DateTime.utc(2018, 9, 11)))),
+         new AnnotatedObservation(new Observation(
+             makeHeartRateObservationJson(150, DateTime.utc(2019, 9, 11))))
+       ]);
+       const lblSeries = LabeledSeries.fromObservationSet(
+           obsSet, [], makePatient('2018-09-01'));
+       expect(lblSeries.yNormalBounds).toBeUndefined();
+       expect(lblSeries.normalBoundsAt(DateTime.utc(2018, 9, 11))).toEqual([
+         100, 205
+       ]);
+       expect(lblSeries.normalBoundsAt(DateTime.utc(2019, 9, 11))).toEqual([
+         98, 140
+       ]);
+       expect(lblSeries.yDisplayBounds).toEqual([98, 205]);
+     });
+
+  it('LabeledSeries.fromObservationSet should prefer the observations\' own ' +
+         'normal range to the normal ranges for the patient\'s age',
+     () => {
+       const obsSet = new ObservationSet(
+           [new AnnotatedObservation(new Observation(makeSampleObservationJson(
+               10, DateTime.utc(2018, 9, 11), [1, 90])))]);
+       const lblSeries = LabeledSeries.fromObservationSet(
+           obsSet, [], makePatient('2018-09-01'));
+       expect(lblSeries.referenceRanges).toBeUndefined();
+       expect(lblSeries.normalBoundsAt(DateTime.utc(2018, 9, 11))).toEqual([
+         1, 90
+       ]);
+     });
+
   it('LabeledSeries.fromObservationSetsDiscrete should calculate one series ' +
          ' with all points at the same y-Value',
      () => {
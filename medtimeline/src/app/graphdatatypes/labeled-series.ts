@@ -6,13 +6,31 @@
 import {DateTime, Interval} from 'luxon';
 
 import {DisplayGrouping} from '../clinicalconcepts/display-grouping';
+import {PatientReferenceRanges, referenceRangesFor} from '../clinicalconcepts/reference-range';
 import {DiagnosticReport} from '../fhir-data-classes/diagnostic-report';
 import {Encounter} from '../fhir-data-classes/encounter';
 import {MedicationAdministration} from '../fhir-data-classes/medication-administration';
+import {Patient} from '../fhir-data-classes/patient';
 
 import {MedicationOrder, MedicationOrderSet} from './../fhir-data-classes/medication-order';
 import {ObservationSet} from './../fhir-data-classes/observation-set';
 
+/**
+ * Widens display bounds to include a range, either side of which may be
+ * unbounded.
+ * @param displayBounds The display bounds to widen.
+ * @param range The range to include.
+ */
+function includeRange(displayBounds: [number, number], range: [number, number]):
+    [number, number] {
+  return [
+    range[0] === undefined ? displayBounds[0] :
+                             Math.min(displayBounds[0], range[0]),
+    range[1] === undefined ? displayBounds[1] :
+                             Math.max(displayBounds[1], range[1])
+  ];
+}
+
 /**
  * Timeseries data, represented as a list of <DateTime, number> tuples,
  * with metadata including a human-readable label, a unit, and a typical range.
@@ -39,10 +57,37 @@ export class LabeledSeries {
 
   /**
    * This tuple represents the low and high bounds of what should be
-   * considered "normal" along the y-axis.
+   * considered "normal" along the y-axis. Either bound may be undefined if
+   * the normal range is one-sided.
    */
   readonly yNormalBounds: [number, number];
 
+  /**
+   * This tuple represents the low and high thresholds beyond which values
+   * are critical. Either threshold may be undefined.
+   */
+  readonly yCriticalBounds: [number, number];
+
+  /**
+   * The comparators of the censored values in this series, such as "<" for a
+   * value reported as "<0.5", keyed by the time of the value in milliseconds.
+   * Censored values are charted at their limit.
+   */
+  readonly comparators = new Map<number, string>();
+
+  /**
+   * The times, in milliseconds, of the values in this series that were
+   * amended or corrected after they were first reported.
+   */
+  readonly revisions = new Set<number>();
+
+  /**
+   * The patient's normal ranges for this series from the local reference
+   * range tables, which depend on the patient's age on each date. Only used
+   * when the data does not come with a normal range of its own.
+   */
+  readonly referenceRanges: PatientReferenceRanges;
+
   /**
    * This is the desired display range for the y-axis for this series. We
    * calculate it as as:
@@ -57,7 +102,9 @@ export class LabeledSeries {
 
   constructor(
       lbl: string, coordinates: Array<[DateTime, number]>, unit?: string,
-      yNormalBounds?: [number, number], concept?: DisplayGrouping) {
+      yNormalBounds?: [number, number], concept?: DisplayGrouping,
+      referenceRanges?: PatientReferenceRanges,
+      yCriticalBounds?: [number, number]) {
     this.label = lbl;
     this.xValues = [];
     this.yValues = [];
@@ -73,6 +120,8 @@ export class LabeledSeries {
     }
     this.yNormalBounds = yNormalBounds;
     this.concept = concept;
+    this.referenceRanges = yNormalBounds ? undefined : referenceRanges;
+    this.yCriticalBounds = yCriticalBounds;
 
     /**
      * Calculate the y axis display bounds by finding the outer boundaries of
@@ -83,10 +132,19 @@ export class LabeledSeries {
     ];
 
     if (this.yNormalBounds) {
-      this.yDisplayBounds = [
-        Math.min(this.yDisplayBounds[0], this.yNormalBounds[0]),
-        Math.max(this.yDisplayBounds[1], this.yNormalBounds[1])
-      ];
+      this.yDisplayBounds =
+          includeRange(this.yDisplayBounds, this.yNormalBounds);
+    }
+    if (this.referenceRanges) {
+      // Points with no y-value only break up the line, so are left out.
+      const xValuesWithData =
+          this.xValues.filter((x, i) => this.yValues[i] !== null);
+      for (const x of xValuesWithData) {
+        const bounds = this.referenceRanges.at(x);
+        if (bounds) {
+          this.yDisplayBounds = includeRange(this.yDisplayBounds, bounds);
+        }
+      }
     }
   }
 
@@ -95,9 +153,14 @@ export class LabeledSeries {
    * @param observationSet The ObservationSet to chart.
    * @param encounters A list of Encounters to use while determining line breaks
    *     in series.
+   * @param patient The patient the observations are for, used to pick the
+   *     reference ranges that apply to the patient's age and sex. If none of
+   *     the observations come with a normal range, the normal ranges for the
+   *     patient are found in the local reference range tables.
    */
   static fromObservationSet(
-      observationSet: ObservationSet, encounters: Encounter[]): LabeledSeries {
+      observationSet: ObservationSet, encounters: Encounter[],
+      patient?: Patient): LabeledSeries {
     let coordinates: Array<[DateTime, number]> = [];
     const observations = observationSet.resourceList;
     for (const obs of observations) {
@@ -106,9 +169,26 @@ export class LabeledSeries {
     }
 
     coordinates = this.addEncounterEndpoints(coordinates, encounters);
-    return new LabeledSeries(
+    const hasOwnNormalRange = observations.some(
+        obs => obs.observation.referenceRanges.some(range => range.isNormal));
+    const series = new LabeledSeries(
         observationSet.label, coordinates, observationSet.unit,
-        observationSet.normalRange);
+        observationSet.normalRangeFor(patient),
+        undefined,  // concept
+        hasOwnNormalRange || observations.length === 0 ?
+            undefined :
+            referenceRangesFor(observations[0].observation.codes[0], patient),
+        observationSet.criticalRangeFor(patient));
+    for (const obs of observations) {
+      if (obs.observation.comparator) {
+        series.comparators.set(
+            obs.observation.timestamp.toMillis(), obs.observation.comparator);
+      }
+      if (obs.observation.isRevised) {
+        series.revisions.add(obs.observation.timestamp.toMillis());
+      }
+    }
+    return series;
   }
 
   /**
@@ -328,4 +408,17 @@ export class LabeledSeries {
     }
     return coordinates;
   }
+
+  /**
+   * Finds what should be considered "normal" along the y-axis on a date.
+   * @param x The date to find the normal range on.
+   * @returns The low and high bounds of the normal range, or undefined if
+   *     there is none.
+   */
+  normalBoundsAt(x: DateTime): [number, number] {
+    if (this.yNormalBounds) {
+      return this.yNormalBounds;
+    }
+    return this.referenceRanges ? this.referenceRanges.at(x) : undefined;
+  }
 }
@@ -18,12 +18,19 @@ import {ObservationSet} from '../fhir-data-classes/observation-set';
 import {ChartType} from '../graphtypes/graph/graph.component';
 import {MedicationAdministrationTooltip} from '../graphtypes/tooltips/medication-tooltips';
 import {GenericAnnotatedObservationTooltip} from '../graphtypes/tooltips/observation-tooltips';
-import {makeMedicationAdministration, makeMedicationOrder, StubFhirService} from '../test_utils';
-import {makeSampleDiscreteObservationJson, makeSampleObservationJson} from '../test_utils';
+// tslint:disable-next-line:max-line-length
+import {makeMedicationAdministration, makeMedicationOrder, makeSampleDiscreteObservationJson, makeSampleObservationJson, restoreCodes, StubFhirService, useCodes, vancomycinPeakCode} from '../test_utils';
 
 import {LineGraphData} from './linegraphdata';
 
 describe('LineGraphData', () => {
+  beforeEach(() => {
+    useCodes(vancomycinPeakCode);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
   const normalRange: [number, number] = [1, 30];
   const loincCodeGroup = new LOINCCodeGroup(
       new StubFhirService(), 'lbl',
@@ -169,6 +176,25 @@ describe('LineGraphData', () => {
      });
 
 
+  it('fromObservationSetList should convert series to the same unit', () => {
+    const makeSet = (value: number, unit: string) =>
+        new ObservationSet([new AnnotatedObservation(new Observation({
+          code: {
+            coding: [{system: 'http://loinc.org', code: '4090-7'}],
+            text: 'Vanc Pk'
+          },
+          effectiveDateTime: DateTime.utc(1957, 1, 14).toISO(),
+          valueQuantity: {value: value, unit: unit},
+        }))]);
+
+    const lgData = LineGraphData.fromObservationSetList(
+        'lbl', [makeSet(50, 'ug/mL'), makeSet(0.04, 'mg/mL')], loincCodeGroup,
+        TestBed.get(DomSanitizer), []);
+
+    expect(lgData.unit).toEqual('ug/mL');
+    expect(lgData.series[1].yValues[0]).toEqual(40);
+  });
+
   it('fromObservationSetList should set y axis display as display' +
          ' bounds if min/max of data fall outside of this range',
      () => {
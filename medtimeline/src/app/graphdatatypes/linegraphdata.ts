@@ -12,6 +12,7 @@ import {ResourceCodeGroup} from '../clinicalconcepts/resource-code-group';
 import {Encounter} from '../fhir-data-classes/encounter';
 import {MedicationOrderSet} from '../fhir-data-classes/medication-order';
 import {ObservationSet} from '../fhir-data-classes/observation-set';
+import {Patient} from '../fhir-data-classes/patient';
 import {MedicationAdministrationTooltip} from '../graphtypes/tooltips/medication-tooltips';
 import {DiscreteObservationTooltip, GenericAnnotatedObservationTooltip} from '../graphtypes/tooltips/observation-tooltips';
 import {getDataColors} from '../theme/bch_colors';
@@ -53,13 +54,26 @@ export class LineGraphData extends GraphData {
    * @param sanitizer A DOM sanitizer for use in tooltip construction
    * @param encounters A list of Encounters to use while determining line breaks
    *     in series.
+   * @param patient The patient the observations are for, used to find normal
+   *     ranges for the patient's age and sex.
    * @returns a new LineGraphData for this observation set.
-   * @throws Error if the observations in observationGroup have different units.
+   * @throws Error if the observations in observationGroup have units that
+   *     cannot be converted to one another.
    */
   static fromObservationSetList(
       label: string, observationGroup: ObservationSet[],
       resourceCodeGroup: ResourceCodeGroup, sanitizer: DomSanitizer,
-      encounters: Encounter[]): LineGraphData {
+      encounters: Encounter[], patient?: Patient): LineGraphData {
+    // The series share a y-axis, so they are converted to the unit of the
+    // first series that has one.
+    const withUnit = observationGroup.find(obsSet => !!obsSet.unitCode);
+    if (withUnit) {
+      observationGroup = observationGroup.map(
+          obsSet => obsSet.unitCode && obsSet.unitCode !== withUnit.unitCode ?
+              new ObservationSet(obsSet.resourceList, withUnit.unitCode) :
+              obsSet);
+    }
+
     const seriesToDisplayGrouping = new Map<LabeledSeries, DisplayGrouping>();
     let seriesIdx = 0;
     const dataColors: Color[] = getDataColors();
@@ -70,7 +84,8 @@ export class LineGraphData extends GraphData {
     const series: LabeledSeries[] = [];
     const obsLabelToColor = new Map<string, Color>();
     for (const obsSet of observationGroup) {
-      const lblSeries = LabeledSeries.fromObservationSet(obsSet, encounters);
+      const lblSeries =
+          LabeledSeries.fromObservationSet(obsSet, encounters, patient);
       series.push(lblSeries);
       const color = dataColors[seriesIdx];
       seriesToDisplayGrouping.set(
@@ -87,16 +102,10 @@ export class LineGraphData extends GraphData {
     const tooltipMap = LineGraphData.makeTooltipMap(
         observationGroup, sanitizer, obsLabelToColor);
 
-    const allUnits =
-        new Set(observationGroup.map(x => x.unit).filter(x => x !== undefined));
-    if (allUnits.size > 1) {
-      throw Error('Observations have different units.');
-    }
-
     const data = new LineGraphData(
         label, series,
         LineGraphData.getDisplayBounds(minY, maxY, resourceCodeGroup),
-        allUnits.values().next().value, seriesToDisplayGrouping,
+        withUnit ? withUnit.unit : undefined, seriesToDisplayGrouping,
         tooltipMap.size > 0 ? tooltipMap : undefined,
         undefined,  // tooltipMap
         undefined,  // regions
@@ -109,10 +118,12 @@ export class LineGraphData extends GraphData {
       obsLabelToColor: Map<string, Color>): Map<string, string> {
     const tooltipMap = new Map<string, string>();
     // Only construct custom tooltips if there's annotation values for hte
-    // observations.
+    // observations, their values were converted from another unit, their
+    // values are censored, or they were revised.
     for (const obsSet of obsGroup) {
       for (const obs of obsSet.resourceList) {
-        if (obs.annotationValues.length > 0) {
+        if (obs.annotationValues.length > 0 || obs.observation.originalValue ||
+            obs.observation.comparator || obs.observation.isRevised) {
           const timestamp = obs.observation.timestamp.toMillis().toString();
           // The key for this tooltip is the administration's timestamp.
           // There may be multiple data points associated with the timestamp
@@ -123,15 +123,20 @@ export class MicrobioGraphData extends StepGraphData {
    */
   private static getDisplayGroupFromResult(
       status: DiagnosticReportStatus, isPositive: boolean): DisplayGrouping {
+    // Amended and corrected reports replace final ones, so are shown as
+    // final.
+    const isFinal = status === DiagnosticReportStatus.Final ||
+        status === DiagnosticReportStatus.Amended ||
+        status === DiagnosticReportStatus.Corrected;
     if (isPositive) {
       if (status === DiagnosticReportStatus.Preliminary) {
         return posPrelimMB;
-      } else if (status === DiagnosticReportStatus.Final) {
+      } else if (isFinal) {
         return posFinalMB;
       }
     } else if (status === DiagnosticReportStatus.Preliminary) {
       return negPrelimMB;
-    } else if (status === DiagnosticReportStatus.Final) {
+    } else if (isFinal) {
       return negFinalMB;
     }
   }
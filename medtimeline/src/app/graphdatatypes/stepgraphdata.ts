@@ -12,7 +12,6 @@ import {MedicationOrder, MedicationOrderSet} from '../fhir-data-classes/medicati
 import {CHECK_RESULT_CODE, NEG_CODE, NEGFLORA_CODE} from '../fhir-data-classes/observation-interpretation-valueset';
 import {MedicationTooltip} from '../graphtypes/tooltips/medication-tooltips';
 
-
 import {GraphData} from './graphdata';
 import {LabeledSeries} from './labeled-series';
 
@@ -78,10 +77,11 @@ export class StepGraphData extends GraphData {
         yAxisMap.set(currYPosition, medOrder.administrationsForOrder.label);
 
         // Set up maps of the series to the concepts for the custom legend.
-        seriesToDisplayGroup.set(
-            endpointSeries, medOrder.rxNormCode.displayGrouping);
-        seriesToDisplayGroup.set(
-            administrationSeries, medOrder.rxNormCode.displayGrouping);
+        // Medications are coloured by their class, if they are in one.
+        const concept = medOrderSet.medicationConcept ||
+            medOrder.rxNormCode.displayGrouping;
+        seriesToDisplayGroup.set(endpointSeries, concept);
+        seriesToDisplayGroup.set(administrationSeries, concept);
 
         // For this custom tooltip, the key is the series ID, and the value is
         // the medication tooltip that shows the first and last doses for the
@@ -1,20 +1,30 @@
 
 import {async, TestBed} from '@angular/core/testing';
 import {DateTime, Interval} from 'luxon';
+import {Subject} from 'rxjs';
 
 import {DisplayGrouping} from '../clinicalconcepts/display-grouping';
 import {LOINCCode, LOINCCodeGroup} from '../clinicalconcepts/loinc-code';
 import {ResourceCodeGroup} from '../clinicalconcepts/resource-code-group';
 import {RxNormCode} from '../clinicalconcepts/rx-norm';
 import {Observation} from '../fhir-data-classes/observation';
+import {SearchProgress} from '../fhir-paging';
 import {FhirService} from '../fhir.service';
-import {makeSampleDiscreteObservationJson, makeSampleObservationJson} from '../test_utils';
+// tslint:disable-next-line:max-line-length
+import {makePatient, makeSampleDiscreteObservationJson, makeSampleObservationJson, restoreCodes, useCodes, vancomycinPeakCode} from '../test_utils';
 
 import {Axis} from './axis';
 import {ChartType} from './graph/graph.component';
 
 
 describe('Axis', () => {
+  beforeEach(() => {
+    useCodes(vancomycinPeakCode);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
   let fhirServiceStub: any;
   const dateRangeStart = '2018-09-09T00:00:00.00';
   const dateRangeEnd = '2018-09-18T00:00:00.00';
@@ -82,4 +92,45 @@ describe('Axis', () => {
        };
        expect(constructor).toThrowError();
      });
+
+  it('Axis should track the progress of searches for its codes until loaded',
+     (done: DoneFn) => {
+       const code = new LOINCCode(
+           '718-7', new DisplayGrouping('concept', 'red'), 'Hemoglobin', true);
+       const otherCode = new LOINCCode(
+           '2160-0', new DisplayGrouping('concept', 'red'), 'Creatinine', true);
+       let resolveObservations: (observations: Observation[][]) => void;
+       const searchProgress = new Subject<SearchProgress>();
+       const progressServiceStub: any = {
+         searchProgress: searchProgress,
+         getEncountersForPatient: () => Promise.resolve([]),
+         getPatient: () => Promise.resolve(makePatient()),
+         getObservationsForCodeGroup: () =>
+             new Promise(resolve => resolveObservations = resolve)
+       };
+       const axis = new Axis(
+           progressServiceStub,
+           new LOINCCodeGroup(
+               progressServiceStub, 'Hemoglobin', [code],
+               new DisplayGrouping('concept', 'red'), ChartType.LINE),
+           dateRange, this.domSanitizer);
+
+       searchProgress.next(new SearchProgress(0, [code], 1, 100, 250));
+       searchProgress.next(new SearchProgress(1, [otherCode], 1, 100, 100));
+       searchProgress.next(
+           new SearchProgress(0, [code], 2, 200, 250, true, true));
+       expect(axis.pagesLoaded).toBe(2);
+       expect(axis.resourcesLoaded).toBe(200);
+       expect(axis.truncatedResultCount).toBe(200);
+
+       resolveObservations(
+           [[new Observation(makeSampleObservationJson(10, DateTime.utc()))]]);
+       setTimeout(() => {
+         expect(axis.isResolved).toBe(true);
+         // Progress reported after the data has loaded is ignored.
+         searchProgress.next(new SearchProgress(2, [code], 1, 100, 100));
+         expect(axis.pagesLoaded).toBe(2);
+         done();
+       });
+     });
 });
@@ -7,6 +7,7 @@ import {DomSanitizer} from '@angular/platform-browser';
 import {Interval} from 'luxon';
 
 import {BCHMicrobioCode, BCHMicrobioCodeGroup} from '../clinicalconcepts/bch-microbio-code';
+import {DerivedCode} from '../clinicalconcepts/derived-code';
 import {DisplayGrouping} from '../clinicalconcepts/display-grouping';
 import {LOINCCode, LOINCCodeGroup} from '../clinicalconcepts/loinc-code';
 import {ResourceCodeGroup} from '../clinicalconcepts/resource-code-group';
@@ -14,6 +15,8 @@ import {RxNormCode} from '../clinicalconcepts/rx-norm';
 import {RxNormCodeGroup} from '../clinicalconcepts/rx-norm-group';
 import {Encounter} from '../fhir-data-classes/encounter';
 import {MedicationOrder, MedicationOrderSet} from '../fhir-data-classes/medication-order';
+import {SearchProgress} from '../fhir-paging';
+import {FhirRequestError} from '../fhir-transport';
 import {FhirService} from '../fhir.service';
 import {GraphData} from '../graphdatatypes/graphdata';
 import {LineGraphData} from '../graphdatatypes/linegraphdata';
@@ -81,6 +84,9 @@ export class Axis {
   // The encounters for the date range.
   encounters: Encounter[] = [];
 
+  // The latest progress of each search for this axis's data, keyed by search.
+  private readonly searchProgress = new Map<number, SearchProgress>();
+
   /**
    * The constructor for this axis.
    * @param fhirService The FhirService used to make the FHIR calls.
@@ -96,20 +102,61 @@ export class Axis {
     this.displayConcept = resourceGroup.displayGrouping;
     this.resourceGroup = resourceGroup;
     this.label = label;
-    this.getDataFromFhir().then(
+    const dataPromise = this.getDataFromFhir();
+    // Keep track of the searches for this axis's data while it loads.
+    const progressSubscription =
+        this.fhirService.searchProgress.subscribe(progress => {
+          if (progress.codes.some(
+                  code => resourceGroup.resourceCodes.indexOf(code) > -1)) {
+            this.searchProgress.set(progress.searchId, progress);
+          }
+        });
+    dataPromise.then(
         res => {
           this.data = res;
           this.isResolved = true;
+          progressSubscription.unsubscribe();
         },
         // TODO(b/126186009): Add testing for this code.
         rejection => {
           this.isResolved = true;
+          progressSubscription.unsubscribe();
           // TODO(b/126227729): Revise this language.
-          this.errorMessage = rejection;
+          // Failed requests to the server carry a message meant for the user.
+          this.errorMessage = rejection instanceof FhirRequestError ?
+              rejection.message :
+              rejection;
           // 'Invalid data received. Please check the medical record.';
         });
   }
 
+  /**
+   * The number of pages of search results retrieved so far for this axis.
+   */
+  get pagesLoaded(): number {
+    return Array.from(this.searchProgress.values())
+        .reduce((sum, progress) => sum + progress.pagesLoaded, 0);
+  }
+
+  /**
+   * The number of resources retrieved so far for this axis.
+   */
+  get resourcesLoaded(): number {
+    return Array.from(this.searchProgress.values())
+        .reduce((sum, progress) => sum + progress.resourcesLoaded, 0);
+  }
+
+  /**
+   * The number of resources retrieved by searches for this axis's data that
+   * stopped at the maximum number of pages, leaving out some of their
+   * results. This is 0 if no results were left out.
+   */
+  get truncatedResultCount(): number {
+    return Array.from(this.searchProgress.values())
+        .filter(progress => progress.truncated)
+        .reduce((sum, progress) => sum + progress.resourcesLoaded, 0);
+  }
+
   /**
    * Gets the appropriate GraphData by classifying the resource codes and
    * making the appropriate FHIR calls for data and transformations. If
@@ -133,7 +180,9 @@ export class Axis {
 
     const resourceCodeList = this.resourceGroup.resourceCodes;
     // Check that all elements of the resourceCodeList are of the same type.
-    const allLoinc = resourceCodeList.every(code => code instanceof LOINCCode);
+    // Codes derived from LOINC codes are charted along with them.
+    const allLoinc = resourceCodeList.every(
+        code => code instanceof LOINCCode || code instanceof DerivedCode);
     const allRx = resourceCodeList.every(code => code instanceof RxNormCode);
     const allBCHMicrobio =
         resourceCodeList.every(code => code instanceof BCHMicrobioCode);
@@ -160,10 +209,18 @@ export class Axis {
       // In this case it is all LOINC codes.
       // We use LineGraphData for both ChartType.Scatter and
       // ChartType.Line, for plotting LOINC Codes.
-      return (this.resourceGroup as LOINCCodeGroup)
-          .getResourceSet(this.dateRange)
+      // The patient is only needed for normal ranges by age and sex, so the
+      // graph is still drawn if the patient cannot be retrieved.
+      const patientPromise =
+          this.fhirService.getPatient().catch(rejection => undefined);
+      return Promise
+          .all([
+            (this.resourceGroup as LOINCCodeGroup)
+                .getResourceSet(this.dateRange),
+            patientPromise
+          ])
           .then(
-              obsSetList => {
+              ([obsSetList, patient]) => {
                 if (obsSetList) {
                   // We only draw the Line charts if all ObservationSets are of
                   // the same type of y-value: continuous or discrete.
@@ -177,7 +234,8 @@ export class Axis {
                   if (obsSetList.every(obsSet => !obsSet.allQualitative)) {
                     return LineGraphData.fromObservationSetList(
                         this.displayConcept.label, obsSetList,
-                        this.resourceGroup, this.sanitizer, this.encounters);
+                        this.resourceGroup, this.sanitizer, this.encounters,
+                        patient);
                   }
 
                   throw Error(
@@ -204,7 +262,7 @@ export class Axis {
    */
   getStepGraphDataForMedicationSummary(rxNorms: RxNormCodeGroup):
       Promise<StepGraphData> {
-    return rxNorms.getResourceFromFhir(this.dateRange).then(medOrderSets => {
+    return rxNorms.getResourceSet(this.dateRange).then(medOrderSets => {
       return StepGraphData.fromMedicationOrderSetList(
           medOrderSets.map(x => x.orders), this.dateRange, this.sanitizer);
     });
@@ -212,7 +270,7 @@ export class Axis {
 
   getStepGraphDataForMB(bchCodes: BCHMicrobioCodeGroup):
       Promise<StepGraphData> {
-    return bchCodes.getResourceFromFhir(this.dateRange).then(diagReports => {
+    return bchCodes.getResourceSet(this.dateRange).then(diagReports => {
       return MicrobioGraphData.fromDiagnosticReports(
           diagReports, bchCodes.label, this.sanitizer);
     });
@@ -224,7 +282,7 @@ export class Axis {
    */
   getLineGraphDataForMedicationDetail(rxNorms: RxNormCodeGroup):
       Promise<LineGraphData> {
-    return rxNorms.getResourceFromFhir(this.dateRange)
+    return rxNorms.getResourceSet(this.dateRange)
         .then(rxNs => {
           const medOrders: MedicationOrder[] =
               [].concat(...rxNs.map(rx => rx.orders.resourceList));
@@ -407,7 +407,8 @@ export abstract class GraphComponent<T extends GraphData> implements
    * Adds a shaded region on the chart across all x values, between the two
    * y values specified by yBounds.
    * @param basicChart The chart to add the region to
-   * @param yBounds The y-bounds of the region to display
+   * @param yBounds The y-bounds of the region to display. If either bound is
+   *     undefined, the region extends to that edge of the chart.
    */
   addYRegionOnChart(basicChart: c3.ChartConfiguration, yBounds: [
     number, number
@@ -416,11 +417,21 @@ export abstract class GraphComponent<T extends GraphData> implements
       basicChart.axis.y['tick'] = {};
     }
 
-    basicChart.axis.y.tick['values'] = yBounds;
+    basicChart.axis.y.tick['values'] =
+        yBounds.filter(bound => bound !== undefined);
     if (!basicChart['regions']) {
       basicChart['regions'] = [];
     }
-    basicChart['regions'].push({axis: 'y', start: yBounds[0], end: yBounds[1]});
+    // c3 only extends a region to the edge of the chart if it has no start or
+    // end at all.
+    const region = {axis: 'y'};
+    if (yBounds[0] !== undefined) {
+      region['start'] = yBounds[0];
+    }
+    if (yBounds[1] !== undefined) {
+      region['end'] = yBounds[1];
+    }
+    basicChart['regions'].push(region);
     return basicChart;
   }
 
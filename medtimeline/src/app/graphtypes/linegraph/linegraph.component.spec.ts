@@ -6,14 +6,15 @@
 import {async, ComponentFixture, TestBed} from '@angular/core/testing';
 import {DomSanitizer} from '@angular/platform-browser';
 import {DateTime, Interval} from 'luxon';
-import {labResult} from 'src/app/clinicalconcepts/display-grouping';
+import {labResult, vitalSign} from 'src/app/clinicalconcepts/display-grouping';
 import {LOINCCode, LOINCCodeGroup} from 'src/app/clinicalconcepts/loinc-code';
 import {AnnotatedObservation} from 'src/app/fhir-data-classes/annotated-observation';
 
 import {Observation} from '../../fhir-data-classes/observation';
 import {ObservationSet} from '../../fhir-data-classes/observation-set';
 import {LineGraphData} from '../../graphdatatypes/linegraphdata';
-import {makeSampleObservationJson, StubFhirService} from '../../test_utils';
+import {makeHeartRateObservationJson, makePatient, makeSampleObservationJson, StubFhirService} from '../../test_utils';
+import {BOSTON_RED} from '../../theme/bch_colors';
 import {ChartType} from '../graph/graph.component';
 
 import {LineGraphComponent} from './linegraph.component';
@@ -98,4 +99,95 @@ describe('LineGraphComponent', () => {
     expect(component.chartConfiguration['regions'][0]['start']).toEqual(10);
     expect(component.chartConfiguration['regions'][0]['end']).toEqual(20);
   });
+
+  it('critical thresholds drawn when there is only one series', () => {
+    const json = makeSampleObservationJson(15, DateTime.utc(1995, 7, 21));
+    json.referenceRange.push({low: {value: 5}, meaning: {text: 'Critical'}});
+    fixture.detectChanges();
+    component.data = LineGraphData.fromObservationSetList(
+        'testgraph',
+        [new ObservationSet([new AnnotatedObservation(new Observation(json))])],
+        loincCodeGroup, TestBed.get(DomSanitizer), []);
+    component.generateChart();
+    expect(component.chartConfiguration.grid.y.lines).toEqual([
+      {value: 5, text: 'Critical low', class: 'criticalThreshold'}
+    ]);
+  });
+
+  it('region extends to the edge of the chart for a one-sided normal range',
+     () => {
+       const json = makeSampleObservationJson(15, DateTime.utc(1995, 7, 21));
+       json.referenceRange = [{text: '<20'}];
+       fixture.detectChanges();
+       component.data = LineGraphData.fromObservationSetList(
+           'testgraph', [new ObservationSet(
+                            [new AnnotatedObservation(new Observation(json))])],
+           loincCodeGroup, TestBed.get(DomSanitizer), []);
+       component.generateChart();
+       expect(component.chartConfiguration['regions']).toEqual([
+         {axis: 'y', end: 20}
+       ]);
+     });
+
+  describe('with normal ranges for the patient\'s age', () => {
+    const heartRate = new ObservationSet([
+      new AnnotatedObservation(new Observation(
+          makeHeartRateObservationJson(150, DateTime.utc(1995, 7, 21)))),
+      new AnnotatedObservation(new Observation(
+          makeHeartRateObservationJson(90, DateTime.utc(1995, 7, 22))))
+    ]);
+    const heartRateGroup = new LOINCCodeGroup(
+        new StubFhirService(), 'Heart Rate',
+        [new LOINCCode('8867-4', vitalSign, 'Heart Rate', true, [20, 300])],
+        vitalSign, ChartType.LINE);
+
+    it('region plotted for the normal range for the patient\'s age', () => {
+      fixture.detectChanges();
+      component.data = LineGraphData.fromObservationSetList(
+          'Heart Rate', [heartRate], heartRateGroup, TestBed.get(DomSanitizer),
+          [], makePatient('1990-01-01'));
+      component.generateChart();
+      expect(component.chartConfiguration['regions'].length).toEqual(1);
+      expect(component.chartConfiguration['regions'][0]['start']).toEqual(80);
+      expect(component.chartConfiguration['regions'][0]['end']).toEqual(120);
+      expect(component.normalBands).toEqual([]);
+    });
+
+    it('normal range shaded by age band when it changes over the date range',
+       () => {
+         fixture.detectChanges();
+         // The patient turns one in the middle of the date range.
+         component.dateRange = Interval.fromDateTimes(
+             DateTime.utc(1995, 7, 20), DateTime.utc(1995, 7, 25));
+         component.data = LineGraphData.fromObservationSetList(
+             'Heart Rate', [heartRate], heartRateGroup,
+             TestBed.get(DomSanitizer), [], makePatient('1994-07-22'));
+         component.generateChart();
+         expect(component.chartConfiguration['regions']).toBeUndefined();
+         expect(component.normalBands.map(band => band.bounds)).toEqual([
+           [100, 180], [98, 140]
+         ]);
+       });
+
+    it('points outside the normal range highlighted', () => {
+      fixture.detectChanges();
+      component.data = LineGraphData.fromObservationSetList(
+          'Heart Rate', [heartRate], heartRateGroup, TestBed.get(DomSanitizer),
+          [], makePatient('1990-01-01'));
+      component.generateChart();
+      const color = component.chartConfiguration.data.color;
+      expect(color('blue', {
+        id: 'Heart Rate',
+        x: DateTime.utc(1995, 7, 21).toJSDate(),
+        value: 150
+      })).toEqual(BOSTON_RED.toString());
+      expect(color('blue', {
+        id: 'Heart Rate',
+        x: DateTime.utc(1995, 7, 22).toJSDate(),
+        value: 90
+      })).toEqual('blue');
+      // Lines are colored by series.
+      expect(color('blue', 'Heart Rate')).toEqual('blue');
+    });
+  });
 });
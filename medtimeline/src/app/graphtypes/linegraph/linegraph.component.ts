@@ -7,8 +7,10 @@ import {Component, forwardRef, Input} from '@angular/core';
 import {DomSanitizer} from '@angular/platform-browser';
 import * as c3 from 'c3';
 import * as d3 from 'd3';
+import {DateTime, Interval} from 'luxon';
 import {LineGraphData} from 'src/app/graphdatatypes/linegraphdata';
 
+import {BOSTON_RED} from '../../theme/bch_colors';
 import {GraphComponent, Y_AXIS_TICK_MAX} from '../graph/graph.component';
 
 @Component({
@@ -22,6 +24,11 @@ import {GraphComponent, Y_AXIS_TICK_MAX} from '../graph/graph.component';
 export class LineGraphComponent extends GraphComponent<LineGraphData> {
   @Input() showTicks: boolean;
 
+  // The normal ranges to shade when they change over the date range, as they
+  // do when the patient moves into another age band. A normal range that
+  // stays the same is shown as a region on the chart instead.
+  normalBands: Array<{interval: Interval, bounds: [number, number]}> = [];
+
   constructor(readonly sanitizer: DomSanitizer) {
     super(sanitizer);
   }
@@ -35,6 +42,35 @@ export class LineGraphComponent extends GraphComponent<LineGraphData> {
 
     // Ensure that a line is not drawn through points with "null" values.
     this.chartConfiguration.line = {connectNull: false};
+    this.chartConfiguration.data.color = (color, d) =>
+        this.pointColor(color, d);
+  }
+
+  /**
+   * @override
+   */
+  updateData() {
+    super.updateData();
+    this.chartConfiguration.data.color = (color, d) =>
+        this.pointColor(color, d);
+  }
+
+  /**
+   * Highlights the points that are outside the normal range on their date.
+   * @param color The color of the series the point belongs to.
+   * @param d The point, or the series when c3 is coloring the line itself.
+   */
+  pointColor(color: string, d: any): string {
+    if (!d || d.value === undefined || d.value === null || !d.x) {
+      return color;
+    }
+    const series = this.data.series.find(s => s.label === d.id);
+    const bounds =
+        series ? series.normalBoundsAt(DateTime.fromJSDate(d.x)) : undefined;
+    const outOfRange = bounds &&
+        ((bounds[0] !== undefined && d.value < bounds[0]) ||
+         (bounds[1] !== undefined && d.value > bounds[1]));
+    return outOfRange ? BOSTON_RED.toString() : color;
   }
 
   /**
@@ -84,11 +120,26 @@ export class LineGraphComponent extends GraphComponent<LineGraphData> {
     // These customizations are based on this.data, which is a type specific for
     // LineGraphData, and could not be generalized in the abstract GraphCard
     // class.
+    this.normalBands = [];
     if (this.data.series.length > 0) {
       const yBounds = this.data.series[0].yNormalBounds;
+      const referenceRanges = this.data.series[0].referenceRanges;
       if (this.data.series.length === 1 && yBounds) {
         this.chartConfiguration =
             this.addYRegionOnChart(this.chartConfiguration, yBounds);
+      } else if (this.data.series.length === 1 && referenceRanges) {
+        // The normal range may change as the patient grows older.
+        const bands = referenceRanges.over(this.dateRange);
+        if (bands.length === 1) {
+          this.chartConfiguration =
+              this.addYRegionOnChart(this.chartConfiguration, bands[0].bounds);
+        } else {
+          this.normalBands = bands;
+        }
+      }
+      const criticalBounds = this.data.series[0].yCriticalBounds;
+      if (this.data.series.length === 1 && criticalBounds) {
+        this.addCriticalThresholds(criticalBounds);
       }
     }
     // Check if there are any data points in the time range.
@@ -125,6 +176,31 @@ export class LineGraphComponent extends GraphComponent<LineGraphData> {
     }
   }
 
+  /**
+   * Draws a line across the chart at each threshold beyond which values are
+   * critical.
+   * @param criticalBounds The low and high critical thresholds. Either may be
+   *     undefined.
+   */
+  private addCriticalThresholds(criticalBounds: [number, number]) {
+    const lines = [];
+    if (criticalBounds[0] !== undefined) {
+      lines.push({
+        value: criticalBounds[0],
+        text: 'Critical low',
+        class: 'criticalThreshold'
+      });
+    }
+    if (criticalBounds[1] !== undefined) {
+      lines.push({
+        value: criticalBounds[1],
+        text: 'Critical high',
+        class: 'criticalThreshold'
+      });
+    }
+    this.chartConfiguration.grid.y = {lines: lines};
+  }
+
   // Manually find y axis tick values based on the min and max display bounds.
   private findYAxisValues(min: number, max: number): number[] {
     // Evenly space out 5 numbers between the min and max (display bounds).
@@ -137,11 +213,73 @@ export class LineGraphComponent extends GraphComponent<LineGraphData> {
     return values;
   }
 
-  onRendered() {
+  onRendered(chartInternal) {
     if (!this.showTicks) {
       d3.select('#' + this.chartDivId)
           .selectAll('.c3-axis-y .tick')
           .style('display', 'none');
     }
+    this.drawNormalBands(chartInternal);
+    this.markCensoredPoints(chartInternal);
+    this.markRevisedPoints();
+  }
+
+  /**
+   * Draws censored values, such as "<0.5", as hollow points so that they are
+   * not mistaken for exact values.
+   * @param chartInternal The rendered c3 chart, which colors the points.
+   */
+  private markCensoredPoints(chartInternal) {
+    const series = this.data.series;
+    d3.select('#' + this.chartDivId)
+        .selectAll('.c3-circle')
+        .each(function(d: any) {
+          const labeledSeries = series.find(s => s.label === d.id);
+          if (labeledSeries && d.x &&
+              labeledSeries.comparators.has(d.x.getTime())) {
+            d3.select(this)
+                .classed('censored', true)
+                .style('stroke', chartInternal.color(d));
+          }
+        });
+  }
+
+  /**
+   * Rings the points for amended and corrected values, whose tooltips show
+   * the values they replaced.
+   */
+  private markRevisedPoints() {
+    const series = this.data.series;
+    d3.select('#' + this.chartDivId)
+        .selectAll('.c3-circle')
+        .classed('revised', (d: any) => {
+          const labeledSeries = series.find(s => s.label === d.id);
+          return !!labeledSeries && !!d.x &&
+              labeledSeries.revisions.has(d.x.getTime());
+        });
+  }
+
+  /**
+   * Shades each normal range over the dates it applies to. c3 regions span
+   * the whole chart along one axis, so the bands are drawn alongside them.
+   * @param chartInternal The rendered c3 chart, whose scales place the bands.
+   */
+  private drawNormalBands(chartInternal) {
+    const regions = d3.select('#' + this.chartDivId).select('.c3-regions');
+    regions.selectAll('.normalBand').remove();
+    for (const band of this.normalBands) {
+      const start =
+          Math.max(0, chartInternal.x(band.interval.start.toJSDate()));
+      const end = Math.min(
+          chartInternal.width, chartInternal.x(band.interval.end.toJSDate()));
+      const top = chartInternal.y(band.bounds[1]);
+      regions.append('g')
+          .attr('class', 'c3-region normalBand')
+          .append('rect')
+          .attr('x', start)
+          .attr('y', top)
+          .attr('width', Math.max(0, end - start))
+          .attr('height', chartInternal.y(band.bounds[0]) - top);
+    }
   }
 }
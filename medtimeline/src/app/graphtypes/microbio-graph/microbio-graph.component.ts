@@ -39,7 +39,7 @@ export class MicrobioGraphComponent extends StepGraphComponent {
   /**
    * Every time the graph is rendered, go back and find all the preliminary
    * points and make sure their fill is transparent and there is a border
-   * around it.
+   * around it. Points from revised reports are ringed.
    */
   onRendered(graphObject) {
     // Apply colors. This will be handled better when we work on the legends.
@@ -75,5 +75,11 @@ export class MicrobioGraphComponent extends StepGraphComponent {
           return !d.id.includes(CHECK_RESULT_CODE);
         })
         .style('stroke', negPrelimMB.outline.toString());
+
+    // Ring the points of amended and corrected reports.
+    graphObject.getCircles().classed(
+        'revised',
+        (d) => d.id.includes(DiagnosticReportStatus.Amended.toString()) ||
+            d.id.includes(DiagnosticReportStatus.Corrected.toString()));
   }
 }
@@ -83,8 +83,16 @@ export class MedicationAdministrationTooltip extends
     return table.outerHTML;
   }
 
+  /**
+   * Formats the dose of an administration. If the dose was converted to
+   * another unit, the dose as it was given follows in parentheses.
+   */
   private formatDosage(administration: MedicationAdministration) {
-    return d3.format(',')(administration.dosage.quantity) + ' ' +
+    const dose = d3.format(',')(administration.dosage.quantity) + ' ' +
         administration.dosage.unit;
+    const original = administration.originalDosage;
+    return original ? dose + ' (' + d3.format(',')(original.quantity) + ' ' +
+            original.unit + ')' :
+                      dose;
   }
 }
@@ -48,4 +48,18 @@ describe('MicrobioTooltip', () => {
             '<td class="name">Salmonella and Shigella Culture</td>' +
             '<td class="value">Check result</td></tr></tbody></table>');
   });
+
+  it('should list the results of the version a report replaced', () => {
+    const [report, previous] = makeDiagnosticReports();
+    report.previousVersion = previous;
+    const tooltipText = new MicrobioTooltip().getTooltip(
+        new AnnotatedDiagnosticReport(report, 'Stool'),
+        TestBed.get(DomSanitizer));
+    expect(tooltipText)
+        .toContain(
+            '<tr><th colspan="2">Previous Results (Final)</th></tr>' +
+            '<tr>' +
+            '<td class="name">Salmonella and Shigella Culture</td>' +
+            '<td class="value">Negative or Flora</td></tr>');
+  });
 });
@@ -11,7 +11,8 @@ import {Tooltip} from '../tooltips/tooltip';
 /*
  * This class makes a tooltip for a DiagnosticReport that applies to all points
  * charted from the same report. It lists the time of the report, the report
- * status, as well as all results contained in the report.
+ * status, as well as all results contained in the report. For amended or
+ * corrected reports, it also lists the results of the version they replaced.
  */
 export class MicrobioTooltip extends Tooltip<AnnotatedDiagnosticReport> {
   getTooltip(
@@ -31,6 +32,23 @@ export class MicrobioTooltip extends Tooltip<AnnotatedDiagnosticReport> {
       Tooltip.addRow(
           table, [result.display, result.interpretation.display], sanitizer);
     }
+    const previous = annotatedReport.report.previousVersion;
+    if (previous) {
+      table.insertRow().insertCell();
+      Tooltip.addHeader(
+          'Previous Results (' + DiagnosticReportStatus[previous.status] + ')',
+          table, sanitizer);
+      for (const result of previous.results) {
+        Tooltip.addRow(
+            table,
+            [
+              result.display,
+              result.interpretation ? result.interpretation.display :
+                                      result.displayValue
+            ],
+            sanitizer);
+      }
+    }
     return table.outerHTML;
   }
 }
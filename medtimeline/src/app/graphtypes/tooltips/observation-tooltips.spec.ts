@@ -9,12 +9,19 @@ import * as d3 from 'd3';
 import {DateTime} from 'luxon';
 import {AnnotatedObservation} from 'src/app/fhir-data-classes/annotated-observation';
 import {Observation} from 'src/app/fhir-data-classes/observation';
-import {makeSampleDiscreteObservationJson} from 'src/app/test_utils';
+import {makeSampleDiscreteObservationJson, restoreCodes, useCodes, vancomycinPeakCode} from 'src/app/test_utils';
 
 import {DiscreteObservationTooltip, GenericAnnotatedObservationTooltip} from './observation-tooltips';
 import {Tooltip} from './tooltip';
 
 describe('DiscreteObservationTooltip', () => {
+  beforeEach(() => {
+    useCodes(vancomycinPeakCode);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
   beforeEach(async(() => {
     TestBed.configureTestingModule({}).compileComponents();
   }));
@@ -57,11 +64,19 @@ describe('DiscreteObservationTooltip', () => {
 
 
 describe('GenericObservationTooltip', () => {
-  const obs = new Observation(
-      makeSampleDiscreteObservationJson('green', DateTime.utc(1988, 3, 23)));
+  beforeEach(() => {
+    useCodes(vancomycinPeakCode);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
+  let obs: Observation;
 
   beforeEach(async(() => {
     TestBed.configureTestingModule({}).compileComponents();
+    obs = new Observation(
+        makeSampleDiscreteObservationJson('green', DateTime.utc(1988, 3, 23)));
   }));
 
   it('should get undefined tooltip if there are no annotations', () => {
@@ -73,6 +88,91 @@ describe('GenericObservationTooltip', () => {
     expect(tooltip).toBeUndefined();
   });
 
+  it('should show the value as reported if it was converted', () => {
+    const temperature = new Observation({
+      code: {
+        coding: [{system: 'http://loinc.org', code: '8310-5'}],
+        text: 'Temperature'
+      },
+      effectiveDateTime: DateTime.utc(1988, 3, 23).toISO(),
+      valueQuantity: {value: 98.6, unit: 'degF'}
+    });
+    const tooltip =
+        new GenericAnnotatedObservationTooltip(true, d3.rgb(12, 67, 199))
+            .getTooltip(
+                new AnnotatedObservation(temperature.convertedTo('Cel')),
+                TestBed.get(DomSanitizer));
+
+    expect(tooltip).toContain('37 Deg C');
+    expect(tooltip).toContain(
+        '<td class="name">Reported as</td><td class="value">98.6 degF</td>');
+  });
+
+  it('should say a censored value is not exact', () => {
+    const censored = new Observation({
+      code: {
+        coding: [{system: 'http://loinc.org', code: '8310-5'}],
+        text: 'Temperature'
+      },
+      effectiveDateTime: DateTime.utc(1988, 3, 23).toISO(),
+      valueQuantity: {value: 30, comparator: '<', unit: 'Cel'}
+    });
+    const tooltip =
+        new GenericAnnotatedObservationTooltip(true, d3.rgb(12, 67, 199))
+            .getTooltip(
+                new AnnotatedObservation(censored), TestBed.get(DomSanitizer));
+
+    expect(tooltip).toContain('&lt;30 Cel');
+    expect(tooltip).toContain('Below the reportable range');
+  });
+
+  it('should show the value a revised value replaced', () => {
+    const json = {
+      code: {
+        coding: [{system: 'http://loinc.org', code: '8310-5'}],
+        text: 'Temperature'
+      },
+      effectiveDateTime: DateTime.utc(1988, 3, 23).toISO(),
+      status: 'amended',
+      valueQuantity: {value: 37, unit: 'Cel'}
+    };
+    const amended = new Observation(json);
+    amended.previousVersion = new Observation(
+        {...json, status: 'final', valueQuantity: {value: 39, unit: 'Cel'}});
+    const tooltip =
+        new GenericAnnotatedObservationTooltip(true, d3.rgb(12, 67, 199))
+            .getTooltip(
+                new AnnotatedObservation(amended), TestBed.get(DomSanitizer));
+
+    expect(tooltip).toContain(
+        '<td class="name">Revised</td><td class="value">Amended</td>');
+    expect(tooltip).toContain(
+        '<td class="name">Previous value</td><td class="value">39 Cel</td>');
+  });
+
+  it('should show the code a mapped value was reported with', () => {
+    const venous = new Observation({
+      code: {
+        coding: [{
+          system: 'http://loinc.org',
+          code: '30350-3',
+          display: 'Hemoglobin [Mass/volume] in Venous blood'
+        }],
+        text: 'Hemoglobin'
+      },
+      effectiveDateTime: DateTime.utc(1988, 3, 23).toISO(),
+      valueQuantity: {value: 12, unit: 'g/dL'}
+    });
+    const tooltip =
+        new GenericAnnotatedObservationTooltip(true, d3.rgb(12, 67, 199))
+            .getTooltip(
+                new AnnotatedObservation(venous), TestBed.get(DomSanitizer));
+
+    expect(tooltip).toContain(
+        '<td class="name">Source code</td><td class="value">30350-3 ' +
+        'Hemoglobin [Mass/volume] in Venous blood (http://loinc.org)</td>');
+  });
+
   it('should generate tooltip text', () => {
     const tooltipText = new DiscreteObservationTooltip().getTooltip(
         [
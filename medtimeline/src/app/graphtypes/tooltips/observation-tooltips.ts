@@ -7,7 +7,9 @@ import {DomSanitizer} from '@angular/platform-browser';
 import {Color} from 'd3';
 import {AnnotatedObservation} from 'src/app/fhir-data-classes/annotated-observation';
 
+import {SourceCode} from '../../clinicalconcepts/concept-map';
 import {Observation} from '../../fhir-data-classes/observation';
+import {fixUnitAbbreviations} from '../../unit_utils';
 
 import {Tooltip} from './tooltip';
 
@@ -22,6 +24,15 @@ export class DiscreteObservationTooltip extends Tooltip<Observation[]> {
     Tooltip.addTimeHeader(observations[0].timestamp, table, sanitizer);
     for (const obs of observations) {
       Tooltip.addRow(table, [obs.label, obs.result], sanitizer);
+      if (obs.sourceCode) {
+        Tooltip.addRow(
+            table, ['Source code', describeSourceCode(obs.sourceCode)],
+            sanitizer);
+      }
+      if (obs.previousVersion) {
+        Tooltip.addRow(
+            table, ['Previously', obs.previousVersion.displayValue], sanitizer);
+      }
     }
     return table.outerHTML;
   }
@@ -41,12 +52,21 @@ export class GenericAnnotatedObservationTooltip extends
    * Returns the HTML for a generic tooltip.
    * @param observation The AnnotatedObservation used to generate the tooltip
    * @param sanitizer A DOM sanitizer
-   * @returns If the observation has annotations, a HTML table with the
-   *     annotation values. If there are no annotations, will return undefined.
+   * @returns If the observation has annotations, its value was converted
+   *     from another unit, its value is censored, it was revised or it was
+   *     reported with a mapped code, a HTML table with the annotation values,
+   *     the value as it was reported, whether it is exact, the value it
+   *     replaced and the code it was reported with. Otherwise, will return
+   *     undefined.
    */
   getTooltip(observation: AnnotatedObservation, sanitizer: DomSanitizer): string
       |undefined {
-    if (observation.annotationValues.length === 0) {
+    const originalValue = observation.observation.originalValue;
+    const comparator = observation.observation.comparator;
+    const isRevised = observation.observation.isRevised;
+    const sourceCode = observation.observation.sourceCode;
+    if (observation.annotationValues.length === 0 && !originalValue &&
+        !comparator && !isRevised && !sourceCode) {
       return undefined;
     }
     const table = Tooltip.createNewTable();
@@ -59,13 +79,59 @@ export class GenericAnnotatedObservationTooltip extends
         table,
         [
           observation.label,
-          observation.observation.value.value + ' ' +
-              observation.observation.unit
+          (comparator || '') + observation.observation.value.value +
+              (observation.observation.unit ?
+                   ' ' + observation.observation.unit :
+                   '')
         ],
         sanitizer, this.color);
+    if (originalValue) {
+      Tooltip.addRow(
+          table,
+          [
+            'Reported as',
+            (comparator || '') + originalValue.value + ' ' +
+                fixUnitAbbreviations(originalValue.unit || originalValue.code)
+          ],
+          sanitizer);
+    }
+    if (comparator) {
+      Tooltip.addRow(
+          table,
+          [
+            'Censored',
+            comparator.startsWith('<') ? 'Below the reportable range' :
+                                         'Above the reportable range'
+          ],
+          sanitizer);
+    }
+    if (isRevised) {
+      const previous = observation.observation.previousVersion;
+      Tooltip.addRow(
+          table, ['Revised', observation.observation.status], sanitizer);
+      if (previous) {
+        Tooltip.addRow(
+            table, ['Previous value', previous.displayValue], sanitizer);
+      }
+    }
+    if (sourceCode) {
+      Tooltip.addRow(
+          table, ['Source code', describeSourceCode(sourceCode)], sanitizer);
+    }
     for (const annotation of observation.annotationValues) {
       Tooltip.addRow(table, annotation, sanitizer);
     }
     return table.outerHTML;
   }
 }
+
+/**
+ * Describes the code an Observation was reported with, such as
+ * "1234 Hgb (http://example.org/local-codes)".
+ * @param sourceCode The code the Observation was reported with.
+ */
+function describeSourceCode(sourceCode: SourceCode): string {
+  return [sourceCode.code, sourceCode.display, '(' + sourceCode.system + ')']
+      .filter(part => !!part)
+      .join(' ');
+}
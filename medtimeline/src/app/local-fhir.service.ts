@@ -0,0 +1,357 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Interval} from 'luxon';
+import {FhirResourceType} from 'src/constants';
+
+import {BCHMicrobioCodeGroup} from './clinicalconcepts/bch-microbio-code';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {ResourceCode} from './clinicalconcepts/resource-code-group';
+import {RxNormCode} from './clinicalconcepts/rx-norm';
+import {codeOf, DroppedResource} from './data-quality.service';
+import {DiagnosticReport} from './fhir-data-classes/diagnostic-report';
+import {Encounter} from './fhir-data-classes/encounter';
+import {FhirVersion, medicationOrderResourceType} from './fhir-data-classes/fhir-version';
+import {MedicationAdministration} from './fhir-data-classes/medication-administration';
+import {MedicationOrder} from './fhir-data-classes/medication-order';
+import {Observation, ObservationStatus} from './fhir-data-classes/observation';
+import {Patient} from './fhir-data-classes/patient';
+import {FhirService} from './fhir.service';
+import {categoriesOf, ObservationCategory, ObservationCode, tallyObservationCodes} from './observation-codes';
+
+/**
+ * A resource that could not be turned into one of the app's data classes.
+ */
+export interface ResourceParseFailure {
+  /** Where the resource came from, such as the name of a file. */
+  source: string;
+  /** The type of the resource, if known. */
+  resourceType?: string;
+  /** The id of the resource, if known. */
+  id?: string;
+  /** The code of the resource, such as its LOINC code, if it has one. */
+  code?: string;
+  /** Why the resource could not be parsed. */
+  message: string;
+}
+
+/**
+ * A FhirService that answers queries from resources held in memory rather
+ * than from a FHIR server. Implementing classes decide where the resources
+ * come from, and index them with indexResources.
+ */
+export abstract class LocalFhirService extends FhirService {
+  errorMessage: string;
+
+  /** The version of the FHIR standard the resources follow. */
+  protected fhirVersion = FhirVersion.DSTU2;
+
+  private readonly loincMap = new Map<LOINCCode, Observation[]>();
+  // The JSON of every Observation, including those with codes the app does
+  // not know about, so that results without a card can be found.
+  private readonly observationJsons = new Array<any>();
+  private readonly medicationAdministrationMapByCode =
+      new Map<RxNormCode, MedicationAdministration[]>();
+  private readonly medicationAdministrationMapByOrderId =
+      new Map<string, MedicationAdministration[]>();
+  private readonly medicationOrderMap = new Map<string, MedicationOrder[]>();
+  private readonly diagnosticReportMap =
+      new Map<ResourceCode, DiagnosticReport[]>();
+  private readonly encounters = new Array<Encounter>();
+  private patient: Patient;
+
+  /**
+   * Resolves once all the resources have been indexed.
+   */
+  protected abstract whenDataLoaded(): Promise<any>;
+
+  /**
+   * Removes all the indexed resources.
+   */
+  protected clearData() {
+    this.loincMap.clear();
+    this.observationJsons.length = 0;
+    this.medicationAdministrationMapByCode.clear();
+    this.medicationAdministrationMapByOrderId.clear();
+    this.medicationOrderMap.clear();
+    this.diagnosticReportMap.clear();
+    this.encounters.length = 0;
+    this.patient = undefined;
+  }
+
+  /**
+   * Indexes resources so that they can be found by code, order id, or time.
+   * Resources of types the app does not display are skipped.
+   * @param resources The JSON of the resources to index.
+   * @param source Where the resources came from, to report failures with.
+   * @returns The resources that could not be parsed.
+   */
+  protected indexResources(resources: any[], source: string):
+      ResourceParseFailure[] {
+    const failures = new Array<ResourceParseFailure>();
+    const index = <K, V>(
+        json: any, mapToUpdate: Map<K, V[]>, constructorFn: (any) => V,
+        getCodesFn: (value: V) => K[]) => {
+      const failure = this.constructResourceMap(
+          json, mapToUpdate, constructorFn, getCodesFn, source);
+      if (failure) {
+        failures.push(failure);
+      }
+    };
+
+    for (const json of resources) {
+      const resourceType = json.resourceType;
+      if (resourceType === FhirResourceType.Observation) {
+        this.observationJsons.push(json);
+        index(
+            json, this.loincMap,
+            (x: any) => new Observation(x, this.fhirVersion),
+            (obs) => obs.codes);
+      }
+
+      if (resourceType === FhirResourceType.MedicationAdministration) {
+        index(
+            json, this.medicationAdministrationMapByCode,
+            (d) => new MedicationAdministration(d, this.fhirVersion),
+            (admin) => [admin.rxNormCode]);
+
+        // Any failure has already been reported above.
+        this.constructResourceMap(
+            json, this.medicationAdministrationMapByOrderId,
+            (d) => new MedicationAdministration(d, this.fhirVersion),
+            (admin) => [admin.medicationOrderId], source);
+      }
+
+      if (resourceType === medicationOrderResourceType(this.fhirVersion)) {
+        index(
+            json, this.medicationOrderMap,
+            (d) => new MedicationOrder(d, this.fhirVersion),
+            (order) => [order.orderId]);
+      }
+
+      if (resourceType === FhirResourceType.Encounter) {
+        try {
+          this.encounters.push(new Encounter(json, this.fhirVersion));
+        } catch (err) {
+          failures.push(makeFailure(json, source, err));
+        }
+      }
+
+      if (resourceType === FhirResourceType.Patient) {
+        try {
+          this.patient = new Patient(json, this.fhirVersion);
+        } catch (err) {
+          failures.push(makeFailure(json, source, err));
+        }
+      }
+
+      if (resourceType === FhirResourceType.DiagnosticReport) {
+        index(
+            json, this.diagnosticReportMap,
+            (d) => new DiagnosticReport(d, [], this.fhirVersion),
+            (report) =>
+                report.results.map(x => x.codes)
+                    .reduce((prev: ResourceCode[], curr: ResourceCode[]) => {
+                      return prev.concat(curr);
+                    }, []));
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Gets observations from a specified date range with a specific LOINC code.
+   * @param code The LOINC code for which to get observations.
+   * @param dateRange The time interval observations should fall between.
+   * @param limitCount If set, the number of observations that should be
+   *     queried for
+   */
+  getObservationsWithCode(
+      code: LOINCCode, dateRange: Interval,
+      limitCount?: number): Promise<Observation[]> {
+    return this.whenDataLoaded().then(
+        map =>
+            this.getObservations(this.loincMap, code, dateRange, limitCount));
+  }
+
+  /**
+   * Gets the LOINC codes of the indexed observations in a category, whether
+   * or not the app knows about them.
+   * @param category The category of the observations.
+   * @param dateRange The time interval observations should fall between.
+   */
+  getObservationCodes(category: ObservationCategory, dateRange: Interval):
+      Promise<ObservationCode[]> {
+    return this.whenDataLoaded().then(x => {
+      const jsons = this.observationJsons.filter(json => {
+        const timestamp = Observation.getEffectiveTime(json, this.fhirVersion);
+        return categoriesOf(json).includes(category) &&
+            json.status !== 'entered-in-error' && !!timestamp &&
+            dateRange.contains(timestamp);
+      });
+      return tallyObservationCodes(jsons, category);
+    });
+  }
+
+  /**
+   * Gets medication data from a specified date range with a specific Rx code
+   * @param code The RxNormCode codes for which to get observations.
+   * @param dateRange The time interval observations should fall between.
+   * @param limitCount Unused in this implementation, as this is just a
+   *     time-saving feature for HTTP calls.
+   */
+  getMedicationAdministrationsWithCode(
+      code: RxNormCode, dateRange: Interval,
+      limitCount?: number): Promise<MedicationAdministration[]> {
+    return this.whenDataLoaded().then(
+        x => this.medicationAdministrationMapByCode.has(code) ?
+            this.medicationAdministrationMapByCode.get(code)
+                .filter(obs => dateRange.contains(obs.timestamp))
+                .slice(0, limitCount ? limitCount : undefined) :
+            []);
+  }
+
+  /**
+   * Returns the order with the given id from the indexed orders.
+   * @param id The id to pull the order from.
+   */
+  getMedicationOrderWithId(id: string): Promise<MedicationOrder> {
+    return this.whenDataLoaded().then(
+        x => this.medicationOrderMap.has(id) ?
+            this.medicationOrderMap.get(id)[0] :
+            undefined);
+  }
+
+  /**
+   * Gets administrations for specified order id.
+   * @param id The id to pull the order from.
+   */
+  getMedicationAdministrationsWithOrder(id: string):
+      Promise<MedicationAdministration[]> {
+    return this.whenDataLoaded().then(
+        x => this.medicationAdministrationMapByOrderId.get(id));
+  }
+
+  /**
+   * Gets the patient whose resources were loaded.
+   * @returns The patient, or undefined if no Patient resource was loaded.
+   */
+  getPatient(): Promise<Patient> {
+    return this.whenDataLoaded().then(x => this.patient);
+  }
+
+  /**
+   * Gets the encounters for the patient for any encounter that falls in the
+   * given date range.
+   * @param dateRange Return all encounters that covered any time in this
+   *   date range.
+   */
+  getEncountersForPatient(dateRange: Interval): Promise<Encounter[]> {
+    return this.whenDataLoaded().then(
+        x => this.encounters.filter(
+            encounter => dateRange.intersection(encounter.period) !== null));
+  }
+
+  /**
+   * Prints the current HTML of the graphs rendered to the console.
+   * @param html The inner HTML to keep in the Document.
+   * @param date The date the note was written for.
+   */
+  saveStaticNote(html: string, date: string) {
+    console.log('Save to note button clicked for local data for date: ' + date);
+    console.log(html);
+  }
+
+  /**
+   * Gets the DiagnosticReports for the patient for any report that falls in
+   * the given date range, whose contained Observations are in the codeGroup
+   * provided.
+   * @param codeGroup The CodeGroup to retrieve DiagnosticReports for.
+   * @param dateRange Return all DiagnosticReports that covered any time in
+   *     this date range.
+   */
+  getDiagnosticReports(
+      codeGroup: BCHMicrobioCodeGroup, dateRange: Interval,
+      limitCount?: number): Promise<DiagnosticReport[]> {
+    return this.whenDataLoaded().then(x => {
+      let reports = new Array<DiagnosticReport>();
+      for (const code of codeGroup.resourceCodes) {
+        if (this.diagnosticReportMap.has(code)) {
+          reports = reports.concat(this.diagnosticReportMap.get(code));
+        }
+      }
+      return reports
+          .filter(
+              report => report.specimens.map(s => s.type)
+                            .find(specimen => specimen === codeGroup.label) !==
+                  undefined)
+          .slice(0, limitCount ? limitCount : undefined);
+    });
+  }
+
+  private getObservations(
+      map: Map<LOINCCode, Observation[]>, code: LOINCCode, dateRange: Interval,
+      limitCount = 0) {
+    return map.has(code) ?
+        map.get(code)
+            .filter(obs => dateRange.contains(obs.timestamp))
+            .filter(obs => obs.status !== ObservationStatus.EnteredInError)
+            .slice(0, limitCount ? limitCount : undefined) :
+        [];
+  }
+
+  private constructResourceMap<K, V>(
+      json: any, mapToUpdate: Map<K, V[]>, constructorFn: (any) => V,
+      getCodesFn: (value: V) => K[], source: string): ResourceParseFailure {
+    try {
+      const obj = constructorFn(json);
+      const uniqueCodes = Array.from(new Set(getCodesFn(obj)));
+      for (const code of uniqueCodes) {
+        let existing = mapToUpdate.get(code);
+        if (!existing) {
+          existing = [];
+        }
+        existing.push(obj);
+        mapToUpdate.set(code, existing);
+      }
+    } catch (err) {
+      return makeFailure(json, source, err);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Describes a resource that could not be parsed.
+ * @param json The JSON of the resource.
+ * @param source Where the resource came from.
+ * @param err The error thrown while parsing the resource.
+ */
+function makeFailure(
+    json: any, source: string, err: any): ResourceParseFailure {
+  return {
+    source: source,
+    resourceType: json ? json.resourceType : undefined,
+    id: json ? json.id : undefined,
+    code: codeOf(json),
+    message: err && err.message ? err.message : String(err)
+  };
+}
+
+/**
+ * Describes a resource that could not be parsed in the form the data quality
+ * report keeps.
+ * @param failure The resource that could not be parsed.
+ */
+export function toDroppedResource(failure: ResourceParseFailure):
+    DroppedResource {
+  return {
+    resourceType: failure.resourceType,
+    id: failure.id,
+    code: failure.code,
+    reason: failure.message,
+    source: failure.source
+  };
+}
@@ -0,0 +1,58 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {of, throwError} from 'rxjs';
+
+import {MEDICATION_CLASS_TABLE_VERSION, MedicationClassCatalogue} from './clinicalconcepts/medication-classes';
+import {ANTIVIRAL} from './clinicalconcepts/rx-norm';
+import {DebuggerService, Severity} from './debugger.service';
+import {MedicationClassService} from './medication-class.service';
+
+describe('MedicationClassService', () => {
+  let debugService: DebuggerService;
+  let catalogue: MedicationClassCatalogue;
+
+  beforeEach(() => {
+    debugService = new DebuggerService();
+    catalogue = new MedicationClassCatalogue();
+  });
+
+  it('should add the medications it loads', (done: DoneFn) => {
+    const http: any = {
+      get: () => of({
+        version: MEDICATION_CLASS_TABLE_VERSION,
+        classes: [{atcCode: 'J05', label: 'Antiviral'}],
+        medications: [{code: '281', label: 'Acyclovir', atcCode: 'J05AB01'}]
+      })
+    };
+    const service = new MedicationClassService(http, debugService, catalogue);
+    service.load('assets/medication-classes.json').then(() => {
+      expect(catalogue.classOf('281')).toBe(ANTIVIRAL);
+      expect(debugService.events).toEqual([]);
+      done();
+    });
+  });
+
+  it('should log a warning if the table is invalid', (done: DoneFn) => {
+    const http: any = {get: () => of({version: 0})};
+    const service = new MedicationClassService(http, debugService, catalogue);
+    service.load('assets/medication-classes.json').then(() => {
+      expect(debugService.events.length).toEqual(1);
+      expect(debugService.events[0].severity).toEqual(Severity.Warning);
+      expect(debugService.events[0].query)
+          .toEqual('assets/medication-classes.json');
+      done();
+    });
+  });
+
+  it('should log a warning if the table cannot be loaded', (done: DoneFn) => {
+    const http: any = {get: () => throwError({status: 404})};
+    const service = new MedicationClassService(http, debugService, catalogue);
+    service.load('assets/medication-classes.json').then(() => {
+      expect(debugService.events[0].status).toEqual(404);
+      done();
+    });
+  });
+});
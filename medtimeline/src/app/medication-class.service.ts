@@ -0,0 +1,61 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {HttpClient} from '@angular/common/http';
+import {Injectable, Optional} from '@angular/core';
+
+import {environment} from '../environments/environment';
+
+import {MedicationClassCatalogue, medicationClasses} from './clinicalconcepts/medication-classes';
+import {DebuggerService, Severity} from './debugger.service';
+
+/**
+ * This service loads a site's medication class table when the app starts, so
+ * that the site's medications are shown on the medication summary cards of
+ * their classes.
+ */
+@Injectable({providedIn: 'root'})
+export class MedicationClassService {
+  constructor(
+      @Optional() private http?: HttpClient,
+      private debugService: DebuggerService = new DebuggerService(),
+      readonly catalogue: MedicationClassCatalogue = medicationClasses) {}
+
+  /**
+   * Loads a medication class table and adds its classes and medications to
+   * the catalogue.
+   * @param url Where to load the table from. If unset, only the table shipped
+   *     with the app is used.
+   * @returns A promise that resolves once the table is loaded, even if it
+   *     could not be.
+   */
+  load(url: string): Promise<void> {
+    if (!url || !this.http) {
+      return Promise.resolve();
+    }
+    return this.http.get(url)
+        .toPromise<any>()
+        .then(json => {
+          this.catalogue.addTable(json);
+        })
+        .catch(error => {
+          this.debugService.logError(error, {
+            source: 'MedicationClassService',
+            severity: Severity.Warning,
+            query: url
+          });
+        });
+  }
+}
+
+/**
+ * Makes the app initializer that loads the site's medication class table
+ * before the app starts.
+ * @param service The service to load the table with.
+ */
+export function loadMedicationClasses(service: MedicationClassService): () =>
+    Promise<void> {
+  return () => service.load(environment.medicationClassesUrl);
+}
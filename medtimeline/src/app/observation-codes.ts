@@ -0,0 +1,82 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+
+/**
+ * The categories of Observations searched for codes that have no card, from
+ * the FHIR observation-category value set.
+ * http://hl7.org/fhir/DSTU2/valueset-observation-category.html
+ */
+export enum ObservationCategory {
+  Laboratory = 'laboratory',
+  VitalSigns = 'vital-signs'
+}
+
+/**
+ * A LOINC code found in the patient's Observations, with how many
+ * Observations have it.
+ */
+export interface ObservationCode {
+  code: string;
+  /** The display text of the code, if any Observation gave one. */
+  display: string;
+  category: ObservationCategory;
+  count: number;
+}
+
+/**
+ * Gets the categories of an Observation from its JSON. The category is a
+ * single CodeableConcept in DSTU2 and a list of them in R4.
+ * @param json The JSON of the Observation.
+ * @returns The codes of the categories.
+ */
+export function categoriesOf(json: any): string[] {
+  if (!json || !json.category) {
+    return [];
+  }
+  const concepts: any[] =
+      Array.isArray(json.category) ? json.category : [json.category];
+  return [].concat(...concepts.map(
+      concept =>
+          concept.coding ? concept.coding.map(coding => coding.code) : []));
+}
+
+/**
+ * Counts the LOINC codes of Observations.
+ * @param jsons The JSON of the Observations.
+ * @param category The category the Observations were found in.
+ * @returns The codes, in the order they were first found.
+ */
+export function tallyObservationCodes(
+    jsons: any[], category: ObservationCategory): ObservationCode[] {
+  const codes = new Map<string, ObservationCode>();
+  for (const json of jsons) {
+    const codings: any[] =
+        json.code && json.code.coding ? json.code.coding : [];
+    // An Observation is counted once for each of its LOINC codes.
+    const seen = new Set<string>();
+    for (const coding of codings.filter(
+             c => c.system === LOINCCode.CODING_STRING && c.code)) {
+      if (seen.has(coding.code)) {
+        continue;
+      }
+      seen.add(coding.code);
+      const existing = codes.get(coding.code);
+      if (existing) {
+        existing.count++;
+        existing.display = existing.display || coding.display;
+      } else {
+        codes.set(coding.code, {
+          code: coding.code,
+          display: coding.display || json.code.text,
+          category: category,
+          count: 1
+        });
+      }
+    }
+  }
+  return Array.from(codes.values());
+}
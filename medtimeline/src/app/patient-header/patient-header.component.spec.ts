@@ -0,0 +1,74 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {DateTime, Interval} from 'luxon';
+
+import {LOINCCode} from '../clinicalconcepts/loinc-code';
+import {Observation} from '../fhir-data-classes/observation';
+import {FhirService} from '../fhir.service';
+import {StubFhirService} from '../test_utils';
+
+import {PatientHeaderComponent} from './patient-header.component';
+
+class StubFhirServiceWithWeights extends StubFhirService {
+  getObservationsWithCode(code: LOINCCode, dateRange: Interval):
+      Promise<Observation[]> {
+    return Promise.resolve([
+      makeWeight(18.5, DateTime.utc(2019, 2, 1)),
+      makeWeight(19.1, DateTime.utc(2019, 2, 15)),
+      makeWeight(18.9, DateTime.utc(2019, 2, 10))
+    ]);
+  }
+}
+
+function makeWeight(value: number, timestamp: DateTime): Observation {
+  return new Observation({
+    code: {
+      coding: [{system: 'http://loinc.org', code: '29463-7'}],
+      text: 'Body Weight'
+    },
+    effectiveDateTime: timestamp.toISO(),
+    valueQuantity: {value: value, unit: 'kg'}
+  });
+}
+
+describe('PatientHeaderComponent', () => {
+  let component: PatientHeaderComponent;
+  let fixture: ComponentFixture<PatientHeaderComponent>;
+
+  beforeEach(async(() => {
+    TestBed
+        .configureTestingModule({
+          declarations: [PatientHeaderComponent],
+          providers: [
+            {provide: FhirService, useValue: new StubFhirServiceWithWeights()}
+          ]
+        })
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(PatientHeaderComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show the patient and their latest weight', async(() => {
+       fixture.whenStable().then(() => {
+         fixture.detectChanges();
+         expect(component.patient.name).toEqual('Timmy Smart');
+         expect(component.latestWeight.value.value).toEqual(19.1);
+         const text = fixture.nativeElement.textContent;
+         expect(text).toContain('Timmy Smart');
+         expect(text).toContain('MRN: 4342012');
+         expect(text).toContain('19.1 kg');
+       });
+     }));
+});
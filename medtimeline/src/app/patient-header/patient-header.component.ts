@@ -0,0 +1,76 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Component, OnInit} from '@angular/core';
+import {DateTime, Interval} from 'luxon';
+
+import {APP_TIMESPAN} from '../../constants';
+import {bodyWeightLoinc} from '../clinicalconcepts/resource-code-manager';
+import {Observation} from '../fhir-data-classes/observation';
+import {Patient} from '../fhir-data-classes/patient';
+import {FhirService} from '../fhir.service';
+
+/**
+ * Shows who the patient is above the timeline, so that clinicians can always
+ * check they are looking at the right record: their name, medical record
+ * number, age, sex and latest weight.
+ */
+@Component({
+  selector: 'app-patient-header',
+  templateUrl: './patient-header.component.html',
+  styleUrls: ['./patient-header.component.css']
+})
+export class PatientHeaderComponent implements OnInit {
+  patient: Patient;
+  // The patient's most recent weight, if one has been recorded.
+  latestWeight: Observation;
+  // Set if the patient could not be retrieved.
+  errorMessage: string;
+
+  constructor(private fhirService: FhirService) {}
+
+  ngOnInit() {
+    this.fhirService.getPatient().then(
+        patient => {
+          this.patient = patient;
+          if (patient) {
+            this.findLatestWeight(patient);
+          }
+        },
+        rejection => {
+          this.errorMessage = 'Patient information could not be retrieved.';
+        });
+  }
+
+  /**
+   * The date the latest weight was measured, for display.
+   */
+  get latestWeightDate(): string {
+    return this.latestWeight.timestamp.toLocal().toLocaleString(
+        DateTime.DATE_MED);
+  }
+
+  /**
+   * Looks for weights measured any time since the patient was born, since
+   * the latest weight may have been taken before the time shown in the app.
+   * A missing weight is left out of the header rather than reported.
+   */
+  private findLatestWeight(patient: Patient) {
+    const dateRange = Interval.fromDateTimes(
+        patient.birthDate ? patient.birthDate : APP_TIMESPAN.start,
+        DateTime.utc());
+    this.fhirService.getObservationsWithCode(bodyWeightLoinc, dateRange)
+        .then(weights => {
+          for (const weight of weights) {
+            if (weight.value &&
+                (!this.latestWeight ||
+                 weight.timestamp.toMillis() >
+                     this.latestWeight.timestamp.toMillis())) {
+              this.latestWeight = weight;
+            }
+          }
+        }, rejection => {});
+  }
+}
@@ -0,0 +1,167 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DateTime, Interval} from 'luxon';
+
+import {DisplayGrouping} from './clinicalconcepts/display-grouping';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {FhirHttpService} from './fhir-http.service';
+import {FhirRecorder, FhirRecording} from './fhir-recorder';
+import {FhirRequestError} from './fhir-transport';
+import {ReplayFhirService} from './replay-fhir.service';
+import {makeSampleObservationJson, restoreCodes, useCodes} from './test_utils';
+
+/**
+ * A stand-in for a FHIR server with a few Observations, answered two to a
+ * page.
+ */
+class FakeFhirServer {
+  readonly id = '123';
+  readonly observations = Array.from(
+      Array(3).keys(),
+      day =>
+          makeSampleObservationJson(10 + day, DateTime.utc(2018, 8, day + 1)));
+
+  get api() {
+    return {
+      conformance: () => Promise.resolve({data: {fhirVersion: '1.0.2'}}),
+      search: () => Promise.resolve({data: this.makePage(0)}),
+      nextPage: (params: any) => {
+        const next = params.bundle.link.find(link => link.relation === 'next');
+        return Promise.resolve({data: this.makePage(Number(next.url))});
+      },
+      transaction: (params: any) => Promise.resolve({
+        data: {
+          resourceType: 'Bundle',
+          type: 'batch-response',
+          entry: params.bundle.entry.map(
+              entry =>
+                  ({resource: this.makePage(0), response: {status: '200'}}))
+        }
+      }),
+      read: () =>
+          Promise.reject({error: {status: 404, getResponseHeader: () => null}})
+    };
+  }
+
+  private makePage(start: number): any {
+    return {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      link: start + 2 < this.observations.length ?
+          [{relation: 'next', url: (start + 2).toString()}] :
+          [],
+      entry: this.observations.slice(start, start + 2)
+                 .map(resource => ({resource: resource}))
+    };
+  }
+}
+
+describe('ReplayFhirService', () => {
+  const grouping = new DisplayGrouping('concept', 'red');
+  const hemoglobin = new LOINCCode('718-7', grouping, 'Hemoglobin', true);
+  const heartRate = new LOINCCode('8867-4', grouping, 'Heart Rate', true);
+  beforeEach(() => {
+    useCodes(hemoglobin, heartRate);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
+  const dateRange = Interval.fromDateTimes(
+      DateTime.utc(2018, 8, 1), DateTime.utc(2018, 8, 31));
+
+  // Records a session against the fake server, saved and read back the way a
+  // fixture file would be.
+  function recordSession(): Promise<FhirRecording> {
+    const recorder = new FhirRecorder();
+    recorder.enabled = true;
+    const server = new FakeFhirServer();
+    const liveService = new FhirHttpService(
+        null, {oauth2: {ready: (smart, err) => smart({patient: server})}}, null,
+        recorder);
+    return Promise
+        .all([
+          liveService.getObservationsWithCode(hemoglobin, dateRange),
+          liveService.observationsPresentWithCode(hemoglobin, dateRange),
+          liveService.observationsPresentWithCode(heartRate, dateRange)
+        ])
+        .then(() => JSON.parse(JSON.stringify(recorder.toRecording())));
+  }
+
+  it('should answer requests the way they were answered when recorded',
+     (done: DoneFn) => {
+       recordSession().then(recording => {
+         const service = new ReplayFhirService(recording);
+         service.getObservationsWithCode(hemoglobin, dateRange)
+             .then(observations => {
+               expect(observations.map(obs => obs.value.value)).toEqual([
+                 10, 11, 12
+               ]);
+               done();
+             });
+       });
+     });
+
+  it('should answer searches whether or not they are batched',
+     (done: DoneFn) => {
+       recordSession().then(recording => {
+         const service = new ReplayFhirService(recording);
+         // Checked one at a time, so the searches are not batched as they
+         // were when recorded.
+         service.observationsPresentWithCode(heartRate, dateRange)
+             .then(present => {
+               expect(present).toBe(true);
+               return service.observationsPresentWithCode(
+                   hemoglobin, dateRange);
+             })
+             .then(present => {
+               expect(present).toBe(true);
+               done();
+             });
+       });
+     });
+
+  it('should replay failures without retrying them', (done: DoneFn) => {
+    const service = new ReplayFhirService({
+      recordedAt: '2019-02-20T00:00:00Z',
+      patientId: '123',
+      exchanges: [
+        {
+          method: 'conformance',
+          request: 'metadata',
+          response: {data: {fhirVersion: '1.0.2'}}
+        },
+        {
+          method: 'fetchAll',
+          request: 'Encounter?patient=123',
+          failure: {status: 503}
+        }
+      ]
+    });
+    service.getEncountersForPatient(dateRange).catch(error => {
+      expect(error instanceof FhirRequestError).toBe(true);
+      expect(error.status).toBe(503);
+      expect(error.attempts).toBe(1);
+      done();
+    });
+  });
+
+  it('should fail requests that were not recorded', (done: DoneFn) => {
+    const service = new ReplayFhirService({
+      recordedAt: '2019-02-20T00:00:00Z',
+      patientId: '123',
+      exchanges: [{
+        method: 'conformance',
+        request: 'metadata',
+        response: {data: {fhirVersion: '1.0.2'}}
+      }]
+    });
+    service.getMedicationOrderWithId('1').catch(error => {
+      expect(error.message).toContain('No response was recorded');
+      done();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DomSanitizer} from '@angular/platform-browser';
+
+import {FhirResourceType} from '../constants';
+
+import {DebuggerService} from './debugger.service';
+import {FhirHttpService} from './fhir-http.service';
+import {describeRequest, FhirExchange, FhirRecording} from './fhir-recorder';
+import {statusOf} from './fhir-transport';
+
+/**
+ * The SMART API methods a replayed session can answer.
+ */
+const REPLAYED_METHODS = [
+  'search', 'fetchAll', 'read', 'vread', 'resourceHistory', 'nextPage',
+  'conformance', 'create'
+];
+
+/**
+ * A FhirService that answers requests from a session recorded by
+ * FhirRecorder rather than from a FHIR server. Responses go through the same
+ * parsing as they did in the recorded session, so a recording of a session
+ * that went wrong can be replayed as a regression test or a demo.
+ *
+ * Each request is answered with the responses recorded for it, in the order
+ * they were recorded, after which the last response is repeated. Requests
+ * that were never recorded fail.
+ */
+export class ReplayFhirService extends FhirHttpService {
+  constructor(
+      recording: FhirRecording, debugService = new DebuggerService(),
+      sanitizer: DomSanitizer = null) {
+    super(debugService, replayClient(recording), sanitizer);
+    // Failures were recorded after any retries, so should not be retried.
+    this.transport.options = {...this.transport.options, maxRetries: 0};
+  }
+}
+
+/**
+ * Makes a stand-in for the SMART on FHIR client that answers requests from
+ * a recording.
+ * @param recording The recorded session.
+ */
+function replayClient(recording: FhirRecording): any {
+  const exchanges = new Map<string, FhirExchange[]>();
+  for (const exchange of recording.exchanges) {
+    const key = exchange.method + ' ' + exchange.request;
+    if (!exchanges.has(key)) {
+      exchanges.set(key, []);
+    }
+    exchanges.get(key).push(exchange);
+  }
+
+  const replay = (method: string, request: string): Promise<any> => {
+    const recorded = exchanges.get(method + ' ' + request);
+    if (!recorded) {
+      return Promise.reject(
+          Error('No response was recorded for ' + method + ' ' + request));
+    }
+    const exchange = recorded.length > 1 ? recorded.shift() : recorded[0];
+    if (exchange.failure) {
+      return Promise.reject(
+          exchange.failure.status === undefined ?
+              Error(exchange.failure.message) :
+              {
+                error: {
+                  status: exchange.failure.status,
+                  getResponseHeader: () => null
+                }
+              });
+    }
+    return Promise.resolve(exchange.response);
+  };
+
+  const api = {};
+  for (const method of REPLAYED_METHODS) {
+    api[method] = (params: any) =>
+        replay(method, describeRequest(method, params, recording.patientId));
+  }
+  // The recorder records each search in a batch on its own, so a batch is
+  // answered search by search.
+  api['transaction'] = (params: any) =>
+      Promise
+          .all(params.bundle.entry.map(
+              entry =>
+                  replay('search', entry.request.url)
+                      .then(
+                          response => ({
+                            resource: response.data,
+                            response: {status: '200 OK'}
+                          }),
+                          rejection => ({
+                            response:
+                                {status: String(statusOf(rejection) || 404)}
+                          }))))
+          .then(entries => ({
+                  data: {
+                    resourceType: FhirResourceType.Bundle,
+                    type: 'batch-response',
+                    entry: entries
+                  }
+                }));
+
+  const smartApi = {
+    patient: {id: recording.patientId, api: api},
+    tokenResponse: {encounter: recording.encounterId}
+  };
+  return {
+    oauth2: {ready: (onReady: (smart: any) => void) => onReady(smartApi)}
+  };
+}
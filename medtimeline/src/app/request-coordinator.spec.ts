@@ -0,0 +1,213 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {RequestCoordinator, toSearchUrl} from './request-coordinator';
+
+describe('toSearchUrl', () => {
+  it('should repeat $and parameters and chain nested parameters', () => {
+    const url = toSearchUrl(
+        {
+          type: 'MedicationAdministration',
+          query: {
+            effectivetime: {$and: ['ge2018-08-01', 'le2018-08-31']},
+            medication: {code: 'http://rxnorm|11124'},
+            _count: 1
+          }
+        },
+        '123');
+    expect(url).toEqual(
+        'MedicationAdministration?patient=123' +
+        '&effectivetime=ge2018-08-01&effectivetime=le2018-08-31' +
+        '&medication.code=http%3A%2F%2Frxnorm%7C11124&_count=1');
+  });
+
+  it('should leave out the query string when there are no parameters', () => {
+    expect(toSearchUrl({type: 'Encounter'})).toEqual('Encounter');
+  });
+});
+
+describe('RequestCoordinator', () => {
+  function makeSmartApi() {
+    return {
+      patient: {
+        id: '123',
+        api: {
+          search: (params: any) => Promise.resolve(
+              {data: {resourceType: 'Bundle', id: params.type}}),
+          transaction: (params: any) => Promise.resolve({
+            data: {
+              resourceType: 'Bundle',
+              type: 'batch-response',
+              entry: params.bundle.entry.map(
+                  entry => ({
+                    resource: {resourceType: 'Bundle', id: entry.request.url},
+                    response: {status: '200 OK'}
+                  }))
+            }
+          })
+        }
+      }
+    };
+  }
+
+  it('should share the response to identical requests in flight',
+     (done: DoneFn) => {
+       const coordinator = new RequestCoordinator();
+       const sendRequest =
+           jasmine.createSpy('sendRequest').and.returnValue(Promise.resolve(4));
+       Promise
+           .all([
+             coordinator.share('a', sendRequest),
+             coordinator.share('a', sendRequest)
+           ])
+           .then(responses => {
+             expect(responses).toEqual([4, 4]);
+             expect(sendRequest.calls.count()).toBe(1);
+             // Once answered, the request is sent again.
+             return coordinator.share('a', sendRequest);
+           })
+           .then(() => {
+             expect(sendRequest.calls.count()).toBe(2);
+             done();
+           });
+     });
+
+  it('should send searches made at the same time in one batch',
+     (done: DoneFn) => {
+       const coordinator = new RequestCoordinator();
+       const smartApi = makeSmartApi();
+       const transactionSpy =
+           spyOn(smartApi.patient.api, 'transaction').and.callThrough();
+       const searchSpy = spyOn(smartApi.patient.api, 'search');
+       Promise
+           .all([
+             coordinator.batchSearch(
+                 smartApi, {type: 'Observation', query: {code: 'a'}}),
+             coordinator.batchSearch(
+                 smartApi, {type: 'Observation', query: {code: 'b'}})
+           ])
+           .then(responses => {
+             expect(transactionSpy.calls.count()).toBe(1);
+             expect(searchSpy).not.toHaveBeenCalled();
+             expect(responses.map(response => response.data.id)).toEqual([
+               'Observation?patient=123&code=a',
+               'Observation?patient=123&code=b'
+             ]);
+             done();
+           });
+     });
+
+  it('should send a batch once it reaches the maximum size', (done: DoneFn) => {
+    const coordinator = new RequestCoordinator(2);
+    const smartApi = makeSmartApi();
+    const transactionSpy =
+        spyOn(smartApi.patient.api, 'transaction').and.callThrough();
+    coordinator.batchSearch(smartApi, {type: 'Observation'});
+    coordinator.batchSearch(smartApi, {type: 'Observation'});
+    expect(transactionSpy.calls.count()).toBe(1);
+    coordinator.batchSearch(smartApi, {type: 'Observation'}).then(() => {
+      expect(transactionSpy.calls.count()).toBe(1);
+      done();
+    });
+  });
+
+  it('should reject searches that fail within the batch', (done: DoneFn) => {
+    const coordinator = new RequestCoordinator();
+    const smartApi = makeSmartApi();
+    spyOn(smartApi.patient.api, 'transaction').and.returnValue(Promise.resolve({
+      data: {
+        entry: [
+          {resource: {resourceType: 'Bundle'}, response: {status: '200'}},
+          {response: {status: '400 Bad Request'}}
+        ]
+      }
+    }));
+    const first = coordinator.batchSearch(smartApi, {type: 'Observation'});
+    coordinator.batchSearch(smartApi, {type: 'Observation'}).catch(error => {
+      expect(error.message).toContain('400 Bad Request');
+      first.then(response => {
+        expect(response.data.resourceType).toEqual('Bundle');
+        done();
+      });
+    });
+  });
+
+  it('should send searches one at a time if the server does not accept ' +
+         'batches',
+     (done: DoneFn) => {
+       const coordinator = new RequestCoordinator();
+       const smartApi = makeSmartApi();
+       const transactionSpy =
+           spyOn(smartApi.patient.api, 'transaction')
+               .and.callFake(() => Promise.reject({error: {status: 405}}));
+       const searchSpy =
+           spyOn(smartApi.patient.api, 'search').and.callThrough();
+       Promise
+           .all([
+             coordinator.batchSearch(smartApi, {type: 'Observation'}),
+             coordinator.batchSearch(smartApi, {type: 'Encounter'})
+           ])
+           .then(responses => {
+             expect(searchSpy.calls.count()).toBe(2);
+             return Promise.all([
+               coordinator.batchSearch(smartApi, {type: 'Observation'}),
+               coordinator.batchSearch(smartApi, {type: 'Encounter'})
+             ]);
+           })
+           .then(() => {
+             expect(transactionSpy.calls.count()).toBe(1);
+             expect(searchSpy.calls.count()).toBe(4);
+             done();
+           });
+     });
+
+  it('should keep sending batches after a batch fails for a passing reason',
+     (done: DoneFn) => {
+       const coordinator = new RequestCoordinator();
+       const smartApi = makeSmartApi();
+       const transactionSpy =
+           spyOn(smartApi.patient.api, 'transaction')
+               .and.callFake(() => Promise.reject({error: {status: 503}}));
+       const searchSpy =
+           spyOn(smartApi.patient.api, 'search').and.callThrough();
+       Promise
+           .all([
+             coordinator.batchSearch(smartApi, {type: 'Observation'}),
+             coordinator.batchSearch(smartApi, {type: 'Encounter'})
+           ])
+           .then(responses => {
+             expect(searchSpy.calls.count()).toBe(2);
+             transactionSpy.and.callThrough();
+             return Promise.all([
+               coordinator.batchSearch(smartApi, {type: 'Observation'}),
+               coordinator.batchSearch(smartApi, {type: 'Encounter'})
+             ]);
+           })
+           .then(() => {
+             expect(transactionSpy.calls.count()).toBe(2);
+             expect(searchSpy.calls.count()).toBe(2);
+             done();
+           });
+     });
+
+  it('should not send batches to servers whose CapabilityStatement lacks them',
+     (done: DoneFn) => {
+       const coordinator = new RequestCoordinator();
+       coordinator.useCapabilities(
+           {rest: [{mode: 'server', interaction: [{code: 'history-system'}]}]});
+       const smartApi = makeSmartApi();
+       const transactionSpy =
+           spyOn(smartApi.patient.api, 'transaction').and.callThrough();
+       Promise
+           .all([
+             coordinator.batchSearch(smartApi, {type: 'Observation'}),
+             coordinator.batchSearch(smartApi, {type: 'Encounter'})
+           ])
+           .then(() => {
+             expect(transactionSpy.calls.count()).toBe(0);
+             done();
+           });
+     });
+});
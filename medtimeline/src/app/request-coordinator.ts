@@ -0,0 +1,217 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {statusOf} from './fhir-transport';
+
+/**
+ * The largest number of searches to send together in one batch Bundle.
+ */
+export const DEFAULT_MAX_BATCH_SIZE = 20;
+
+/**
+ * The HTTP statuses with which a server says it does not accept batch
+ * Bundles at all, as opposed to failing one batch for a passing reason such
+ * as being busy.
+ */
+const BATCH_UNSUPPORTED_STATUSES = [400, 404, 405, 501];
+
+/**
+ * A search waiting to be sent to the server as part of a batch.
+ */
+interface QueuedSearch {
+  smartApi: any;
+  queryParams: any;
+  resolve: (response: any) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Turns the query parameters of a SMART API search into the relative URL of
+ * the search, in the form a batch Bundle entry expects. This follows the
+ * conventions the SMART API uses for its query parameters: "$and" lists
+ * repeat the parameter, and nested objects become chained parameters.
+ * @param queryParams The search parameters, with a type and a query.
+ * @param patientId The id of the patient the search is restricted to.
+ */
+export function toSearchUrl(queryParams: any, patientId?: string): string {
+  const params = new Array<string>();
+  const addParam = (name: string, value: any) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (typeof value !== 'object') {
+      params.push(name + '=' + encodeURIComponent(value.toString()));
+      return;
+    }
+    for (const key of Object.keys(value)) {
+      if (key === '$and') {
+        for (const v of value[key]) {
+          addParam(name, v);
+        }
+      } else if (key === '$or') {
+        addParam(name, value[key].join(','));
+      } else {
+        addParam(name + '.' + key, value[key]);
+      }
+    }
+  };
+  if (patientId) {
+    addParam('patient', patientId);
+  }
+  const query = queryParams.query ? queryParams.query : {};
+  for (const name of Object.keys(query)) {
+    addParam(name, query[name]);
+  }
+  return queryParams.type + (params.length > 0 ? '?' + params.join('&') : '');
+}
+
+/**
+ * Sits between the rest of the app and the FHIR server to cut down on the
+ * number of round trips made. Several cards often ask for the same code at
+ * the same time, so identical requests that are still waiting on the server
+ * share one response. Small searches made at the same time, such as checks
+ * for whether any data is present for a code, are sent together in a FHIR
+ * batch Bundle.
+ */
+export class RequestCoordinator {
+  // Requests that have been sent but not yet answered, keyed by a
+  // description of the request.
+  private readonly inFlight = new Map<string, Promise<any>>();
+
+  // Searches waiting to be sent in the next batch.
+  private queuedSearches = new Array<QueuedSearch>();
+
+  // Set to false once the server says it does not accept batches, after which
+  // searches are sent one at a time.
+  private batchingSupported = true;
+
+  constructor(readonly maxBatchSize = DEFAULT_MAX_BATCH_SIZE) {}
+
+  /**
+   * Sends a request, unless an identical request is still waiting on the
+   * server, in which case the response to that request is shared.
+   * @param key Describes the request. Requests with the same key must have
+   *     the same response.
+   * @param sendRequest Sends the request to the server.
+   */
+  share<T>(key: string, sendRequest: () => Promise<T>): Promise<T> {
+    if (this.inFlight.has(key)) {
+      return this.inFlight.get(key);
+    }
+    const response = sendRequest();
+    this.inFlight.set(key, response);
+    const forget = () => {
+      this.inFlight.delete(key);
+    };
+    response.then(forget, forget);
+    return response;
+  }
+
+  /**
+   * Queues a search to be sent along with the other searches made before the
+   * next turn of the event loop. Resolves the same way a SMART API search
+   * does, to an object whose data is the first page of search results.
+   * @param smartApi The SMART API to search with.
+   * @param queryParams The search parameters.
+   */
+  batchSearch(smartApi: any, queryParams: any): Promise<any> {
+    if (!this.batchingSupported) {
+      return smartApi.patient.api.search(queryParams);
+    }
+    return new Promise((resolve, reject) => {
+      this.queuedSearches.push({
+        smartApi: smartApi,
+        queryParams: queryParams,
+        resolve: resolve,
+        reject: reject
+      });
+      if (this.queuedSearches.length >= this.maxBatchSize) {
+        this.sendQueuedSearches();
+      } else if (this.queuedSearches.length === 1) {
+        setTimeout(() => this.sendQueuedSearches());
+      }
+    });
+  }
+
+  /**
+   * Stops sending searches in batches if the server's CapabilityStatement
+   * (called Conformance in DSTU2) says it accepts neither batch nor
+   * transaction Bundles.
+   * @param capabilityStatement The JSON of the CapabilityStatement.
+   */
+  useCapabilities(capabilityStatement: any) {
+    if (!capabilityStatement || !capabilityStatement.rest) {
+      return;
+    }
+    const interactions: string[] = [].concat(...capabilityStatement.rest.map(
+        rest => (rest.interaction || []).map(interaction => interaction.code)));
+    if (!interactions.includes('batch') &&
+        !interactions.includes('transaction')) {
+      this.batchingSupported = false;
+    }
+  }
+
+  /**
+   * Sends all the queued searches. A lone search is sent on its own, since
+   * there is nothing to batch it with.
+   */
+  private sendQueuedSearches() {
+    const searches = this.queuedSearches;
+    this.queuedSearches = [];
+    if (searches.length === 0) {
+      return;
+    }
+    if (searches.length === 1) {
+      this.sendIndividually(searches);
+      return;
+    }
+    const smartApi = searches[0].smartApi;
+    const batch = {
+      resourceType: 'Bundle',
+      type: 'batch',
+      entry: searches.map(
+          search => ({
+            request: {
+              method: 'GET',
+              url: toSearchUrl(search.queryParams, smartApi.patient.id)
+            }
+          }))
+    };
+    smartApi.patient.api.transaction({bundle: batch})
+        .then(
+            response => {
+              const entries = response.data.entry ? response.data.entry : [];
+              searches.forEach((search, i) => {
+                const entry = entries[i];
+                const status = entry && entry.response ?
+                    entry.response.status.toString() :
+                    undefined;
+                if (status && status.startsWith('2') && entry.resource) {
+                  search.resolve({data: entry.resource});
+                } else {
+                  search.reject(Error(
+                      'Search ' + batch.entry[i].request.url +
+                      ' failed in batch with status ' + status));
+                }
+              });
+            },
+            rejection => {
+              // Not all servers accept batch Bundles. Those that say so get
+              // each search on its own from now on, while other failures,
+              // such as a busy server, only give up on this batch.
+              if (BATCH_UNSUPPORTED_STATUSES.includes(statusOf(rejection))) {
+                this.batchingSupported = false;
+              }
+              this.sendIndividually(searches);
+            });
+  }
+
+  private sendIndividually(searches: QueuedSearch[]) {
+    for (const search of searches) {
+      search.smartApi.patient.api.search(search.queryParams)
+          .then(search.resolve, search.reject);
+    }
+  }
+}
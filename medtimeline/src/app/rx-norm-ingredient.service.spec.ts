@@ -0,0 +1,57 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {of, throwError} from 'rxjs';
+
+import {RXNORM_INGREDIENT_TABLE_VERSION, RxNormIngredientTable} from './clinicalconcepts/rx-norm-ingredients';
+import {DebuggerService, Severity} from './debugger.service';
+import {RxNormIngredientService} from './rx-norm-ingredient.service';
+
+describe('RxNormIngredientService', () => {
+  let debugService: DebuggerService;
+  let table: RxNormIngredientTable;
+
+  beforeEach(() => {
+    debugService = new DebuggerService();
+    table = new RxNormIngredientTable();
+  });
+
+  it('should add the products it loads', (done: DoneFn) => {
+    const http: any = {
+      get: () => of({
+        version: RXNORM_INGREDIENT_TABLE_VERSION,
+        products:
+            [{code: 'vancomycin-drug', termType: 'SCD', ingredients: ['11124']}]
+      })
+    };
+    const service = new RxNormIngredientService(http, debugService, table);
+    service.load('assets/rxnorm-ingredients.json').then(() => {
+      expect(table.productOf('vancomycin-drug').ingredients).toEqual(['11124']);
+      expect(debugService.events).toEqual([]);
+      done();
+    });
+  });
+
+  it('should log a warning if the table is invalid', (done: DoneFn) => {
+    const http: any = {get: () => of({version: 0})};
+    const service = new RxNormIngredientService(http, debugService, table);
+    service.load('assets/rxnorm-ingredients.json').then(() => {
+      expect(debugService.events.length).toEqual(1);
+      expect(debugService.events[0].severity).toEqual(Severity.Warning);
+      expect(debugService.events[0].query)
+          .toEqual('assets/rxnorm-ingredients.json');
+      done();
+    });
+  });
+
+  it('should log a warning if the table cannot be loaded', (done: DoneFn) => {
+    const http: any = {get: () => throwError({status: 404})};
+    const service = new RxNormIngredientService(http, debugService, table);
+    service.load('assets/rxnorm-ingredients.json').then(() => {
+      expect(debugService.events[0].status).toEqual(404);
+      done();
+    });
+  });
+});
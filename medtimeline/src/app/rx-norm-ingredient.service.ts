@@ -0,0 +1,61 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {HttpClient} from '@angular/common/http';
+import {Injectable, Optional} from '@angular/core';
+
+import {environment} from '../environments/environment';
+
+import {rxNormIngredients, RxNormIngredientTable} from './clinicalconcepts/rx-norm-ingredients';
+import {DebuggerService, Severity} from './debugger.service';
+
+/**
+ * This service loads a site's RxNorm ingredient table when the app starts, so
+ * that medications coded as clinical drugs, branded drugs or packs are shown
+ * on the cards of their ingredients.
+ */
+@Injectable({providedIn: 'root'})
+export class RxNormIngredientService {
+  constructor(
+      @Optional() private http?: HttpClient,
+      private debugService: DebuggerService = new DebuggerService(),
+      readonly table: RxNormIngredientTable = rxNormIngredients) {}
+
+  /**
+   * Loads an ingredient table and adds its products to the table medications
+   * are read with.
+   * @param url Where to load the ingredient table from. If unset, medications
+   *     are only matched by their own codes.
+   * @returns A promise that resolves once the table is loaded, even if it
+   *     could not be.
+   */
+  load(url: string): Promise<void> {
+    if (!url || !this.http) {
+      return Promise.resolve();
+    }
+    return this.http.get(url)
+        .toPromise<any>()
+        .then(json => {
+          this.table.addTable(json);
+        })
+        .catch(error => {
+          this.debugService.logError(error, {
+            source: 'RxNormIngredientService',
+            severity: Severity.Warning,
+            query: url
+          });
+        });
+  }
+}
+
+/**
+ * Makes the app initializer that loads the site's RxNorm ingredient table
+ * before the app starts.
+ * @param service The service to load the ingredient table with.
+ */
+export function loadRxNormIngredients(service: RxNormIngredientService): () =>
+    Promise<void> {
+  return () => service.load(environment.rxNormIngredientsUrl);
+}
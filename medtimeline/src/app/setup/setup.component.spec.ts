@@ -10,6 +10,10 @@ import {BrowserAnimationsModule} from '@angular/platform-browser/animations';
 import {ActivatedRoute, Router} from '@angular/router';
 
 import {ResourceCodeManager} from '../clinicalconcepts/resource-code-manager';
+import {CodeDiscoveryService} from '../code-discovery.service';
+import {DebuggerService} from '../debugger.service';
+import {FileFhirService} from '../file-fhir.service';
+import {SwitchableFhirService} from '../switchable-fhir.service';
 import {StubFhirService} from '../test_utils';
 
 import {SetupComponent} from './setup.component';
@@ -31,7 +35,16 @@ describe('SetupComponent', () => {
           providers: [
             {provide: ResourceCodeManager, useValue: resourceCodeManagerStub},
             {provide: ActivatedRoute, useValue: {}},
-            {provide: Router, useValue: {}}
+            {provide: Router, useValue: {}}, {
+              provide: SwitchableFhirService,
+              useValue: new SwitchableFhirService(
+                  new StubFhirService(), new FileFhirService())
+            },
+            {
+              provide: CodeDiscoveryService,
+              useValue: new CodeDiscoveryService(
+                  new StubFhirService(), resourceCodeManagerStub)
+            }
           ]
         })
         .compileComponents();
@@ -47,6 +60,38 @@ describe('SetupComponent', () => {
     expect(component).toBeTruthy();
   });
 
+  it('should show why picked files could not be read', (done: DoneFn) => {
+    const file = new File(['{'], 'bundle.json');
+    const loadSpy = spyOn(component.fhirService.fileService, 'loadFiles')
+                        .and.returnValue(Promise.reject(Error('Bad JSON')));
+    // The file input gives a FileList, which is array-like.
+    const fileList: any = {length: 1, 0: file};
+
+    component.loadFiles(fileList).then(() => {
+      expect(loadSpy).toHaveBeenCalledWith([file]);
+      expect(component.loadingFiles).toBe(false);
+      expect(component.fileLoadError)
+          .toEqual('The files could not be read: Bad JSON');
+      done();
+    });
+  });
+
+  it('should log and show a failed search for other results',
+     (done: DoneFn) => {
+       spyOn(TestBed.get(CodeDiscoveryService), 'addOtherResultsCards')
+           .and.returnValue(Promise.reject(Error('Search failed')));
+       const debugService: DebuggerService = TestBed.get(DebuggerService);
+
+       component.addOtherResults().then(() => {
+         expect(component.discoveringResults).toBe(false);
+         expect(component.otherResultsError).toBeDefined();
+         const event = debugService.events[debugService.events.length - 1];
+         expect(event.source).toEqual('SetupComponent');
+         expect(event.message).toContain('Search failed');
+         done();
+       });
+     });
+
   it('should filter concepts based on input', fakeAsync(() => {
        const userInput = 'CB';
        const filtered = component.filter(userInput);
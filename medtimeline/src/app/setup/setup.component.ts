@@ -6,12 +6,15 @@
 import {Component, OnDestroy, OnInit} from '@angular/core';
 import {FormControl} from '@angular/forms';
 import {ActivatedRoute, Router} from '@angular/router';
-import {Observable} from 'rxjs';
+import {Observable, Subscription} from 'rxjs';
 import {map, startWith} from 'rxjs/operators';
 
 import {DisplayGrouping} from '../clinicalconcepts/display-grouping';
 import {ResourceCodeManager, ResourceCodesForCard} from '../clinicalconcepts/resource-code-manager';
+import {CodeDiscoveryService} from '../code-discovery.service';
+import {DebuggerService} from '../debugger.service';
 import {SetupDataService} from '../setup-data.service';
+import {SwitchableFhirService} from '../switchable-fhir.service';
 
 @Component({
   selector: 'app-setup',
@@ -23,7 +26,7 @@ import {SetupDataService} from '../setup-data.service';
 // Users can choose which concepts to display, or pick the default
 // configuration.
 export class SetupComponent implements OnInit, OnDestroy {
-  readonly allConcepts: Array<ResourceCodesForCard> = [];
+  allConcepts: Array<ResourceCodesForCard> = [];
   readonly checkedConcepts = new Map<string, boolean>();
   readonly chosenConcepts: Array<ResourceCodesForCard> = [];
 
@@ -45,7 +48,40 @@ export class SetupComponent implements OnInit, OnDestroy {
    * An array of DisplayGroupings and ResourceCodesForCard that belong to that
    * grouping.
    */
-  readonly displayGroupings: Array<[DisplayGrouping, ResourceCodesForCard[]]>;
+  displayGroupings: Array<[DisplayGrouping, ResourceCodesForCard[]]>;
+
+  /**
+   * Whether FHIR files the user picked are still being read.
+   */
+  loadingFiles = false;
+
+  /**
+   * Why the FHIR files the user last picked could not be read, if they could
+   * not.
+   */
+  fileLoadError: string;
+
+  /**
+   * Whether the patient's record is still being searched for results that no
+   * card displays.
+   */
+  discoveringResults = false;
+
+  /**
+   * How many "Other Results" cards were added for results that no configured
+   * card displays.
+   */
+  otherResultsCount = 0;
+
+  /**
+   * Set if the patient's record could not be searched for results that no
+   * card displays.
+   */
+  otherResultsError: string;
+
+  // Listens for cards added to the listing, such as the "Other Results"
+  // cards.
+  private readonly cardAddedSubscription: Subscription;
 
   sortResources = (function(a, b) {
     return a.label.localeCompare(b.label);
@@ -57,17 +93,33 @@ export class SetupComponent implements OnInit, OnDestroy {
         startWith(''),  // The autocomplete input starts with nothing typed in.
         map(concept => concept ? this.filter(concept) :
                                  this.displayGroupings.slice()));
+    this.addOtherResults();
   }
 
   ngOnDestroy() {
     this.setupDataService.selectedConcepts = this.chosenConcepts;
+    this.cardAddedSubscription.unsubscribe();
   }
 
 
   constructor(
-      resourceCodeManager: ResourceCodeManager, private route: ActivatedRoute,
-      private router: Router, private setupDataService: SetupDataService) {
-    const displayGroups = resourceCodeManager.getDisplayGroupMapping();
+      private resourceCodeManager: ResourceCodeManager,
+      private route: ActivatedRoute, private router: Router,
+      private setupDataService: SetupDataService,
+      readonly fhirService: SwitchableFhirService,
+      private codeDiscovery: CodeDiscoveryService,
+      private debugService: DebuggerService) {
+    this.listConcepts();
+    this.cardAddedSubscription =
+        resourceCodeManager.cardAdded.subscribe(() => this.listConcepts());
+  }
+
+  /**
+   * Lists the concepts to display, keeping the ones the user has already
+   * checked.
+   */
+  listConcepts() {
+    const displayGroups = this.resourceCodeManager.getDisplayGroupMapping();
     /* Load in the concepts to display, flattening them all into a
      * single-depth array. */
     this.allConcepts = Array.from(displayGroups.values())
@@ -75,6 +127,9 @@ export class SetupComponent implements OnInit, OnDestroy {
 
     this.displayGroupings = Array.from(displayGroups.entries());
     for (const concept of this.allConcepts) {
+      if (this.checkedConcepts[concept.label] !== undefined) {
+        continue;
+      }
       this.checkedConcepts[concept.label] = false;
       const showByDefault =
           concept.resourceCodeGroups.some(x => x.showByDefault);
@@ -82,6 +137,29 @@ export class SetupComponent implements OnInit, OnDestroy {
         this.checkedConcepts[concept.label] = true;
       }
     }
+    // Show the new listing in the autocomplete.
+    this.conceptCtrl.updateValueAndValidity();
+  }
+
+  /**
+   * Searches the patient's record for results that no card displays, and
+   * lists an "Other Results" card for each of them. If the search fails, the
+   * failure is logged and shown instead.
+   */
+  addOtherResults(): Promise<void> {
+    this.discoveringResults = true;
+    this.otherResultsError = undefined;
+    return this.codeDiscovery.addOtherResultsCards().then(
+        cards => {
+          this.discoveringResults = false;
+          this.otherResultsCount += cards.length;
+        },
+        rejection => {
+          this.discoveringResults = false;
+          this.debugService.logError(rejection, {source: 'SetupComponent'});
+          this.otherResultsError =
+              'The record could not be searched for results that have no card.';
+        });
   }
 
   /**
@@ -115,6 +193,58 @@ export class SetupComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Allows FHIR files to be dropped onto the data source area.
+   */
+  onDragOver(event: DragEvent) {
+    event.preventDefault();
+  }
+
+  /**
+   * The user dropped FHIR files onto the data source area.
+   */
+  onDrop(event: DragEvent) {
+    event.preventDefault();
+    this.loadFiles(event.dataTransfer.files);
+  }
+
+  /**
+   * Loads FHIR Bundles (JSON or NDJSON) from the user's computer and shows
+   * their data instead of the patient record.
+   * @param files The files to load, as picked or dropped by the user.
+   */
+  loadFiles(files: FileList|File[]): Promise<void> {
+    if (files.length === 0) {
+      return Promise.resolve();
+    }
+    this.loadingFiles = true;
+    this.fileLoadError = undefined;
+    return this.fhirService.fileService.loadFiles(Array.from(files))
+        .then(
+            failures => {
+              this.loadingFiles = false;
+              this.fhirService.useFiles();
+              this.resourceCodeManager.reloadData();
+              this.codeDiscovery.forget();
+              this.addOtherResults();
+            },
+            rejection => {
+              this.loadingFiles = false;
+              this.fileLoadError = 'The files could not be read: ' +
+                  (rejection instanceof Error ? rejection.message : rejection);
+            });
+  }
+
+  /**
+   * The user wishes to go back to showing data from the patient record.
+   */
+  usePatientRecord() {
+    this.fhirService.useDefaultSource();
+    this.resourceCodeManager.reloadData();
+    this.codeDiscovery.forget();
+    this.addOtherResults();
+  }
+
   /**
    * Filter the concepts shown on the autocomplete menu.
    */
@@ -0,0 +1,112 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {Inject, Injectable, InjectionToken} from '@angular/core';
+import {Interval} from 'luxon';
+
+import {BCHMicrobioCodeGroup} from './clinicalconcepts/bch-microbio-code';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {RxNormCode} from './clinicalconcepts/rx-norm';
+import {DiagnosticReport} from './fhir-data-classes/diagnostic-report';
+import {Encounter} from './fhir-data-classes/encounter';
+import {MedicationAdministration} from './fhir-data-classes/medication-administration';
+import {MedicationOrder} from './fhir-data-classes/medication-order';
+import {Observation} from './fhir-data-classes/observation';
+import {Patient} from './fhir-data-classes/patient';
+import {FhirService} from './fhir.service';
+import {FileFhirService} from './file-fhir.service';
+import {ObservationCategory, ObservationCode} from './observation-codes';
+
+/**
+ * The FhirService to use unless the user picks another data source, as set
+ * up for the build environment.
+ */
+export const DEFAULT_FHIR_SERVICE =
+    new InjectionToken<FhirService>('DefaultFhirService');
+
+/**
+ * A FhirService that passes every query on to the data source the user has
+ * picked: either the default source, such as the FHIR server the app was
+ * launched from, or files the user has loaded. Everything in the app holds
+ * on to this service, so the data source can change while the app runs.
+ */
+@Injectable()
+export class SwitchableFhirService extends FhirService {
+  errorMessage: string;
+
+  private current: FhirService;
+
+  constructor(
+      @Inject(DEFAULT_FHIR_SERVICE) readonly defaultService: FhirService,
+      readonly fileService: FileFhirService) {
+    super();
+    this.current = defaultService;
+    // Pass on the progress of searches from either source.
+    for (const service of [defaultService, fileService]) {
+      service.searchProgress.subscribe(
+          progress => this.searchProgress.next(progress));
+    }
+  }
+
+  /** Whether queries are answered from files the user has loaded. */
+  get usingFiles(): boolean {
+    return this.current === this.fileService;
+  }
+
+  /** Answers all queries from here on from the default data source. */
+  useDefaultSource() {
+    this.current = this.defaultService;
+  }
+
+  /** Answers all queries from here on from the files the user has loaded. */
+  useFiles() {
+    this.current = this.fileService;
+  }
+
+  getObservationsWithCode(
+      code: LOINCCode, dateRange: Interval,
+      limitCount?: number): Promise<Observation[]> {
+    return this.current.getObservationsWithCode(code, dateRange, limitCount);
+  }
+
+  getObservationCodes(category: ObservationCategory, dateRange: Interval):
+      Promise<ObservationCode[]> {
+    return this.current.getObservationCodes(category, dateRange);
+  }
+
+  getMedicationAdministrationsWithCode(
+      code: RxNormCode, dateRange: Interval,
+      limitCount?: number): Promise<MedicationAdministration[]> {
+    return this.current.getMedicationAdministrationsWithCode(
+        code, dateRange, limitCount);
+  }
+
+  getMedicationOrderWithId(id: string): Promise<MedicationOrder> {
+    return this.current.getMedicationOrderWithId(id);
+  }
+
+  getMedicationAdministrationsWithOrder(id: string):
+      Promise<MedicationAdministration[]> {
+    return this.current.getMedicationAdministrationsWithOrder(id);
+  }
+
+  getPatient(): Promise<Patient> {
+    return this.current.getPatient();
+  }
+
+  getEncountersForPatient(dateRange: Interval): Promise<Encounter[]> {
+    return this.current.getEncountersForPatient(dateRange);
+  }
+
+  saveStaticNote(html: string, date: string) {
+    this.current.saveStaticNote(html, date);
+  }
+
+  getDiagnosticReports(
+      codeGroup: BCHMicrobioCodeGroup, dateRange: Interval,
+      limitCount?: number): Promise<DiagnosticReport[]> {
+    return this.current.getDiagnosticReports(codeGroup, dateRange, limitCount);
+  }
+}
@@ -0,0 +1,182 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {DisplayGrouping} from './clinicalconcepts/display-grouping';
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {RxNormCode} from './clinicalconcepts/rx-norm';
+import {FhirVersion} from './fhir-data-classes/fhir-version';
+import {MedicationAdministration} from './fhir-data-classes/medication-administration';
+import {MedicationOrder} from './fhir-data-classes/medication-order';
+import {Observation} from './fhir-data-classes/observation';
+import {adaptSyntheaResources, syntheaFhirVersion} from './synthea-adapter';
+import {restoreCodes, useCodes} from './test_utils';
+
+const RXNORM_SYSTEM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const vitalSign = new DisplayGrouping('Vital Sign', 'red');
+const systolic = new LOINCCode('8480-6', vitalSign, 'Systolic Blood Pressure');
+const diastolic =
+    new LOINCCode('8462-4', vitalSign, 'Diastolic Blood Pressure');
+
+// Shaped like the blood pressure panels Synthea writes for every encounter.
+const bloodPressurePanel = {
+  resourceType: 'Observation',
+  id: 'bp',
+  status: 'final',
+  category: [{coding: [{code: 'vital-signs'}]}],
+  code: {
+    coding: [{system: 'http://loinc.org', code: '85354-9'}],
+    text: 'Blood Pressure'
+  },
+  encounter: {reference: 'urn:uuid:encounter-1'},
+  effectiveDateTime: '2018-08-01T10:00:00-04:00',
+  component: [
+    {
+      code: {
+        coding: [{system: 'http://loinc.org', code: '8462-4'}],
+        text: 'Diastolic Blood Pressure'
+      },
+      valueQuantity: {value: 82, unit: 'mm[Hg]'}
+    },
+    {
+      code: {
+        coding: [{system: 'http://loinc.org', code: '8480-6'}],
+        text: 'Systolic Blood Pressure'
+      },
+      valueQuantity: {value: 121, unit: 'mm[Hg]'}
+    }
+  ]
+};
+
+const vancomycinConcept = {
+  coding: [{system: RXNORM_SYSTEM, code: '11124', display: 'vancomycin'}],
+  text: 'Vancomycin 1000 MG Injection'
+};
+
+const medicationRequest = {
+  resourceType: 'MedicationRequest',
+  id: 'request-1',
+  status: 'active',
+  intent: 'order',
+  medicationCodeableConcept: vancomycinConcept,
+  encounter: {reference: 'urn:uuid:encounter-1'},
+  authoredOn: '2018-08-01T10:00:00-04:00',
+  dosageInstruction: [{
+    sequence: 1,
+    timing: {repeat: {frequency: 1, period: 8, periodUnit: 'h'}},
+    asNeededBoolean: false,
+    doseAndRate: [{doseQuantity: {value: 1}}]
+  }]
+};
+
+const medicationAdministration = {
+  resourceType: 'MedicationAdministration',
+  id: 'administration-1',
+  status: 'completed',
+  medicationCodeableConcept: vancomycinConcept,
+  context: {reference: 'urn:uuid:encounter-1'},
+  effectiveDateTime: '2018-08-01T11:00:00-04:00'
+};
+
+describe('syntheaFhirVersion', () => {
+  it('should recognize R4 patients', () => {
+    expect(syntheaFhirVersion([bloodPressurePanel])).toEqual(FhirVersion.R4);
+    expect(syntheaFhirVersion([medicationRequest])).toEqual(FhirVersion.R4);
+  });
+
+  it('should recognize DSTU2 patients', () => {
+    expect(syntheaFhirVersion([
+      {resourceType: 'Observation', category: {coding: []}}
+    ])).toEqual(FhirVersion.DSTU2);
+    expect(syntheaFhirVersion([{resourceType: 'MedicationOrder'}]))
+        .toEqual(FhirVersion.DSTU2);
+  });
+});
+
+describe('adaptSyntheaResources', () => {
+  beforeEach(() => {
+    useCodes(systolic, diastolic);
+  });
+  afterEach(() => {
+    restoreCodes();
+  });
+
+  it('should split panels into an Observation for each component', () => {
+    const adapted = adaptSyntheaResources([bloodPressurePanel], FhirVersion.R4);
+    expect(adapted.length).toBe(2);
+    const observations =
+        adapted.map(json => new Observation(json, FhirVersion.R4));
+    expect(observations[0].codes).toEqual([diastolic]);
+    expect(observations[0].value.value).toEqual(82);
+    expect(observations[1].codes).toEqual([systolic]);
+    expect(observations[1].value.value).toEqual(121);
+    expect(observations[1].timestamp.toISO())
+        .toEqual('2018-08-01T14:00:00.000Z');
+    expect(adapted[0].id).not.toEqual(adapted[1].id);
+  });
+
+  it('should not change the given resources', () => {
+    const panel = JSON.parse(JSON.stringify(bloodPressurePanel));
+    adaptSyntheaResources(
+        [panel, medicationRequest, medicationAdministration], FhirVersion.R4);
+    expect(panel).toEqual(bloodPressurePanel);
+    expect(medicationAdministration.hasOwnProperty('request')).toBe(false);
+  });
+
+  it('should read orders and link administrations to them', () => {
+    const adapted = adaptSyntheaResources(
+        [medicationRequest, medicationAdministration], FhirVersion.R4);
+    const order = new MedicationOrder(adapted[0], FhirVersion.R4);
+    const administration =
+        new MedicationAdministration(adapted[1], FhirVersion.R4);
+    expect(order.rxNormCode)
+        .toBe(RxNormCode.fromCodeString('11124') as RxNormCode);
+    expect(order.dosageInstruction).toEqual('1, every 8 h');
+    expect(administration.medicationOrderId).toEqual(order.orderId);
+  });
+
+  it('should read medications from Medication resources', () => {
+    const medication = {
+      resourceType: 'Medication',
+      id: 'medication-1',
+      code: vancomycinConcept
+    };
+    const order = Object.assign(
+        {}, medicationRequest,
+        {medicationReference: {reference: 'urn:uuid:medication-1'}});
+    delete order.medicationCodeableConcept;
+    const adapted = adaptSyntheaResources([medication, order], FhirVersion.R4);
+    expect(new MedicationOrder(adapted[1], FhirVersion.R4).label)
+        .toEqual('Vancomycin');
+  });
+
+  it('should link DSTU2 administrations through their prescription', () => {
+    const dstu2Order = {
+      resourceType: 'MedicationOrder',
+      id: 'order-1',
+      medicationCodeableConcept: vancomycinConcept,
+      encounter: {reference: 'urn:uuid:encounter-1'},
+      dosageInstruction: [{doseQuantity: {value: 1}}]
+    };
+    const dstu2Administration = {
+      resourceType: 'MedicationAdministration',
+      id: 'administration-1',
+      medicationCodeableConcept: vancomycinConcept,
+      encounter: {reference: 'urn:uuid:encounter-1'},
+      effectiveTimeDateTime: '2018-08-01T11:00:00-04:00'
+    };
+    const adapted = adaptSyntheaResources(
+        [dstu2Order, dstu2Administration], FhirVersion.DSTU2);
+    expect(new MedicationAdministration(adapted[1]).medicationOrderId)
+        .toEqual('order-1');
+  });
+
+  it('should leave out laboratory DiagnosticReports', () => {
+    const report = {
+      resourceType: 'DiagnosticReport',
+      result: [{reference: 'urn:uuid:bp'}]
+    };
+    expect(adaptSyntheaResources([report], FhirVersion.R4)).toEqual([]);
+  });
+});
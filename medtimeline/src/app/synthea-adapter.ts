@@ -0,0 +1,253 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {FhirResourceType} from '../constants';
+
+import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {RxNormCode} from './clinicalconcepts/rx-norm';
+import {findRxNormCode} from './clinicalconcepts/rx-norm-ingredients';
+import {FhirVersion, medicationOrderResourceType} from './fhir-data-classes/fhir-version';
+
+/**
+ * Synthea (https://github.com/synthetichealth/synthea) writes each patient as
+ * a transaction Bundle whose entries refer to each other by "urn:uuid:" URLs
+ * rather than by "ResourceType/id".
+ */
+const URN_UUID_PREFIX = 'urn:uuid:';
+
+/**
+ * Works out which version of FHIR a Synthea patient was exported in. Synthea
+ * writes MedicationRequests in R4 and MedicationOrders in DSTU2, and only R4
+ * allows an Observation to be in several categories.
+ * @param resources The resources in the patient's Bundle.
+ */
+export function syntheaFhirVersion(resources: any[]): FhirVersion {
+  for (const resource of resources) {
+    if (resource.resourceType === FhirResourceType.MedicationRequest) {
+      return FhirVersion.R4;
+    }
+    if (resource.resourceType === FhirResourceType.MedicationOrder) {
+      return FhirVersion.DSTU2;
+    }
+    if (resource.resourceType === FhirResourceType.Observation &&
+        resource.category) {
+      return Array.isArray(resource.category) ? FhirVersion.R4 :
+                                                FhirVersion.DSTU2;
+    }
+  }
+  return FhirVersion.DSTU2;
+}
+
+/**
+ * Rewrites the resources of a Synthea patient into the shape our data classes
+ * read, which follows the Cerner server we were built against:
+ * - References use the id of the resource rather than a "urn:uuid:" URL.
+ * - Panels such as blood pressure, whose components each have a LOINC code we
+ *   display, become one Observation per component.
+ * - Medications referred to by a Medication resource are written out on the
+ *   order or administration, labelled as our RxNorm code is.
+ * - Orders without dosage text get text built from their structured dosage.
+ * - Administrations, which Synthea does not link to orders, are linked to the
+ *   order for the same medication in the same encounter.
+ * Synthea's laboratory DiagnosticReports are left out, since they only refer to
+ * Observations that are loaded on their own.
+ * @param resources The resources in the patient's Bundle.
+ * @param fhirVersion The version of FHIR the patient was exported in.
+ * @returns New resources; the given resources are not changed.
+ */
+export function adaptSyntheaResources(
+    resources: any[], fhirVersion: FhirVersion): any[] {
+  const medications = new Map<string, any>();
+  for (const resource of resources) {
+    if (resource.resourceType === FhirResourceType.Medication) {
+      medications.set(resource.id, resource);
+    }
+  }
+
+  const orderType = medicationOrderResourceType(fhirVersion);
+  const adapted = [];
+  for (const resource of resources) {
+    if (resource.resourceType === FhirResourceType.Observation) {
+      adapted.push(...splitPanel(resource));
+    } else if (resource.resourceType === orderType) {
+      adapted.push(adaptOrder(withMedication(resource, medications)));
+    } else if (
+        resource.resourceType === FhirResourceType.MedicationAdministration) {
+      adapted.push(withMedication(resource, medications));
+    } else if (resource.resourceType !== FhirResourceType.DiagnosticReport) {
+      adapted.push(resource);
+    }
+  }
+  linkAdministrationsToOrders(adapted, fhirVersion);
+  return adapted;
+}
+
+/**
+ * Gets the id of the resource a Reference points to.
+ * @param reference The JSON of the Reference.
+ */
+function referencedId(reference: any): string {
+  if (!reference || !reference.reference) {
+    return undefined;
+  }
+  const url: string = reference.reference;
+  return url.startsWith(URN_UUID_PREFIX) ?
+      url.substring(URN_UUID_PREFIX.length) :
+      url.substring(url.lastIndexOf('/') + 1);
+}
+
+/**
+ * Splits an Observation panel we do not display, such as Synthea's blood
+ * pressure panel, into an Observation for each of its components.
+ * @param observation The JSON of the Observation.
+ */
+function splitPanel(observation: any): any[] {
+  const codings = observation.code && observation.code.coding ?
+      observation.code.coding :
+      [];
+  if (!observation.component ||
+      codings.some(coding => LOINCCode.fromCodeString(coding.code))) {
+    return [observation];
+  }
+  return observation.component.map((component, index) => {
+    const split = Object.assign({}, observation, {
+      id: observation.id + '-' + index,
+      code: component.code,
+      valueQuantity: component.valueQuantity,
+      valueCodeableConcept: component.valueCodeableConcept
+    });
+    delete split.component;
+    return split;
+  });
+}
+
+/**
+ * Writes out the Medication a resource refers to as its
+ * medicationCodeableConcept, labelled as our RxNorm code is, since our data
+ * classes only read contained Medications.
+ * @param resource The JSON of an order or administration.
+ * @param medications The Medications in the Bundle, by id.
+ */
+function withMedication(resource: any, medications: Map<string, any>): any {
+  const adapted = Object.assign({}, resource);
+  const medication =
+      medications.get(referencedId(resource.medicationReference));
+  if (medication && medication.code) {
+    adapted.medicationCodeableConcept = medication.code;
+    delete adapted.medicationReference;
+  }
+  if (adapted.medicationCodeableConcept) {
+    const rxNormCode = knownRxNormCode(adapted.medicationCodeableConcept);
+    if (rxNormCode) {
+      // Synthea labels the medication with its full RxNorm name, such as
+      // "Vancomycin 1000 MG Injection", while we expect the name of the code.
+      adapted.medicationCodeableConcept = Object.assign(
+          {}, adapted.medicationCodeableConcept, {text: rxNormCode.label});
+    }
+  }
+  return adapted;
+}
+
+/**
+ * Gets the RxNorm code in a CodeableConcept that we display, either directly
+ * or as the ingredient of the product it codes.
+ * @param concept The JSON of the CodeableConcept.
+ */
+function knownRxNormCode(concept: any): RxNormCode {
+  const match = findRxNormCode(concept.coding);
+  return match ? match.code : undefined;
+}
+
+/**
+ * Gives an order dosage text built from its structured dosage, since Synthea
+ * does not write any.
+ * @param order The JSON of the order.
+ */
+function adaptOrder(order: any): any {
+  if (!order.dosageInstruction || order.dosageInstruction.length !== 1 ||
+      order.dosageInstruction[0].text) {
+    return order;
+  }
+  const text = describeDosage(order.dosageInstruction[0]);
+  if (!text) {
+    return order;
+  }
+  return Object.assign({}, order, {
+    dosageInstruction:
+        [Object.assign({}, order.dosageInstruction[0], {text: text})]
+  });
+}
+
+/**
+ * Describes a dosage instruction, such as "1 tablet, 2 times every 1 d".
+ * The dose is in doseQuantity in DSTU2 and in doseAndRate in R4.
+ * @param instruction The JSON of the dosage instruction.
+ */
+function describeDosage(instruction: any): string {
+  const parts = [];
+  const dose = instruction.doseQuantity ||
+      (instruction.doseAndRate && instruction.doseAndRate[0] ?
+           instruction.doseAndRate[0].doseQuantity :
+           undefined);
+  if (dose && dose.value !== undefined) {
+    parts.push(dose.unit ? dose.value + ' ' + dose.unit : String(dose.value));
+  }
+  const repeat = instruction.timing ? instruction.timing.repeat : undefined;
+  if (repeat && repeat.frequency && repeat.period && repeat.periodUnit) {
+    parts.push(
+        (repeat.frequency > 1 ? repeat.frequency + ' times ' : '') + 'every ' +
+        repeat.period + ' ' + repeat.periodUnit);
+  }
+  if (instruction.asNeededBoolean) {
+    parts.push('as needed');
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Links each administration to the order for the same medication in the same
+ * encounter, unless it already refers to an order. The link is the order's
+ * id, which is how our data classes match administrations to orders.
+ * @param resources The adapted resources, which are updated in place.
+ * @param fhirVersion The version of FHIR the resources are in. The order is
+ *     called the prescription in DSTU2 and the request in R4, and R4 calls
+ *     an administration's encounter its context.
+ */
+function linkAdministrationsToOrders(
+    resources: any[], fhirVersion: FhirVersion) {
+  const orderType = medicationOrderResourceType(fhirVersion);
+  const orderField =
+      fhirVersion === FhirVersion.R4 ? 'request' : 'prescription';
+  const encounterField =
+      fhirVersion === FhirVersion.R4 ? 'context' : 'encounter';
+  const medicationKey = (resource: any, encounter: any) =>
+      referencedId(encounter) + '|' +
+      (resource.medicationCodeableConcept &&
+               resource.medicationCodeableConcept.coding ?
+           resource.medicationCodeableConcept.coding[0].code :
+           undefined);
+
+  const orderIds = new Map<string, string>();
+  for (const resource of resources) {
+    if (resource.resourceType === orderType) {
+      const key = medicationKey(resource, resource.encounter);
+      if (!orderIds.has(key)) {
+        orderIds.set(key, resource.id);
+      }
+    }
+  }
+
+  for (const resource of resources) {
+    if (resource.resourceType !== FhirResourceType.MedicationAdministration) {
+      continue;
+    }
+    const orderId = resource[orderField] ?
+        referencedId(resource[orderField]) :
+        orderIds.get(medicationKey(resource, resource[encounterField]));
+    if (orderId) {
+      resource[orderField] = {reference: orderId};
+    }
+  }
+}
@@ -9,14 +9,24 @@
 import {DateTime, Interval} from 'luxon';
 
 import {BCHMicrobioCodeGroup} from './clinicalconcepts/bch-microbio-code';
+import {CodeRegistry} from './clinicalconcepts/code-registry';
+import {DEFAULT_CONCEPT_CONFIG} from './clinicalconcepts/concept-config';
+import {labResult} from './clinicalconcepts/display-grouping';
 import {LOINCCode} from './clinicalconcepts/loinc-code';
+import {ResourceCode} from './clinicalconcepts/resource-code-group';
+import {makeCodeRegistry} from './clinicalconcepts/resource-code-manager';
 import {RxNormCode} from './clinicalconcepts/rx-norm';
 import {DiagnosticReport} from './fhir-data-classes/diagnostic-report';
 import {Encounter} from './fhir-data-classes/encounter';
 import {MedicationAdministration} from './fhir-data-classes/medication-administration';
 import {MedicationOrder} from './fhir-data-classes/medication-order';
 import {Observation} from './fhir-data-classes/observation';
+import {Patient} from './fhir-data-classes/patient';
 import {FhirService} from './fhir.service';
+import {ObservationCategory, ObservationCode} from './observation-codes';
+
+// The registries replaced by useCodes, most recent last.
+const previousCodeRegistries = new Array<CodeRegistry>();
 
 // We use vancomycin for our test med.
 export const medicationCodingConcept = {
@@ -30,6 +40,11 @@ export class StubFhirService extends FhirService {
     return Promise.resolve([]);
   }
 
+  getObservationCodes(category: ObservationCategory, dateRange: Interval):
+      Promise<ObservationCode[]> {
+    return Promise.resolve([]);
+  }
+
   getMedicationAdministrationsWithCode(code: RxNormCode, dateRange: Interval):
       Promise<MedicationAdministration[]> {
     return Promise.resolve(
@@ -46,6 +61,10 @@ export class StubFhirService extends FhirService {
         [makeMedicationAdministration(DateTime.utc().toISO())]);
   }
 
+  getPatient(): Promise<Patient> {
+    return Promise.resolve(makePatient());
+  }
+
   getEncountersForPatient(dateRange: Interval) {
     return Promise.resolve([]);
   }
@@ -62,6 +81,7 @@ export function makeSampleObservationJson(
     value: number, timestamp: DateTime,
     referenceRange: [number, number] = [10, 20]): any {
   return {
+    resourceType: 'Observation',
     code: {
       coding: [{system: 'http://loinc.org', code: '718-7'}],
       text: 'Hemoglobin'
@@ -74,6 +94,23 @@ export function makeSampleObservationJson(
   };
 }
 
+/**
+ * Makes the JSON for a heart rate Observation that, like many vital signs,
+ * comes without a reference range.
+ */
+export function makeHeartRateObservationJson(
+    value: number, timestamp: DateTime): any {
+  return {
+    resourceType: 'Observation',
+    code: {
+      coding: [{system: 'http://loinc.org', code: '8867-4'}],
+      text: 'Heart Rate'
+    },
+    effectiveDateTime: timestamp.toISO(),
+    valueQuantity: {value: value, unit: '/min'}
+  };
+}
+
 export function makeMedicationAdministration(timestamp: string, dose = 50) {
   return new MedicationAdministration(
       {
@@ -98,6 +135,11 @@ export function makeMedicationOrder(): MedicationOrder {
   });
 }
 
+// The code of the sample discrete observations. Vancomycin peaks are not
+// configured, so specs that read those observations register it with useCodes.
+export const vancomycinPeakCode =
+    new LOINCCode('4090-7', labResult, 'Vanc Pk', true);
+
 export function makeSampleDiscreteObservationJson(
     result: string, timestamp: DateTime): any {
   return {
@@ -115,6 +157,17 @@ export function getEmptyFhirService() {
   return new StubFhirService();
 }
 
+export function makePatient(birthDate = '2012-03-04'): Patient {
+  return new Patient({
+    resourceType: 'Patient',
+    id: '123',
+    name: [{use: 'official', family: ['Smart'], given: ['Timmy']}],
+    identifier: [{type: {coding: [{code: 'MR'}]}, value: '4342012'}],
+    birthDate: birthDate,
+    gender: 'male'
+  });
+}
+
 export function makeEncounter(start: DateTime, end: DateTime) {
   return new Encounter({identifier: 'id', period: {start: start, end: end}});
 }
@@ -203,3 +256,26 @@ export function makeDiagnosticReports(): DiagnosticReport[] {
     })
   ];
 }
+
+/**
+ * Reads resources with the given codes, on top of the codes of the default
+ * configuration, until restoreCodes is called, so that the codes one spec
+ * needs do not leak into the others. This should be called before each test
+ * that needs the codes.
+ * @param codes The codes to read resources with. They take precedence over
+ *     the configured codes with the same code strings.
+ */
+export function useCodes(...codes: ResourceCode[]) {
+  const registry = new CodeRegistry(makeCodeRegistry(DEFAULT_CONCEPT_CONFIG));
+  for (const code of codes) {
+    registry.register(code);
+  }
+  previousCodeRegistries.push(CodeRegistry.activate(registry));
+}
+
+/**
+ * Reads resources with the codes used before the last call to useCodes.
+ */
+export function restoreCodes() {
+  CodeRegistry.activate(previousCodeRegistries.pop());
+}
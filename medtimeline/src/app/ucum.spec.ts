@@ -0,0 +1,49 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {canConvert, convertUnit, roundLike, toUcum} from './ucum';
+
+describe('ucum', () => {
+  it('toUcum should convert units written in EHRs to UCUM', () => {
+    expect(toUcum('mcg/kg/min')).toEqual('ug/kg/min');
+    expect(toUcum('mmHg')).toEqual('mm[Hg]');
+    expect(toUcum('DegC')).toEqual('Cel');
+    expect(toUcum('mEq/L')).toEqual('meq/L');
+    expect(toUcum('mIU/mL')).toEqual('m[IU]/mL');
+  });
+
+  it('convertUnit should convert between prefixed units', () => {
+    expect(convertUnit(1, 'g/dL', 'mg/dL')).toBeCloseTo(1000);
+    expect(convertUnit(2.5, 'mg', 'ug')).toBeCloseTo(2500);
+    expect(convertUnit(5, 'mL/kg/h', 'L/kg/d')).toBeCloseTo(0.12);
+    expect(convertUnit(4500, '/uL', '10*3/uL')).toBeCloseTo(4.5);
+  });
+
+  it('convertUnit should convert between customary and metric units', () => {
+    expect(convertUnit(10, '[lb_av]', 'kg')).toBeCloseTo(4.536, 3);
+    expect(convertUnit(98.6, '[degF]', 'Cel')).toBeCloseTo(37);
+    expect(convertUnit(37, 'DegC', 'degF')).toBeCloseTo(98.6);
+    expect(convertUnit(16, 'kPa', 'mmHg')).toBeCloseTo(120, 0);
+  });
+
+  it('convertUnit should convert between mass and amount by molar mass', () => {
+    expect(convertUnit(88.4, 'umol/L', 'mg/dL', 113.12)).toBeCloseTo(1, 2);
+    expect(convertUnit(1, 'mg/dL', 'umol/L', 113.12)).toBeCloseTo(88.4, 1);
+    expect(canConvert('umol/L', 'mg/dL')).toBe(false);
+  });
+
+  it('convertUnit should throw for units that measure different things', () => {
+    expect(() => convertUnit(1, 'mg/dL', '%')).toThrowError();
+    expect(() => convertUnit(1, 'mmol/L', 'meq/L')).toThrowError();
+    expect(() => convertUnit(1, 'unitA', 'unitB')).toThrowError();
+    expect(canConvert('Cel/h', 'K/h')).toBe(false);
+  });
+
+  it('roundLike should keep the significant digits of the original value',
+     () => {
+       expect(roundLike(61.884, 0.7)).toEqual(61.9);
+       expect(roundLike(1.23456, 108.5)).toEqual(1.235);
+     });
+});
@@ -0,0 +1,384 @@
+// Copyright 2018 Verily Life Sciences Inc.
+//
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+/**
+ * The system of a FHIR Quantity whose code is a UCUM unit.
+ * https://www.hl7.org/fhir/R4/datatypes.html#Quantity
+ */
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+/**
+ * The dimensions units are measured in: mass, length, time, amount of
+ * substance, temperature, equivalents and international units. Equivalents
+ * and international units depend on the substance measured, so they only
+ * convert to units of the same kind.
+ */
+const DIMENSION_COUNT = 7;
+const MASS = 0;
+const LENGTH = 1;
+const TIME = 2;
+const AMOUNT = 3;
+const TEMPERATURE = 4;
+const EQUIVALENTS = 5;
+const INTERNATIONAL_UNITS = 6;
+
+/**
+ * A unit, as a multiple of the base units of its dimensions. Temperatures in
+ * degrees Celsius and Fahrenheit also have an offset from zero, which is
+ * added before multiplying by the factor.
+ */
+interface Unit {
+  factor: number;
+  dimensions: number[];
+  offset?: number;
+}
+
+/**
+ * A unit that a UCUM unit string can be built from. Metric units can be
+ * prefixed, as in "mg" or "uL".
+ */
+interface Atom extends Unit {
+  metric: boolean;
+}
+
+function atom(
+    factor: number, dimensionExponents: Array<[number, number]>, metric = false,
+    offset?: number): Atom {
+  const dimensions = new Array(DIMENSION_COUNT).fill(0);
+  for (const [dimension, exponent] of dimensionExponents) {
+    dimensions[dimension] = exponent;
+  }
+  return {
+    factor: factor,
+    dimensions: dimensions,
+    metric: metric,
+    offset: offset
+  };
+}
+
+/**
+ * The UCUM units we know how to convert between, in terms of grams, meters,
+ * seconds, moles and kelvins.
+ * http://unitsofmeasure.org/ucum.html
+ */
+const ATOMS = new Map<string, Atom>([
+  ['g', atom(1, [[MASS, 1]], true)],
+  ['m', atom(1, [[LENGTH, 1]], true)],
+  ['L', atom(1e-3, [[LENGTH, 3]], true)],
+  ['l', atom(1e-3, [[LENGTH, 3]], true)],
+  ['s', atom(1, [[TIME, 1]], true)],
+  ['min', atom(60, [[TIME, 1]])],
+  ['h', atom(3600, [[TIME, 1]])],
+  ['d', atom(86400, [[TIME, 1]])],
+  ['wk', atom(604800, [[TIME, 1]])],
+  ['mol', atom(1, [[AMOUNT, 1]], true)],
+  ['eq', atom(1, [[EQUIVALENTS, 1]], true)],
+  ['[IU]', atom(1, [[INTERNATIONAL_UNITS, 1]], true)],
+  // An enzyme unit is a micromole per minute.
+  ['U', atom(1e-6 / 60, [[AMOUNT, 1], [TIME, -1]], true)],
+  ['%', atom(0.01, [])],
+  ['Pa', atom(1000, [[MASS, 1], [LENGTH, -1], [TIME, -2]], true)],
+  ['bar', atom(1e8, [[MASS, 1], [LENGTH, -1], [TIME, -2]], true)],
+  ['m[Hg]', atom(133322387.415, [[MASS, 1], [LENGTH, -1], [TIME, -2]], true)],
+  ['[lb_av]', atom(453.59237, [[MASS, 1]])],
+  ['[oz_av]', atom(28.349523125, [[MASS, 1]])],
+  ['[in_i]', atom(0.0254, [[LENGTH, 1]])],
+  ['[ft_i]', atom(0.3048, [[LENGTH, 1]])],
+  ['K', atom(1, [[TEMPERATURE, 1]])],
+  ['Cel', atom(1, [[TEMPERATURE, 1]], false, 273.15)],
+  ['[degF]', atom(5 / 9, [[TEMPERATURE, 1]], false, 459.67)],
+]);
+
+/**
+ * The UCUM prefixes for metric units. "u" stands for micro.
+ */
+const PREFIXES = new Map<string, number>([
+  ['G', 1e9],
+  ['M', 1e6],
+  ['k', 1e3],
+  ['h', 1e2],
+  ['da', 1e1],
+  ['d', 1e-1],
+  ['c', 1e-2],
+  ['m', 1e-3],
+  ['u', 1e-6],
+  ['n', 1e-9],
+  ['p', 1e-12],
+  ['f', 1e-15],
+]);
+
+/**
+ * Unit strings found in EHRs that are not UCUM, mapped to the UCUM units
+ * they stand for.
+ */
+const UNIT_ALIASES = new Map<string, string>([
+  ['mmHg', 'mm[Hg]'],      ['mm Hg', 'mm[Hg]'],
+  ['°C', 'Cel'],           ['C', 'Cel'],
+  ['degC', 'Cel'],         ['DegC', 'Cel'],
+  ['Deg C', 'Cel'],        ['°F', '[degF]'],
+  ['F', '[degF]'],         ['degF', '[degF]'],
+  ['DegF', '[degF]'],      ['Deg F', '[degF]'],
+  ['lb', '[lb_av]'],       ['lbs', '[lb_av]'],
+  ['oz', '[oz_av]'],       ['in', '[in_i]'],
+  ['bpm', '/min'],         ['beats/min', '/min'],
+  ['breaths/min', '/min'],
+]);
+
+/**
+ * How we display UCUM units that are written differently from how clinicians
+ * are used to reading them.
+ */
+const DISPLAY_UNITS = new Map<string, string>([
+  ['Cel', 'Deg C'],
+  ['[degF]', 'Deg F'],
+  ['mm[Hg]', 'mmHg'],
+  ['[lb_av]', 'lb'],
+  ['[oz_av]', 'oz'],
+  ['[in_i]', 'in'],
+  ['[IU]', 'IU'],
+  ['ug', 'mcg'],
+  ['mL/min/{1.73_m2}', 'mL/min/1.73m2'],
+]);
+
+/**
+ * Converts a unit as it is written in an EHR to a UCUM unit, where we know
+ * how. For example, "mcg/kg" becomes "ug/kg" and "mmHg" becomes "mm[Hg]".
+ * @param unit The unit to convert.
+ * @returns The UCUM unit, or the unit as it was if we do not know it.
+ */
+export function toUcum(unit: string): string {
+  if (!unit) {
+    return undefined;
+  }
+  const trimmed = unit.trim();
+  if (UNIT_ALIASES.has(trimmed)) {
+    return UNIT_ALIASES.get(trimmed);
+  }
+  return trimmed.replace(/mcg/g, 'ug')
+      .replace(/[µμ]/g, 'u')
+      .replace(/micro/g, 'u')
+      .replace(/Eq/g, 'eq')
+      .replace(/(^|[^\[])IU/g, '$1[IU]')
+      .replace(/\bhr\b/g, 'h');
+}
+
+/**
+ * Gets how to display a UCUM unit.
+ * @param unit The UCUM unit.
+ */
+export function displayUnit(unit: string): string {
+  return DISPLAY_UNITS.has(unit) ? DISPLAY_UNITS.get(unit) : unit;
+}
+
+/**
+ * Whether a value can be converted from one unit to another.
+ * @param from The unit the value is in.
+ * @param to The unit to convert the value to.
+ * @param molarMass The molar mass of the substance measured, in grams per
+ *     mole, to convert between mass and amount of substance.
+ */
+export function canConvert(
+    from: string, to: string, molarMass?: number): boolean {
+  return conversion(from, to, molarMass) !== undefined;
+}
+
+/**
+ * Converts a value from one unit to another.
+ * @param value The value to convert.
+ * @param from The unit the value is in, in UCUM or as written in an EHR.
+ * @param to The unit to convert the value to.
+ * @param molarMass The molar mass of the substance measured, in grams per
+ *     mole, to convert between mass and amount of substance, such as from
+ *     mg/dL to umol/L.
+ * @throws Error if the units measure different things, or we do not know
+ *     one of them.
+ */
+export function convertUnit(
+    value: number, from: string, to: string, molarMass?: number): number {
+  const convert = conversion(from, to, molarMass);
+  if (!convert) {
+    throw Error('Cannot convert from ' + from + ' to ' + to + '.');
+  }
+  return convert(value);
+}
+
+/**
+ * Rounds a converted value to as many significant digits as the value it was
+ * converted from, and no fewer than three, so that conversion factors do not
+ * make the value look more precise than it was measured.
+ * @param value The converted value.
+ * @param original The value it was converted from.
+ */
+export function roundLike(value: number, original: number): number {
+  const significantDigits =
+      original.toString().replace(/[-.]/g, '').replace(/^0+/, '').length;
+  return Number(value.toPrecision(Math.max(3, significantDigits)));
+}
+
+/**
+ * Finds how to convert values from one unit to another.
+ * @returns A function converting a value, or undefined if the units cannot be
+ *     converted.
+ */
+function conversion(
+    from: string, to: string, molarMass?: number): (value: number) => number {
+  const fromUcum = toUcum(from);
+  const toUcumUnit = toUcum(to);
+  if (fromUcum === toUcumUnit) {
+    return value => value;
+  }
+  if (!fromUcum || !toUcumUnit) {
+    return undefined;
+  }
+  const fromUnit = parseUnit(fromUcum);
+  const toUnit = parseUnit(toUcumUnit);
+  if (!fromUnit || !toUnit) {
+    return undefined;
+  }
+  const difference = fromUnit.dimensions.map(
+      (exponent, dimension) => exponent - toUnit.dimensions[dimension]);
+  let factor = fromUnit.factor / toUnit.factor;
+  if (difference.some(exponent => exponent !== 0)) {
+    // Grams convert to moles by dividing by the molar mass, so a unit with
+    // one more gram and one less mole divides by the molar mass once.
+    const massDifference = difference[MASS];
+    const convertsByMolarMass = molarMass && massDifference !== 0 &&
+        massDifference === -difference[AMOUNT] &&
+        difference.every(
+            (exponent, dimension) =>
+                dimension === MASS || dimension === AMOUNT || exponent === 0);
+    if (!convertsByMolarMass) {
+      return undefined;
+    }
+    factor = factor / Math.pow(molarMass, massDifference);
+  }
+  const fromOffset = fromUnit.offset || 0;
+  const toOffset = toUnit.offset || 0;
+  return value => (value + fromOffset) * factor - toOffset;
+}
+
+/**
+ * Parses a UCUM unit such as "mg/dL", "10*3/uL" or "mL/kg/h". Annotations in
+ * curly braces, such as "{cells}", are ignored.
+ * @param unit The UCUM unit.
+ * @returns The unit, or undefined if it uses units we do not know.
+ */
+function parseUnit(unit: string): Unit {
+  // A unit that is only an annotation, such as "{ratio}", is a plain number.
+  const stripped = unit.replace(/\{[^}]*\}/g, '') || '1';
+  const terms =
+      splitTerms(stripped.startsWith('/') ? '1' + stripped : stripped);
+  if (!terms) {
+    return undefined;
+  }
+  const result:
+      Unit = {factor: 1, dimensions: new Array(DIMENSION_COUNT).fill(0)};
+  for (const term of terms) {
+    const parsed = parseTerm(term.text);
+    if (!parsed) {
+      return undefined;
+    }
+    if (parsed.offset !== undefined) {
+      // Degrees Celsius and Fahrenheit cannot be combined with other units,
+      // as their zero is not at zero kelvin.
+      if (terms.length > 1 || term.divide) {
+        return undefined;
+      }
+      result.offset = parsed.offset;
+    }
+    const sign = term.divide ? -1 : 1;
+    result.factor *= Math.pow(parsed.factor, sign);
+    parsed.dimensions.forEach(
+        (exponent, dimension) => result.dimensions[dimension] +=
+        sign * exponent);
+  }
+  return result;
+}
+
+/**
+ * Splits a UCUM unit into the terms that are multiplied together, such as
+ * "mg", "/" "dL". Operators inside square brackets are part of the term.
+ * @returns The terms, or undefined if the unit is empty or has parentheses,
+ *     which we do not support.
+ */
+function splitTerms(unit: string): Array<{text: string, divide: boolean}> {
+  if (!unit || unit.includes('(')) {
+    return undefined;
+  }
+  const terms = [];
+  let current = '';
+  let divide = false;
+  let depth = 0;
+  for (const char of unit) {
+    if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    }
+    if (depth === 0 && (char === '.' || char === '/')) {
+      terms.push({text: current, divide: divide});
+      current = '';
+      divide = char === '/';
+    } else {
+      current += char;
+    }
+  }
+  terms.push({text: current, divide: divide});
+  return terms.every(term => term.text.length > 0) ? terms : undefined;
+}
+
+/**
+ * Parses a single UCUM term, such as "mg", "m2", "10*3" or "mm[Hg]".
+ */
+function parseTerm(term: string): Unit {
+  const power = term.match(/^(\d+)[*^](-?\d+)$/);
+  if (power) {
+    return {
+      factor: Math.pow(parseFloat(power[1]), parseFloat(power[2])),
+      dimensions: new Array(DIMENSION_COUNT).fill(0)
+    };
+  }
+  if (/^\d+$/.test(term)) {
+    return {
+      factor: parseFloat(term),
+      dimensions: new Array(DIMENSION_COUNT).fill(0)
+    };
+  }
+  const withExponent = term.match(/^(.*?[^\d-])(-?\d+)?$/);
+  if (!withExponent) {
+    return undefined;
+  }
+  const symbol = findAtom(withExponent[1]);
+  if (!symbol) {
+    return undefined;
+  }
+  const exponent = withExponent[2] ? parseFloat(withExponent[2]) : 1;
+  if (symbol.offset !== undefined && exponent !== 1) {
+    return undefined;
+  }
+  return {
+    factor: Math.pow(symbol.factor, exponent),
+    dimensions: symbol.dimensions.map(dimension => dimension * exponent),
+    offset: symbol.offset
+  };
+}
+
+/**
+ * Finds a unit by its symbol, which may start with a prefix if the unit is
+ * metric. Symbols without a prefix take precedence, so that "min" is a minute
+ * rather than a milli-inch.
+ */
+function findAtom(symbol: string): Atom {
+  if (ATOMS.has(symbol)) {
+    return ATOMS.get(symbol);
+  }
+  for (const [prefix, multiplier] of Array.from(PREFIXES.entries())) {
+    const unprefixed = ATOMS.get(symbol.slice(prefix.length));
+    if (symbol.startsWith(prefix) && unprefixed && unprefixed.metric) {
+      return {...unprefixed, factor: unprefixed.factor * multiplier};
+    }
+  }
+  return undefined;
+}
@@ -14,9 +14,12 @@ export enum FhirResourceType {
   Observation = 'Observation',
   MedicationAdministration = 'MedicationAdministration',
   MedicationOrder = 'MedicationOrder',
+  MedicationRequest = 'MedicationRequest',
   DocumentReference = 'DocumentReference',
   Patient = 'Patient',
   Specimen = 'Specimen',
   Medication = 'Medication',
-  DiagnosticReport = 'DiagnosticReport'
+  DiagnosticReport = 'DiagnosticReport',
+  Bundle = 'Bundle',
+  ConceptMap = 'ConceptMap'
 }
@@ -13,7 +13,22 @@ export const environment = {
   useMockServer: false,
   mockDataFolder: '',
   mockDataFiles: [],
+  mockDataFromSynthea: false,
+  recordFhirSession: false,
   useDebugger: false,
+  // The catalogue of cards, loaded when the app starts.
+  conceptConfigUrl: 'assets/clinical-concepts.json',
+  // A site's ConceptMap, or Bundle of ConceptMaps, mapping its codes onto
+  // the cards' LOINC codes, loaded when the app starts in addition to the
+  // ConceptMap shipped with the app.
+  conceptMapUrl: '',
+  // A site's table of the RxNorm products, such as clinical drugs, that
+  // medications may be coded as, with their ingredients, loaded when the app
+  // starts. See src/app/clinicalconcepts/rx-norm-ingredients.ts.
+  rxNormIngredientsUrl: '',
+  // A site's table of medication classes and the medications in them, loaded
+  // when the app starts in addition to the table shipped with the app.
+  medicationClassesUrl: '',
 };
 
 /*